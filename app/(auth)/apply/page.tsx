@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Form,
+  Image as HeroImage,
+  Input,
+  Link,
+  Textarea,
+} from "@heroui/react";
+import { addToast } from "@heroui/toast";
+
+const emptyForm = {
+  first_name: "",
+  last_name: "",
+  email: "",
+  phone: "",
+  brokerage: "",
+  market: "",
+  promotion_plan: "",
+  website: "",
+};
+
+export default function ApplyPage() {
+  const [form, setForm] = useState(emptyForm);
+  const [loading, setLoading] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  const field = (name: keyof typeof emptyForm) => ({
+    value: form[name],
+    onValueChange: (value: string) =>
+      setForm((prev) => ({ ...prev, [name]: value })),
+  });
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const res = await fetch("/api/applications", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const json = await res.json();
+
+      if (!res.ok)
+        throw new Error(json.error || "Failed to submit application");
+      setSubmitted(true);
+    } catch (error) {
+      addToast({
+        title: "Application not submitted",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/10 to-white flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center justify-center pb-2 mb-4">
+          <div className="flex flex-col items-center gap-2">
+            <div className="w-12 h-12 bg-primary rounded-full flex items-center justify-center">
+              <HeroImage
+                alt="Virtual Xposure Logo"
+                height={48}
+                src="https://storage.googleapis.com/msgsndr/6mf1vLiHQTtwiHYT2ZIP/media/6700d525ab8aa65e4371b897.png"
+                width={48}
+              />
+            </div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Become an Affiliate
+            </h1>
+            <p className="text-gray-600">
+              Tell us about yourself and we&apos;ll review your application
+            </p>
+          </div>
+        </CardHeader>
+
+        <CardBody className="pt-0">
+          {submitted ? (
+            <div className="text-center space-y-3 py-4">
+              <h2 className="text-lg font-semibold">Thanks for applying!</h2>
+              <p className="text-sm text-gray-600">
+                We&apos;ll email {form.email} once your application has been
+                reviewed. Approved affiliates get a link to set their password.
+              </p>
+              <Link className="text-sm" href="/auth" underline="hover">
+                Back to sign in
+              </Link>
+            </div>
+          ) : (
+            <Form className="space-y-2" onSubmit={handleSubmit}>
+              <div className="flex gap-2 w-full">
+                <Input
+                  isRequired
+                  label="First name"
+                  maxLength={80}
+                  {...field("first_name")}
+                />
+                <Input
+                  isRequired
+                  label="Last name"
+                  maxLength={80}
+                  {...field("last_name")}
+                />
+              </div>
+              <Input
+                isRequired
+                label="Email"
+                type="email"
+                {...field("email")}
+              />
+              <Input label="Phone" type="tel" {...field("phone")} />
+              <Input
+                isRequired
+                label="Brokerage"
+                maxLength={120}
+                {...field("brokerage")}
+              />
+              <Input
+                isRequired
+                label="Market"
+                maxLength={120}
+                placeholder="e.g. Austin, TX"
+                {...field("market")}
+              />
+              <Textarea
+                isRequired
+                label="How will you promote Virtual Xposure?"
+                maxLength={2000}
+                placeholder="Your audience, channels (social, email, your team) and expected volume"
+                {...field("promotion_plan")}
+              />
+              {/* Honeypot: hidden from people, filled in by bots */}
+              <input
+                aria-hidden="true"
+                autoComplete="off"
+                className="hidden"
+                name="website"
+                tabIndex={-1}
+                value={form.website}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, website: e.target.value }))
+                }
+              />
+              <Button
+                className="w-full"
+                color="primary"
+                isLoading={loading}
+                type="submit"
+              >
+                Submit Application
+              </Button>
+              <p className="text-sm text-gray-500 text-center w-full">
+                Already an affiliate?{" "}
+                <Link className="text-sm" href="/auth" underline="hover">
+                  Sign in
+                </Link>
+              </p>
+            </Form>
+          )}
+        </CardBody>
+      </Card>
+    </div>
+  );
+}
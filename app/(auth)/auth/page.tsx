@@ -26,6 +26,9 @@ function AuthPageContent() {
   const [loading, setLoading] = useState(false);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  // Second step for accounts with two-factor authentication
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState("");
   const [resetEmail, setResetEmail] = useState("");
   const searchParams = useSearchParams();
   const error = searchParams.get("error");
@@ -41,6 +44,13 @@ function AuthPageContent() {
           "Your account is not approved. Please contact an administrator.",
         color: "danger",
       });
+    } else if (error === "two-factor") {
+      addToast({
+        title: "Use your password",
+        description:
+          "Email sign-in links can't be used with two-factor authentication.",
+        color: "warning",
+      });
     }
   }, [error]);
 
@@ -60,15 +70,30 @@ function AuthPageContent() {
       const res = await signIn("credentials", {
         email,
         password,
+        code: needsCode ? code : "",
         redirect: false,
       });
 
+      // Error codes from authorize() in lib/nextauth.ts
+      if (res?.error === "TwoFactorRequired") {
+        setNeedsCode(true);
+        return;
+      }
       if (res?.error) {
         addToast({
           title: "Sign In Failed",
-          description: "Invalid email or password",
+          // 429s carry the rate limit message from the sign-in route
+          description:
+            res.status === 429
+              ? res.error
+              : !needsCode
+                ? "Invalid email or password"
+                : res.error === "TwoFactorInvalid"
+                  ? "That code didn't work. Try a new one."
+                  : res.error,
           color: "danger",
         });
+        setCode("");
         return;
       }
 
@@ -97,7 +122,7 @@ function AuthPageContent() {
     console.log("Password reset form submitted");
     setLoading(true);
     try {
-             // Use server endpoint that validates email existence before sending
+             // The server answers the same for unknown emails, so don't claim the email was found
              const res = await fetch("/api/auth/password-reset/request", {
                method: "POST",
                headers: { "Content-Type": "application/json" },
@@ -105,12 +130,13 @@ function AuthPageContent() {
              });
 
              if (!res.ok) {
-               const text = await res.text();
-               throw new Error(text || "Failed to send reset email");
+               const json = await res.json().catch(() => null);
+               throw Object.assign(new Error(json?.error || "Failed to send reset email"), { status: res.status });
              }
 
       addToast({
-        title: "Password reset email sent! Check your inbox.",
+        title: "Check your inbox",
+        description: "If an account exists for that email, we've sent a password reset link.",
         color: "success",
       });
       setShowResetForm(false);
@@ -120,18 +146,12 @@ function AuthPageContent() {
       console.error("Password reset error:", error);
       
       // Handle rate limit error specifically
-      if (error.message?.includes("rate limit")) {
+      if (error.status === 429) {
         addToast({
-          title: "Rate limit exceeded",
-          description: "Please wait about an hour before requesting another reset email.",
+          title: "Too many reset requests",
+          description: error.message,
           color: "warning",
         });
-             } else if (error.message?.toLowerCase().includes("no account")) {
-               addToast({
-                 title: "No account found",
-                 description: "There is no user with that email.",
-                 color: "danger",
-               });
       } else {
         addToast({
           title: error.message || "Failed to send reset email",
@@ -178,7 +198,41 @@ function AuthPageContent() {
 
         <CardBody className="pt-0">
           <div className="space-y-4">
-            {showEmailForm ? (
+            {showEmailForm && needsCode ? (
+              <Form onSubmit={handleEmailSignIn} className="space-y-2">
+                <p className="text-sm text-gray-600">
+                  Enter the 6-digit code from your authenticator app, or one of
+                  your recovery codes.
+                </p>
+                <Input
+                  autoComplete="one-time-code"
+                  label="Authentication code"
+                  value={code}
+                  onValueChange={setCode}
+                  isRequired
+                />
+                <Button
+                  type="submit"
+                  color="primary"
+                  className="w-full"
+                  isLoading={loading}
+                >
+                  Verify
+                </Button>
+                <Button
+                  type="button"
+                  color="default"
+                  variant="light"
+                  className="w-full"
+                  onPress={() => {
+                    setNeedsCode(false);
+                    setCode("");
+                  }}
+                >
+                  Back to Sign In
+                </Button>
+              </Form>
+            ) : showEmailForm ? (
               <Form onSubmit={handleEmailSignIn} className="space-y-2">
                 <Input
                   type="email"
@@ -261,9 +315,7 @@ function AuthPageContent() {
                 Your credentials are securely stored for convenience
               </p>
               <Link
-                href="https://api.leadconnectorhq.com/widget/form/1R5iyXWWm6IgKBpqZffb"
-                target="_blank"
-                rel="noopener noreferrer"
+                href="/apply"
                 color="primary"
                 underline="hover"
                 className="text-sm"
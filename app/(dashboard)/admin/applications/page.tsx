@@ -0,0 +1,386 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Snippet,
+  Spinner,
+  Tab,
+  Tabs,
+  Textarea,
+} from "@heroui/react";
+import { addToast } from "@heroui/toast";
+
+type ApplicationStatus = "pending" | "approved" | "rejected";
+
+interface Application {
+  id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone: string | null;
+  brokerage: string;
+  market: string;
+  promotion_plan: string;
+  status: ApplicationStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  rejection_reason: string | null;
+  created_at: string;
+}
+
+const statusColors: Record<
+  ApplicationStatus,
+  "warning" | "success" | "danger"
+> = {
+  pending: "warning",
+  approved: "success",
+  rejected: "danger",
+};
+
+export default function ApplicationsPage() {
+  const [statusFilter, setStatusFilter] = useState<ApplicationStatus | "all">(
+    "pending",
+  );
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<Application | null>(null);
+  const [reason, setReason] = useState("");
+  const [inviteLink, setInviteLink] = useState<{
+    email: string;
+    link: string;
+  } | null>(null);
+
+  const loadApplications = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `/api/admin/applications?status=${statusFilter}`,
+        {
+          cache: "no-store",
+        },
+      );
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json.error || "Failed to load applications");
+      setApplications(json.applications || []);
+    } catch (error) {
+      addToast({
+        title: "Failed to load applications",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadApplications();
+  }, [statusFilter]);
+
+  const replace = (updated: Application) => {
+    setApplications((prev) =>
+      statusFilter === "all"
+        ? prev.map((a) => (a.id === updated.id ? updated : a))
+        : prev.filter((a) => a.id !== updated.id),
+    );
+  };
+
+  const handleApprove = async (application: Application) => {
+    setBusyId(application.id);
+    try {
+      const res = await fetch(
+        `/api/admin/applications/${application.id}/approve`,
+        {
+          method: "POST",
+        },
+      );
+      const json = await res.json();
+
+      if (!res.ok)
+        throw new Error(json.details || json.error || "Failed to approve");
+      replace(json.application);
+
+      if (json.invite?.sent) {
+        addToast({
+          title: "Application approved",
+          description: `Invite emailed to ${application.email}`,
+          color: "success",
+        });
+      } else if (json.invite?.link) {
+        setInviteLink({ email: application.email, link: json.invite.link });
+      } else {
+        addToast({
+          title: "Approved, but the invite failed",
+          description:
+            json.invite_error || "Ask the affiliate to use Forgot password",
+          color: "warning",
+        });
+      }
+    } catch (error) {
+      addToast({
+        title: "Failed to approve application",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async (onClose: () => void) => {
+    if (!rejecting) return;
+    setBusyId(rejecting.id);
+    try {
+      const res = await fetch(
+        `/api/admin/applications/${rejecting.id}/reject`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ reason }),
+        },
+      );
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json.error || "Failed to reject");
+      replace(json.application);
+      addToast({ title: "Application rejected", color: "success" });
+      onClose();
+    } catch (error) {
+      addToast({
+        title: "Failed to reject application",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const filtered = applications.filter(
+    (a) =>
+      !term ||
+      [a.email, a.first_name, a.last_name, a.brokerage, a.market].some((v) =>
+        v.toLowerCase().includes(term),
+      ),
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Applications</h1>
+        <p className="text-gray-600 mt-2">
+          Applications from the public form at /apply. Approving creates the
+          affiliate account and emails them a link to set their password.
+        </p>
+      </div>
+
+      <Tabs
+        selectedKey={statusFilter}
+        onSelectionChange={(key) =>
+          setStatusFilter(key as ApplicationStatus | "all")
+        }
+      >
+        <Tab key="pending" title="Pending" />
+        <Tab key="approved" title="Approved" />
+        <Tab key="rejected" title="Rejected" />
+        <Tab key="all" title="All" />
+      </Tabs>
+
+      <Input
+        className="max-w-md"
+        placeholder="Search by name, email, brokerage or market"
+        value={search}
+        variant="bordered"
+        onValueChange={setSearch}
+      />
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Spinner size="lg" />
+        </div>
+      ) : filtered.length === 0 ? (
+        <Card>
+          <CardBody className="text-center py-8">
+            <p className="text-gray-500">No applications</p>
+          </CardBody>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {filtered.map((application) => (
+            <Card key={application.id}>
+              <CardBody>
+                <div className="flex flex-col md:flex-row gap-4 md:items-start md:justify-between">
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-center gap-3">
+                      <h3 className="font-semibold text-lg">
+                        {application.first_name} {application.last_name}
+                      </h3>
+                      <Chip
+                        color={statusColors[application.status]}
+                        size="sm"
+                        variant="flat"
+                      >
+                        {application.status}
+                      </Chip>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm text-gray-600">
+                      <div>
+                        <span className="font-medium">Email:</span>
+                        <div>{application.email}</div>
+                        {application.phone && <div>{application.phone}</div>}
+                      </div>
+                      <div>
+                        <span className="font-medium">Brokerage:</span>
+                        <div>{application.brokerage}</div>
+                      </div>
+                      <div>
+                        <span className="font-medium">Market:</span>
+                        <div>{application.market}</div>
+                      </div>
+                      <div>
+                        <span className="font-medium">Applied:</span>
+                        <div>
+                          {new Date(
+                            application.created_at,
+                          ).toLocaleDateString()}
+                        </div>
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                      <span className="font-medium">Promotion plan:</span>{" "}
+                      {application.promotion_plan}
+                    </p>
+                    {application.reviewed_at && (
+                      <p className="text-xs text-gray-500">
+                        {application.status === "rejected"
+                          ? "Rejected"
+                          : "Approved"}{" "}
+                        {new Date(application.reviewed_at).toLocaleDateString()}
+                        {application.reviewed_by
+                          ? ` by ${application.reviewed_by}`
+                          : ""}
+                        {application.rejection_reason
+                          ? ` — ${application.rejection_reason}`
+                          : ""}
+                      </p>
+                    )}
+                  </div>
+                  {application.status === "pending" && (
+                    <div className="flex md:flex-col gap-2">
+                      <Button
+                        color="primary"
+                        isDisabled={
+                          busyId !== null && busyId !== application.id
+                        }
+                        isLoading={busyId === application.id}
+                        size="sm"
+                        onPress={() => handleApprove(application)}
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        color="danger"
+                        isDisabled={busyId !== null}
+                        size="sm"
+                        variant="flat"
+                        onPress={() => {
+                          setReason("");
+                          setRejecting(application);
+                        }}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardBody>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Modal
+        isOpen={!!rejecting}
+        onOpenChange={(open) => !open && setRejecting(null)}
+      >
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader>
+                Reject {rejecting?.first_name} {rejecting?.last_name}
+              </ModalHeader>
+              <ModalBody>
+                <Textarea
+                  description="Kept for staff only; the applicant isn't notified"
+                  label="Reason"
+                  maxLength={2000}
+                  value={reason}
+                  variant="bordered"
+                  onValueChange={setReason}
+                />
+              </ModalBody>
+              <ModalFooter>
+                <Button variant="bordered" onPress={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  color="danger"
+                  isLoading={busyId === rejecting?.id}
+                  onPress={() => handleReject(onClose)}
+                >
+                  Reject
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+
+      <Modal
+        isOpen={!!inviteLink}
+        onOpenChange={(open) => !open && setInviteLink(null)}
+      >
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader>Send the invite link</ModalHeader>
+              <ModalBody>
+                <p className="text-sm text-gray-600">
+                  The account for {inviteLink?.email} was created, but email
+                  isn&apos;t configured. Send them this one-time link to set
+                  their password.
+                </p>
+                <Snippet
+                  hideSymbol
+                  className="w-full"
+                  classNames={{ pre: "truncate" }}
+                >
+                  {inviteLink?.link}
+                </Snippet>
+              </ModalBody>
+              <ModalFooter>
+                <Button color="primary" onPress={onClose}>
+                  Done
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  Input,
+  Select,
+  SelectItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+} from "@heroui/react";
+import { Download } from "lucide-react";
+import { addToast } from "@heroui/toast";
+
+import {
+  AUDIT_ACTIONS,
+  auditActionLabel,
+  AuditEvent,
+  describeAuditChanges,
+} from "@/lib/audit-events";
+
+const emptyFilters = { q: "", action: "", from: "", to: "" };
+
+export default function AuditLogPage() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [filters, setFilters] = useState(emptyFilters);
+  const [applied, setApplied] = useState(emptyFilters);
+  const [loading, setLoading] = useState(true);
+
+  const queryString = (
+    f: typeof emptyFilters,
+    extra: Record<string, string> = {},
+  ) => {
+    const params = new URLSearchParams(extra);
+
+    Object.entries(f).forEach(([key, value]) => {
+      if (value.trim()) params.set(key, value.trim());
+    });
+
+    return params.toString();
+  };
+
+  const loadEvents = async (f: typeof emptyFilters) => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/audit?${queryString(f)}`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json.error || "Failed to load audit log");
+      setEvents(json.events || []);
+      setApplied(f);
+    } catch (error) {
+      addToast({
+        title: "Failed to load audit log",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEvents(emptyFilters);
+  }, []);
+
+  const setFilter = (key: keyof typeof emptyFilters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-600 mt-2">
+          Security, referral code and profile changes by users, and user, role
+          and two-factor changes by staff. Events can&apos;t be edited or
+          deleted.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3 flex flex-col gap-4 items-start">
+          <div className="flex flex-col md:flex-row gap-4 md:items-end w-full">
+            <Input
+              className="md:max-w-xs"
+              label="Search"
+              placeholder="Email, IP or user ID"
+              value={filters.q}
+              variant="bordered"
+              onKeyDown={(e) => e.key === "Enter" && loadEvents(filters)}
+              onValueChange={(value) => setFilter("q", value)}
+            />
+            <Select
+              className="md:max-w-xs"
+              label="Action"
+              selectedKeys={filters.action ? [filters.action] : []}
+              variant="bordered"
+              onSelectionChange={(keys) =>
+                setFilter("action", String(Array.from(keys)[0] || ""))
+              }
+            >
+              {AUDIT_ACTIONS.map((a) => (
+                <SelectItem key={a.action}>{a.label}</SelectItem>
+              ))}
+            </Select>
+            <Input
+              className="md:max-w-[11rem]"
+              label="From"
+              type="date"
+              value={filters.from}
+              variant="bordered"
+              onValueChange={(value) => setFilter("from", value)}
+            />
+            <Input
+              className="md:max-w-[11rem]"
+              label="To"
+              type="date"
+              value={filters.to}
+              variant="bordered"
+              onValueChange={(value) => setFilter("to", value)}
+            />
+            <Button
+              isLoading={loading}
+              variant="flat"
+              onPress={() => loadEvents(filters)}
+            >
+              Search
+            </Button>
+            <Button
+              as="a"
+              href={`/api/admin/audit?${queryString(applied, { format: "csv" })}`}
+              startContent={<Download size={16} />}
+              variant="bordered"
+            >
+              Export CSV
+            </Button>
+          </div>
+          <p className="text-sm text-gray-600">
+            Showing the newest {events.length} matching events. The export
+            includes up to 10,000.
+          </p>
+        </CardHeader>
+        <CardBody>
+          <Table aria-label="Audit events">
+            <TableHeader>
+              <TableColumn>Time</TableColumn>
+              <TableColumn>Action</TableColumn>
+              <TableColumn>Actor</TableColumn>
+              <TableColumn>Target</TableColumn>
+              <TableColumn>IP</TableColumn>
+              <TableColumn>Changes</TableColumn>
+            </TableHeader>
+            <TableBody emptyContent="No events recorded">
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(event.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <Chip size="sm" variant="flat">
+                      {auditActionLabel(event.action)}
+                    </Chip>
+                  </TableCell>
+                  <TableCell>
+                    {event.actor_email || event.actor_id || "—"}
+                  </TableCell>
+                  <TableCell>
+                    {event.target_user_id === event.actor_id
+                      ? "self"
+                      : event.target_email || event.target_user_id || "—"}
+                  </TableCell>
+                  <TableCell className="font-mono">{event.ip || "—"}</TableCell>
+                  <TableCell>
+                    {describeAuditChanges(event.changes).map((line) => (
+                      <div key={line} className="text-xs break-all">
+                        {line}
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardBody>
+      </Card>
+    </div>
+  );
+}
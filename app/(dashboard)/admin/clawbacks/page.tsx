@@ -0,0 +1,352 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  Input,
+  Select,
+  SelectItem,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+  Textarea,
+} from "@heroui/react";
+import { addToast } from "@heroui/toast";
+
+import { formatDateDisplayMDT } from "@/lib/auth";
+
+interface UserOption {
+  user_id: string;
+  user_email: string;
+  first_name: string;
+  last_name: string;
+}
+
+interface Adjustment {
+  id: string;
+  user_id: string;
+  day: string;
+  event_type: "reversal" | "clawback";
+  amount: number;
+  description: string | null;
+  reason: string | null;
+  created_by: string | null;
+  reverses_line_item_id: string | null;
+  created_at: string;
+}
+
+const formatMoney = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+
+export default function ClawbacksPage() {
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [adjustments, setAdjustments] = useState<Adjustment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    user_id: "",
+    amount: "",
+    day: "",
+    reason: "",
+    line_item_id: "",
+  });
+  const [refundWindow, setRefundWindow] = useState("90");
+  const [savingWindow, setSavingWindow] = useState(false);
+
+  const loadAdjustments = async () => {
+    const res = await fetch("/api/admin/clawbacks", { cache: "no-store" });
+    const json = await res.json();
+
+    if (!res.ok) throw new Error(json.error || "Failed to load adjustments");
+    setAdjustments(json.adjustments || []);
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [usersRes, settingsRes] = await Promise.all([
+          fetch("/api/admin/users", { cache: "no-store" }),
+          fetch("/api/admin/settings/clawback", { cache: "no-store" }),
+          loadAdjustments(),
+        ]);
+
+        if (usersRes.ok) setUsers((await usersRes.json()).users || []);
+        if (settingsRes.ok) {
+          setRefundWindow(
+            String((await settingsRes.json()).refund_window_days),
+          );
+        }
+      } catch (error) {
+        addToast({
+          title: "Failed to load clawbacks",
+          description: error instanceof Error ? error.message : "Unknown error",
+          color: "danger",
+        });
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const userLabel = (userId: string) => {
+    const user = users.find((u) => u.user_id === userId);
+
+    return user ? `${user.first_name} ${user.last_name}` : userId;
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/admin/clawbacks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          user_id: form.user_id,
+          amount: Number(form.amount),
+          reason: form.reason,
+          day: form.day || undefined,
+          line_item_id: form.line_item_id.trim() || undefined,
+        }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json.error || "Failed to create clawback");
+      addToast({
+        title: "Clawback recorded",
+        description: `${formatMoney(json.clawback.amount)} for ${userLabel(form.user_id)}`,
+        color: "success",
+      });
+      setForm({
+        user_id: form.user_id,
+        amount: "",
+        day: "",
+        reason: "",
+        line_item_id: "",
+      });
+      await loadAdjustments();
+    } catch (error) {
+      addToast({
+        title: "Failed to create clawback",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveWindow = async () => {
+    setSavingWindow(true);
+    try {
+      const res = await fetch("/api/admin/settings/clawback", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refund_window_days: Number(refundWindow) }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json.error || "Failed to save settings");
+      addToast({ title: "Refund window saved", color: "success" });
+    } catch (error) {
+      addToast({
+        title: "Failed to save refund window",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setSavingWindow(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">
+          Refunds &amp; Clawbacks
+        </h1>
+        <p className="text-gray-600 mt-2">
+          Refunds sent through the conversion webhook reverse the original
+          commission automatically. Use a manual clawback for anything else.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3 flex flex-col gap-2 items-start">
+          <h2 className="text-xl font-semibold">New Clawback</h2>
+          <p className="text-sm text-gray-600">
+            Recorded as a negative line item on the chosen day; it reduces that
+            day&apos;s earnings and the affiliate&apos;s balance owed.
+          </p>
+        </CardHeader>
+        <CardBody className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Select
+              isRequired
+              label="Affiliate"
+              selectedKeys={form.user_id ? [form.user_id] : []}
+              variant="bordered"
+              onSelectionChange={(keys) => {
+                const userId = Array.from(keys)[0] as string;
+
+                setForm((prev) => ({ ...prev, user_id: userId || "" }));
+              }}
+            >
+              {users.map((user) => (
+                <SelectItem key={user.user_id}>
+                  {`${user.first_name} ${user.last_name} (${user.user_email})`}
+                </SelectItem>
+              ))}
+            </Select>
+            <Input
+              isRequired
+              label="Amount"
+              min={0}
+              startContent={<span className="text-gray-500">$</span>}
+              step="0.01"
+              type="number"
+              value={form.amount}
+              variant="bordered"
+              onValueChange={(value) =>
+                setForm((prev) => ({ ...prev, amount: value }))
+              }
+            />
+            <Input
+              description="Defaults to today"
+              label="Date"
+              type="date"
+              value={form.day}
+              variant="bordered"
+              onValueChange={(value) =>
+                setForm((prev) => ({ ...prev, day: value }))
+              }
+            />
+          </div>
+          <Input
+            description="Optional. Caps the clawback at that commission and prevents reversing it twice."
+            label="Line item ID"
+            value={form.line_item_id}
+            variant="bordered"
+            onValueChange={(value) =>
+              setForm((prev) => ({ ...prev, line_item_id: value }))
+            }
+          />
+          <Textarea
+            isRequired
+            label="Reason"
+            minRows={2}
+            placeholder="e.g. Chargeback on order #1234"
+            value={form.reason}
+            variant="bordered"
+            onValueChange={(value) =>
+              setForm((prev) => ({ ...prev, reason: value }))
+            }
+          />
+          <Button
+            color="danger"
+            isDisabled={!form.user_id || !form.amount || !form.reason.trim()}
+            isLoading={saving}
+            onPress={handleCreate}
+          >
+            Record Clawback
+          </Button>
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3 flex flex-col gap-2 items-start">
+          <h2 className="text-xl font-semibold">Refund Window</h2>
+          <p className="text-sm text-gray-600">
+            Refunds received more than this many days after the sale keep their
+            commission.
+          </p>
+        </CardHeader>
+        <CardBody>
+          <div className="flex gap-4 items-end">
+            <Input
+              className="max-w-xs"
+              label="Window (days)"
+              max={730}
+              min={0}
+              type="number"
+              value={refundWindow}
+              variant="bordered"
+              onValueChange={setRefundWindow}
+            />
+            <Button
+              color="primary"
+              isLoading={savingWindow}
+              onPress={handleSaveWindow}
+            >
+              Save
+            </Button>
+          </div>
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <h2 className="text-xl font-semibold">Recent Adjustments</h2>
+        </CardHeader>
+        <CardBody>
+          <Table aria-label="Reversals and clawbacks">
+            <TableHeader>
+              <TableColumn>Date</TableColumn>
+              <TableColumn>Affiliate</TableColumn>
+              <TableColumn>Type</TableColumn>
+              <TableColumn>Amount</TableColumn>
+              <TableColumn>Reason</TableColumn>
+              <TableColumn>By</TableColumn>
+            </TableHeader>
+            <TableBody emptyContent="No reversals or clawbacks yet">
+              {adjustments.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>{formatDateDisplayMDT(item.day)}</TableCell>
+                  <TableCell>{userLabel(item.user_id)}</TableCell>
+                  <TableCell>
+                    <Chip
+                      color={
+                        item.event_type === "reversal" ? "warning" : "danger"
+                      }
+                      size="sm"
+                      variant="flat"
+                    >
+                      {item.event_type === "reversal" ? "refund" : "clawback"}
+                    </Chip>
+                  </TableCell>
+                  <TableCell className="text-red-600">
+                    {formatMoney(item.amount)}
+                  </TableCell>
+                  <TableCell>
+                    <div>{item.reason || "—"}</div>
+                    {item.description && (
+                      <div className="text-xs text-gray-400">
+                        {item.description}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{item.created_by || "webhook"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardBody>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Progress,
+  Spinner,
+} from "@heroui/react";
+import { addToast } from "@heroui/toast";
+
+type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+interface Job {
+  id: string;
+  name: string;
+  params: Record<string, any>;
+  status: JobStatus;
+  triggered_by: string;
+  retry_of: string | null;
+  total: number | null;
+  processed: number;
+  failed: number;
+  error: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+}
+
+interface JobType {
+  name: string;
+  label: string;
+}
+
+interface JobItemError {
+  item: string;
+  error: string;
+}
+
+const statusColors: Record<
+  JobStatus,
+  "default" | "primary" | "success" | "danger"
+> = {
+  queued: "default",
+  running: "primary",
+  succeeded: "success",
+  failed: "danger",
+};
+
+const formatDuration = (job: Job) => {
+  if (!job.started_at || !job.finished_at) return null;
+  const seconds = Math.round(
+    (new Date(job.finished_at).getTime() - new Date(job.started_at).getTime()) /
+      1000,
+  );
+
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export default function JobsPage() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [types, setTypes] = useState<JobType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<Job | null>(null);
+  const [errors, setErrors] = useState<JobItemError[] | null>(null);
+
+  const loadJobs = async () => {
+    try {
+      const res = await fetch("/api/admin/jobs", { cache: "no-store" });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json.error || "Failed to load jobs");
+      setJobs(json.jobs || []);
+      setTypes(json.types || []);
+    } catch (error) {
+      addToast({
+        title: "Failed to load jobs",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+  }, []);
+
+  const labelFor = (name: string) =>
+    types.find((t) => t.name === name)?.label || name;
+
+  const startJob = async (key: string, url: string, init: RequestInit) => {
+    setBusy(key);
+    try {
+      const res = await fetch(url, { method: "POST", ...init });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json.error || "Failed to start job");
+      const job = json.job as Job;
+
+      addToast({
+        title:
+          job.status === "succeeded"
+            ? `${labelFor(job.name)} finished`
+            : job.status === "failed"
+              ? `${labelFor(job.name)} failed`
+              : `${labelFor(job.name)} continues in the background`,
+        color: job.status === "failed" ? "danger" : "success",
+      });
+      await loadJobs();
+    } catch (error) {
+      addToast({
+        title: "Failed to start job",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const openJob = async (job: Job) => {
+    setViewing(job);
+    setErrors(null);
+    try {
+      const res = await fetch(`/api/admin/jobs/${job.id}`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json.error || "Failed to load job");
+      setViewing(json.job);
+      setErrors(json.errors || []);
+    } catch (error) {
+      setErrors([]);
+      addToast({
+        title: "Failed to load job",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Jobs</h1>
+          <p className="text-gray-600 mt-2">
+            Background jobs run by the scheduler. Runs that stop part-way resume
+            where they left off; failed runs can be re-run.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {types.map((type) => (
+            <Button
+              key={type.name}
+              color="primary"
+              isDisabled={busy !== null && busy !== type.name}
+              isLoading={busy === type.name}
+              onPress={() =>
+                startJob(type.name, "/api/admin/jobs", {
+                  headers: { "Content-Type": "application/json" },
+                  body: JSON.stringify({ name: type.name }),
+                })
+              }
+            >
+              Run {type.label}
+            </Button>
+          ))}
+          <Button variant="bordered" onPress={loadJobs}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Spinner size="lg" />
+        </div>
+      ) : jobs.length === 0 ? (
+        <Card>
+          <CardBody className="text-center py-8">
+            <p className="text-gray-500">No runs yet</p>
+          </CardBody>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {jobs.map((job) => (
+            <Card key={job.id}>
+              <CardBody>
+                <div className="flex flex-col md:flex-row gap-4 md:items-center md:justify-between">
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-center gap-3">
+                      <h3 className="font-semibold">{labelFor(job.name)}</h3>
+                      <Chip
+                        color={statusColors[job.status]}
+                        size="sm"
+                        variant="flat"
+                      >
+                        {job.status}
+                      </Chip>
+                      {job.retry_of && (
+                        <Chip size="sm" variant="bordered">
+                          re-run
+                        </Chip>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {new Date(job.created_at).toLocaleString()} ·{" "}
+                      {job.triggered_by}
+                      {job.params?.day ? ` · ${job.params.day}` : ""}
+                      {formatDuration(job) ? ` · ${formatDuration(job)}` : ""}
+                    </div>
+                    <Progress
+                      aria-label="Progress"
+                      color={job.failed > 0 ? "danger" : "primary"}
+                      maxValue={job.total || 1}
+                      size="sm"
+                      value={job.total ? job.processed : 0}
+                    />
+                    <div className="text-xs text-gray-500">
+                      {job.processed} of {job.total ?? "?"} processed
+                      {job.failed > 0 ? ` · ${job.failed} failed` : ""}
+                      {job.error ? ` · ${job.error}` : ""}
+                    </div>
+                  </div>
+                  <div className="flex md:flex-col gap-2">
+                    <Button
+                      size="sm"
+                      variant="bordered"
+                      onPress={() => openJob(job)}
+                    >
+                      Details
+                    </Button>
+                    {job.status === "failed" && (
+                      <Button
+                        color="primary"
+                        isDisabled={busy !== null && busy !== job.id}
+                        isLoading={busy === job.id}
+                        size="sm"
+                        onPress={() =>
+                          startJob(
+                            job.id,
+                            `/api/admin/jobs/${job.id}/rerun`,
+                            {},
+                          )
+                        }
+                      >
+                        Re-run
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardBody>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Modal
+        isOpen={!!viewing}
+        scrollBehavior="inside"
+        size="2xl"
+        onOpenChange={(open) => !open && setViewing(null)}
+      >
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader>{viewing ? labelFor(viewing.name) : ""}</ModalHeader>
+              <ModalBody>
+                {viewing && (
+                  <div className="text-sm text-gray-600 space-y-1">
+                    <div>Status: {viewing.status}</div>
+                    <div>Triggered by: {viewing.triggered_by}</div>
+                    <div>
+                      Started:{" "}
+                      {viewing.started_at
+                        ? new Date(viewing.started_at).toLocaleString()
+                        : "—"}
+                    </div>
+                    <div>
+                      Finished:{" "}
+                      {viewing.finished_at
+                        ? new Date(viewing.finished_at).toLocaleString()
+                        : "—"}
+                    </div>
+                    {viewing.error && (
+                      <div className="text-danger-500">
+                        Error: {viewing.error}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {errors === null ? (
+                  <div className="flex justify-center py-6">
+                    <Spinner />
+                  </div>
+                ) : errors.length === 0 ? (
+                  <p className="text-sm text-gray-500">No failed items</p>
+                ) : (
+                  <div className="space-y-2">
+                    <h4 className="font-medium">
+                      Failed items ({errors.length})
+                    </h4>
+                    {errors.map((e) => (
+                      <div
+                        key={e.item}
+                        className="p-2 rounded-lg bg-gray-50 text-xs"
+                      >
+                        <div className="font-mono">{e.item}</div>
+                        <div className="text-danger-500">{e.error}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </ModalBody>
+              <ModalFooter>
+                <Button color="primary" onPress={onClose}>
+                  Close
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+}
@@ -1,23 +1,25 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Card,
   CardBody,
   CardHeader,
   Button,
+  Checkbox,
+  CheckboxGroup,
   Input,
   Textarea,
   Divider,
-  Link,
   Form,
+  Select,
+  SelectItem,
 } from "@heroui/react";
 import { createUserWithPassword } from "@/lib/auth";
 import { addToast } from "@heroui/toast";
 // import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { FaUser } from "react-icons/fa";
-import { FiLink } from "react-icons/fi";
+import { FaClipboardCheck, FaClock, FaHistory, FaPlug, FaScroll, FaUndoAlt, FaUser } from "react-icons/fa";
 import { supabase } from '@/lib/supabase';
 
 export default function AdminPage() {
@@ -30,6 +32,87 @@ export default function AdminPage() {
     lastName: "",
     notes: "",
   });
+  // One key per user being created; kept across retries of a failed submit
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+
+  const [attribution, setAttribution] = useState({
+    window_days: "30",
+    mode: "last_touch",
+  });
+  const [savingAttribution, setSavingAttribution] = useState(false);
+
+  const [twoFactorRoles, setTwoFactorRoles] = useState<string[]>([]);
+  const [savingTwoFactor, setSavingTwoFactor] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/admin/settings/attribution", { cache: "no-store" });
+        if (!res.ok) return;
+        const json = await res.json();
+        setAttribution({ window_days: String(json.window_days), mode: json.mode });
+      } catch (error) {
+        console.error("Error loading attribution settings:", error);
+      }
+    })();
+    (async () => {
+      try {
+        const res = await fetch("/api/admin/settings/two-factor", { cache: "no-store" });
+        if (!res.ok) return;
+        const json = await res.json();
+        setTwoFactorRoles(json.required_roles || []);
+      } catch (error) {
+        console.error("Error loading two-factor settings:", error);
+      }
+    })();
+  }, []);
+
+  const handleSaveTwoFactor = async () => {
+    setSavingTwoFactor(true);
+    try {
+      const res = await fetch("/api/admin/settings/two-factor", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ required_roles: twoFactorRoles }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to save settings");
+      addToast({ title: "Two-factor settings saved", color: "success" });
+    } catch (error) {
+      addToast({
+        title: "Failed to save two-factor settings",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setSavingTwoFactor(false);
+    }
+  };
+
+  const handleSaveAttribution = async () => {
+    setSavingAttribution(true);
+    try {
+      const res = await fetch("/api/admin/settings/attribution", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          window_days: Number(attribution.window_days),
+          mode: attribution.mode,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to save settings");
+      addToast({ title: "Attribution settings saved", color: "success" });
+    } catch (error) {
+      addToast({
+        title: "Failed to save attribution settings",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setSavingAttribution(false);
+    }
+  };
 
   const handleCreateUser = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -46,7 +129,8 @@ export default function AdminPage() {
       const result = await createUserWithPassword(
         formData.email,
         formData.password,
-        userData
+        userData,
+        idempotencyKey
       );
 
       addToast({
@@ -56,6 +140,7 @@ export default function AdminPage() {
       });
 
       // Clear form
+      setIdempotencyKey(crypto.randomUUID());
       setFormData({
         email: "",
         password: "",
@@ -75,6 +160,8 @@ export default function AdminPage() {
   };
 
   const handleInputChange = (field: string, value: string) => {
+    // A key is tied to one email on the server
+    if (field === "email") setIdempotencyKey(crypto.randomUUID());
     setFormData((prev) => ({
       ...prev,
       [field]: value,
@@ -308,7 +395,7 @@ export default function AdminPage() {
             <h2 className="text-xl font-semibold">Admin Tools</h2>
           </CardHeader>
           <CardBody>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               <Button
                 onPress={() => router.push("/admin/users")}
                 className="flex flex-col items-center justify-center w-full h-full"
@@ -327,29 +414,113 @@ export default function AdminPage() {
                 </p>
               </Button>
 
-              <Card className="flex flex-col items-center justify-center text-center p-4 bg-gray-50 rounded-lg w-full">
-                <CardHeader className="flex flex-col items-center justify-center text-center gap-2">
-                  <h2 className="text-xl font-semibold">
-                    External Application
-                  </h2>
-                </CardHeader>
-                <CardBody className="flex flex-col items-center justify-center text-center gap-2">
-                  <p className="text-sm text-center text-gray-600 mt-1">
-                    Users apply via the external form and are manually approved
-                  </p>
-                  <Link
-                    href="https://api.leadconnectorhq.com/widget/form/1R5iyXWWm6IgKBpqZffb"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    color="primary"
-                    underline="hover"
-                    className="text-sm text-primary font-medium truncate"
-                  >
-                    <FiLink size={16} className="mr-2" />
-                    View Application Form
-                  </Link>
-                </CardBody>
-              </Card>
+              <Button
+                onPress={() => router.push("/admin/clawbacks")}
+                className="flex flex-col items-center justify-center w-full h-full"
+                color="default"
+                variant="flat"
+              >
+                <div className="text-2xl font-bold text-red-600">
+                  <FaUndoAlt />
+                </div>
+                <div className="text-2xl font-bold text-red-600">
+                  Clawbacks
+                </div>
+
+                <p className="text-sm text-gray-600 mt-1 text-wrap">
+                  Reverse commissions for refunds and chargebacks
+                </p>
+              </Button>
+
+              <Button
+                onPress={() => router.push("/admin/referral-codes")}
+                className="flex flex-col items-center justify-center w-full h-full"
+                color="default"
+                variant="flat"
+              >
+                <div className="text-2xl font-bold text-purple-600">
+                  <FaHistory />
+                </div>
+                <div className="text-2xl font-bold text-purple-600">
+                  Referral Codes
+                </div>
+
+                <p className="text-sm text-gray-600 mt-1 text-wrap">
+                  Code rename history and retired code rules
+                </p>
+              </Button>
+
+              <Button
+                onPress={() => router.push("/admin/applications")}
+                className="flex flex-col items-center justify-center w-full h-full"
+                color="default"
+                variant="flat"
+              >
+                <div className="text-2xl font-bold text-green-600">
+                  <FaClipboardCheck />
+                </div>
+                <div className="text-2xl font-bold text-green-600">
+                  Applications
+                </div>
+
+                <p className="text-sm text-gray-600 mt-1 text-wrap">
+                  Review applications from the public /apply form
+                </p>
+              </Button>
+
+              <Button
+                onPress={() => router.push("/admin/jobs")}
+                className="flex flex-col items-center justify-center w-full h-full"
+                color="default"
+                variant="flat"
+              >
+                <div className="text-2xl font-bold text-gray-700">
+                  <FaClock />
+                </div>
+                <div className="text-2xl font-bold text-gray-700">
+                  Jobs
+                </div>
+
+                <p className="text-sm text-gray-600 mt-1 text-wrap">
+                  Scheduled job runs, failures and re-runs
+                </p>
+              </Button>
+
+              <Button
+                onPress={() => router.push("/admin/webhooks")}
+                className="flex flex-col items-center justify-center w-full h-full"
+                color="default"
+                variant="flat"
+              >
+                <div className="text-2xl font-bold text-gray-700">
+                  <FaPlug />
+                </div>
+                <div className="text-2xl font-bold text-gray-700">
+                  Webhooks
+                </div>
+
+                <p className="text-sm text-gray-600 mt-1 text-wrap">
+                  Platform endpoints for every affiliate&apos;s events
+                </p>
+              </Button>
+
+              <Button
+                onPress={() => router.push("/admin/audit")}
+                className="flex flex-col items-center justify-center w-full h-full"
+                color="default"
+                variant="flat"
+              >
+                <div className="text-2xl font-bold text-gray-700">
+                  <FaScroll />
+                </div>
+                <div className="text-2xl font-bold text-gray-700">
+                  Audit Log
+                </div>
+
+                <p className="text-sm text-gray-600 mt-1 text-wrap">
+                  Account and admin changes, searchable, with CSV export
+                </p>
+              </Button>
 
               <Card className="flex flex-col items-center justify-center text-center p-4 bg-gray-50 rounded-lg w-full">
                 <CardHeader className="flex flex-col items-center justify-center text-center gap-2">
@@ -365,6 +536,91 @@ export default function AdminPage() {
           </CardBody>
         </Card>
       </div>
+
+      {/* Attribution Settings */}
+      <div className="mt-8">
+        <Card>
+          <CardHeader className="pb-3 flex flex-col gap-2 items-start">
+            <h2 className="text-xl font-semibold">Attribution</h2>
+            <p className="text-sm text-gray-600">
+              Which affiliate gets credit when a visitor converts. Clicks are
+              matched through the referral link cookie; the referral code sent
+              with the conversion is used when no click matches.
+            </p>
+          </CardHeader>
+          <CardBody>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <Input
+                type="number"
+                label="Window (days)"
+                min={1}
+                max={365}
+                value={attribution.window_days}
+                onValueChange={(value) =>
+                  setAttribution((prev) => ({ ...prev, window_days: value }))
+                }
+                variant="bordered"
+                description="How long after a click a conversion still counts"
+              />
+              <Select
+                label="Credit"
+                selectedKeys={[attribution.mode]}
+                onSelectionChange={(keys) => {
+                  const mode = Array.from(keys)[0] as string;
+                  if (mode) setAttribution((prev) => ({ ...prev, mode }));
+                }}
+                variant="bordered"
+                description="When a visitor clicked several links"
+              >
+                <SelectItem key="last_touch">Last click</SelectItem>
+                <SelectItem key="first_touch">First click</SelectItem>
+              </Select>
+              <Button
+                color="primary"
+                isLoading={savingAttribution}
+                onPress={handleSaveAttribution}
+              >
+                Save Attribution Settings
+              </Button>
+            </div>
+          </CardBody>
+        </Card>
+      </div>
+
+      {/* Two-factor Settings */}
+      <div className="mt-8">
+        <Card>
+          <CardHeader className="pb-3 flex flex-col gap-2 items-start">
+            <h2 className="text-xl font-semibold">Two-factor Authentication</h2>
+            <p className="text-sm text-gray-600">
+              Staff holding a selected role can still sign in, but can&apos;t
+              use the admin area or admin API until they turn on two-factor
+              authentication in Settings. Admins count as holding every role.
+            </p>
+          </CardHeader>
+          <CardBody>
+            <div className="flex flex-col md:flex-row gap-4 md:items-end md:justify-between">
+              <CheckboxGroup
+                label="Require for"
+                orientation="horizontal"
+                value={twoFactorRoles}
+                onValueChange={setTwoFactorRoles}
+              >
+                <Checkbox value="manager">Manager</Checkbox>
+                <Checkbox value="finance">Finance</Checkbox>
+                <Checkbox value="admin">Admin</Checkbox>
+              </CheckboxGroup>
+              <Button
+                color="primary"
+                isLoading={savingTwoFactor}
+                onPress={handleSaveTwoFactor}
+              >
+                Save Two-factor Settings
+              </Button>
+            </div>
+          </CardBody>
+        </Card>
+      </div>
     </div>
   );
 }
\ No newline at end of file
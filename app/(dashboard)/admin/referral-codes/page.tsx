@@ -0,0 +1,270 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  Input,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+} from "@heroui/react";
+import { addToast } from "@heroui/toast";
+
+interface UserOption {
+  user_id: string;
+  user_email: string;
+  first_name: string;
+  last_name: string;
+}
+
+interface CodeChange {
+  id: string;
+  user_id: string;
+  link_id: string | null;
+  old_code: string;
+  new_code: string;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+interface ResolvedCode {
+  user_id: string;
+  code: string;
+  link_id: string | null;
+}
+
+export default function ReferralCodesPage() {
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [history, setHistory] = useState<CodeChange[]>([]);
+  const [current, setCurrent] = useState<ResolvedCode | null>(null);
+  const [search, setSearch] = useState("");
+  const [searchedCode, setSearchedCode] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const [settings, setSettings] = useState({
+    alias_grace_days: "365",
+    reuse_cooldown_days: "730",
+  });
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  const loadHistory = async (code: string) => {
+    const query = code ? `?code=${encodeURIComponent(code)}` : "";
+    const res = await fetch(`/api/admin/referral-codes${query}`, {
+      cache: "no-store",
+    });
+    const json = await res.json();
+
+    if (!res.ok) throw new Error(json.error || "Failed to load code history");
+    setHistory(json.history || []);
+    setCurrent(json.current || null);
+    setSearchedCode(code);
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [usersRes, settingsRes] = await Promise.all([
+          fetch("/api/admin/users?status=all", { cache: "no-store" }),
+          fetch("/api/admin/settings/referral-codes", { cache: "no-store" }),
+          loadHistory(""),
+        ]);
+
+        if (usersRes.ok) setUsers((await usersRes.json()).users || []);
+        if (settingsRes.ok) {
+          const json = await settingsRes.json();
+
+          setSettings({
+            alias_grace_days: String(json.alias_grace_days),
+            reuse_cooldown_days: String(json.reuse_cooldown_days),
+          });
+        }
+      } catch (error) {
+        addToast({
+          title: "Failed to load referral codes",
+          description: error instanceof Error ? error.message : "Unknown error",
+          color: "danger",
+        });
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const userLabel = (userId: string) => {
+    const user = users.find((u) => u.user_id === userId);
+
+    return user ? `${user.first_name} ${user.last_name}` : userId;
+  };
+
+  const handleSearch = async () => {
+    setSearching(true);
+    try {
+      await loadHistory(search.trim());
+    } catch (error) {
+      addToast({
+        title: "Failed to search codes",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    setSavingSettings(true);
+    try {
+      const res = await fetch("/api/admin/settings/referral-codes", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          alias_grace_days: Number(settings.alias_grace_days),
+          reuse_cooldown_days: Number(settings.reuse_cooldown_days),
+        }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json.error || "Failed to save settings");
+      addToast({ title: "Code settings saved", color: "success" });
+    } catch (error) {
+      addToast({
+        title: "Failed to save code settings",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Referral Codes</h1>
+        <p className="text-gray-600 mt-2">
+          Every code rename is recorded here. Retired codes keep redirecting to
+          their last holder for a grace period.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3 flex flex-col gap-2 items-start">
+          <h2 className="text-xl font-semibold">Retired Codes</h2>
+          <p className="text-sm text-gray-600">
+            The reuse cooldown must be at least the grace period, so a code
+            never changes hands while it still redirects.
+          </p>
+        </CardHeader>
+        <CardBody>
+          <div className="flex flex-col md:flex-row gap-4 md:items-end">
+            <Input
+              className="max-w-xs"
+              label="Alias grace period (days)"
+              max={3650}
+              min={0}
+              type="number"
+              value={settings.alias_grace_days}
+              variant="bordered"
+              onValueChange={(value) =>
+                setSettings((prev) => ({ ...prev, alias_grace_days: value }))
+              }
+            />
+            <Input
+              className="max-w-xs"
+              label="Reuse cooldown (days)"
+              max={3650}
+              min={0}
+              type="number"
+              value={settings.reuse_cooldown_days}
+              variant="bordered"
+              onValueChange={(value) =>
+                setSettings((prev) => ({ ...prev, reuse_cooldown_days: value }))
+              }
+            />
+            <Button
+              color="primary"
+              isLoading={savingSettings}
+              onPress={handleSaveSettings}
+            >
+              Save
+            </Button>
+          </div>
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3 flex flex-col gap-4 items-start">
+          <h2 className="text-xl font-semibold">Rename History</h2>
+          <div className="flex gap-4 items-end w-full">
+            <Input
+              className="max-w-xs"
+              label="Code"
+              placeholder="Search a code"
+              value={search}
+              variant="bordered"
+              onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+              onValueChange={setSearch}
+            />
+            <Button isLoading={searching} variant="flat" onPress={handleSearch}>
+              Search
+            </Button>
+          </div>
+          {searchedCode && (
+            <p className="text-sm text-gray-600">
+              <span className="font-mono">{searchedCode}</span>{" "}
+              {current
+                ? `currently resolves to ${userLabel(current.user_id)} (${current.code}${current.link_id ? ", named link" : ""})`
+                : "does not resolve to anyone today"}
+            </p>
+          )}
+        </CardHeader>
+        <CardBody>
+          <Table aria-label="Referral code renames">
+            <TableHeader>
+              <TableColumn>Date</TableColumn>
+              <TableColumn>Affiliate</TableColumn>
+              <TableColumn>Old code</TableColumn>
+              <TableColumn>New code</TableColumn>
+              <TableColumn>Type</TableColumn>
+              <TableColumn>By</TableColumn>
+            </TableHeader>
+            <TableBody emptyContent="No renames recorded">
+              {history.map((change) => (
+                <TableRow key={change.id}>
+                  <TableCell>
+                    {new Date(change.changed_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>{userLabel(change.user_id)}</TableCell>
+                  <TableCell className="font-mono">{change.old_code}</TableCell>
+                  <TableCell className="font-mono">{change.new_code}</TableCell>
+                  <TableCell>
+                    <Chip size="sm" variant="flat">
+                      {change.link_id ? "link" : "primary"}
+                    </Chip>
+                  </TableCell>
+                  <TableCell>{change.changed_by || "affiliate"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardBody>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  Progress,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+} from "@heroui/react";
+import { addToast } from "@heroui/toast";
+
+type RowStatus = "valid" | "invalid" | "created" | "failed";
+
+interface ImportResult {
+  row: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+  user_aryeo_id: string;
+  notes: string;
+  referral_code: string;
+  status: RowStatus;
+  errors: string[];
+  user_id?: string;
+  invite_sent?: boolean;
+  invite_link?: string;
+}
+
+// Keep in step with IMPORT_BATCH_SIZE in lib/affiliate-import.ts
+const BATCH_SIZE = 20;
+
+const TEMPLATE =
+  "email,first_name,last_name,user_aryeo_id,notes,referral_code\n" +
+  "jane@example.com,Jane,Doe,,Acme Realty onboarding,jane-doe\n";
+
+const statusColors: Record<
+  RowStatus,
+  "success" | "danger" | "primary" | "warning"
+> = {
+  valid: "primary",
+  invalid: "danger",
+  created: "success",
+  failed: "warning",
+};
+
+const csvCell = (value: unknown) =>
+  `"${String(value ?? "").replace(/"/g, '""')}"`;
+
+const download = (name: string, content: string) => {
+  const blob = new Blob([content], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function ImportUsersPage() {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState("");
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const post = async (body: Record<string, unknown>) => {
+    const res = await fetch("/api/admin/users/import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json();
+
+    if (!res.ok) throw new Error(json.error || "Import request failed");
+
+    return json.results as ImportResult[];
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setResults([]);
+    setValidating(true);
+    try {
+      setResults(await post({ csv: await file.text() }));
+    } catch (error) {
+      addToast({
+        title: "Failed to validate file",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setValidating(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const validRows = results.filter((r) => r.status === "valid");
+
+  // Batches run one after another so each request stays short; rows are
+  // re-validated server-side, so a code taken meanwhile shows up as invalid.
+  const handleImport = async () => {
+    setImporting(true);
+    setProgress(0);
+    const pending = [...validRows];
+    let done = 0;
+
+    try {
+      while (pending.length > 0) {
+        const batch = pending.splice(0, BATCH_SIZE);
+        const batchResults = await post({ rows: batch });
+        const byRow = new Map(batchResults.map((r) => [r.row, r]));
+
+        setResults((prev) => prev.map((r) => byRow.get(r.row) || r));
+        done += batch.length;
+        setProgress(Math.round((done / validRows.length) * 100));
+      }
+      addToast({ title: "Import finished", color: "success" });
+    } catch (error) {
+      addToast({
+        title: "Import stopped",
+        description: `${error instanceof Error ? error.message : "Unknown error"}. Rows not yet imported are still marked valid.`,
+        color: "danger",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const downloadResults = () => {
+    const header = [
+      "row",
+      "email",
+      "first_name",
+      "last_name",
+      "referral_code",
+      "status",
+      "invite",
+      "errors",
+    ];
+    const lines = results.map((r) =>
+      [
+        r.row,
+        r.email,
+        r.first_name,
+        r.last_name,
+        r.referral_code,
+        r.status,
+        r.invite_link || (r.invite_sent ? "emailed" : ""),
+        r.errors.join("; "),
+      ]
+        .map(csvCell)
+        .join(","),
+    );
+
+    download(
+      "affiliate-import-results.csv",
+      [header.join(","), ...lines].join("\n"),
+    );
+  };
+
+  const counts = results.reduce<Record<string, number>>((acc, r) => {
+    acc[r.status] = (acc[r.status] || 0) + 1;
+
+    return acc;
+  }, {});
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Import Affiliates</h1>
+        <p className="text-gray-600 mt-2">
+          Upload a CSV to create affiliates in bulk. Each new affiliate gets an
+          invite email with a link to set their own password.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3 flex flex-col gap-2 items-start">
+          <h2 className="text-xl font-semibold">1. Upload and check</h2>
+          <p className="text-sm text-gray-600">
+            Columns: <span className="font-mono">email</span>,{" "}
+            <span className="font-mono">first_name</span>,{" "}
+            <span className="font-mono">last_name</span>, and optionally{" "}
+            <span className="font-mono">user_aryeo_id</span>,{" "}
+            <span className="font-mono">notes</span> and{" "}
+            <span className="font-mono">referral_code</span> (a code is
+            generated when blank). Nothing is created until you import.
+          </p>
+        </CardHeader>
+        <CardBody>
+          <div className="flex flex-wrap gap-4 items-center">
+            <input
+              ref={fileInput}
+              accept=".csv,text/csv"
+              className="hidden"
+              type="file"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <Button
+              color="primary"
+              isDisabled={importing}
+              isLoading={validating}
+              onPress={() => fileInput.current?.click()}
+            >
+              Choose CSV
+            </Button>
+            <Button
+              variant="flat"
+              onPress={() =>
+                download("affiliate-import-template.csv", TEMPLATE)
+              }
+            >
+              Download template
+            </Button>
+            {fileName && (
+              <span className="text-sm text-gray-600">{fileName}</span>
+            )}
+          </div>
+        </CardBody>
+      </Card>
+
+      {results.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3 flex flex-col gap-3 items-start">
+            <h2 className="text-xl font-semibold">2. Review and import</h2>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(statusColors) as RowStatus[])
+                .filter((status) => counts[status])
+                .map((status) => (
+                  <Chip
+                    key={status}
+                    color={statusColors[status]}
+                    size="sm"
+                    variant="flat"
+                  >
+                    {counts[status]} {status}
+                  </Chip>
+                ))}
+            </div>
+            <div className="flex flex-wrap gap-4 items-center w-full">
+              <Button
+                color="primary"
+                isDisabled={validRows.length === 0}
+                isLoading={importing}
+                onPress={handleImport}
+              >
+                Import {validRows.length} affiliate
+                {validRows.length === 1 ? "" : "s"}
+              </Button>
+              <Button
+                isDisabled={importing}
+                variant="flat"
+                onPress={downloadResults}
+              >
+                Download results
+              </Button>
+              {importing && (
+                <Progress
+                  aria-label="Import progress"
+                  className="max-w-xs"
+                  value={progress}
+                />
+              )}
+            </div>
+          </CardHeader>
+          <CardBody>
+            <Table aria-label="Import rows">
+              <TableHeader>
+                <TableColumn>Row</TableColumn>
+                <TableColumn>Email</TableColumn>
+                <TableColumn>Name</TableColumn>
+                <TableColumn>Code</TableColumn>
+                <TableColumn>Status</TableColumn>
+                <TableColumn>Details</TableColumn>
+              </TableHeader>
+              <TableBody>
+                {results.map((r) => (
+                  <TableRow key={r.row}>
+                    <TableCell>{r.row}</TableCell>
+                    <TableCell>{r.email}</TableCell>
+                    <TableCell>
+                      {r.first_name} {r.last_name}
+                    </TableCell>
+                    <TableCell className="font-mono">
+                      {r.referral_code || "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        color={statusColors[r.status]}
+                        size="sm"
+                        variant="flat"
+                      >
+                        {r.status}
+                      </Chip>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {r.errors.length > 0 && (
+                        <div className="text-danger-500">
+                          {r.errors.join("; ")}
+                        </div>
+                      )}
+                      {r.status === "created" &&
+                        (r.invite_sent ? (
+                          <span className="text-gray-600">Invite emailed</span>
+                        ) : r.invite_link ? (
+                          <Button
+                            size="sm"
+                            variant="light"
+                            onPress={() => {
+                              navigator.clipboard.writeText(
+                                r.invite_link || "",
+                              );
+                              addToast({
+                                title: "Invite link copied",
+                                color: "success",
+                              });
+                            }}
+                          >
+                            Copy invite link
+                          </Button>
+                        ) : null)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardBody>
+        </Card>
+      )}
+    </div>
+  );
+}
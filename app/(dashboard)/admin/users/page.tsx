@@ -1,9 +1,30 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Card, CardBody, CardHeader, Button, Input, Badge } from '@heroui/react';
+import Link from 'next/link';
+import {
+  Card,
+  CardBody,
+  CardHeader,
+  Button,
+  Input,
+  Badge,
+  Checkbox,
+  CheckboxGroup,
+  Chip,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Tab,
+  Tabs,
+  Textarea,
+} from '@heroui/react';
 import { supabase } from '@/lib/supabase';
 import { addToast } from '@heroui/toast';
+import { useSession } from 'next-auth/react';
+import { GRANTABLE_ROLES, hasRole } from '@/lib/roles';
 
 interface UserRecord {
   id: string;
@@ -11,25 +32,51 @@ interface UserRecord {
   user_email: string;
   first_name: string;
   last_name: string;
-  status: string;
+  user_aryeo_id: string | null;
+  status: 'active' | 'suspended' | 'offboarded';
+  notes: string | null;
+  suspended_at: string | null;
+  suspended_by: string | null;
   created_at: string;
   referral_code?: string;
+  roles: string[];
+  two_factor: boolean;
 }
 
+type StatusFilter = 'current' | 'active' | 'suspended' | 'offboarded';
+
+type UserAction = 'edit' | 'code' | 'offboard' | 'two_factor';
+
+const statusColors = {
+  active: 'success',
+  suspended: 'warning',
+  offboarded: 'default',
+} as const;
+
 export default function UsersPage() {
   const [users, setUsers] = useState<UserRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('current');
+  const [selected, setSelected] = useState<UserRecord | null>(null);
+  const [action, setAction] = useState<UserAction | null>(null);
+  const [form, setForm] = useState({ first_name: '', last_name: '', user_aryeo_id: '', notes: '', code: '', confirm: '' });
+  const [roles, setRoles] = useState<string[]>([]);
+  const { data: session } = useSession();
+  const isAdmin = hasRole((session?.user as any)?.roles);
+  const canImport = hasRole((session?.user as any)?.roles, 'manager');
+  const [saving, setSaving] = useState(false);
 
   useEffect(() => {
     loadUsers();
-  }, []);
+  }, [statusFilter]);
 
   const loadUsers = async () => {
     try {
       setLoading(true);
       
-      const res = await fetch('/api/admin/users', { cache: 'no-store' });
+      const query = statusFilter === 'current' ? '' : `?status=${statusFilter}`;
+      const res = await fetch(`/api/admin/users${query}`, { cache: 'no-store' });
       if (!res.ok) throw new Error(await res.text());
       const json = await res.json();
       setUsers(json.users || []);
@@ -57,6 +104,103 @@ export default function UsersPage() {
     user.referral_code?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const openAction = (user: UserRecord, next: UserAction) => {
+    setSelected(user);
+    setAction(next);
+    setForm({
+      first_name: user.first_name,
+      last_name: user.last_name,
+      user_aryeo_id: user.user_aryeo_id || '',
+      notes: user.notes || '',
+      code: user.referral_code || '',
+      confirm: '',
+    });
+    setRoles(user.roles.filter((role) => role !== 'affiliate'));
+  };
+
+  const closeAction = () => {
+    setAction(null);
+    setSelected(null);
+  };
+
+  // Runs an admin API call for the selected user, then reloads the list
+  const runAction = async (
+    user: UserRecord,
+    path: string,
+    method: string,
+    body: Record<string, unknown> | null,
+    success: string,
+  ) => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/users/${user.user_id}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Request failed');
+
+      addToast({ title: success, color: 'success' });
+      closeAction();
+      await loadUsers();
+    } catch (error) {
+      addToast({
+        title: 'Action failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        color: 'danger',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rolesChanged = (user: UserRecord) =>
+    [...roles].sort().join(',') !== user.roles.filter((role) => role !== 'affiliate').sort().join(',');
+
+  const handleSaveAction = async () => {
+    if (!selected) return;
+    if (action === 'edit') {
+      if (isAdmin && rolesChanged(selected)) {
+        const res = await fetch(`/api/admin/users/${selected.user_id}/roles`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ roles }),
+        });
+        const json = await res.json();
+        if (!res.ok) {
+          addToast({ title: 'Failed to update roles', description: json.error, color: 'danger' });
+          return;
+        }
+      }
+      runAction(selected, '', 'PATCH', {
+        first_name: form.first_name,
+        last_name: form.last_name,
+        notes: form.notes,
+        ...(form.user_aryeo_id && form.user_aryeo_id !== selected.user_aryeo_id
+          ? { user_aryeo_id: form.user_aryeo_id }
+          : {}),
+      }, 'User updated');
+    } else if (action === 'code') {
+      runAction(selected, '/referral-code', 'PUT', { code: form.code }, 'Referral code updated');
+    } else if (action === 'offboard') {
+      runAction(selected, '', 'DELETE', null, `${selected.user_email} offboarded`);
+    } else if (action === 'two_factor') {
+      runAction(selected, '/two-factor', 'DELETE', null, `Two-factor authentication reset for ${selected.user_email}`);
+    }
+  };
+
+  const toggleSuspended = (user: UserRecord) => {
+    const status = user.status === 'active' ? 'suspended' : 'active';
+    runAction(
+      user,
+      '',
+      'PATCH',
+      { status },
+      status === 'suspended' ? `${user.user_email} suspended` : `${user.user_email} reactivated`,
+    );
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     addToast({
@@ -72,6 +216,17 @@ export default function UsersPage() {
         <p className="text-gray-600">View and manage approved affiliate users</p>
       </div>
 
+      <Tabs
+        className="mb-4"
+        selectedKey={statusFilter}
+        onSelectionChange={(key) => setStatusFilter(key as StatusFilter)}
+      >
+        <Tab key="current" title="All" />
+        <Tab key="active" title="Active" />
+        <Tab key="suspended" title="Suspended" />
+        <Tab key="offboarded" title="Offboarded" />
+      </Tabs>
+
       <Card className="mb-6">
         <CardBody>
           <div className="flex gap-4 items-center">
@@ -94,6 +249,11 @@ export default function UsersPage() {
             >
               Refresh
             </Button>
+            {canImport && (
+              <Button as={Link} href="/admin/users/import" variant="flat">
+                Import CSV
+              </Button>
+            )}
           </div>
         </CardBody>
       </Card>
@@ -117,10 +277,29 @@ export default function UsersPage() {
                       <h3 className="font-semibold text-lg">
                         {user.first_name} {user.last_name}
                       </h3>
-                      <Badge color="success" variant="flat">
-                        Active
+                      <Badge color={statusColors[user.status] || 'default'} variant="flat">
+                        {user.status.charAt(0).toUpperCase() + user.status.slice(1)}
                       </Badge>
+                      {user.roles
+                        .filter((role) => role !== 'affiliate')
+                        .map((role) => (
+                          <Chip key={role} size="sm" color="primary" variant="flat">
+                            {role}
+                          </Chip>
+                        ))}
+                      {user.two_factor && (
+                        <Chip size="sm" color="success" variant="flat">
+                          2FA
+                        </Chip>
+                      )}
                     </div>
+                    {user.status !== 'active' && user.suspended_at && (
+                      <p className="text-xs text-gray-500 mb-2">
+                        {user.status === 'offboarded' ? 'Offboarded' : 'Suspended'}{' '}
+                        {new Date(user.suspended_at).toLocaleDateString()}
+                        {user.suspended_by ? ` by ${user.suspended_by}` : ''}
+                      </p>
+                    )}
                     
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-600">
                       <div>
@@ -156,6 +335,11 @@ export default function UsersPage() {
                         <div>{new Date(user.created_at).toLocaleDateString()}</div>
                       </div>
                     </div>
+                    {user.notes && (
+                      <p className="text-sm text-gray-500 mt-3 whitespace-pre-wrap">
+                        <span className="font-medium">Notes:</span> {user.notes}
+                      </p>
+                    )}
                   </div>
                   
                   <div className="flex flex-col gap-2">
@@ -167,6 +351,33 @@ export default function UsersPage() {
                     >
                       Copy Details
                     </Button>
+                    {user.status !== 'offboarded' && (
+                      <>
+                        <Button size="sm" variant="flat" onPress={() => openAction(user, 'edit')}>
+                          Edit
+                        </Button>
+                        <Button size="sm" variant="flat" onPress={() => openAction(user, 'code')}>
+                          Change Code
+                        </Button>
+                        <Button
+                          size="sm"
+                          color={user.status === 'active' ? 'warning' : 'success'}
+                          variant="flat"
+                          isDisabled={saving}
+                          onPress={() => toggleSuspended(user)}
+                        >
+                          {user.status === 'active' ? 'Suspend' : 'Reactivate'}
+                        </Button>
+                        {isAdmin && user.two_factor && (
+                          <Button size="sm" variant="flat" onPress={() => openAction(user, 'two_factor')}>
+                            Reset 2FA
+                          </Button>
+                        )}
+                        <Button size="sm" color="danger" variant="light" onPress={() => openAction(user, 'offboard')}>
+                          Offboard
+                        </Button>
+                      </>
+                    )}
                   </div>
                 </div>
               </CardBody>
@@ -182,6 +393,112 @@ export default function UsersPage() {
           </p>
         </div>
       )}
+
+      <Modal isOpen={!!action} onOpenChange={(open) => !open && closeAction()}>
+        <ModalContent>
+          <ModalHeader>
+            {action === 'edit' && 'Edit user'}
+            {action === 'code' && 'Change referral code'}
+            {action === 'offboard' && 'Offboard user'}
+            {action === 'two_factor' && 'Reset two-factor authentication'}
+          </ModalHeader>
+          <ModalBody>
+            {action === 'edit' && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    label="First name"
+                    value={form.first_name}
+                    variant="bordered"
+                    onValueChange={(v) => setForm((p) => ({ ...p, first_name: v }))}
+                  />
+                  <Input
+                    label="Last name"
+                    value={form.last_name}
+                    variant="bordered"
+                    onValueChange={(v) => setForm((p) => ({ ...p, last_name: v }))}
+                  />
+                </div>
+                <Input
+                  label="Aryeo ID"
+                  value={form.user_aryeo_id}
+                  variant="bordered"
+                  onValueChange={(v) => setForm((p) => ({ ...p, user_aryeo_id: v }))}
+                />
+                {isAdmin && (
+                  <CheckboxGroup
+                    label="Roles"
+                    orientation="horizontal"
+                    value={roles}
+                    onValueChange={setRoles}
+                  >
+                    {GRANTABLE_ROLES.map((role) => (
+                      <Checkbox key={role} value={role}>
+                        {role}
+                      </Checkbox>
+                    ))}
+                  </CheckboxGroup>
+                )}
+                <Textarea
+                  label="Notes"
+                  description="Only visible to admins"
+                  minRows={3}
+                  value={form.notes}
+                  variant="bordered"
+                  onValueChange={(v) => setForm((p) => ({ ...p, notes: v }))}
+                />
+              </>
+            )}
+            {action === 'code' && (
+              <Input
+                label="Referral code"
+                description="The old code keeps redirecting to this user for the alias grace period"
+                value={form.code}
+                variant="bordered"
+                onValueChange={(v) => setForm((p) => ({ ...p, code: v }))}
+              />
+            )}
+            {action === 'offboard' && selected && (
+              <>
+                <p className="text-sm text-gray-600">
+                  This deletes {selected.first_name} {selected.last_name}&apos;s login, profile,
+                  referral codes and API keys. Their earnings and payout history is kept.
+                  This can&apos;t be undone.
+                </p>
+                <Input
+                  label={`Type ${selected.user_email} to confirm`}
+                  value={form.confirm}
+                  variant="bordered"
+                  onValueChange={(v) => setForm((p) => ({ ...p, confirm: v }))}
+                />
+              </>
+            )}
+            {action === 'two_factor' && selected && (
+              <p className="text-sm text-gray-600">
+                This turns off two-factor authentication for {selected.user_email} and deletes
+                their recovery codes, so they can sign in with just their password and set it up
+                again. Only do this after confirming who is asking.
+              </p>
+            )}
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="bordered" onPress={closeAction}>
+              Cancel
+            </Button>
+            <Button
+              color={action === 'offboard' || action === 'two_factor' ? 'danger' : 'primary'}
+              isDisabled={
+                action === 'offboard' &&
+                form.confirm.trim().toLowerCase() !== selected?.user_email.toLowerCase()
+              }
+              isLoading={saving}
+              onPress={handleSaveAction}
+            >
+              {action === 'offboard' ? 'Offboard' : action === 'two_factor' ? 'Reset 2FA' : 'Save'}
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,24 @@
+"use client";
+
+import { WebhooksCard } from "@/components/webhooks-card";
+
+export default function AdminWebhooksPage() {
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Webhooks</h1>
+        <p className="text-gray-600 mt-2">
+          Platform endpoints receive events for every affiliate, for internal
+          systems such as the CRM or accounting. Affiliates manage their own
+          endpoints in Settings.
+        </p>
+      </div>
+
+      <WebhooksCard
+        apiBase="/api/admin/webhooks"
+        description="We POST signed JSON to these URLs when any affiliate's referrals, payouts or stats change."
+        title="Platform Webhooks"
+      />
+    </div>
+  );
+}
@@ -8,14 +8,20 @@ import { StatsBar } from "@/components/stats-bar";
 import { Card, CardBody, CardHeader, Link, Spinner, Button } from "@heroui/react";
 import { CheckCircle, Circle, AlertCircle, RefreshCw } from "lucide-react";
 import { supabase } from "@/lib/supabase";
-import { getUserProfile, getReferralCode, calculateUserReportsTotals, getUserReports, getUser } from "@/lib/auth";
+import { getUserProfile, getReferralCode, calculateUserReportsTotals, getUserReports, getUser, KpiDelta } from "@/lib/auth";
 import { subscribeToUserKpis } from "@/lib/realtime";
 import { addToast } from "@heroui/toast";
 
 export default function HomePage() {
   const pathname = usePathname();
   const [referralCode, setReferralCode] = useState<string>("");
-  const [kpis, setKpis] = useState({
+  const [kpis, setKpis] = useState<{
+    clicks: number;
+    referrals: number;
+    customers: number;
+    earnings: number;
+    comparison?: { deltas: Record<"clicks" | "referrals" | "customers" | "earnings", KpiDelta> };
+  }>({
     clicks: 0,
     referrals: 0,
     customers: 0,
@@ -52,7 +58,7 @@ export default function HomePage() {
         })(),
         (async () => {
           try {
-            const res = await fetch("/api/me/reports/totals", { cache: "no-store" });
+            const res = await fetch("/api/me/reports/totals?compare=true", { cache: "no-store" });
             if (!res.ok) throw new Error(await res.text());
             return await res.json();
           } catch (e) {
@@ -189,6 +195,7 @@ export default function HomePage() {
         referrals={kpis.referrals}
         customers={kpis.customers}
         earnings={kpis.earnings}
+        deltas={kpis.comparison?.deltas}
       />
       <div className="affiliate-panel rounded-xl mx-auto relative overflow-hidden w-full">
         <div className="px-4 sm:px-6 pt-4 pb-1">
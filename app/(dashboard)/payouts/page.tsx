@@ -0,0 +1,266 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  Chip,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableColumn,
+  TableHeader,
+  TableRow,
+} from "@heroui/react";
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  DownloadIcon,
+  PauseCircle,
+  RefreshCw,
+  Wallet,
+} from "lucide-react";
+import { addToast } from "@heroui/toast";
+
+import { formatDateDisplayMDT } from "@/lib/auth";
+
+interface PayoutRow {
+  id: string;
+  period_start: string;
+  period_end: string;
+  amount: number;
+  status: "pending" | "held" | "paid" | "cancelled";
+  method: string | null;
+  reference: string | null;
+  paid_at: string | null;
+  created_at: string;
+}
+
+interface Balance {
+  earned: number;
+  paid: number;
+  pending: number;
+  held: number;
+  unbatched: number;
+  owed: number;
+}
+
+const statusColorMap = {
+  paid: "success",
+  pending: "warning",
+  held: "secondary",
+  cancelled: "default",
+} as const;
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+export default function PayoutsPage() {
+  const [payouts, setPayouts] = useState<PayoutRow[]>([]);
+  const [balance, setBalance] = useState<Balance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPayouts = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch("/api/me/payouts", { cache: "no-store" });
+
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+
+        throw new Error(body?.error || `Request failed (${res.status})`);
+      }
+      const json = await res.json();
+
+      setBalance(json.balance);
+      setPayouts(json.payouts || []);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to load payouts";
+
+      setError(errorMessage);
+      addToast({
+        title: "Error Loading Payouts",
+        description: errorMessage,
+        color: "danger",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPayouts();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spinner
+          classNames={{ label: "text-foreground mt-4" }}
+          size="lg"
+          variant="default"
+        />
+      </div>
+    );
+  }
+
+  if (error || !balance) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-gray-500 mb-6">
+          <AlertCircle className="mx-auto mb-4 text-red-500" size={48} />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            Error Loading Payouts
+          </h3>
+          <p className="text-gray-600 mb-4">{error || "No payout data"}</p>
+          <Button
+            color="primary"
+            startContent={<RefreshCw size={16} />}
+            variant="flat"
+            onPress={loadPayouts}
+          >
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const balanceCards = [
+    {
+      label: "Balance Owed",
+      value: balance.owed,
+      hint: "Earned but not yet paid",
+      icon: Wallet,
+      color: "text-green-600",
+      bg: "bg-green-50",
+    },
+    {
+      label: "Pending",
+      value: balance.pending + balance.unbatched,
+      hint: `${formatMoney(balance.unbatched)} not yet in a payout`,
+      icon: Clock,
+      color: "text-yellow-600",
+      bg: "bg-yellow-50",
+    },
+    {
+      label: "On Hold",
+      value: balance.held,
+      hint: "Held for review",
+      icon: PauseCircle,
+      color: "text-purple-600",
+      bg: "bg-purple-50",
+    },
+    {
+      label: "Paid to Date",
+      value: balance.paid,
+      hint: `${formatMoney(balance.earned)} earned in total`,
+      icon: CheckCircle,
+      color: "text-blue-600",
+      bg: "bg-blue-50",
+    },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-gray-900">Payouts</h1>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {balanceCards.map((item) => (
+            <Card key={item.label} className="border border-primary/20">
+              <CardBody className="p-6">
+                <div className="flex items-center gap-4">
+                  <div className={`p-3 rounded-full ${item.bg}`}>
+                    <item.icon className={`h-6 w-6 ${item.color}`} />
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-600 font-medium">
+                      {item.label}
+                    </p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {formatMoney(item.value)}
+                    </p>
+                    <p className="text-xs text-gray-400">{item.hint}</p>
+                  </div>
+                </div>
+              </CardBody>
+            </Card>
+          ))}
+        </div>
+
+        {payouts.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="text-gray-500 mb-4">
+              <Wallet className="mx-auto mb-4" size={48} />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                No Payouts Yet
+              </h3>
+              <p className="text-gray-600">
+                Payouts appear here once your earnings are batched for payment.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <Table aria-label="Payout history">
+            <TableHeader>
+              <TableColumn>Period</TableColumn>
+              <TableColumn>Amount</TableColumn>
+              <TableColumn>Status</TableColumn>
+              <TableColumn>Method</TableColumn>
+              <TableColumn>Reference</TableColumn>
+              <TableColumn>Paid</TableColumn>
+              <TableColumn>Statement</TableColumn>
+            </TableHeader>
+            <TableBody>
+              {payouts.map((payout) => (
+                <TableRow key={payout.id}>
+                  <TableCell>
+                    {formatDateDisplayMDT(payout.period_start)} –{" "}
+                    {formatDateDisplayMDT(payout.period_end)}
+                  </TableCell>
+                  <TableCell>{formatMoney(payout.amount)}</TableCell>
+                  <TableCell>
+                    <Chip
+                      color={statusColorMap[payout.status]}
+                      size="sm"
+                      variant="flat"
+                    >
+                      {payout.status}
+                    </Chip>
+                  </TableCell>
+                  <TableCell>{payout.method || "—"}</TableCell>
+                  <TableCell>{payout.reference || "—"}</TableCell>
+                  <TableCell>
+                    {payout.paid_at
+                      ? new Date(payout.paid_at).toLocaleDateString()
+                      : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      isIconOnly
+                      aria-label="Download statement"
+                      as="a"
+                      className="text-gray-600"
+                      href={`/api/me/payouts/${payout.id}/statement`}
+                      isDisabled={payout.status === "cancelled"}
+                      size="sm"
+                      variant="light"
+                    >
+                      <DownloadIcon size={16} />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
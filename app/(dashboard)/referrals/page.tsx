@@ -33,6 +33,23 @@ const convertReferralData = (referralsJson: ReferralData[]): any[] => {
   }));
 };
 
+// Tracked events from /api/me/referrals already carry attribution
+const convertEventData = (events: any[]): any[] => {
+  return events.map((event) => ({
+    id: event.id,
+    agent: event.agent,
+    email: event.email,
+    date: new Date(`${event.date}T00:00:00`).toLocaleDateString(),
+    status: event.status,
+    referrer_id: "current-user",
+    event_type: event.event_type,
+    revenue: event.revenue,
+    occurred_at: event.occurred_at,
+    attribution_method: event.attribution_method,
+    attributed_clicked_at: event.attributed_clicked_at,
+  }));
+};
+
 export default function ReferralsPage() {
   const [referrals, setReferrals] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
@@ -45,9 +62,15 @@ export default function ReferralsPage() {
       try {
         console.log("🔄 Loading referrals data...");
         setLoading(true);
-        const res = await fetch("/api/me/reports/raw", { cache: "no-store" });
+        const [res, eventsRes] = await Promise.all([
+          fetch("/api/me/reports/raw", { cache: "no-store" }),
+          fetch("/api/me/referrals", { cache: "no-store" }),
+        ]);
         if (!res.ok) throw new Error(await res.text());
         const json = await res.json();
+        const events = eventsRes.ok
+          ? convertEventData((await eventsRes.json())?.referrals || [])
+          : [];
         const userReports = json?.user_reports;
         const userReferrals = json?.user_referrals;
 
@@ -73,12 +96,12 @@ export default function ReferralsPage() {
 
           if (referralsData.length > 0) {
             const converted = convertReferralData(referralsData);
-            setReferrals(converted);
+            setReferrals([...events, ...converted]);
           } else {
-            setReferrals([]);
+            setReferrals(events);
           }
         } else {
-          setReferrals([]);
+          setReferrals(events);
         }
       } catch (error) {
         console.error("💥 Error loading referrals data:", error);
@@ -119,11 +142,11 @@ export default function ReferralsPage() {
   }, []);
 
   const downloadCSV = () => {
-    const headers = ["Agent", "Email", "Date", "Status"];
+    const headers = ["Agent", "Email", "Date", "Status", "Attribution"];
     const csvContent = [
       headers.join(","),
       ...referrals.map((row) =>
-        [row.agent, row.email, row.date, row.status].join(",")
+        [row.agent, row.email, row.date, row.status, row.attribution_method || ""].join(",")
       ),
     ].join("\n");
 
@@ -18,7 +18,11 @@ import {
   DropdownMenu,
   DropdownItem,
   Button,
+  DateRangePicker,
+  Switch,
 } from "@heroui/react";
+import type { RangeValue } from "@react-types/shared";
+import { CalendarDate, parseDate, today } from "@internationalized/date";
 import {
   DollarSign,
   MousePointer,
@@ -45,21 +49,83 @@ import { addToast } from "@heroui/toast";
 import {
   UserReports,
   DailyData,
+  KpiDelta,
   formatDateDisplayMDT,
-  shouldAggregateByMonth,
-  transformUserReports,
 } from "@/lib/auth";
-
-// Consistent timezone for display (matches lib/auth TIMEZONE)
-const DISPLAY_TZ = "America/Edmonton";
+import { formatKpiDelta, REPORTS_TZ } from "@/lib/utils";
 
 const formatMonthYearTZ = (ymd: string) =>
   new Date(`${ymd}T00:00:00`).toLocaleDateString("en-US", {
-    timeZone: DISPLAY_TZ,
+    timeZone: REPORTS_TZ,
     month: "short",
     year: "numeric",
   });
 
+type Granularity = "day" | "week" | "month";
+
+// Pick a bucket size that keeps custom-range charts readable
+const granularityForSpan = (from: CalendarDate, to: CalendarDate): Granularity => {
+  const days = to.compare(from);
+
+  if (days <= 62) return "day";
+  if (days <= 366) return "week";
+
+  return "month";
+};
+
+// Report tabs that group totals by a click dimension (see /api/me/reports/breakdown)
+type BreakdownDimension = "sub_id" | "campaign" | "source" | "link";
+
+interface BreakdownRow {
+  key: string | null;
+  clicks: number;
+  signups: number;
+  customers: number;
+  earnings: number;
+}
+
+const BREAKDOWN_TABS: {
+  key: string;
+  dimension: BreakdownDimension;
+  title: string;
+  column: string;
+  empty: string;
+  untagged: string;
+}[] = [
+  {
+    key: "links",
+    dimension: "link",
+    title: "Links",
+    column: "Link",
+    empty: "links",
+    untagged: "Primary link",
+  },
+  {
+    key: "traffic",
+    dimension: "source",
+    title: "Traffic sources",
+    column: "Source",
+    empty: "traffic sources",
+    untagged: "Direct / unknown",
+  },
+  {
+    key: "subids",
+    dimension: "sub_id",
+    title: "Sub-Ids",
+    column: "Sub-ID",
+    empty: "sub-ids",
+    untagged: "No sub-ID",
+  },
+  {
+    key: "campaigns",
+    dimension: "campaign",
+    title: "Campaigns",
+    column: "Campaign",
+    empty: "campaigns",
+    untagged: "No campaign",
+  },
+];
+
 // Register Chart.js components
 ChartJS.register(
   CategoryScale,
@@ -72,14 +138,89 @@ ChartJS.register(
 );
 
 export default function ReportsPage() {
-  const [rawReports, setRawReports] = useState<any>(null);
   const [reports, setReports] = useState<UserReports | null>(null);
   const [loading, setLoading] = useState(true);
   const [chartLoading, setChartLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedTimeframe, setSelectedTimeframe] = useState("Last 30 Days");
+  const [customRange, setCustomRange] =
+    useState<RangeValue<CalendarDate> | null>(null);
+  const [granularity, setGranularity] = useState<Granularity>("day");
+  const [showPrevious, setShowPrevious] = useState(false);
+
+  const timeframeLabel =
+    selectedTimeframe === "Custom" && customRange
+      ? `${formatDateDisplayMDT(customRange.start.toString())} – ${formatDateDisplayMDT(customRange.end.toString())}`
+      : selectedTimeframe;
+
+  // Month buckets get a month-year label pinned to REPORTS_TZ; day and week
+  // buckets (labelled by their first day) use the MDT day helper
+  const formatPeriod = (ymd: string) =>
+    granularity === "month" ? formatMonthYearTZ(ymd) : formatDateDisplayMDT(ymd);
   const [selectedTab, setSelectedTab] = useState("overview");
   const [retrying, setRetrying] = useState(false);
+  const [section, setSection] = useState("overview");
+  const [breakdownRows, setBreakdownRows] = useState<BreakdownRow[]>([]);
+  const [breakdownLoading, setBreakdownLoading] = useState(false);
+
+  const activeBreakdown = BREAKDOWN_TABS.find((tab) => tab.key === section);
+
+  // Query params for the selected timeframe, or null while a custom range is incomplete
+  const rangeParams = () => {
+    const params = new URLSearchParams({ tz: REPORTS_TZ });
+
+    if (selectedTimeframe === "Custom") {
+      if (!customRange) return null;
+      params.set("from", customRange.start.toString());
+      params.set("to", customRange.end.toString());
+    } else {
+      params.set("timeframe", selectedTimeframe);
+    }
+
+    return params;
+  };
+
+  const rangeSlug = () =>
+    selectedTimeframe === "Custom" && customRange
+      ? `${customRange.start.toString()}_${customRange.end.toString()}`
+      : selectedTimeframe.toLowerCase().replace(/\s+/g, "-");
+
+  const saveCsv = (csvContent: string, name: string) => {
+    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute("href", url);
+    link.setAttribute(
+      "download",
+      `${name}-${rangeSlug()}-${new Date().toISOString().split("T")[0]}.csv`,
+    );
+    link.style.visibility = "hidden";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const downloadBreakdownCSV = () => {
+    if (!activeBreakdown || breakdownRows.length === 0) return;
+
+    const csvContent = [
+      [activeBreakdown.column, "Clicks", "Signups", "Customers", "Earnings"].join(
+        ",",
+      ),
+      ...breakdownRows.map((row) =>
+        [
+          `"${(row.key ?? activeBreakdown.untagged).replace(/"/g, '""')}"`,
+          `"${row.clicks}"`,
+          `"${row.signups}"`,
+          `"${row.customers}"`,
+          `"$${row.earnings.toFixed(2)}"`,
+        ].join(","),
+      ),
+    ].join("\n");
+
+    saveCsv(csvContent, `reports-${activeBreakdown.dimension}`);
+  };
 
   // Function to download CSV
   const downloadCSV = () => {
@@ -89,7 +230,7 @@ export default function ReportsPage() {
 
     // Create CSV content
     const headers = [
-      shouldAggregateByMonth(selectedTimeframe) ? "Month" : "Period",
+      granularity === "month" ? "Month" : "Period",
       "Earnings",
       "New Customers",
       "New Referrals",
@@ -101,9 +242,7 @@ export default function ReportsPage() {
       ...reports.dailyData
         .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
         .map((item) => {
-          const date = shouldAggregateByMonth(selectedTimeframe)
-            ? formatMonthYearTZ(item.date)
-            : formatDateDisplayMDT(item.date);
+          const date = formatPeriod(item.date);
 
           return [
             `"${date}"`,
@@ -115,20 +254,7 @@ export default function ReportsPage() {
         }),
     ].join("\n");
 
-    // Create and download file
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-
-    link.setAttribute("href", url);
-    link.setAttribute(
-      "download",
-      `reports-${selectedTimeframe.toLowerCase().replace(/\s+/g, "-")}-${new Date().toISOString().split("T")[0]}.csv`,
-    );
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    saveCsv(csvContent, "reports");
   };
 
   // Load reports from database
@@ -141,30 +267,38 @@ export default function ReportsPage() {
       }
       setError(null);
 
-      // Fetch raw user_reports server-side to avoid client RLS/caching
-      const res = await fetch("/api/me/reports/raw", { cache: "no-store" });
+      // Range resolution and bucketing happen server-side
+      const params = rangeParams();
 
-      if (!res.ok) throw new Error(await res.text());
-      const json = await res.json();
-      const userReports = json?.user_reports;
-
-      if (!userReports)
-        throw new Error("No reports data returned from database");
+      if (!params) return;
+      if (selectedTimeframe === "Custom" && customRange) {
+        params.set(
+          "granularity",
+          granularityForSpan(customRange.start, customRange.end),
+        );
+      }
 
-      // Store raw reports data
-      setRawReports(userReports);
+      const res = await fetch(`/api/me/reports?${params.toString()}`, {
+        cache: "no-store",
+      });
 
-      // Transform the data using the proper timeframe filtering
-      const transformedReports = transformUserReports(
-        userReports,
-        selectedTimeframe,
-      );
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
 
-      if (transformedReports) {
-        setReports(transformedReports);
-      } else {
-        throw new Error("Failed to transform reports data");
+        throw new Error(body?.error || `Request failed (${res.status})`);
       }
+      const json = await res.json();
+
+      if (!json?.dailyData)
+        throw new Error("No reports data returned from database");
+
+      setGranularity(json.granularity);
+      setReports({
+        overview: json.overview,
+        dailyData: json.dailyData,
+        previous: json.previous,
+        deltas: json.deltas,
+      });
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to load reports";
@@ -184,29 +318,49 @@ export default function ReportsPage() {
     }
   };
 
-  // Update reports when timeframe changes
+  // Initial load, then re-query whenever the timeframe or custom range changes
   useEffect(() => {
-    if (rawReports) {
-      // If we have raw data, just transform it with the new timeframe
-      const transformedReports = transformUserReports(
-        rawReports,
-        selectedTimeframe,
-      );
+    loadReports(reports !== null);
+  }, [selectedTimeframe, customRange]);
 
-      setReports(transformedReports);
-      setChartLoading(false);
-    } else {
-      // Initial load
-      loadReports(false);
-    }
-  }, [selectedTimeframe]);
-
-  // Initial load
+  // Breakdown tabs load on demand for the same timeframe
   useEffect(() => {
-    if (!rawReports) {
-      loadReports(false);
-    }
-  }, []);
+    if (!activeBreakdown) return;
+    const params = rangeParams();
+
+    if (!params) return;
+    params.set("dimension", activeBreakdown.dimension);
+
+    let cancelled = false;
+
+    setBreakdownLoading(true);
+    fetch(`/api/me/reports/breakdown?${params.toString()}`, {
+      cache: "no-store",
+    })
+      .then(async (res) => {
+        const json = await res.json().catch(() => null);
+
+        if (!res.ok)
+          throw new Error(json?.error || `Request failed (${res.status})`);
+        if (!cancelled) setBreakdownRows(json.rows || []);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setBreakdownRows([]);
+        addToast({
+          title: `Error Loading ${activeBreakdown.title}`,
+          description: err instanceof Error ? err.message : "Unknown error",
+          color: "danger",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setBreakdownLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [section, selectedTimeframe, customRange]);
 
   const handleRetry = async () => {
     setRetrying(true);
@@ -270,15 +424,7 @@ export default function ReportsPage() {
       (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
     );
 
-    const labels = sortedData.map((item) => {
-      if (shouldAggregateByMonth(selectedTimeframe)) {
-        // Month-year label pinned to DISPLAY_TZ to avoid off-by-one
-        return formatMonthYearTZ(item.date);
-      } else {
-        // Day label using MDT helper already handles timezone
-        return formatDateDisplayMDT(item.date);
-      }
-    });
+    const labels = sortedData.map((item) => formatPeriod(item.date));
 
     // Get the selected stat based on the active tab
     let selectedStat = "Earnings";
@@ -308,8 +454,8 @@ export default function ReportsPage() {
         break;
     }
 
-    // Create single dataset for the selected stat
-    const datasets = [
+    // Dataset for the selected stat
+    const datasets: any[] = [
       {
         label: selectedStat,
         data: sortedData.map((item) => item[dataKey]),
@@ -322,10 +468,32 @@ export default function ReportsPage() {
       },
     ];
 
+    // Prior period drawn dashed on the same x positions (bucket i vs bucket i)
+    if (showPrevious && reports.previous) {
+      const previousData = [...reports.previous.dailyData].sort(
+        (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+      );
+
+      datasets.push({
+        label: `${selectedStat} (previous period)`,
+        data: sortedData.map((_, i) =>
+          previousData[i] ? previousData[i][dataKey] : null,
+        ),
+        borderColor: backgroundColor,
+        backgroundColor: "transparent",
+        borderDash: [6, 4],
+        borderWidth: 1.5,
+        tension: 0.125,
+        fill: false,
+        pointRadius: 0,
+        pointHoverRadius: 5,
+      });
+    }
+
     return {
       labels,
       datasets,
-      title: `${selectedStat} - ${selectedTimeframe}`,
+      title: `${selectedStat} - ${timeframeLabel}`,
     };
   };
 
@@ -342,7 +510,7 @@ export default function ReportsPage() {
     },
     plugins: {
       legend: {
-        display: false,
+        display: showPrevious && !!reports.previous,
       },
       title: {
         display: false,
@@ -391,33 +559,49 @@ export default function ReportsPage() {
     },
   };
 
-  const summaryStats = [
+  const summaryStats: {
+    title: string;
+    value: string;
+    icon: typeof DollarSign;
+    highlighted: boolean;
+    delta?: KpiDelta;
+    currency?: boolean;
+  }[] = [
     {
       title: "Earnings",
       value: `$${reports.overview.earnings.toFixed(2)}`,
       icon: DollarSign,
       highlighted: true,
+      delta: reports.deltas?.earnings,
+      currency: true,
     },
     {
       title: "Clicks",
       value: reports.overview.clicks.toLocaleString(),
       icon: MousePointer,
       highlighted: false,
+      delta: reports.deltas?.clicks,
     },
     {
       title: "Signups",
       value: reports.overview.signups.toLocaleString(),
       icon: UserPlus,
       highlighted: false,
+      delta: reports.deltas?.signups,
     },
     {
       title: "Customers",
       value: reports.overview.customers.toLocaleString(),
       icon: Users,
       highlighted: false,
+      delta: reports.deltas?.customers,
     },
   ];
 
+  const previousLabel = reports.previous
+    ? `vs ${formatDateDisplayMDT(reports.previous.from)} – ${formatDateDisplayMDT(reports.previous.to)}`
+    : "";
+
   const timeframeOptions = [
     "Today",
     "Yesterday",
@@ -427,9 +611,67 @@ export default function ReportsPage() {
     "Last 6 Months",
     "This Year",
     "All Time",
-    // "Custom",
+    "Custom",
   ];
 
+  // Shared by the overview and breakdown tabs
+  const timeframeControls = (
+    <>
+      <Dropdown>
+        <DropdownTrigger>
+          <Button
+            className="min-w-[200px]"
+            color="primary"
+            endContent={<ChevronDownIcon size={16} />}
+            isLoading={chartLoading}
+            variant="light"
+          >
+            <span className="text-sm font-semibold">
+              Timeframe:
+            </span>{" "}
+            {timeframeLabel}
+          </Button>
+        </DropdownTrigger>
+        <DropdownMenu
+          disallowEmptySelection
+          aria-label="Timeframe selection"
+          selectedKeys={new Set([selectedTimeframe])}
+          selectionMode="single"
+          variant="flat"
+          onSelectionChange={(keys) => {
+            const selected = Array.from(keys)[0] as string;
+
+            if (selected && selected !== selectedTimeframe) {
+              setSelectedTimeframe(selected);
+            }
+          }}
+        >
+          {timeframeOptions.map((option) => (
+            <DropdownItem key={option}>{option}</DropdownItem>
+          ))}
+        </DropdownMenu>
+      </Dropdown>
+      {selectedTimeframe === "Custom" && (
+        <DateRangePicker
+          aria-label="Custom date range"
+          className="max-w-xs"
+          maxValue={today(REPORTS_TZ)}
+          size="sm"
+          value={customRange}
+          variant="bordered"
+          onChange={(range) => {
+            if (range?.start && range?.end) {
+              setCustomRange({
+                start: parseDate(range.start.toString()),
+                end: parseDate(range.end.toString()),
+              });
+            }
+          }}
+        />
+      )}
+    </>
+  );
+
   return (
     <div className="space-y-8">
       <div className="space-y-6">
@@ -439,9 +681,13 @@ export default function ReportsPage() {
           <Button
             isIconOnly
             className="text-gray-600"
-            isDisabled={!reports?.dailyData || reports.dailyData.length === 0}
+            isDisabled={
+              activeBreakdown
+                ? breakdownRows.length === 0
+                : !reports?.dailyData || reports.dailyData.length === 0
+            }
             variant="light"
-            onPress={downloadCSV}
+            onPress={activeBreakdown ? downloadBreakdownCSV : downloadCSV}
           >
             <DownloadIcon size={20} />
           </Button>
@@ -451,7 +697,9 @@ export default function ReportsPage() {
         <Tabs
           aria-label="Reports navigation"
           className="w-full p-0"
+          selectedKey={section}
           variant="underlined"
+          onSelectionChange={(key) => setSection(key as string)}
         >
           <Tab key="overview" title="Overview">
             {/* Overview Section */}
@@ -465,40 +713,18 @@ export default function ReportsPage() {
                       Overview
                     </h2>
                     <div className="flex items-center gap-2">
-                      <Dropdown>
-                        <DropdownTrigger>
-                          <Button
-                            className="min-w-[200px]"
-                            color="primary"
-                            endContent={<ChevronDownIcon size={16} />}
-                            isLoading={chartLoading}
-                            variant="light"
-                          >
-                            <span className="text-sm font-semibold">
-                              Timeframe:
-                            </span>{" "}
-                            {selectedTimeframe}
-                          </Button>
-                        </DropdownTrigger>
-                        <DropdownMenu
-                          disallowEmptySelection
-                          aria-label="Timeframe selection"
-                          selectedKeys={new Set([selectedTimeframe])}
-                          selectionMode="single"
-                          variant="flat"
-                          onSelectionChange={(keys) => {
-                            const selected = Array.from(keys)[0] as string;
-
-                            if (selected && selected !== selectedTimeframe) {
-                              setSelectedTimeframe(selected);
-                            }
-                          }}
+                      {timeframeControls}
+                      {reports.previous && (
+                        <Switch
+                          isSelected={showPrevious}
+                          size="sm"
+                          onValueChange={setShowPrevious}
                         >
-                          {timeframeOptions.map((option) => (
-                            <DropdownItem key={option}>{option}</DropdownItem>
-                          ))}
-                        </DropdownMenu>
-                      </Dropdown>
+                          <span className="text-sm text-gray-600">
+                            Compare to previous period
+                          </span>
+                        </Switch>
+                      )}
                     </div>
                   </CardHeader>
 
@@ -543,6 +769,14 @@ export default function ReportsPage() {
                             >
                               {stat.value}
                             </p>
+                            {stat.delta && (
+                              <p
+                                className={`text-xs ${stat.delta.changeType === "increase" ? "text-green-600" : stat.delta.changeType === "decrease" ? "text-red-600" : "text-gray-400"}`}
+                                title={previousLabel}
+                              >
+                                {formatKpiDelta(stat.delta, stat.currency)}
+                              </p>
+                            )}
                           </div>
                         }
                       >
@@ -571,9 +805,7 @@ export default function ReportsPage() {
               <Table aria-label="Daily activity table">
                 <TableHeader>
                   <TableColumn>
-                    {shouldAggregateByMonth(selectedTimeframe)
-                      ? "Month"
-                      : "Period"}
+                    {granularity === "month" ? "Month" : "Period"}
                   </TableColumn>
                   <TableColumn>Earnings</TableColumn>
                   <TableColumn>New Customers</TableColumn>
@@ -588,11 +820,7 @@ export default function ReportsPage() {
                     )
                     .map((item, index) => (
                       <TableRow key={index}>
-                        <TableCell>
-                          {shouldAggregateByMonth(selectedTimeframe)
-                            ? formatMonthYearTZ(item.date)
-                            : formatDateDisplayMDT(item.date)}
-                        </TableCell>
+                        <TableCell>{formatPeriod(item.date)}</TableCell>
                         <TableCell>${item.earnings.toFixed(2)}</TableCell>
                         <TableCell>{item.newCustomers}</TableCell>
                         <TableCell>{item.newReferrals}</TableCell>
@@ -603,48 +831,87 @@ export default function ReportsPage() {
               </Table>
             </div>
           </Tab>
-          <Tab key="links" title="Links">
-            <div className="text-center py-12">
-              <div className="text-gray-500 mb-4">
-                <Users className="mx-auto mb-4" size={48} />
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  No Links Found
-                </h3>
-                <p className="text-gray-600">
-                  You haven&apos;t made any referrals yet. Start sharing your
-                  referral link to see your links!
-                </p>
-              </div>
-            </div>
-          </Tab>
-          <Tab key="traffic" title="Traffic sources">
-            <div className="text-center py-12">
-              <div className="text-gray-500 mb-4">
-                <Users className="mx-auto mb-4" size={48} />
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  No Traffic Sources Found
-                </h3>
-                <p className="text-gray-600">
-                  You haven&apos;t made any referrals yet. Start sharing your
-                  referral link to see your traffic sources!
-                </p>
-              </div>
-            </div>
-          </Tab>
-          <Tab key="subids" title="Sub-Ids">
-            <div className="text-center py-12">
-              <div className="text-gray-500 mb-4">
-                <Users className="mx-auto mb-4" size={48} />
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  No Sub-Ids Found
-                </h3>
-                <p className="text-gray-600">
-                  You haven&apos;t made any referrals yet. Start sharing your
-                  referral link to see your sub-ids!
-                </p>
-              </div>
-            </div>
-          </Tab>
+          {BREAKDOWN_TABS.map((tab) => (
+            <Tab key={tab.key} title={tab.title}>
+              <Card className="p-0">
+                <CardBody className="p-0">
+                  <CardHeader className="px-6 py-4 border-b border-default/40 flex items-center justify-between">
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      {tab.title}
+                    </h2>
+                    <div className="flex items-center gap-2">
+                      {timeframeControls}
+                    </div>
+                  </CardHeader>
+                  {breakdownLoading ? (
+                    <div className="flex items-center justify-center py-12">
+                      <Spinner
+                        classNames={{ label: "text-foreground mt-4" }}
+                        size="lg"
+                        variant="default"
+                      />
+                    </div>
+                  ) : breakdownRows.length === 0 ? (
+                    <div className="text-center py-12">
+                      <div className="text-gray-500 mb-4">
+                        <Users className="mx-auto mb-4" size={48} />
+                        <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                          No {tab.title} Found
+                        </h3>
+                        <p className="text-gray-600">
+                          {tab.dimension === "link" ? (
+                            <>
+                              No clicks or referrals in this timeframe. Create
+                              named links on the home page to compare where
+                              your {tab.empty} perform best!
+                            </>
+                          ) : (
+                            <>
+                              No clicks or referrals in this timeframe. Add{" "}
+                              <code>?sub_id=</code> or <code>utm_campaign</code>{" "}
+                              / <code>utm_source</code> to your referral link to
+                              see your {tab.empty}!
+                            </>
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                  ) : (
+                    <Table
+                      removeWrapper
+                      aria-label={`${tab.title} breakdown`}
+                      className="p-4"
+                    >
+                      <TableHeader>
+                        <TableColumn>{tab.column}</TableColumn>
+                        <TableColumn>Clicks</TableColumn>
+                        <TableColumn>Signups</TableColumn>
+                        <TableColumn>Customers</TableColumn>
+                        <TableColumn>Earnings</TableColumn>
+                      </TableHeader>
+                      <TableBody>
+                        {breakdownRows.map((row) => (
+                          <TableRow key={row.key ?? ""}>
+                            <TableCell>
+                              {row.key ?? (
+                                <span className="text-gray-400">
+                                  {tab.untagged}
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell>{row.clicks}</TableCell>
+                            <TableCell>{row.signups}</TableCell>
+                            <TableCell>{row.customers}</TableCell>
+                            <TableCell>${row.earnings.toFixed(2)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardBody>
+              </Card>
+            </Tab>
+          ))}
         </Tabs>
       </div>
     </div>
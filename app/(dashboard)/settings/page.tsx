@@ -17,6 +17,11 @@ import { Settings, User, Bell, Upload, Bug, Lock } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { addToast } from "@heroui/toast";
 import { diagnoseProfileUpdate, checkDatabaseTables, debugSession, forceSessionRefresh } from "@/lib/auth";
+import { AccessTokensCard } from "@/components/access-tokens-card";
+import { AccountHistoryCard } from "@/components/account-history-card";
+import { SessionsCard } from "@/components/sessions-card";
+import { TwoFactorCard } from "@/components/two-factor-card";
+import { WebhooksCard } from "@/components/webhooks-card";
 
 export default function SettingsPage() {
   const [loading, setLoading] = useState(false);
@@ -677,6 +682,16 @@ export default function SettingsPage() {
               </Form>
             </CardBody>
           </Card>
+
+          <TwoFactorCard />
+
+          <SessionsCard />
+
+          <AccountHistoryCard />
+
+          <AccessTokensCard />
+
+          <WebhooksCard apiBase="/api/me/webhooks" />
         </div>
       </div>
     </div>
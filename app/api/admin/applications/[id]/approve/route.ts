@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import { ApplicationError, approveApplication } from "@/lib/applications";
+import { ProvisioningError } from "@/lib/provisioning";
+
+// POST /api/admin/applications/:id/approve
+// Provisions the affiliate like create-user and emails a set-password link.
+// → { application, invite: { sent, link? } | null, invite_error? }; the link is only
+// returned when it couldn't be emailed, so the admin can send it by hand.
+export const POST = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["manager"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 2];
+
+  try {
+    const { application, invite, invite_error } = await approveApplication(
+      id,
+      staff.email,
+    );
+
+    await recordAuditEvent(request, {
+      action: "user.created",
+      actor: staff,
+      target: { id: application.user_id!, email: application.email },
+      changes: {
+        email: { to: application.email },
+        source: { to: "application" },
+      },
+    });
+
+    return NextResponse.json({
+      application,
+      invite: invite && {
+        sent: invite.sent,
+        link: invite.sent ? undefined : invite.link,
+      },
+      invite_error,
+    });
+  } catch (e: any) {
+    if (e instanceof ApplicationError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    if (e instanceof ProvisioningError) {
+      return NextResponse.json(
+        { error: e.message, ...e.details },
+        { status: e.status },
+      );
+    }
+    console.error("Failed to approve application:", e);
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to approve application" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
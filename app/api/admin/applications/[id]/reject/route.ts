@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { ApplicationError, rejectApplication } from "@/lib/applications";
+
+// POST /api/admin/applications/:id/reject  body: { reason? } → { application }
+// The reason is kept for staff; the applicant isn't notified.
+export const POST = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["manager"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 2];
+
+  const body = await request.json().catch(() => null);
+  const reason = String(body?.reason || "").trim();
+
+  if (reason.length > 2000) {
+    return NextResponse.json(
+      { error: "reason must be at most 2000 chars" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const application = await rejectApplication(
+      id,
+      staff.email,
+      reason || null,
+    );
+
+    return NextResponse.json({ application });
+  } catch (e: any) {
+    if (e instanceof ApplicationError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to reject application" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import {
+  APPLICATION_STATUSES,
+  listApplications,
+  type ApplicationStatus,
+} from "@/lib/applications";
+
+// GET /api/admin/applications?status=pending|approved|rejected|all → { applications }, newest first
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["manager"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  const status = new URL(request.url).searchParams.get("status") || "pending";
+
+  if (
+    status !== "all" &&
+    !APPLICATION_STATUSES.includes(status as ApplicationStatus)
+  ) {
+    return NextResponse.json(
+      {
+        error: `status must be all or one of ${APPLICATION_STATUSES.join(", ")}`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const applications = await listApplications(
+      status as ApplicationStatus | "all",
+    );
+
+    return NextResponse.json({ applications });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load applications" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import {
+  buildAuditCsv,
+  listAuditEvents,
+  MAX_EXPORT_ROWS,
+  parseAuditFilter,
+} from "@/lib/audit";
+
+// GET /api/admin/audit?q=&action=&from=&to= → { events } (newest 200)
+// q matches actor/target email or IP, or a user id. format=csv returns up to
+// MAX_EXPORT_ROWS matching events as a CSV attachment instead.
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  const params = new URL(request.url).searchParams;
+  const { value: filter, error } = parseAuditFilter(params);
+
+  if (error || !filter) return NextResponse.json({ error }, { status: 400 });
+
+  try {
+    if (params.get("format") === "csv") {
+      const events = await listAuditEvents(filter, MAX_EXPORT_ROWS);
+
+      return new NextResponse(buildAuditCsv(events), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return NextResponse.json({ events: await listAuditEvents(filter) });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load audit events" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { isValidDay, toReportDay } from "@/lib/metrics";
+import {
+  ClawbackTargetError,
+  createClawback,
+  getAdjustments,
+} from "@/lib/commissions";
+
+// GET /api/admin/clawbacks?user_id= → { adjustments } (refund reversals and manual clawbacks)
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  const params = new URL(request.url).searchParams;
+
+  try {
+    const adjustments = await getAdjustments({
+      user_id: params.get("user_id"),
+    });
+
+    return NextResponse.json({ adjustments });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load adjustments" },
+      { status: 500 },
+    );
+  }
+});
+
+// POST /api/admin/clawbacks  body: { user_id, amount, reason, day?, line_item_id? }
+// With line_item_id the clawback is capped at that commission and can only happen once.
+export const POST = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const email = staff.email;
+
+  const body = await request.json().catch(() => null);
+  const { user_id, line_item_id } = body || {};
+  const amount = Number(body?.amount);
+  const reason = String(body?.reason || "").trim();
+  const day = body?.day || toReportDay(new Date());
+
+  if (!user_id || !Number.isFinite(amount) || amount <= 0) {
+    return NextResponse.json(
+      { error: "user_id and a positive amount are required" },
+      { status: 400 },
+    );
+  }
+  if (!reason)
+    return NextResponse.json({ error: "reason is required" }, { status: 400 });
+  if (!isValidDay(day))
+    return NextResponse.json(
+      { error: "day must be YYYY-MM-DD" },
+      { status: 400 },
+    );
+
+  try {
+    const clawback = await createClawback({
+      user_id,
+      amount,
+      reason: reason.slice(0, 500),
+      day,
+      line_item_id: line_item_id || null,
+      created_by: email,
+    });
+
+    if (!clawback) {
+      return NextResponse.json(
+        { error: "That line item has already been fully reversed" },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ clawback }, { status: 201 });
+  } catch (e: any) {
+    if (e instanceof ClawbackTargetError) {
+      return NextResponse.json({ error: e.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to create clawback" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
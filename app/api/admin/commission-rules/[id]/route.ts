@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { parseCommissionRuleInput } from "@/lib/commissions";
+
+// PATCH /api/admin/commission-rules/:id  body: any subset of CommissionRuleInput
+// Changes apply to commissions calculated from now on; existing line items keep their amounts.
+export const PATCH = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const url = new URL(request.url);
+  const parts = url.pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 1];
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseCommissionRuleInput(body, true);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  const { data, error } = await supabaseAdmin
+    .from("commission_rules")
+    .update(value!)
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error)
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!data)
+    return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+
+  return NextResponse.json({ rule: data });
+});
+
+// DELETE deactivates rather than deletes, so line items keep pointing at their rule
+export const DELETE = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const url = new URL(request.url);
+  const parts = url.pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 1];
+
+  const { error } = await supabaseAdmin
+    .from("commission_rules")
+    .update({ active: false })
+    .eq("id", id);
+
+  if (error)
+    return NextResponse.json({ error: error.message }, { status: 500 });
+
+  return NextResponse.json({ success: true });
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
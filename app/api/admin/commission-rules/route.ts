@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { parseCommissionRuleInput } from "@/lib/commissions";
+
+// GET /api/admin/commission-rules?user_id=uuid|default
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  const userId = new URL(request.url).searchParams.get("user_id");
+  let query = supabaseAdmin
+    .from("commission_rules")
+    .select("*")
+    .order("effective_from", { ascending: false });
+
+  if (userId === "default") query = query.is("user_id", null);
+  else if (userId) query = query.eq("user_id", userId);
+
+  const { data, error } = await query;
+
+  if (error)
+    return NextResponse.json({ error: error.message }, { status: 500 });
+
+  return NextResponse.json({ rules: data || [] });
+});
+
+// POST /api/admin/commission-rules  body: CommissionRuleInput (user_id omitted/null = default plan)
+export const POST = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const email = staff.email;
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseCommissionRuleInput(body);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  const { data, error } = await supabaseAdmin
+    .from("commission_rules")
+    .insert({ ...value, created_by: email })
+    .select("*")
+    .single();
+
+  if (error)
+    return NextResponse.json({ error: error.message }, { status: 500 });
+
+  return NextResponse.json({ rule: data }, { status: 201 });
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { isValidDay } from "@/lib/metrics";
+import { recordCommission } from "@/lib/commissions";
+
+// POST /api/admin/commissions/calculate  body: { user_id?, from?, to? }
+// Creates line items for conversion events that don't have one yet. Re-running is safe.
+export const POST = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  const body = await request.json().catch(() => ({}));
+  const { user_id, from, to } = body || {};
+
+  if ((from && !isValidDay(from)) || (to && !isValidDay(to))) {
+    return NextResponse.json(
+      { error: "from/to must be YYYY-MM-DD" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    let query = supabaseAdmin
+      .from("referral_events")
+      .select("id, referrer_id, event_type, date, revenue, status")
+      .not("status", "in", "(rejected,refunded)")
+      .order("date", { ascending: true });
+
+    if (user_id) query = query.eq("referrer_id", user_id);
+    if (from) query = query.gte("date", from);
+    if (to) query = query.lte("date", to);
+    const { data: events, error } = await query;
+
+    if (error) throw error;
+
+    const ids = (events || []).map((e) => e.id);
+    const { data: existing, error: existingErr } = ids.length
+      ? await supabaseAdmin
+          .from("commission_line_items")
+          .select("referral_event_id")
+          .in("referral_event_id", ids)
+      : { data: [], error: null };
+
+    if (existingErr) throw existingErr;
+    const done = new Set(
+      (existing || []).map((li: any) => li.referral_event_id),
+    );
+
+    // Oldest first so tiered plans count the month's customers in order
+    let created = 0;
+    let total = 0;
+
+    for (const e of events || []) {
+      if (done.has(e.id)) continue;
+      const item = await recordCommission({
+        id: e.id,
+        user_id: e.referrer_id,
+        event_type: e.event_type,
+        day: e.date,
+        revenue: e.revenue === null ? null : Number(e.revenue),
+      });
+
+      if (item) {
+        created += 1;
+        total += Number(item.amount);
+      }
+    }
+
+    return NextResponse.json({
+      scanned: events?.length || 0,
+      created,
+      amount: Math.round(total * 100) / 100,
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to calculate commissions" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { JobError, rerunJob, runJob } from "@/lib/jobs";
+
+const RUN_BUDGET_MS = 50_000;
+
+// POST /api/admin/jobs/:id/rerun — re-run a failed job as a new job (retry_of
+// points back) → { job }. Only the failed items are retried when there are any.
+export const POST = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 2];
+
+  try {
+    const queued = await rerunJob(id, staff.email);
+    const job = await runJob(queued.id, Date.now() + RUN_BUDGET_MS);
+
+    return NextResponse.json({ job: job || queued });
+  } catch (e: any) {
+    if (e instanceof JobError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("Failed to re-run job:", e);
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to re-run job" },
+      { status: 500 },
+    );
+  }
+});
+
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { getJob, JobError } from "@/lib/jobs";
+
+// GET /api/admin/jobs/:id → { job, errors: [{ item, error, created_at }] }
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 1];
+
+  try {
+    return NextResponse.json(await getJob(id));
+  } catch (e: any) {
+    if (e instanceof JobError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to load job" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import {
+  enqueueJob,
+  JobError,
+  JOB_NAMES,
+  listJobs,
+  listJobTypes,
+  runJob,
+} from "@/lib/jobs";
+
+const RUN_BUDGET_MS = 50_000;
+
+// GET /api/admin/jobs → { jobs, types: [{ name, label }] }, jobs newest first
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  try {
+    return NextResponse.json({ jobs: await listJobs(), types: listJobTypes() });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load jobs" },
+      { status: 500 },
+    );
+  }
+});
+
+// POST /api/admin/jobs { name } — start a run now → { job }. Runs that don't
+// finish within the request are left queued for the scheduler.
+export const POST = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  const body = await request.json().catch(() => ({}) as any);
+  const name = String(body?.name || "");
+
+  if (!JOB_NAMES.includes(name)) {
+    return NextResponse.json(
+      { error: `name must be one of ${JOB_NAMES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const queued = await enqueueJob(name, staff.email);
+    const job = await runJob(queued.id, Date.now() + RUN_BUDGET_MS);
+
+    return NextResponse.json({ job: job || queued });
+  } catch (e: any) {
+    if (e instanceof JobError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("Failed to start job:", e);
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to start job" },
+      { status: 500 },
+    );
+  }
+});
+
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
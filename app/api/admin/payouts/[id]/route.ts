@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  cancelPayout,
+  canTransitionPayout,
+  getPayout,
+  PAYOUT_STATUSES,
+  PayoutStatus,
+} from "@/lib/payouts";
+import { emitWebhookEvent } from "@/lib/webhooks";
+
+// PATCH /api/admin/payouts/:id  body: { status?, method?, reference?, notes? }
+// Marking paid requires a method and reference; paid and cancelled payouts are final.
+export const PATCH = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const url = new URL(request.url);
+  const parts = url.pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 1];
+
+  const body = await request.json().catch(() => null);
+  const status = body?.status as PayoutStatus | undefined;
+
+  if (status && !PAYOUT_STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: `status must be one of ${PAYOUT_STATUSES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const payout = await getPayout(id);
+
+    if (!payout)
+      return NextResponse.json({ error: "Payout not found" }, { status: 404 });
+
+    if (
+      status &&
+      status !== payout.status &&
+      !canTransitionPayout(payout.status, status)
+    ) {
+      return NextResponse.json(
+        { error: `Cannot change a ${payout.status} payout to ${status}` },
+        { status: 409 },
+      );
+    }
+    if (status === "cancelled" && payout.status !== "cancelled") {
+      return NextResponse.json({ payout: await cancelPayout(id) });
+    }
+
+    const update: Record<string, any> = {};
+
+    if (body?.method !== undefined) update.method = body.method || null;
+    if (body?.reference !== undefined)
+      update.reference = body.reference || null;
+    if (body?.notes !== undefined) update.notes = body.notes || null;
+    if (status) update.status = status;
+    if (status === "paid" && payout.status !== "paid") {
+      const method = update.method ?? payout.method;
+      const reference = update.reference ?? payout.reference;
+
+      if (!method || !reference) {
+        return NextResponse.json(
+          { error: "method and reference are required to mark a payout paid" },
+          { status: 400 },
+        );
+      }
+      update.paid_at = new Date().toISOString();
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("payouts")
+      .update(update)
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+
+    const updated = { ...data, amount: Number(data.amount) || 0 };
+
+    if (status === "paid" && payout.status !== "paid") {
+      const {
+        id: payoutId,
+        user_id,
+        period_start,
+        period_end,
+        amount,
+        method,
+        reference,
+        paid_at,
+      } = updated;
+
+      await emitWebhookEvent("payout.paid", user_id, {
+        id: payoutId,
+        user_id,
+        period_start,
+        period_end,
+        amount,
+        method,
+        reference,
+        paid_at,
+      });
+    }
+
+    return NextResponse.json({ payout: updated });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to update payout" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
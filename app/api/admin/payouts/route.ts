@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { isValidDay } from "@/lib/metrics";
+import {
+  createPayout,
+  getPayouts,
+  isNoDataError,
+  PAYOUT_STATUSES,
+  PayoutStatus,
+} from "@/lib/payouts";
+
+// GET /api/admin/payouts?user_id=&status=
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  const params = new URL(request.url).searchParams;
+  const status = params.get("status");
+
+  if (status && !PAYOUT_STATUSES.includes(status as PayoutStatus)) {
+    return NextResponse.json(
+      { error: `status must be one of ${PAYOUT_STATUSES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const payouts = await getPayouts({
+      user_id: params.get("user_id"),
+      status,
+    });
+
+    return NextResponse.json({ payouts });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load payouts" },
+      { status: 500 },
+    );
+  }
+});
+
+// POST /api/admin/payouts  body: { user_id, period_start, period_end, status?: "pending"|"held", method?, notes? }
+// Batches the user's unpaid line items in the period; the amount is their sum.
+export const POST = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const email = staff.email;
+
+  const body = await request.json().catch(() => null);
+  const { user_id, period_start, period_end, status, method, notes } =
+    body || {};
+
+  if (
+    !user_id ||
+    !isValidDay(period_start) ||
+    !isValidDay(period_end) ||
+    period_start > period_end
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "user_id, period_start and period_end (YYYY-MM-DD, start <= end) are required",
+      },
+      { status: 400 },
+    );
+  }
+  if (status && status !== "pending" && status !== "held") {
+    return NextResponse.json(
+      { error: "New payouts must be pending or held" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const payout = await createPayout({
+      user_id,
+      period_start,
+      period_end,
+      status,
+      method,
+      notes,
+      created_by: email,
+    });
+
+    return NextResponse.json({ payout }, { status: 201 });
+  } catch (e: any) {
+    if (isNoDataError(e)) {
+      return NextResponse.json(
+        { error: "No unpaid earnings in that period" },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to create payout" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { findReferrerByCode, getReferralCodeHistory } from "@/lib/referrers";
+
+// GET /api/admin/referral-codes?code=&user_id= → { history, current }
+// history: renames involving the code and/or of the user's codes, newest first.
+// current: who the code resolves to today (null if unknown or past its alias grace period).
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["manager"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  const params = new URL(request.url).searchParams;
+  const code = params.get("code") || undefined;
+  const userId = params.get("user_id") || undefined;
+
+  try {
+    const [history, current] = await Promise.all([
+      getReferralCodeHistory({ code, user_id: userId }),
+      code ? findReferrerByCode(code) : Promise.resolve(null),
+    ]);
+
+    return NextResponse.json({ history, current });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load code history" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import {
+  getAttributionSettings,
+  parseAttributionSettings,
+  updateAttributionSettings,
+} from "@/lib/settings";
+
+// GET /api/admin/settings/attribution → { window_days, mode }
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  try {
+    return NextResponse.json(await getAttributionSettings());
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load settings" },
+      { status: 500 },
+    );
+  }
+});
+
+// PUT /api/admin/settings/attribution  body: { window_days: 1-365, mode: "first_touch"|"last_touch" }
+// Applies to conversions ingested from now on; stored attributions are not recomputed.
+export const PUT = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const email = staff.email;
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseAttributionSettings(body);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    return NextResponse.json(await updateAttributionSettings(value!, email));
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to save settings" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import {
+  getClawbackSettings,
+  parseClawbackSettings,
+  updateClawbackSettings,
+} from "@/lib/settings";
+
+// GET /api/admin/settings/clawback → { refund_window_days }
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  try {
+    return NextResponse.json(await getClawbackSettings());
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load settings" },
+      { status: 500 },
+    );
+  }
+});
+
+// PUT /api/admin/settings/clawback  body: { refund_window_days: 0-730 }
+// Refunds arriving more than refund_window_days after the sale keep their commission.
+export const PUT = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["finance"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const email = staff.email;
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseClawbackSettings(body);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    return NextResponse.json(await updateClawbackSettings(value!, email));
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to save settings" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
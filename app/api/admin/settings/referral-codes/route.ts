@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import {
+  getReferralCodeSettings,
+  parseReferralCodeSettings,
+  updateReferralCodeSettings,
+} from "@/lib/settings";
+
+// GET /api/admin/settings/referral-codes → { alias_grace_days, reuse_cooldown_days }
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  try {
+    return NextResponse.json(await getReferralCodeSettings());
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load settings" },
+      { status: 500 },
+    );
+  }
+});
+
+// PUT /api/admin/settings/referral-codes  body: { alias_grace_days: 0-3650, reuse_cooldown_days: 0-3650 }
+// Retired codes redirect for alias_grace_days; other users can claim them after reuse_cooldown_days.
+export const PUT = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const email = staff.email;
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseReferralCodeSettings(body);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    return NextResponse.json(await updateReferralCodeSettings(value!, email));
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to save settings" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { hasRole } from "@/lib/roles";
+import {
+  getTwoFactorSettings,
+  parseTwoFactorSettings,
+  updateTwoFactorSettings,
+} from "@/lib/settings";
+import { isTwoFactorEnabled } from "@/lib/two-factor";
+
+// GET /api/admin/settings/two-factor → { required_roles }
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  try {
+    return NextResponse.json(await getTwoFactorSettings());
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load settings" },
+      { status: 500 },
+    );
+  }
+});
+
+// PUT /api/admin/settings/two-factor  body: { required_roles: ["manager" | "finance" | "admin", ...] }
+// Staff holding a listed role keep signing in, but their admin access is refused
+// until they turn on 2FA. 409 if it would lock out the admin making the change.
+export const PUT = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseTwoFactorSettings(body);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    if (
+      value!.required_roles.length > 0 &&
+      hasRole(staff.roles, ...value!.required_roles)
+    ) {
+      if (!(await isTwoFactorEnabled(staff.id))) {
+        return NextResponse.json(
+          {
+            error:
+              "Turn on two-factor authentication for your own account first",
+          },
+          { status: 409 },
+        );
+      }
+    }
+
+    return NextResponse.json(
+      await updateTwoFactorSettings(value!, staff.email),
+    );
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to save settings" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
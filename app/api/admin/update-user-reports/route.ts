@@ -1,93 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { requireRole } from '@/app/api/utils/require-role';
+import { withRateLimit } from '@/app/api/utils/rate-limit';
+import { enqueueJob, runJob } from '@/lib/jobs';
+
+const RUN_BUDGET_MS = 50_000;
+
+// Kept for existing callers; the scheduler (/api/cron/jobs) runs this daily.
+// Starts a daily_reports_rollover run like "Run now" on /admin/jobs.
+export const POST = withRateLimit("admin", async (request: NextRequest) => {
+  const staff = await requireRole(request, ['admin']);
+  if (staff instanceof NextResponse) return staff;
 
-export async function POST(request: NextRequest) {
   try {
-    console.log('🔄 Starting daily user reports update...');
-    
-    // Get all affiliate referrers (users)
-    const { data: referrers, error: referrersError } = await supabase
-      .from('affiliate_referrers')
-      .select('user_id');
-    
-    if (referrersError) {
-      console.error('Error fetching referrers:', referrersError);
-      return NextResponse.json({ error: 'Failed to fetch referrers' }, { status: 500 });
-    }
-    
-    console.log(`📊 Processing ${referrers.length} users...`);
-    
-    const today = new Date();
-    // Convert to MDT timezone
-    const mdtToday = new Date(today.toLocaleString("en-US", {timeZone: "America/Edmonton"}));
-    mdtToday.setHours(0, 0, 0, 0);
-    
-    for (const referrer of referrers) {
-      try {
-        console.log(`👤 Processing user ${referrer.user_id}`);
-        
-        // Get current user_reports
-        const { data: kpiData, error: kpiError } = await supabase
-          .from('dashboard_kpis')
-          .select('user_reports')
-          .eq('user_id', referrer.user_id)
-          .single();
-        
-        if (kpiError && kpiError.code !== 'PGRST116') {
-          console.error(`Error fetching KPIs for user ${referrer.user_id}:`, kpiError);
-          continue;
-        }
-        
-        let userReports = kpiData?.user_reports || {
-          links: {},
-          sub_ids: {},
-          overview: {},
-          traffic_sources: {}
-        };
-        
-        // Ensure overview exists
-        if (!userReports.overview) {
-          userReports.overview = {};
-        }
-        
-        // Add today's entry if it doesn't exist
-        const todayKey = mdtToday.toLocaleDateString("en-CA", {timeZone: "America/Edmonton"}); // YYYY-MM-DD format
-        
-        if (!userReports.overview[todayKey]) {
-          userReports.overview[todayKey] = {
-            clicks: 0,
-            signups: 0,
-            earnings: 0,
-            customers: 0
-          };
-          console.log(`📅 Added today's entry (${todayKey}) for user ${referrer.user_id}`);
-          
-          // Update the database
-          const { error: updateError } = await supabase
-            .from('dashboard_kpis')
-            .upsert({
-              user_id: referrer.user_id,
-              user_reports: userReports,
-              updated_at: new Date().toISOString()
-            });
-          
-          if (updateError) {
-            console.error(`Error updating reports for user ${referrer.user_id}:`, updateError);
-          } else {
-            console.log(`✅ Updated reports for user ${referrer.user_id}`);
-          }
-        }
-        
-      } catch (error) {
-        console.error(`Error processing user ${referrer.user_id}:`, error);
-      }
+    const queued = await enqueueJob('daily_reports_rollover', staff.email);
+    const job = (await runJob(queued.id, Date.now() + RUN_BUDGET_MS)) || queued;
+
+    if (job.status === 'failed') {
+      return NextResponse.json({ error: job.error || `${job.failed} users failed`, job }, { status: 500 });
     }
-    
-    console.log('✅ Daily user reports update completed');
-    return NextResponse.json({ success: true, message: 'User reports updated successfully' });
-    
+    return NextResponse.json({
+      success: true,
+      message: job.status === 'succeeded' ? 'User reports updated successfully' : 'User reports update continues in the background',
+      job,
+    });
   } catch (error) {
     console.error('Error in daily user reports update:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
+
+export const maxDuration = 60;
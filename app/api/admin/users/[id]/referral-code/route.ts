@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { normalizeReferralCode, setPrimaryReferralCode } from "@/lib/referrers";
+import { recordAuditEvent } from "@/lib/audit";
+import { AdminUserError, assertCanManageUser } from "@/lib/admin-users";
+
+// PUT /api/admin/users/:userId/referral-code  body: { code }
+// Same rules as the affiliate's own token change; the rename is recorded with the admin's email.
+// 403 when a manager targets a user holding a staff role; only admins can change those.
+export const PUT = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["manager"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const email = staff.email;
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const userId = parts[parts.length - 2];
+
+  const body = await request.json().catch(() => null);
+  const code = normalizeReferralCode(body?.code);
+
+  if (code.length < 3 || code.length > 32) {
+    return NextResponse.json(
+      { error: "code must be 3-32 chars (a-z, 0-9, _ or -)" },
+      { status: 400 },
+    );
+  }
+
+  const { data: approval, error: approvalErr } = await supabaseAdmin
+    .from("approved_users")
+    .select("status")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (approvalErr)
+    return NextResponse.json({ error: approvalErr.message }, { status: 500 });
+  if (!approval || approval.status === "offboarded") {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  try {
+    await assertCanManageUser(userId, staff.roles);
+    const saved = await setPrimaryReferralCode(userId, code, email);
+
+    if (!saved)
+      return NextResponse.json(
+        { error: "That code is already taken" },
+        { status: 409 },
+      );
+    if (saved.previous !== saved.code) {
+      await recordAuditEvent(request, {
+        action: "referral_code.changed",
+        actor: staff,
+        target: { id: userId },
+        changes: { referral_code: { from: saved.previous, to: saved.code } },
+      });
+    }
+
+    return NextResponse.json({ code: saved.code });
+  } catch (e: any) {
+    if (e instanceof AdminUserError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to update referral code" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import { GRANTABLE_ROLES, Role } from "@/lib/roles";
+import { getUserRoles, setUserRoles } from "@/lib/user-roles";
+
+// PUT /api/admin/users/:userId/roles  body: { roles: ["manager" | "finance" | "admin", ...] }
+// Replaces the user's granted roles. Sessions pick up the change within a few minutes, PATs immediately.
+export const PUT = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const userId = parts[parts.length - 2];
+
+  const body = await request.json().catch(() => null);
+  const roles = body?.roles;
+
+  if (
+    !Array.isArray(roles) ||
+    roles.some(
+      (role) => role !== "affiliate" && !GRANTABLE_ROLES.includes(role),
+    )
+  ) {
+    return NextResponse.json(
+      { error: `roles must be a list of ${GRANTABLE_ROLES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+  if (userId === staff.id && !roles.includes("admin")) {
+    return NextResponse.json(
+      { error: "You can't remove your own admin role" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const previous = await getUserRoles(userId);
+    const saved = await setUserRoles(userId, roles as Role[], staff.email);
+
+    if (previous.join(",") !== saved.join(",")) {
+      await recordAuditEvent(request, {
+        action: "roles.changed",
+        actor: staff,
+        target: { id: userId },
+        changes: { roles: { from: previous, to: saved } },
+      });
+    }
+
+    return NextResponse.json({ roles: saved });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to update roles" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  AdminUserError,
+  offboardUser,
+  parseAdminUserUpdate,
+  updateAdminUser,
+} from "@/lib/admin-users";
+
+function userIdFrom(request: Request): string {
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+
+  return parts[parts.length - 1];
+}
+
+// PATCH /api/admin/users/:userId  body: any of { status: active|suspended, notes, first_name, last_name, user_aryeo_id }
+// Suspending blocks cookie sessions and PATs on the user's next request.
+// 403 when a manager targets a user holding a staff role; only admins can change those.
+export const PATCH = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["manager"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const email = staff.email;
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseAdminUserUpdate(body);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    const userId = userIdFrom(request);
+    const changes = await updateAdminUser(userId, value!, email, staff.roles);
+
+    if (Object.keys(changes).length > 0) {
+      const status = changes.status?.to;
+
+      await recordAuditEvent(request, {
+        action:
+          status === "suspended"
+            ? "user.suspended"
+            : status === "active"
+              ? "user.reactivated"
+              : "user.updated",
+        actor: staff,
+        target: { id: userId },
+        changes,
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (e: any) {
+    if (e instanceof AdminUserError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to update user" },
+      { status: 500 },
+    );
+  }
+});
+
+// DELETE /api/admin/users/:userId — offboard: revokes access and removes the
+// profile, referral codes, KPIs, API keys and auth user. Earnings history is kept.
+export const DELETE = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const email = staff.email;
+
+  try {
+    const userId = userIdFrom(request);
+
+    await offboardUser(userId, email);
+    await recordAuditEvent(request, {
+      action: "user.offboarded",
+      actor: staff,
+      target: { id: userId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (e: any) {
+    if (e instanceof AdminUserError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to offboard user" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import { resetTwoFactor } from "@/lib/two-factor";
+
+// DELETE /api/admin/users/:userId/two-factor
+// Turns off the user's 2FA and deletes their recovery codes, for someone who
+// lost their device and codes. They can sign in with their password and enrol again.
+export const DELETE = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const userId = parts[parts.length - 2];
+
+  if (userId === staff.id) {
+    return NextResponse.json(
+      { error: "Turn off your own two-factor authentication from Settings" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await resetTwoFactor(userId);
+    await recordAuditEvent(request, {
+      action: "two_factor.reset",
+      actor: staff,
+      target: { id: userId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to reset two-factor authentication" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
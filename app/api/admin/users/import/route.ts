@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  importAffiliates,
+  parseImportCsv,
+  parseImportRows,
+  validateImportRows,
+  type ImportRowResult,
+} from "@/lib/affiliate-import";
+
+const summarize = (results: ImportRowResult[]) => {
+  const summary = {
+    total: results.length,
+    valid: 0,
+    invalid: 0,
+    created: 0,
+    failed: 0,
+  };
+
+  for (const r of results) summary[r.status] += 1;
+
+  return summary;
+};
+
+// POST /api/admin/users/import
+//   body { csv }  → dry run: validates every row, writes nothing
+//   body { rows } → provisions up to IMPORT_BATCH_SIZE rows from a dry run (re-validated) and invites them
+// → { results, summary }
+export const POST = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["manager"]);
+
+  if (staff instanceof NextResponse) return staff;
+
+  const body = await request.json().catch(() => null);
+  const dryRun = typeof body?.csv === "string";
+  const { rows, error } = dryRun
+    ? parseImportCsv(body.csv)
+    : parseImportRows(body?.rows);
+
+  if (!rows) return NextResponse.json({ error }, { status: 400 });
+
+  try {
+    const results = dryRun
+      ? await validateImportRows(rows)
+      : await importAffiliates(rows, staff.email);
+
+    for (const r of results) {
+      if (r.status !== "created") continue;
+      await recordAuditEvent(request, {
+        action: "user.created",
+        actor: staff,
+        target: { id: r.user_id!, email: r.email },
+        changes: {
+          email: { to: r.email },
+          referral_code: { to: r.referral_code },
+          source: { to: "import" },
+        },
+      });
+    }
+
+    return NextResponse.json({ results, summary: summarize(results) });
+  } catch (e: any) {
+    console.error("Affiliate import failed:", e);
+
+    return NextResponse.json(
+      { error: e?.message || "Import failed" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -1,21 +1,29 @@
 import { NextResponse } from "next/server";
-import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
 import { supabaseAdmin } from "@/lib/supabase-admin";
 
-export async function GET(request: Request) {
-  const ext = await resolveExternalUser(request);
-  const email = ext?.email?.toLowerCase() || "";
-  // Basic admin guard (adjust as needed)
-  if (!email.endsWith("@virtualxposure.com")) {
-    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+const LIST_STATUSES = ["active", "suspended", "offboarded", "all"];
+
+// GET /api/admin/users?status=active|suspended|offboarded|all
+// Without status: active and suspended users (offboarded ones are hidden).
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["manager", "finance"]);
+  if (staff instanceof NextResponse) return staff;
+
+  const status = new URL(request.url).searchParams.get("status");
+  if (status && !LIST_STATUSES.includes(status)) {
+    return NextResponse.json({ error: `status must be one of ${LIST_STATUSES.join(", ")}` }, { status: 400 });
   }
 
   // 1) Load approved users
-  const { data: approved, error: approvedErr } = await supabaseAdmin
+  let query = supabaseAdmin
     .from("approved_users")
-    .select("id, user_id, user_email, status, created_at")
-    .eq("status", "active")
+    .select("id, user_id, user_email, status, notes, suspended_at, suspended_by, created_at")
     .order("created_at", { ascending: false });
+  if (!status) query = query.neq("status", "offboarded");
+  else if (status !== "all") query = query.eq("status", status);
+  const { data: approved, error: approvedErr } = await query;
   if (approvedErr) {
     return NextResponse.json({ error: approvedErr.message }, { status: 500 });
   }
@@ -28,7 +36,7 @@ export async function GET(request: Request) {
   // 2) Load profiles
   const { data: profiles, error: profilesErr } = await supabaseAdmin
     .from("affiliate_profiles")
-    .select("user_id, first_name, last_name")
+    .select("user_id, first_name, last_name, user_aryeo_id")
     .in("user_id", userIds);
   if (profilesErr) {
     return NextResponse.json({ error: profilesErr.message }, { status: 500 });
@@ -43,8 +51,32 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: refErr.message }, { status: 500 });
   }
 
+  // 4) Load granted roles (everyone is implicitly an affiliate)
+  const { data: userRoles, error: rolesErr } = await supabaseAdmin
+    .from("user_roles")
+    .select("user_id, role")
+    .in("user_id", userIds);
+  if (rolesErr) {
+    return NextResponse.json({ error: rolesErr.message }, { status: 500 });
+  }
+
+  // 5) Who has two-factor authentication on
+  const { data: twoFactor, error: twoFactorErr } = await supabaseAdmin
+    .from("user_two_factor")
+    .select("user_id")
+    .in("user_id", userIds)
+    .not("enabled_at", "is", null);
+  if (twoFactorErr) {
+    return NextResponse.json({ error: twoFactorErr.message }, { status: 500 });
+  }
+
+  const twoFactorIds = new Set((twoFactor || []).map((t: any) => t.user_id));
   const profilesMap = new Map((profiles || []).map((p: any) => [p.user_id, p]));
   const refMap = new Map((referrers || []).map((r: any) => [r.user_id, r]));
+  const rolesMap = new Map<string, string[]>();
+  for (const r of userRoles || []) {
+    rolesMap.set(r.user_id, [...(rolesMap.get(r.user_id) || []), r.role]);
+  }
 
   const users = approved.map((u: any) => {
     const p = profilesMap.get(u.user_id);
@@ -55,13 +87,21 @@ export async function GET(request: Request) {
       user_email: u.user_email,
       first_name: p?.first_name || "Unknown",
       last_name: p?.last_name || "User",
+      user_aryeo_id: p?.user_aryeo_id || null,
       status: u.status,
+      notes: u.notes || null,
+      suspended_at: u.suspended_at || null,
+      suspended_by: u.suspended_by || null,
       created_at: u.created_at,
       referral_code: r?.code || null,
+      roles: ["affiliate", ...(rolesMap.get(u.user_id) || [])],
+      two_factor: twoFactorIds.has(u.user_id),
     };
   });
 
   return NextResponse.json({ users });
-}
-
+});
 
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
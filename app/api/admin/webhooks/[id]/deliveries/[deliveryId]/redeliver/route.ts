@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { redeliverWebhook, WebhookError } from "@/lib/webhooks";
+
+// POST /api/admin/webhooks/:id/deliveries/:deliveryId/redeliver → { delivery }
+// Sends the event again as a new delivery; 409 while the original is still retrying.
+export const POST = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const owner = { userId: staff.id, platform: true };
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 4];
+  const deliveryId = parts[parts.length - 2];
+
+  try {
+    return NextResponse.json({
+      delivery: await redeliverWebhook(owner, id, deliveryId),
+    });
+  } catch (e: any) {
+    if (e instanceof WebhookError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("Webhook redelivery failed:", e);
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to redeliver" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { listWebhookDeliveries, WebhookError } from "@/lib/webhooks";
+
+// GET /api/admin/webhooks/:id/deliveries → { deliveries }, the latest 50, newest first
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const owner = { userId: staff.id, platform: true };
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 2];
+
+  try {
+    return NextResponse.json({
+      deliveries: await listWebhookDeliveries(owner, id),
+    });
+  } catch (e: any) {
+    if (e instanceof WebhookError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to load deliveries" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
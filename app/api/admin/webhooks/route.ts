@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { requireRole } from "@/app/api/utils/require-role";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  parseWebhookEndpointInput,
+  WebhookError,
+} from "@/lib/webhooks";
+
+// GET /api/admin/webhooks → { endpoints }. Platform webhook endpoints (events about every affiliate), oldest first.
+export const GET = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const owner = { userId: staff.id, platform: true };
+
+  try {
+    return NextResponse.json({ endpoints: await listWebhookEndpoints(owner) });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load webhooks" },
+      { status: 500 },
+    );
+  }
+});
+
+// POST /api/admin/webhooks  body: { url, events, description? } → 201 { endpoint, secret }
+// The signing secret is only returned here and when it is rolled.
+export const POST = withRateLimit("admin", async (request: Request) => {
+  const staff = await requireRole(request, ["admin"]);
+
+  if (staff instanceof NextResponse) return staff;
+  const owner = { userId: staff.id, platform: true };
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseWebhookEndpointInput(body);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    return NextResponse.json(await createWebhookEndpoint(owner, value!), {
+      status: 201,
+    });
+  } catch (e: any) {
+    if (e instanceof WebhookError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to create webhook" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
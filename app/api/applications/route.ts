@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import {
+  ApplicationError,
+  parseApplicationInput,
+  submitApplication,
+} from "@/lib/applications";
+
+// POST /api/applications (public) body: { email, first_name, last_name, phone?, brokerage, market, promotion_plan }
+// → 201 { success: true }; 409 if the email already has an account or a pending application.
+export const POST = withRateLimit("public", async (request: Request) => {
+  const body = await request.json().catch(() => null);
+
+  // Honeypot: the form keeps `website` hidden, so only bots fill it in
+  if (body?.website)
+    return NextResponse.json({ success: true }, { status: 201 });
+
+  const { value, error } = parseApplicationInput(body);
+
+  if (!value) return NextResponse.json({ error }, { status: 400 });
+
+  try {
+    await submitApplication(value);
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (e: any) {
+    if (e instanceof ApplicationError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("Failed to submit application:", e);
+
+    return NextResponse.json(
+      { error: "Failed to submit application" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -1,8 +1,42 @@
+import crypto from "crypto";
 import NextAuth from "next-auth";
+import { NextResponse } from "next/server";
 import { authOptions } from "@/lib/nextauth";
+import { getClientIp, hashIp } from "@/lib/request";
+import { checkRateLimit, rateLimitHeaders, RateLimitResult } from "@/lib/rate-limit";
+
+type RouteContext = { params: Promise<{ nextauth: string[] }> };
 
 const handler = NextAuth(authOptions);
-export { handler as GET, handler as POST };
-export const runtime = "nodejs";
 
+// NextAuth's signIn() reads the error from the `url` query, so the 429 keeps that shape
+function tooManySignIns(request: Request, result: RateLimitResult): NextResponse {
+  const minutes = Math.max(1, Math.ceil(result.resetSeconds / 60));
+  const error = `Too many sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+  const url = new URL(`/auth?error=${encodeURIComponent(error)}`, request.url).toString();
+  return NextResponse.json({ error, url }, { status: 429, headers: rateLimitHeaders(result) });
+}
+
+// Password sign-ins count against the "auth" bucket per IP, and per email and
+// IP. A bucket per email alone would let anyone lock an account out by failing
+// its sign-in on purpose; with the IP in the key they only lock out themselves.
+async function POST(request: Request, context: RouteContext): Promise<Response> {
+  const { nextauth } = await context.params;
+  if (nextauth?.join("/") === "callback/credentials") {
+    const ip = hashIp(getClientIp(request)) || "unknown";
+    const byIp = await checkRateLimit("auth", `ip:${ip}`);
+    if (!byIp.allowed) return tooManySignIns(request, byIp);
 
+    const form = new URLSearchParams(await request.clone().text());
+    const email = form.get("email")?.trim().toLowerCase();
+    if (email) {
+      const emailHash = crypto.createHash("sha256").update(email).digest("hex");
+      const byEmail = await checkRateLimit("auth", `email:${emailHash}:ip:${ip}`);
+      if (!byEmail.allowed) return tooManySignIns(request, byEmail);
+    }
+  }
+  return handler(request, context);
+}
+
+export { handler as GET, POST };
+export const runtime = "nodejs";
@@ -1,5 +1,8 @@
-import { NextResponse } from "next/server";
+import crypto from "crypto";
+import { after, NextResponse } from "next/server";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
 import { supabaseAdmin, supabaseAdminNextAuth } from "@/lib/supabase-admin";
+import { checkRateLimit } from "@/lib/rate-limit";
 
 function getBaseUrl(): string {
   return (
@@ -9,64 +12,64 @@ function getBaseUrl(): string {
   );
 }
 
-export async function POST(req: Request) {
-  try {
-    const { email } = await req.json().catch(() => ({ email: undefined }));
-    if (!email || typeof email !== "string") {
-      return NextResponse.json(
-        { error: "Email is required" },
-        { status: 400 }
-      );
-    }
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
-    const normalized = email.trim().toLowerCase();
+// The response is the same whether or not an account exists, so this can't
+// be used to find out which emails are registered.
+const ACCEPTED = { success: true, message: "If an account exists for that email, a reset link is on its way." };
 
+// Errors are logged only, since the caller has already had their answer
+async function sendResetEmail(email: string): Promise<void> {
+  try {
     // Verify user existence using PostgREST against next_auth.users.
     // Note: 'next_auth' must be included in Supabase API Exposed Schemas.
     const { data: userRow, error: queryErr } = await supabaseAdminNextAuth
       .from("users")
       .select("id")
-      .eq("email", normalized)
+      .eq("email", email)
       .maybeSingle();
-    if (queryErr) {
-      console.error("Password reset lookup error:", queryErr);
-      return NextResponse.json({ error: queryErr.message || "Lookup failed" }, { status: 500 });
-    }
-
-    if (!userRow) {
-      // Email not found — report 404 so client can show an appropriate message
-      return NextResponse.json(
-        { error: "No account found for that email" },
-        { status: 404 }
-      );
-    }
+    if (queryErr) throw queryErr;
+    if (!userRow) return;
 
     const redirectTo = `${getBaseUrl()}/auth/reset-password`;
-    const { error: resetErr } = await supabaseAdmin.auth.resetPasswordForEmail(
-      normalized,
-      { redirectTo }
-    );
+    const { error: resetErr } = await supabaseAdmin.auth.resetPasswordForEmail(email, { redirectTo });
+    if (resetErr) throw resetErr;
+  } catch (e) {
+    console.error("Password reset send error:", e);
+  }
+}
 
-    if (resetErr) {
-      console.error("Password reset send error:", resetErr);
+export const POST = withRateLimit("auth", async (req: Request) => {
+  try {
+    const { email } = await req.json().catch(() => ({ email: undefined }));
+    if (!email || typeof email !== "string" || !EMAIL_RE.test(email.trim())) {
       return NextResponse.json(
-        { error: resetErr.message || "Failed to send reset email" },
-        { status: 500 }
+        { error: "A valid email is required" },
+        { status: 400 }
       );
     }
 
-    return NextResponse.json({ success: true });
+    const normalized = email.trim().toLowerCase();
+
+    // Past the per-address limit, quietly skip sending instead of telling the
+    // caller, which would also reveal that the address was being reset
+    const emailKey = crypto.createHash("sha256").update(normalized).digest("hex");
+    const perEmail = await checkRateLimit("auth_email", emailKey);
+    if (!perEmail.allowed) return NextResponse.json(ACCEPTED);
+
+    // Looked up and sent after responding, so the response time doesn't
+    // reveal whether the account exists either
+    after(() => sendResetEmail(normalized));
+    return NextResponse.json(ACCEPTED);
   } catch (e: any) {
     console.error("Password reset request error:", e);
     return NextResponse.json(
-      { error: e?.message || "Unexpected error" },
+      { error: "Unexpected error" },
       { status: 500 }
     );
   }
-}
+});
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 export const runtime = "nodejs";
-
-
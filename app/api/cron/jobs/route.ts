@@ -0,0 +1,72 @@
+import crypto from "crypto";
+
+import { NextResponse } from "next/server";
+
+import { runDueJobs } from "@/lib/jobs";
+import { deliverDueWebhooks } from "@/lib/webhooks";
+
+// Leave time to save progress before the platform stops the function
+const RUN_BUDGET_MS = 50_000;
+
+function isAuthorized(request: Request, secret: string): boolean {
+  const header = request.headers.get("authorization") || "";
+  const received = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+  const a = crypto.createHash("sha256").update(received).digest();
+  const b = crypto.createHash("sha256").update(secret).digest();
+
+  return crypto.timingSafeEqual(new Uint8Array(a), new Uint8Array(b));
+}
+
+// GET|POST /api/cron/jobs — scheduler entry point, called every few minutes by
+// an external cron (Vercel Cron sends GET). Authenticated by
+// Authorization: Bearer <CRON_SECRET>. Enqueues due runs and works through
+// queued ones, then sends due webhook deliveries (batched events and retries)
+// → { jobs: [{ id, name, status, processed, total, failed }], webhooks: { attempted, succeeded, failed } }
+async function handle(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    console.error("CRON_SECRET is not set");
+
+    return NextResponse.json(
+      { error: "Scheduler not configured" },
+      { status: 503 },
+    );
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const deadline = Date.now() + RUN_BUDGET_MS;
+    const jobs = await runDueJobs(deadline);
+    const webhooks = await deliverDueWebhooks(deadline);
+
+    return NextResponse.json({
+      jobs: jobs.map(({ id, name, status, processed, total, failed }) => ({
+        id,
+        name,
+        status,
+        processed,
+        total,
+        failed,
+      })),
+      webhooks,
+    });
+  } catch (e: any) {
+    console.error("Scheduler run failed:", e);
+
+    return NextResponse.json(
+      { error: e?.message || "Scheduler run failed" },
+      { status: 500 },
+    );
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
+
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -1,8 +1,9 @@
 import { NextResponse } from "next/server";
 import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
 import { supabaseAdmin } from "@/lib/supabase-admin";
 
-export async function GET(request: Request) {
+export const GET = withRateLimit("me", async (request: Request) => {
   const ext = await resolveExternalUser(request);
   const userId = ext?.id as string | undefined;
   if (!userId) return NextResponse.json({ approved: false }, { status: 401 });
@@ -16,6 +17,6 @@ export async function GET(request: Request) {
 
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
   return NextResponse.json({ approved: !!data });
-}
+});
 
 
@@ -1,12 +1,16 @@
 import { NextResponse } from "next/server";
 import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
 import { supabaseAdmin } from "@/lib/supabase-admin";
 
-export async function GET(request: Request) {
+export const GET = withRateLimit("me", async (request: Request) => {
   const ext = await resolveExternalUser(request);
   if (!ext?.id) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+  const denied = requireScope(ext, "links:read");
+  if (denied) return denied;
 
   const { data, error } = await supabaseAdmin
     .from("affiliate_assets")
@@ -18,7 +22,7 @@ export async function GET(request: Request) {
   }
 
   return NextResponse.json({ assets: data || [] });
-}
+});
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { listAuditEvents } from "@/lib/audit";
+
+// GET /api/me/audit → { events } — the caller's account history, newest first:
+// what they did and what staff did to their account
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({
+      events: await listAuditEvents({ userId: ext.id }, 100),
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load account history" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { isValidDay } from "@/lib/metrics";
+import { getCommissionLineItems } from "@/lib/commissions";
+
+// GET /api/me/earnings?from=YYYY-MM-DD&to=YYYY-MM-DD
+// The line items behind daily earnings; `total` matches reports earnings for the same range.
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+  const userId = ext?.id as string | undefined;
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const denied = requireScope(ext!, "reports:read");
+
+  if (denied) return denied;
+
+  const url = new URL(request.url);
+  const from = url.searchParams.get("from");
+  const to = url.searchParams.get("to");
+
+  if ((from && !isValidDay(from)) || (to && !isValidDay(to))) {
+    return NextResponse.json(
+      { error: "from/to must be YYYY-MM-DD" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const items = await getCommissionLineItems(userId, { from, to });
+    const total =
+      Math.round(items.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+
+    return NextResponse.json({ items, total });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load earnings" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
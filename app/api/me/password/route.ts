@@ -1,13 +1,18 @@
 import { NextResponse } from "next/server";
 import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
 import { createClient } from "@supabase/supabase-js";
 import { supabaseAdmin } from "@/lib/supabase-admin";
+import { recordAuditEvent } from "@/lib/audit";
 
-export async function PUT(req: Request) {
+export const PUT = withRateLimit("me", async (req: Request) => {
   const ext = await resolveExternalUser(req);
   const userId = ext?.id as string | undefined;
   const email = ext?.email as string | undefined;
   if (!userId || !email) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext!);
+  if (denied) return denied;
 
   const { currentPassword, newPassword } = await req.json().catch(() => ({}));
   if (!currentPassword || !newPassword) {
@@ -39,8 +44,9 @@ export async function PUT(req: Request) {
     return NextResponse.json({ error: updateErr.message }, { status: 500 });
   }
 
+  await recordAuditEvent(req, { action: "password.changed", actor: { id: userId, email } });
   return NextResponse.json({ success: true });
-}
+});
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
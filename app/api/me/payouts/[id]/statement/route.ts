@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import {
+  buildPayoutStatementCsv,
+  getPayout,
+  getPayoutLineItems,
+} from "@/lib/payouts";
+
+// GET /api/me/payouts/:id/statement → CSV attachment
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+  const userId = ext?.id as string | undefined;
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const denied = requireScope(ext!, "reports:read");
+
+  if (denied) return denied;
+  const url = new URL(request.url);
+  const parts = url.pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 2];
+
+  try {
+    const payout = await getPayout(id);
+
+    if (!payout || payout.user_id !== userId) {
+      return NextResponse.json({ error: "Payout not found" }, { status: 404 });
+    }
+    const items = await getPayoutLineItems(id);
+    const csv = buildPayoutStatementCsv(payout, items);
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="payout-${payout.period_start}_${payout.period_end}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to build statement" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { getPayoutBalance, getPayouts } from "@/lib/payouts";
+
+// GET /api/me/payouts → { balance, payouts }
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+  const userId = ext?.id as string | undefined;
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const denied = requireScope(ext!, "reports:read");
+
+  if (denied) return denied;
+
+  try {
+    const [balance, payouts] = await Promise.all([
+      getPayoutBalance(userId),
+      getPayouts({ user_id: userId }),
+    ]);
+
+    return NextResponse.json({ balance, payouts });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load payouts" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
 import { supabaseAdmin } from "@/lib/supabase-admin";
+import { recordAuditEvent } from "@/lib/audit";
 
 const BUCKET = process.env.NEXT_PUBLIC_AVATARS_BUCKET || "avatars";
 
@@ -8,7 +11,7 @@ function sanitizeFileName(name: string): string {
   return name.replace(/[^a-zA-Z0-9._-]/g, "_");
 }
 
-export async function POST(request: Request) {
+export const POST = withRateLimit("me", async (request: Request) => {
   const ext = await resolveExternalUser(request);
   const userId = ext?.id as string | undefined;
   const email = ext?.email as string | undefined;
@@ -16,6 +19,8 @@ export async function POST(request: Request) {
   if (!userId || !email) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+  const denied = requireScope(ext!, "profile:write");
+  if (denied) return denied;
 
   try {
     const form = await request.formData();
@@ -51,7 +56,7 @@ export async function POST(request: Request) {
     // Update profile avatar_url
     const { data: existing, error: findErr } = await supabaseAdmin
       .from("affiliate_profiles")
-      .select("id, user_id")
+      .select("id, user_id, avatar_url")
       .eq("user_id", userId)
       .maybeSingle();
 
@@ -90,12 +95,17 @@ export async function POST(request: Request) {
       }
     }
 
+    await recordAuditEvent(request, {
+      action: "avatar.changed",
+      actor: { id: userId, email },
+      changes: { avatar_url: { from: existing?.avatar_url ?? null, to: avatarUrl } },
+    });
     return NextResponse.json({ avatarUrl });
   } catch (e: any) {
     console.error("Avatar upload handler error:", e);
     return NextResponse.json({ error: e?.message || "Unexpected error" }, { status: 500 });
   }
-}
+});
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -1,13 +1,17 @@
 import { NextResponse } from "next/server";
 import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
 import { supabaseAdmin } from "@/lib/supabase-admin";
 
-export async function GET(request: Request) {
+export const GET = withRateLimit("me", async (request: Request) => {
   const authUser = await resolveExternalUser(request);
   const userId = authUser?.id as string | undefined;
   if (!userId) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+  const denied = requireScope(authUser!, "profile:read");
+  if (denied) return denied;
 
   // Try affiliate_profiles first
   const { data: profile, error } = await supabaseAdmin
@@ -54,14 +58,16 @@ export async function GET(request: Request) {
       },
     },
   });
-}
+});
 
-export async function PUT(req: Request) {
+export const PUT = withRateLimit("me", async (req: Request) => {
   const authUser = await resolveExternalUser(req);
   const userId = authUser?.id as string | undefined;
   if (!userId) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+  const denied = requireScope(authUser!, "profile:write");
+  if (denied) return denied;
   const body = await req.json();
 
   const payload = {
@@ -91,6 +97,6 @@ export async function PUT(req: Request) {
   }
 
   return NextResponse.json({ profile: data });
-}
+});
 
 
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  parseQrSize,
+  QR_FORMATS,
+  QR_MAX_SIZE,
+  QR_MIN_SIZE,
+  QrFormat,
+  renderQrCode,
+} from "@/lib/qr";
+
+// GET /api/me/referral-links/:id/qr?format=png|svg&size=512&logo=true&download=true
+// `:id` is a named link id, or "primary" for the affiliate's primary code.
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+  const userId = ext?.id as string | undefined;
+
+  if (!userId)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireScope(ext!, "links:read");
+
+  if (denied) return denied;
+
+  const url = new URL(request.url);
+  const parts = url.pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 2];
+
+  const format = (url.searchParams.get("format") || "png") as QrFormat;
+
+  if (!QR_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: "format must be png or svg" },
+      { status: 400 },
+    );
+  }
+  const size = parseQrSize(url.searchParams.get("size"));
+
+  if (!size) {
+    return NextResponse.json(
+      { error: `size must be ${QR_MIN_SIZE}-${QR_MAX_SIZE}` },
+      { status: 400 },
+    );
+  }
+  const logo = url.searchParams.get("logo") === "true";
+
+  const { data, error } =
+    id === "primary"
+      ? await supabaseAdmin
+          .from("affiliate_referrers")
+          .select("code")
+          .eq("user_id", userId)
+          .maybeSingle()
+      : await supabaseAdmin
+          .from("referral_links")
+          .select("code")
+          .eq("id", id)
+          .eq("user_id", userId)
+          .maybeSingle();
+
+  if (error)
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!data?.code)
+    return NextResponse.json({ error: "Link not found" }, { status: 404 });
+
+  // Same tracked URL ReferralCard shows
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || url.origin;
+  const referralUrl = `${siteUrl}/r/${data.code}`.toLowerCase();
+
+  try {
+    const { body, contentType } = await renderQrCode(referralUrl, {
+      format,
+      size,
+      logo,
+    });
+    const headers: Record<string, string> = {
+      "Content-Type": contentType,
+      "Cache-Control": "private, max-age=300",
+    };
+
+    if (url.searchParams.get("download") === "true") {
+      headers["Content-Disposition"] =
+        `attachment; filename="referral-${data.code.toLowerCase()}-qr.${format}"`;
+    }
+
+    return new NextResponse(
+      typeof body === "string" ? body : new Uint8Array(body),
+      { headers },
+    );
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to render QR code" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  parseReferralLinkInput,
+  ReferralLinkError,
+  updateReferralLink,
+} from "@/lib/referral-links";
+
+// PATCH /api/me/referral-links/:id  body: any of { name, code, destination_url, active }
+// A new code leaves the old one redirecting to this link.
+export const PATCH = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+  const userId = ext?.id as string | undefined;
+
+  if (!userId)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireScope(ext!, "links:write");
+
+  if (denied) return denied;
+
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 1];
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseReferralLinkInput(body, true);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    const saved = await updateReferralLink(userId, id, value!);
+
+    if (!saved)
+      return NextResponse.json({ error: "Link not found" }, { status: 404 });
+    if (saved.previous !== saved.link.code) {
+      await recordAuditEvent(request, {
+        action: "referral_link.changed",
+        actor: ext!,
+        changes: { code: { from: saved.previous, to: saved.link.code } },
+      });
+    }
+
+    return NextResponse.json({ link: saved.link });
+  } catch (e: any) {
+    if (e instanceof ReferralLinkError) {
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    }
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to update link" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
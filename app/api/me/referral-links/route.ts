@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  createReferralLink,
+  getReferralLinks,
+  parseReferralLinkInput,
+  ReferralLinkError,
+} from "@/lib/referral-links";
+
+// GET /api/me/referral-links → { primary: { code }, links }
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+  const userId = ext?.id as string | undefined;
+
+  if (!userId)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireScope(ext!, "links:read");
+
+  if (denied) return denied;
+
+  try {
+    const [{ data: primary, error }, links] = await Promise.all([
+      supabaseAdmin
+        .from("affiliate_referrers")
+        .select("code")
+        .eq("user_id", userId)
+        .maybeSingle(),
+      getReferralLinks(userId),
+    ]);
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      primary: { code: primary?.code || null },
+      links,
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load links" },
+      { status: 500 },
+    );
+  }
+});
+
+// POST /api/me/referral-links  body: { name, code?, destination_url? }
+// code defaults to a slug of the name with a random suffix
+export const POST = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+  const userId = ext?.id as string | undefined;
+
+  if (!userId)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireScope(ext!, "links:write");
+
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseReferralLinkInput(body);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    const link = await createReferralLink(userId, value!);
+
+    return NextResponse.json({ link }, { status: 201 });
+  } catch (e: any) {
+    if (e instanceof ReferralLinkError) {
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    }
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to create link" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+// GET /api/me/referrals → { referrals } from referral_events, newest first, with attribution
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+  const userId = ext?.id as string | undefined;
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const denied = requireScope(ext!, "reports:read");
+
+  if (denied) return denied;
+
+  const { data, error } = await supabaseAdmin
+    .from("referral_events")
+    .select(
+      "id, agent, email, date, status, event_type, revenue, occurred_at, attribution_method, attributed_clicked_at, attribution_window_days",
+    )
+    .eq("referrer_id", userId)
+    .neq("event_type", "refund")
+    .order("date", { ascending: false });
+
+  if (error)
+    return NextResponse.json({ error: error.message }, { status: 500 });
+
+  return NextResponse.json({ referrals: data || [] });
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
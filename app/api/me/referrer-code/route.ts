@@ -1,11 +1,15 @@
 import { NextResponse } from "next/server";
 import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
 import { supabaseAdmin } from "@/lib/supabase-admin";
 
-export async function GET(request: Request) {
+export const GET = withRateLimit("me", async (request: Request) => {
   const ext = await resolveExternalUser(request);
   const userId = ext?.id as string | undefined;
   if (!userId) return NextResponse.json({ code: null });
+  const denied = requireScope(ext!, "links:read");
+  if (denied) return denied;
   const { data, error } = await supabaseAdmin
     .from("affiliate_referrers")
     .select("code")
@@ -13,7 +17,7 @@ export async function GET(request: Request) {
     .single();
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
   return NextResponse.json({ code: data?.code || null });
-}
+});
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -1,12 +1,17 @@
 import { NextResponse } from "next/server";
 import { resolveExternalUser } from "@/app/api/utils/resolve-user";
-import { supabaseAdmin } from "@/lib/supabase-admin";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { setPrimaryReferralCode } from "@/lib/referrers";
+import { recordAuditEvent } from "@/lib/audit";
 
-export async function PUT(req: Request) {
+export const PUT = withRateLimit("me", async (req: Request) => {
   const ext = await resolveExternalUser(req);
   const userId = (ext?.id as string | undefined);
   const email = (ext?.email as string | undefined);
   if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireScope(ext!, "links:write");
+  if (denied) return denied;
 
   const body = await req.json().catch(() => ({}));
   const desired = (body?.token || "") as string;
@@ -19,27 +24,22 @@ export async function PUT(req: Request) {
     return NextResponse.json({ error: "Token must be 3-32 chars (a-z, 0-9, _ or -)" }, { status: 400 });
   }
 
-  // Check if taken
-  const { data: takenBy, error: checkErr } = await supabaseAdmin
-    .from("affiliate_referrers")
-    .select("user_id")
-    .eq("code", normalized)
-    .maybeSingle();
-  if (checkErr) return NextResponse.json({ error: checkErr.message }, { status: 500 });
-  if (takenBy && takenBy.user_id !== userId) {
-    return NextResponse.json({ error: "That token is already taken" }, { status: 409 });
+  // Taken = any primary code, named link or a retired code still in its reuse cooldown
+  try {
+    const saved = await setPrimaryReferralCode(userId, normalized);
+    if (!saved) return NextResponse.json({ error: "That token is already taken" }, { status: 409 });
+    if (saved.previous !== saved.code) {
+      await recordAuditEvent(req, {
+        action: "referral_code.changed",
+        actor: { id: userId, email },
+        changes: { referral_code: { from: saved.previous, to: saved.code } },
+      });
+    }
+    return NextResponse.json({ success: true, code: saved.code });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Failed to update token" }, { status: 500 });
   }
-
-  // Upsert
-  const { data, error } = await supabaseAdmin
-    .from("affiliate_referrers")
-    .upsert({ user_id: userId, code: normalized }, { onConflict: "user_id" })
-    .select("code")
-    .maybeSingle();
-  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
-
-  return NextResponse.json({ success: true, code: data?.code || normalized });
-}
+});
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { DayRange, isValidDay } from "@/lib/metrics";
+import { REPORTS_TZ } from "@/lib/utils";
+import {
+  getDimensionBreakdown,
+  isReportPreset,
+  isValidTimeZone,
+  REPORT_DIMENSIONS,
+  ReportDimension,
+  resolvePresetRange,
+} from "@/lib/reports";
+
+// GET /api/me/reports/breakdown?dimension=sub_id|campaign|source|link&timeframe=Last%2030%20Days&tz=...
+// or  /api/me/reports/breakdown?dimension=...&from=YYYY-MM-DD&to=YYYY-MM-DD
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+  const userId = ext?.id as string | undefined;
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const denied = requireScope(ext!, "reports:read");
+
+  if (denied) return denied;
+
+  const params = new URL(request.url).searchParams;
+  const dimension = params.get("dimension") as ReportDimension | null;
+
+  if (!dimension || !REPORT_DIMENSIONS.includes(dimension)) {
+    return NextResponse.json(
+      { error: `dimension must be one of ${REPORT_DIMENSIONS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+  const tz = params.get("tz") || REPORTS_TZ;
+
+  if (!isValidTimeZone(tz)) {
+    return NextResponse.json({ error: "Unknown time zone" }, { status: 400 });
+  }
+
+  // "All Time" needs no lower bound here, unlike the bucketed report
+  let range: DayRange = {};
+  const timeframe = params.get("timeframe");
+
+  if (timeframe) {
+    if (!isReportPreset(timeframe)) {
+      return NextResponse.json({ error: "Unknown timeframe" }, { status: 400 });
+    }
+    if (timeframe !== "All Time") range = resolvePresetRange(timeframe, tz);
+  } else {
+    const from = params.get("from");
+    const to = params.get("to");
+
+    if (!isValidDay(from) || !isValidDay(to)) {
+      return NextResponse.json(
+        { error: "Provide timeframe, or from and to as YYYY-MM-DD" },
+        { status: 400 },
+      );
+    }
+    if (from > to) {
+      return NextResponse.json(
+        { error: "from must be on or before to" },
+        { status: 400 },
+      );
+    }
+    range = { from, to };
+  }
+
+  try {
+    const rows = await getDimensionBreakdown(userId, dimension, range);
+
+    return NextResponse.json({
+      dimension,
+      from: range.from ?? null,
+      to: range.to ?? null,
+      rows,
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load breakdown" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
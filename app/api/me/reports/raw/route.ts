@@ -1,32 +1,72 @@
 import { NextResponse } from "next/server";
 import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
 import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getDailyMetrics, isValidDay, metricsToOverview } from "@/lib/metrics";
+import { DimensionRow, getDimensionBreakdown } from "@/lib/reports";
 
-export async function GET(request: Request) {
+// { [sub_id or source]: { clicks, signups, customers, earnings } }; untagged rows under "(none)"
+const keyedByDimension = (rows: DimensionRow[]) =>
+  Object.fromEntries(rows.map(({ key, ...totals }) => [key ?? "(none)", totals]));
+
+export const GET = withRateLimit("me", async (request: Request) => {
   const ext = await resolveExternalUser(request);
   const userId = ext?.id as string | undefined;
   if (!userId) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
+  const denied = requireScope(ext!, "reports:read");
+  if (denied) return denied;
+
+  // Optional inclusive range (YYYY-MM-DD) so callers only pull the days they chart
+  const url = new URL(request.url);
+  const from = url.searchParams.get("from");
+  const to = url.searchParams.get("to");
+  if ((from && !isValidDay(from)) || (to && !isValidDay(to))) {
+    return NextResponse.json({ error: "from/to must be YYYY-MM-DD" }, { status: 400 });
+  }
 
   const { data, error } = await supabaseAdmin
     .from("dashboard_kpis")
     .select("user_reports, user_referrals")
     .eq("user_id", userId)
-    .single();
+    .maybeSingle();
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
+  let overview, subIds, sources;
+  try {
+    const range = { from, to };
+    const [metrics, subIdRows, sourceRows] = await Promise.all([
+      getDailyMetrics(userId, range),
+      getDimensionBreakdown(userId, "sub_id", range),
+      getDimensionBreakdown(userId, "source", range),
+    ]);
+    overview = metricsToOverview(metrics);
+    subIds = keyedByDimension(subIdRows);
+    sources = keyedByDimension(sourceRows);
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Failed to load metrics" }, { status: 500 });
+  }
+
+  // Daily KPIs come from daily_affiliate_metrics and the sub-ID/source sections from
+  // referral_dimension_breakdown; links are still passed through
+  const userReports = data?.user_reports ?? {};
+
   return NextResponse.json({ 
-    user_reports: data?.user_reports ?? null,
+    user_reports: {
+      links: userReports.links ?? {},
+      sub_ids: subIds,
+      traffic_sources: sources,
+      overview,
+    },
     user_referrals: data?.user_referrals ?? null,
   });
-}
+});
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 export const runtime = "nodejs";
-
-
@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { isValidDay } from "@/lib/metrics";
+import { REPORTS_TZ } from "@/lib/utils";
+import {
+  buildUserReport,
+  daysBetween,
+  defaultGranularityForPreset,
+  getEarliestMetricsDay,
+  Granularity,
+  GRANULARITIES,
+  isReportPreset,
+  isValidTimeZone,
+  MAX_RANGE_DAYS,
+  ReportPreset,
+  ReportRange,
+  resolvePresetRange,
+} from "@/lib/reports";
+
+// GET /api/me/reports?from=YYYY-MM-DD&to=YYYY-MM-DD&granularity=day|week|month&tz=...
+// or  /api/me/reports?timeframe=Last%2030%20Days (preset resolved server-side in `tz`)
+// Adds the previous equivalent period and per-KPI deltas unless compare=false
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+  const userId = ext?.id as string | undefined;
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const denied = requireScope(ext!, "reports:read");
+
+  if (denied) return denied;
+
+  const params = new URL(request.url).searchParams;
+  const tz = params.get("tz") || REPORTS_TZ;
+
+  if (!isValidTimeZone(tz)) {
+    return NextResponse.json({ error: "Unknown time zone" }, { status: 400 });
+  }
+
+  const granularityParam = params.get("granularity");
+
+  if (
+    granularityParam &&
+    !GRANULARITIES.includes(granularityParam as Granularity)
+  ) {
+    return NextResponse.json(
+      { error: "granularity must be day, week or month" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    let range: ReportRange;
+    let granularity = granularityParam as Granularity | null;
+    let preset: ReportPreset | null = null;
+
+    const timeframe = params.get("timeframe");
+
+    if (timeframe) {
+      if (!isReportPreset(timeframe)) {
+        return NextResponse.json(
+          { error: "Unknown timeframe" },
+          { status: 400 },
+        );
+      }
+      preset = timeframe;
+      const earliest =
+        timeframe === "All Time" ? await getEarliestMetricsDay(userId) : null;
+
+      range = resolvePresetRange(timeframe, tz, earliest);
+      granularity = granularity || defaultGranularityForPreset(timeframe);
+    } else {
+      const from = params.get("from");
+      const to = params.get("to");
+
+      if (!isValidDay(from) || !isValidDay(to)) {
+        return NextResponse.json(
+          { error: "Provide timeframe, or from and to as YYYY-MM-DD" },
+          { status: 400 },
+        );
+      }
+      range = { from, to };
+    }
+
+    if (range.from > range.to) {
+      return NextResponse.json(
+        { error: "from must be on or before to" },
+        { status: 400 },
+      );
+    }
+    if (daysBetween(range.from, range.to) >= MAX_RANGE_DAYS) {
+      return NextResponse.json(
+        { error: `Range is limited to ${MAX_RANGE_DAYS} days` },
+        { status: 400 },
+      );
+    }
+
+    const report = await buildUserReport(
+      userId,
+      range,
+      granularity || "day",
+      tz,
+      {
+        preset,
+        compare: params.get("compare") !== "false",
+      },
+    );
+
+    return NextResponse.json(report);
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load reports" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
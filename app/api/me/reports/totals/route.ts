@@ -1,42 +1,58 @@
 import { NextResponse } from "next/server";
 import { resolveExternalUser } from "@/app/api/utils/resolve-user";
-import { supabaseAdmin } from "@/lib/supabase-admin";
+import { requireScope } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { getMetricsTotals, isValidDay, toReportDay } from "@/lib/metrics";
+import { addDays, computeDeltas, previousPeriodRange } from "@/lib/reports";
 
-export async function GET(request: Request) {
+// Trend window used for compare=true when no range is given (lifetime totals
+// have no previous period)
+const TREND_DAYS = 30;
+
+export const GET = withRateLimit("me", async (request: Request) => {
   const ext = await resolveExternalUser(request);
   const userId = ext?.id as string | undefined;
   if (!userId) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
-
-  const { data, error } = await supabaseAdmin
-    .from("dashboard_kpis")
-    .select("user_reports")
-    .eq("user_id", userId)
-    .single();
-
-  if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 });
+  const denied = requireScope(ext!, "reports:read");
+  if (denied) return denied;
+
+  // Optional inclusive range (YYYY-MM-DD); lifetime totals when omitted
+  const url = new URL(request.url);
+  const from = url.searchParams.get("from");
+  const to = url.searchParams.get("to");
+  if ((from && !isValidDay(from)) || (to && !isValidDay(to))) {
+    return NextResponse.json({ error: "from/to must be YYYY-MM-DD" }, { status: 400 });
   }
 
-  const overview = data?.user_reports?.overview || {};
-  let clicks = 0;
-  let referrals = 0;
-  let customers = 0;
-  let earnings = 0;
-
-  Object.values(overview).forEach((dayData: any) => {
-    clicks += dayData?.clicks || 0;
-    referrals += dayData?.signups || 0;
-    customers += dayData?.customers || 0;
-    earnings += dayData?.earnings || 0;
-  });
-
-  return NextResponse.json({ clicks, referrals, customers, earnings });
-}
+  try {
+    const totals = await getMetricsTotals(userId, { from, to });
+    if (url.searchParams.get("compare") !== "true") {
+      return NextResponse.json(totals);
+    }
+
+    const end = to || toReportDay();
+    const current = { from: from || addDays(end, -(TREND_DAYS - 1)), to: end };
+    const previous = previousPeriodRange(current)!;
+    const [currentTotals, previousTotals] = await Promise.all([
+      from ? Promise.resolve(totals) : getMetricsTotals(userId, current),
+      getMetricsTotals(userId, previous),
+    ]);
+
+    return NextResponse.json({
+      ...totals,
+      comparison: {
+        current,
+        previous,
+        deltas: computeDeltas(currentTotals, previousTotals),
+      },
+    });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Failed to load totals" }, { status: 500 });
+  }
+});
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 export const runtime = "nodejs";
-
-
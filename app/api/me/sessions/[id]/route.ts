@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import { revokeUserSession } from "@/lib/sessions";
+
+// DELETE /api/me/sessions/:id → { success, current } — signs that device out on its next request
+export const DELETE = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 1];
+
+  try {
+    const session = await revokeUserSession(ext.id, id);
+
+    if (!session)
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    await recordAuditEvent(request, {
+      action: "session.revoked",
+      actor: ext,
+      changes: {
+        session: {
+          from:
+            [session.browser, session.device].filter(Boolean).join(" on ") ||
+            "Unknown device",
+        },
+      },
+    });
+
+    return NextResponse.json({ success: true, current: id === ext.sessionId });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to sign out session" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import { listUserSessions, revokeAllUserSessions } from "@/lib/sessions";
+
+// GET /api/me/sessions → { sessions: [{ id, device, browser, ip, created_at, last_seen_at, current }] }
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+
+  try {
+    const sessions = await listUserSessions(ext.id);
+
+    return NextResponse.json({
+      sessions: sessions.map((s) => ({
+        ...s,
+        current: s.id === ext.sessionId,
+      })),
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load sessions" },
+      { status: 500 },
+    );
+  }
+});
+
+// DELETE /api/me/sessions → { revoked } — signs out everywhere, this session included.
+// Access tokens are separate and keep working.
+export const DELETE = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+
+  try {
+    const revoked = await revokeAllUserSessions(ext.id);
+
+    await recordAuditEvent(request, {
+      action: "session.revoked_all",
+      actor: ext,
+      changes: { sessions_ended: { to: revoked } },
+    });
+
+    return NextResponse.json({ revoked });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to sign out sessions" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
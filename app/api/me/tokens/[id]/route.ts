@@ -1,22 +1,35 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase-admin";
 import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
 
-export async function DELETE(request: Request) {
+export const DELETE = withRateLimit("me", async (request: Request) => {
   const ext = await resolveExternalUser(request);
   if (!ext?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+  if (denied) return denied;
   const url = new URL(request.url);
   const parts = url.pathname.replace(/\/+$/, "").split("/");
   const id = parts[parts.length - 1];
-  const { error } = await supabaseAdmin
+  const { data, error } = await supabaseAdmin
     .from("api_keys")
     .delete()
     .eq("id", id)
-    .eq("user_id", ext.id);
+    .eq("user_id", ext.id)
+    .select("name, scopes");
 
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (data?.length) {
+    await recordAuditEvent(request, {
+      action: "token.deleted",
+      actor: ext,
+      changes: { name: { from: data[0].name }, scopes: { from: data[0].scopes } },
+    });
+  }
   return NextResponse.json({ success: true });
-}
+});
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -1,59 +1,92 @@
 import { NextResponse } from "next/server";
 import { supabaseAdmin } from "@/lib/supabase-admin";
 import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
 import { generatePersonalAccessToken, hashPersonalAccessToken } from "@/lib/token";
+import { hasRole, STAFF_ROLES } from "@/lib/roles";
+import { isScope, Scope } from "@/lib/scopes";
+import { recordAuditEvent } from "@/lib/audit";
 
-// Create table (SQL reference):
-// create table if not exists public.api_keys (
-//   id uuid primary key default gen_random_uuid(),
-//   user_id uuid not null references next_auth.users(id) on delete cascade,
-//   name text not null,
-//   token_hash text not null unique,
-//   active boolean not null default true,
-//   expires_at timestamptz null,
-//   last_used_at timestamptz null,
-//   created_at timestamptz not null default now()
-// );
-// create index if not exists idx_api_keys_user on public.api_keys(user_id);
-
-export async function GET(request: Request) {
+// Table: api_keys (supabase-schema.sql)
+const TOKEN_COLUMNS = "id, name, scopes, active, expires_at, last_used_at, last_used_ip, use_count, created_at";
+
+const MAX_TOKENS_PER_USER = 25;
+
+export const GET = withRateLimit("me", async (request: Request) => {
   const ext = await resolveExternalUser(request);
   if (!ext?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+  if (denied) return denied;
 
   const { data, error } = await supabaseAdmin
     .from("api_keys")
-    .select("id, name, active, expires_at, last_used_at, created_at")
+    .select(TOKEN_COLUMNS)
     .eq("user_id", ext.id)
     .order("created_at", { ascending: false });
 
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
   return NextResponse.json({ tokens: data || [] });
-}
+});
 
-export async function POST(request: Request) {
+export const POST = withRateLimit("me", async (request: Request) => {
   const ext = await resolveExternalUser(request);
   if (!ext?.id) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+  if (denied) return denied;
 
   const body = await request.json().catch(() => ({} as any));
-  const name = (body?.name as string) || "Personal Access Token";
+  const name = String(body?.name || "").trim() || "Personal Access Token";
+  if (name.length > 100) return NextResponse.json({ error: "name must be at most 100 chars" }, { status: 400 });
+
+  const scopes = Array.isArray(body?.scopes) ? Array.from(new Set<unknown>(body.scopes)) : [];
+  if (scopes.length === 0 || !scopes.every(isScope)) {
+    return NextResponse.json({ error: "scopes must be a non-empty list of known scopes" }, { status: 400 });
+  }
+  if (scopes.includes("admin:*") && !hasRole(ext.roles, ...STAFF_ROLES)) {
+    return NextResponse.json({ error: "Only staff can create tokens with the admin:* scope" }, { status: 403 });
+  }
+
   const expiresAt = body?.expires_at ? new Date(body.expires_at) : null;
+  if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+    return NextResponse.json({ error: "expires_at must be a date in the future" }, { status: 400 });
+  }
+
+  const { count, error: countErr } = await supabaseAdmin
+    .from("api_keys")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", ext.id);
+  if (countErr) return NextResponse.json({ error: countErr.message }, { status: 500 });
+  if ((count || 0) >= MAX_TOKENS_PER_USER) {
+    return NextResponse.json({ error: `At most ${MAX_TOKENS_PER_USER} tokens; revoke one first` }, { status: 409 });
+  }
 
   const token = generatePersonalAccessToken();
   const tokenHash = hashPersonalAccessToken(token);
 
   const { data, error } = await supabaseAdmin
     .from("api_keys")
-    .insert({ user_id: ext.id, name, token_hash: tokenHash, active: true, expires_at: expiresAt })
-    .select("id, name, active, expires_at, created_at")
+    .insert({
+      user_id: ext.id,
+      name,
+      token_hash: tokenHash,
+      scopes: scopes as Scope[],
+      active: true,
+      expires_at: expiresAt,
+    })
+    .select(TOKEN_COLUMNS)
     .single();
 
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  await recordAuditEvent(request, {
+    action: "token.created",
+    actor: ext,
+    changes: { name: { to: name }, scopes: { to: scopes }, expires_at: { to: expiresAt?.toISOString() ?? null } },
+  });
   // return plaintext token ONCE; clients must store it securely
   return NextResponse.json({ token, key: data });
-}
+});
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 export const runtime = "nodejs";
-
-
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import { enableTwoFactor, TwoFactorError } from "@/lib/two-factor";
+
+// POST /api/me/two-factor/enable  body: { code } → { recovery_codes }
+// Turns 2FA on once a code from the setup secret checks out. The recovery
+// codes are only returned here and when regenerated.
+export const POST = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => null);
+  const code = String(body?.code || "").replace(/\s/g, "");
+
+  if (!code)
+    return NextResponse.json({ error: "code is required" }, { status: 400 });
+
+  try {
+    const recoveryCodes = await enableTwoFactor(ext.id, code);
+
+    await recordAuditEvent(request, {
+      action: "two_factor.enabled",
+      actor: ext,
+    });
+
+    return NextResponse.json({ recovery_codes: recoveryCodes });
+  } catch (e: any) {
+    if (e instanceof TwoFactorError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to turn on two-factor authentication" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { regenerateRecoveryCodes, TwoFactorError } from "@/lib/two-factor";
+
+// POST /api/me/two-factor/recovery-codes  body: { code } → { recovery_codes }
+// Replaces all recovery codes; the old ones stop working.
+export const POST = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => null);
+  const code = String(body?.code || "").trim();
+
+  if (!code)
+    return NextResponse.json({ error: "code is required" }, { status: 400 });
+
+  try {
+    return NextResponse.json({
+      recovery_codes: await regenerateRecoveryCodes(ext.id, code),
+    });
+  } catch (e: any) {
+    if (e instanceof TwoFactorError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to create recovery codes" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
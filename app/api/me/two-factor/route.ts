@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  disableTwoFactor,
+  getTwoFactorStatus,
+  TwoFactorError,
+} from "@/lib/two-factor";
+
+// GET /api/me/two-factor → { enabled, enabled_at, recovery_codes_remaining, required }
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json(await getTwoFactorStatus(ext.id, ext.roles));
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load two-factor status" },
+      { status: 500 },
+    );
+  }
+});
+
+// DELETE /api/me/two-factor  body: { code } — an app code or a recovery code.
+// 409 when 2FA is off or the user's role requires it.
+export const DELETE = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => null);
+  const code = String(body?.code || "").trim();
+
+  if (!code)
+    return NextResponse.json({ error: "code is required" }, { status: 400 });
+
+  try {
+    await disableTwoFactor(ext.id, ext.roles, code);
+    await recordAuditEvent(request, {
+      action: "two_factor.disabled",
+      actor: ext,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (e: any) {
+    if (e instanceof TwoFactorError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to turn off two-factor authentication" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
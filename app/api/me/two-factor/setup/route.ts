@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { startTwoFactorSetup, TwoFactorError } from "@/lib/two-factor";
+
+// POST /api/me/two-factor/setup → { secret, otpauth_url, qr_code }
+// Starts (or restarts) enrolment with a new secret; 2FA is off until /enable
+// confirms a code from it. 409 if 2FA is already on.
+export const POST = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json(
+      await startTwoFactorSetup(ext.id, ext.email || ext.id),
+    );
+  } catch (e: any) {
+    if (e instanceof TwoFactorError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to start two-factor setup" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { redeliverWebhook, WebhookError } from "@/lib/webhooks";
+
+// POST /api/me/webhooks/:id/deliveries/:deliveryId/redeliver → { delivery }
+// Sends the event again as a new delivery; 409 while the original is still retrying.
+export const POST = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+  const owner = { userId: ext.id, platform: false };
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 4];
+  const deliveryId = parts[parts.length - 2];
+
+  try {
+    return NextResponse.json({
+      delivery: await redeliverWebhook(owner, id, deliveryId),
+    });
+  } catch (e: any) {
+    if (e instanceof WebhookError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("Webhook redelivery failed:", e);
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to redeliver" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import {
+  deleteWebhookEndpoint,
+  parseWebhookEndpointInput,
+  updateWebhookEndpoint,
+  WebhookError,
+} from "@/lib/webhooks";
+
+// PATCH /api/me/webhooks/:id  body: { url?, events?, description?, active?, roll_secret? }
+// → { endpoint, secret? }; secret only when roll_secret is true
+export const PATCH = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+  const owner = { userId: ext.id, platform: false };
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 1];
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseWebhookEndpointInput(body, true);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    return NextResponse.json(
+      await updateWebhookEndpoint(
+        owner,
+        id,
+        value!,
+        body?.roll_secret === true,
+      ),
+    );
+  } catch (e: any) {
+    if (e instanceof WebhookError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to update webhook" },
+      { status: 500 },
+    );
+  }
+});
+
+// DELETE /api/me/webhooks/:id — also deletes its delivery log
+export const DELETE = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+  const owner = { userId: ext.id, platform: false };
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const id = parts[parts.length - 1];
+
+  try {
+    await deleteWebhookEndpoint(owner, id);
+
+    return NextResponse.json({ success: true });
+  } catch (e: any) {
+    if (e instanceof WebhookError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to delete webhook" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { requireSession } from "@/app/api/utils/require-scope";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  parseWebhookEndpointInput,
+  WebhookError,
+} from "@/lib/webhooks";
+
+// GET /api/me/webhooks → { endpoints }. Your webhook endpoints (events about you), oldest first.
+export const GET = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+  const owner = { userId: ext.id, platform: false };
+
+  try {
+    return NextResponse.json({ endpoints: await listWebhookEndpoints(owner) });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message || "Failed to load webhooks" },
+      { status: 500 },
+    );
+  }
+});
+
+// POST /api/me/webhooks  body: { url, events, description? } → 201 { endpoint, secret }
+// The signing secret is only returned here and when it is rolled.
+export const POST = withRateLimit("me", async (request: Request) => {
+  const ext = await resolveExternalUser(request);
+
+  if (!ext?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const denied = requireSession(ext);
+
+  if (denied) return denied;
+  const owner = { userId: ext.id, platform: false };
+
+  const body = await request.json().catch(() => null);
+  const { value, error: invalid } = parseWebhookEndpointInput(body);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    return NextResponse.json(await createWebhookEndpoint(owner, value!), {
+      status: 201,
+    });
+  } catch (e: any) {
+    if (e instanceof WebhookError)
+      return NextResponse.json({ error: e.message }, { status: e.status });
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to create webhook" },
+      { status: 500 },
+    );
+  }
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+
+import { extractBearerToken } from "@/app/api/utils/resolve-user";
+import { hashPersonalAccessToken } from "@/lib/token";
+import { getClientIp, hashIp } from "@/lib/request";
+import {
+  checkRateLimit,
+  getRateLimitBucket,
+  rateLimitHeaders,
+  RateLimitGroup,
+  RateLimitResult,
+} from "@/lib/rate-limit";
+
+// Who a request counts against: the PAT, else the signed-in user, else the
+// client IP. Only the JWT is decoded here; the handler still authenticates.
+async function rateLimitKey(
+  request: Request,
+  group: RateLimitGroup,
+): Promise<string> {
+  if (getRateLimitBucket(group).by !== "ip") {
+    const bearer = extractBearerToken(request);
+
+    if (bearer?.startsWith("pat_"))
+      return `pat:${hashPersonalAccessToken(bearer)}`;
+
+    const token = await getToken({
+      req: new NextRequest(request.url, { headers: request.headers }),
+      secret: process.env.NEXTAUTH_SECRET,
+    }).catch(() => null);
+
+    if (token?.sub) return `user:${token.sub}`;
+  }
+
+  return `ip:${hashIp(getClientIp(request)) || "unknown"}`;
+}
+
+export function tooManyRequests(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    {
+      error: `Too many requests. Try again in ${result.resetSeconds} seconds.`,
+    },
+    { status: 429, headers: rateLimitHeaders(result) },
+  );
+}
+
+/**
+ * Wrap a route handler in `group`'s rate limit. Over the limit it answers
+ * 429 without running the handler; otherwise the RateLimit-* headers are
+ * added to the handler's response:
+ *
+ *   export const GET = withRateLimit("me", async (request: Request) => { ... });
+ *
+ * `limited` builds the 429 for APIs with their own error shape (/api/v1).
+ */
+export function withRateLimit<R extends Request>(
+  group: RateLimitGroup,
+  handler: (request: R) => Promise<Response>,
+  limited: (result: RateLimitResult) => Response = tooManyRequests,
+) {
+  return async (request: R): Promise<Response> => {
+    const result = await checkRateLimit(
+      group,
+      await rateLimitKey(request, group),
+    );
+
+    if (!result.allowed) return limited(result);
+
+    const response = await handler(request);
+
+    for (const [name, value] of Object.entries(rateLimitHeaders(result)))
+      response.headers.set(name, value);
+
+    return response;
+  };
+}
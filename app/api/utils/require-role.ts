@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { ExtAuthUser } from "@/lib/ext-auth";
+import { hasRole, Role } from "@/lib/roles";
+import { hasScope } from "@/lib/scopes";
+import { supabaseAdminNextAuth } from "@/lib/supabase-admin";
+import { hasRequiredTwoFactor } from "@/lib/two-factor";
+
+export const TWO_FACTOR_NEEDED =
+  "Your role requires two-factor authentication. Turn it on in Settings.";
+
+export interface StaffUser extends ExtAuthUser {
+  email: string; // lowercase; looked up for PATs, which don't carry one
+}
+
+/**
+ * Guard for admin routes. Resolves the caller and checks they hold one of
+ * `roles` (admin always passes); personal access tokens also need the admin:*
+ * scope, and staff whose role requires 2FA must have it on. Returns the
+ * caller, or a 401/403 response:
+ *
+ *   const staff = await requireRole(request, ["finance"]);
+ *   if (staff instanceof NextResponse) return staff;
+ */
+export async function requireRole(
+  request: Request,
+  roles: Role[],
+): Promise<StaffUser | NextResponse> {
+  const user = await resolveExternalUser(request);
+
+  if (!user)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  if (!hasRole(user.roles, ...roles))
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  if (!hasScope(user.scopes, "admin:*")) {
+    return NextResponse.json(
+      { error: "Token is missing the admin:* scope" },
+      { status: 403 },
+    );
+  }
+  if (!(await hasRequiredTwoFactor(user.id, user.roles))) {
+    return NextResponse.json({ error: TWO_FACTOR_NEEDED }, { status: 403 });
+  }
+
+  let email = user.email?.toLowerCase() || "";
+
+  if (!email) {
+    const { data } = await supabaseAdminNextAuth
+      .from("users")
+      .select("email")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    email = data?.email?.toLowerCase() || "";
+  }
+
+  return { ...user, email };
+}
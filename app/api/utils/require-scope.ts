@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { ExtAuthUser } from "@/lib/ext-auth";
+import { hasScope, Scope } from "@/lib/scopes";
+
+/**
+ * Scope check for routes a personal access token may call. Sessions always
+ * pass. Returns a 403 response, or null when the caller may proceed:
+ *
+ *   const denied = requireScope(ext, "reports:read");
+ *   if (denied) return denied;
+ */
+export function requireScope(
+  user: ExtAuthUser,
+  scope: Scope,
+): NextResponse | null {
+  if (hasScope(user.scopes, scope)) return null;
+
+  return NextResponse.json(
+    { error: `Token is missing the ${scope} scope` },
+    { status: 403 },
+  );
+}
+
+// For routes that manage credentials (password, tokens): browser sessions only
+export function requireSession(user: ExtAuthUser): NextResponse | null {
+  if (user.scopes === null) return null;
+
+  return NextResponse.json(
+    { error: "Personal access tokens can't be used here" },
+    { status: 403 },
+  );
+}
@@ -0,0 +1,132 @@
+import { z } from "zod";
+
+import { resolveExternalUser } from "@/app/api/utils/resolve-user";
+import { withRateLimit } from "@/app/api/utils/rate-limit";
+import { TWO_FACTOR_NEEDED } from "@/app/api/utils/require-role";
+import { ApiV1Error, parseOrThrow, v1Error } from "@/lib/api-v1";
+import { ApiV1Operation } from "@/lib/api-v1-schemas";
+import { ExtAuthUser } from "@/lib/ext-auth";
+import { rateLimitHeaders } from "@/lib/rate-limit";
+import { hasRole } from "@/lib/roles";
+import { hasScope } from "@/lib/scopes";
+import { hasRequiredTwoFactor } from "@/lib/two-factor";
+
+export interface V1Context<
+  Q extends z.ZodType,
+  B extends z.ZodType,
+  P extends z.ZodType,
+> {
+  request: Request;
+  user: ExtAuthUser;
+  query: z.output<Q>;
+  body: z.output<B>;
+  params: z.output<P>;
+}
+
+// Values for the {placeholders} in an operation's path template
+function pathParams(
+  template: string,
+  request: Request,
+): Record<string, string> {
+  const expected = template.split("/");
+  const parts = new URL(request.url).pathname.replace(/\/+$/, "").split("/");
+  const params: Record<string, string> = {};
+
+  expected.forEach((segment, i) => {
+    const name = segment.match(/^\{(\w+)\}$/)?.[1];
+
+    if (name) params[name] = parts[i] || "";
+  });
+
+  return params;
+}
+
+async function authorize(
+  op: ApiV1Operation,
+  request: Request,
+): Promise<ExtAuthUser> {
+  const user = await resolveExternalUser(request);
+
+  if (!user?.id)
+    throw new ApiV1Error(
+      "unauthorized",
+      "Sign in or send a personal access token",
+    );
+  if (op.roles && !hasRole(user.roles, ...op.roles))
+    throw new ApiV1Error("forbidden", "Forbidden");
+  if (!hasScope(user.scopes, op.scope))
+    throw new ApiV1Error("forbidden", `Token is missing the ${op.scope} scope`);
+  if (op.roles && !(await hasRequiredTwoFactor(user.id, user.roles)))
+    throw new ApiV1Error("forbidden", TWO_FACTOR_NEEDED);
+
+  return user;
+}
+
+/**
+ * Route handler for an /api/v1 operation from lib/api-v1-schemas. Applies the
+ * rate limit, authenticates and checks roles and scopes, validates path,
+ * query and body against the operation's schemas, and turns anything thrown
+ * into the error envelope:
+ *
+ *   export const GET = v1Route(API_V1.getMyStats, async ({ user, query }) => v1Data(...));
+ */
+export function v1Route<
+  Q extends z.ZodType,
+  B extends z.ZodType,
+  P extends z.ZodType,
+>(
+  op: ApiV1Operation<Q, B, P>,
+  handler: (ctx: V1Context<Q, B, P>) => Promise<Response>,
+) {
+  const group = op.tag === "Admin" ? "admin" : "me";
+
+  return withRateLimit(
+    group,
+    async (request: Request) => {
+      try {
+        const user = await authorize(op as ApiV1Operation, request);
+        const params = op.params
+          ? parseOrThrow(op.params, pathParams(op.path, request), "path")
+          : undefined;
+        const query = op.query
+          ? parseOrThrow(
+              op.query,
+              Object.fromEntries(new URL(request.url).searchParams),
+              "query string",
+            )
+          : undefined;
+
+        let body: unknown;
+
+        if (op.body) {
+          const raw = await request.json().catch(() => {
+            throw new ApiV1Error("validation_failed", "Body must be JSON");
+          });
+
+          body = parseOrThrow(op.body, raw, "body");
+        }
+
+        return await handler({
+          request,
+          user,
+          query,
+          body,
+          params,
+        } as V1Context<Q, B, P>);
+      } catch (e) {
+        if (e instanceof ApiV1Error) return v1Error(e);
+        console.error(`${op.operationId} failed:`, e);
+
+        return v1Error(new ApiV1Error("internal", "Something went wrong"));
+      }
+    },
+    (result) =>
+      v1Error(
+        new ApiV1Error(
+          "rate_limited",
+          `Too many requests. Try again in ${result.resetSeconds} seconds.`,
+        ),
+        rateLimitHeaders(result),
+      ),
+  );
+}
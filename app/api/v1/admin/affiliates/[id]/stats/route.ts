@@ -0,0 +1,32 @@
+import { v1Route } from "@/app/api/utils/v1-route";
+import { ApiV1Error, v1Data } from "@/lib/api-v1";
+import { API_V1 } from "@/lib/api-v1-schemas";
+import { getMetricsTotals } from "@/lib/metrics";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+export const GET = v1Route(
+  API_V1.getAffiliateStats,
+  async ({ params, query }) => {
+    const { data: approved, error } = await supabaseAdmin
+      .from("approved_users")
+      .select("user_id")
+      .eq("user_id", params.user_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!approved) throw new ApiV1Error("not_found", "Affiliate not found");
+
+    const totals = await getMetricsTotals(params.user_id, query);
+
+    return v1Data({
+      user_id: params.user_id,
+      from: query.from ?? null,
+      to: query.to ?? null,
+      ...totals,
+    });
+  },
+);
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
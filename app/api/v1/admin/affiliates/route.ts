@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+import { v1Route } from "@/app/api/utils/v1-route";
+import { decodeCursor, toPage, v1Data } from "@/lib/api-v1";
+import { API_V1 } from "@/lib/api-v1-schemas";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+// Ordered by (created_at, id) descending
+const Cursor = z.object({
+  created_at: z.iso.datetime({ offset: true }),
+  id: z.uuid(),
+});
+
+export const GET = v1Route(API_V1.listAffiliates, async ({ query }) => {
+  let q = supabaseAdmin
+    .from("approved_users")
+    .select("id, user_id, user_email, status, created_at")
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(query.limit + 1);
+
+  if (!query.status) q = q.neq("status", "offboarded");
+  else if (query.status !== "all") q = q.eq("status", query.status);
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, Cursor);
+
+    q = q.or(
+      `created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt.${after.id})`,
+    );
+  }
+
+  const { data: approved, error } = await q;
+
+  if (error) throw error;
+
+  const page = toPage(approved || [], query.limit, (row: any) => ({
+    created_at: row.created_at,
+    id: row.id,
+  }));
+  const userIds = page.rows.map((u: any) => u.user_id);
+
+  if (userIds.length === 0) return v1Data([], { nextCursor: null });
+
+  const [
+    { data: profiles, error: profilesErr },
+    { data: referrers, error: refErr },
+  ] = await Promise.all([
+    supabaseAdmin
+      .from("affiliate_profiles")
+      .select("user_id, first_name, last_name")
+      .in("user_id", userIds),
+    supabaseAdmin
+      .from("affiliate_referrers")
+      .select("user_id, code")
+      .in("user_id", userIds),
+  ]);
+
+  if (profilesErr) throw profilesErr;
+  if (refErr) throw refErr;
+
+  const profilesMap = new Map((profiles || []).map((p: any) => [p.user_id, p]));
+  const codes = new Map((referrers || []).map((r: any) => [r.user_id, r.code]));
+
+  return v1Data(
+    page.rows.map((u: any) => {
+      const p = profilesMap.get(u.user_id);
+
+      return {
+        user_id: u.user_id,
+        email: u.user_email,
+        first_name: p?.first_name || null,
+        last_name: p?.last_name || null,
+        status: u.status || "active",
+        referral_code: codes.get(u.user_id) || null,
+        created_at: u.created_at,
+      };
+    }),
+    { nextCursor: page.nextCursor },
+  );
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+import { v1Route } from "@/app/api/utils/v1-route";
+import { decodeCursor, toPage, v1Data } from "@/lib/api-v1";
+import { API_V1 } from "@/lib/api-v1-schemas";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+// One row per user and day, so the day alone orders the pages
+const Cursor = z.object({ day: z.iso.date() });
+
+export const GET = v1Route(
+  API_V1.listMyDailyMetrics,
+  async ({ user, query }) => {
+    let q = supabaseAdmin
+      .from("daily_affiliate_metrics")
+      .select("day, clicks, signups, customers, earnings")
+      .eq("user_id", user.id)
+      .order("day", { ascending: true })
+      .limit(query.limit + 1);
+
+    if (query.from) q = q.gte("day", query.from);
+    if (query.to) q = q.lte("day", query.to);
+    if (query.cursor) q = q.gt("day", decodeCursor(query.cursor, Cursor).day);
+
+    const { data, error } = await q;
+
+    if (error) throw error;
+
+    const page = toPage(data || [], query.limit, (row: any) => ({
+      day: row.day,
+    }));
+
+    return v1Data(
+      page.rows.map((row: any) => ({
+        day: row.day,
+        clicks: Number(row.clicks) || 0,
+        signups: Number(row.signups) || 0,
+        customers: Number(row.customers) || 0,
+        earnings: Number(row.earnings) || 0,
+      })),
+      { nextCursor: page.nextCursor },
+    );
+  },
+);
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,90 @@
+import { z } from "zod";
+
+import { v1Route } from "@/app/api/utils/v1-route";
+import { ApiV1Error, decodeCursor, toPage, v1Data } from "@/lib/api-v1";
+import { API_V1 } from "@/lib/api-v1-schemas";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  createReferralLink,
+  parseReferralLinkInput,
+  ReferralLink,
+  ReferralLinkError,
+} from "@/lib/referral-links";
+
+const LINK_COLUMNS = "id, name, code, destination_url, active, created_at";
+
+// Ordered by (created_at, id) ascending
+const Cursor = z.object({
+  created_at: z.iso.datetime({ offset: true }),
+  id: z.uuid(),
+});
+
+const toResource = (link: ReferralLink) => ({
+  id: link.id,
+  name: link.name,
+  code: link.code,
+  destination_url: link.destination_url,
+  active: link.active,
+  created_at: link.created_at,
+});
+
+export const GET = v1Route(
+  API_V1.listMyReferralLinks,
+  async ({ user, query }) => {
+    let q = supabaseAdmin
+      .from("referral_links")
+      .select(LINK_COLUMNS)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .limit(query.limit + 1);
+
+    if (query.cursor) {
+      const after = decodeCursor(query.cursor, Cursor);
+
+      q = q.or(
+        `created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`,
+      );
+    }
+
+    const { data, error } = await q;
+
+    if (error) throw error;
+
+    const page = toPage(data || [], query.limit, (row: any) => ({
+      created_at: row.created_at,
+      id: row.id,
+    }));
+
+    return v1Data(page.rows, { nextCursor: page.nextCursor });
+  },
+);
+
+// The schema checks the shape; parseReferralLinkInput applies the same code
+// and destination rules as /api/me/referral-links
+export const POST = v1Route(
+  API_V1.createMyReferralLink,
+  async ({ user, body }) => {
+    const { value, error: invalid } = parseReferralLinkInput(body);
+
+    if (invalid) throw new ApiV1Error("validation_failed", invalid);
+
+    try {
+      return v1Data(toResource(await createReferralLink(user.id, value!)), {
+        status: 201,
+      });
+    } catch (e) {
+      if (e instanceof ReferralLinkError) {
+        throw new ApiV1Error(
+          e.status === 409 ? "conflict" : "validation_failed",
+          e.message,
+        );
+      }
+      throw e;
+    }
+  },
+);
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+import { v1Route } from "@/app/api/utils/v1-route";
+import { decodeCursor, toPage, v1Data } from "@/lib/api-v1";
+import { API_V1 } from "@/lib/api-v1-schemas";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+// Ordered by (date, id) descending; id breaks ties between same-day events
+const Cursor = z.object({ date: z.iso.date(), id: z.uuid() });
+
+export const GET = v1Route(API_V1.listMyReferrals, async ({ user, query }) => {
+  let q = supabaseAdmin
+    .from("referral_events")
+    .select("id, agent, email, date, status, event_type, revenue, occurred_at")
+    .eq("referrer_id", user.id)
+    .neq("event_type", "refund")
+    .order("date", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(query.limit + 1);
+
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, Cursor);
+
+    q = q.or(
+      `date.lt.${after.date},and(date.eq.${after.date},id.lt.${after.id})`,
+    );
+  }
+
+  const { data, error } = await q;
+
+  if (error) throw error;
+
+  const page = toPage(data || [], query.limit, (row: any) => ({
+    date: row.date,
+    id: row.id,
+  }));
+
+  return v1Data(
+    page.rows.map((row: any) => ({
+      ...row,
+      revenue: row.revenue === null ? null : Number(row.revenue),
+      occurred_at: row.occurred_at ?? null,
+    })),
+    { nextCursor: page.nextCursor },
+  );
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
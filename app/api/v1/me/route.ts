@@ -0,0 +1,49 @@
+import { v1Route } from "@/app/api/utils/v1-route";
+import { v1Data } from "@/lib/api-v1";
+import { API_V1 } from "@/lib/api-v1-schemas";
+import { supabaseAdmin, supabaseAdminNextAuth } from "@/lib/supabase-admin";
+
+export const GET = v1Route(API_V1.getMe, async ({ user }) => {
+  const [{ data: profile, error }, { data: referrer, error: refErr }] =
+    await Promise.all([
+      supabaseAdmin
+        .from("affiliate_profiles")
+        .select("user_email, first_name, last_name")
+        .eq("user_id", user.id)
+        .maybeSingle(),
+      supabaseAdmin
+        .from("affiliate_referrers")
+        .select("code")
+        .eq("user_id", user.id)
+        .maybeSingle(),
+    ]);
+
+  if (error) throw error;
+  if (refErr) throw refErr;
+
+  // PATs don't carry an email; fall back to the auth user
+  let email = profile?.user_email || user.email || "";
+
+  if (!email) {
+    const { data } = await supabaseAdminNextAuth
+      .from("users")
+      .select("email")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    email = data?.email || "";
+  }
+
+  return v1Data({
+    user_id: user.id,
+    email: email.toLowerCase(),
+    first_name: profile?.first_name || null,
+    last_name: profile?.last_name || null,
+    referral_code: referrer?.code || null,
+    roles: user.roles,
+  });
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
@@ -0,0 +1,14 @@
+import { v1Route } from "@/app/api/utils/v1-route";
+import { v1Data } from "@/lib/api-v1";
+import { API_V1 } from "@/lib/api-v1-schemas";
+import { getMetricsTotals } from "@/lib/metrics";
+
+export const GET = v1Route(API_V1.getMyStats, async ({ user, query }) => {
+  const totals = await getMetricsTotals(user.id, query);
+
+  return v1Data({ from: query.from ?? null, to: query.to ?? null, ...totals });
+});
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
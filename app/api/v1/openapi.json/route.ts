@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+// GET /api/v1/openapi.json → the OpenAPI 3.1 document for /api/v1 (public)
+export async function GET(request: Request) {
+  return NextResponse.json(buildOpenApiDocument(new URL(request.url).origin), {
+    headers: { "Cache-Control": "public, max-age=300" },
+  });
+}
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
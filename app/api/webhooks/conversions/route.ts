@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+
+import {
+  CONVERSION_SIGNATURE_HEADER,
+  ConversionIngestError,
+  ingestConversionEvent,
+  parseConversionPayload,
+  verifyConversionSignature,
+} from "@/lib/conversions";
+
+// POST /api/webhooks/conversions — signup/customer/refund events from the booking system.
+// Authenticated by X-VX-Signature: sha256=HMAC-SHA256(CONVERSION_WEBHOOK_SECRET, raw body).
+export async function POST(request: Request) {
+  const secret = process.env.CONVERSION_WEBHOOK_SECRET;
+
+  if (!secret) {
+    console.error("CONVERSION_WEBHOOK_SECRET is not set");
+
+    return NextResponse.json(
+      { error: "Webhook not configured" },
+      { status: 503 },
+    );
+  }
+
+  // Verify against the exact bytes received, before parsing
+  const rawBody = await request.text();
+
+  if (
+    !verifyConversionSignature(
+      rawBody,
+      request.headers.get(CONVERSION_SIGNATURE_HEADER),
+      secret,
+    )
+  ) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let body: any;
+
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+
+  const { value, error: invalid } = parseConversionPayload(body);
+
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    const result = await ingestConversionEvent(
+      value!,
+      body?.source ? String(body.source).slice(0, 100) : "webhook",
+    );
+
+    // Duplicates answer 200 with the original event so senders stop retrying
+    return NextResponse.json(result, { status: result.duplicate ? 200 : 201 });
+  } catch (e: any) {
+    if (e instanceof ConversionIngestError) {
+      return NextResponse.json({ error: e.message }, { status: 422 });
+    }
+    console.error("Conversion ingest error:", e);
+
+    return NextResponse.json(
+      { error: e?.message || "Failed to ingest event" },
+      { status: 500 },
+    );
+  }
+}
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
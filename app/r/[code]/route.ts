@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+
+import { buildLandingUrl, recordReferralClick } from "@/lib/clicks";
+import { findReferrerByCode, ResolvedReferrer } from "@/lib/referrers";
+import {
+  getOrCreateVisitorId,
+  VISITOR_COOKIE,
+  visitorCookieOptions,
+} from "@/lib/attribution";
+import {
+  DEFAULT_ATTRIBUTION_SETTINGS,
+  getAttributionSettings,
+} from "@/lib/settings";
+
+// Public referral link: records the click, then forwards to the landing page
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const parts = url.pathname.replace(/\/+$/, "").split("/");
+
+  let referrer: ResolvedReferrer | null = null;
+
+  try {
+    referrer = await findReferrerByCode(
+      decodeURIComponent(parts[parts.length - 1] || ""),
+    );
+  } catch (error) {
+    console.error("Referral lookup error:", error);
+  }
+
+  // Unknown codes and deactivated links still land on the order page so printed links never dead-end
+  if (!referrer) {
+    return NextResponse.redirect(buildLandingUrl(null, url.searchParams), 302);
+  }
+
+  const visitorId = getOrCreateVisitorId(request);
+
+  await recordReferralClick(request, referrer, visitorId);
+
+  const settings = await getAttributionSettings().catch(
+    () => DEFAULT_ATTRIBUTION_SETTINGS,
+  );
+  const response = NextResponse.redirect(
+    buildLandingUrl(
+      referrer.code,
+      url.searchParams,
+      visitorId,
+      referrer.destination_url,
+    ),
+    302,
+  );
+
+  // Conversions within the attribution window are matched back to this click
+  response.cookies.set(
+    VISITOR_COOKIE,
+    visitorId,
+    visitorCookieOptions(settings),
+  );
+
+  return response;
+}
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const runtime = "nodejs";
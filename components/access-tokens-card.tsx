@@ -0,0 +1,324 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Checkbox,
+  CheckboxGroup,
+  Chip,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Select,
+  SelectItem,
+  Snippet,
+} from "@heroui/react";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+import { addToast } from "@heroui/toast";
+import { useSession } from "next-auth/react";
+
+import { hasRole, STAFF_ROLES } from "@/lib/roles";
+import { SCOPES } from "@/lib/scopes";
+
+interface AccessToken {
+  id: string;
+  name: string;
+  scopes: string[];
+  active: boolean;
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  use_count: number;
+  created_at: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { key: "30", label: "30 days" },
+  { key: "90", label: "90 days" },
+  { key: "365", label: "1 year" },
+  { key: "never", label: "No expiry" },
+];
+
+const emptyForm = { name: "", scopes: ["reports:read"], expiry: "90" };
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString() : "Never";
+
+// Personal access tokens for calling the API from scripts and integrations
+export function AccessTokensCard() {
+  const { data: session } = useSession();
+  const isStaff = hasRole((session?.user as any)?.roles, ...STAFF_ROLES);
+
+  const [tokens, setTokens] = useState<AccessToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const loadTokens = async () => {
+    try {
+      const res = await fetch("/api/me/tokens", { cache: "no-store" });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to load tokens");
+      setTokens(json.tokens || []);
+    } catch (e) {
+      console.error("Error loading access tokens:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const openCreate = () => {
+    setForm(emptyForm);
+    setError(null);
+    setCreatedToken(null);
+    setIsOpen(true);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const days = form.expiry === "never" ? null : Number(form.expiry);
+      const res = await fetch("/api/me/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          scopes: form.scopes,
+          expires_at: days
+            ? new Date(Date.now() + days * 86_400_000).toISOString()
+            : null,
+        }),
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to create token");
+      setTokens((prev) => [json.key as AccessToken, ...prev]);
+      setCreatedToken(json.token);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "Failed to create token";
+
+      setError(msg);
+      addToast({ title: msg, color: "danger" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: AccessToken) => {
+    if (!confirm(`Revoke "${token.name}"? Anything using it stops working.`)) {
+      return;
+    }
+    try {
+      const res = await fetch(`/api/me/tokens/${token.id}`, {
+        method: "DELETE",
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to revoke token");
+      setTokens((prev) => prev.filter((t) => t.id !== token.id));
+      addToast({ title: "Token revoked", color: "success" });
+    } catch (e) {
+      addToast({
+        title: e instanceof Error ? e.message : "Failed to revoke token",
+        color: "danger",
+      });
+    }
+  };
+
+  const isExpired = (token: AccessToken) =>
+    !!token.expires_at && new Date(token.expires_at) <= new Date();
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <KeyRound size={20} />
+          Access Tokens
+        </h3>
+        <Button
+          size="sm"
+          startContent={<Plus size={14} />}
+          variant="bordered"
+          onPress={openCreate}
+        >
+          New Token
+        </Button>
+      </CardHeader>
+      <CardBody className="space-y-3">
+        <p className="text-sm text-gray-500">
+          Use a token as <code>Authorization: Bearer pat_…</code> to call the
+          API. Each token can only do what its scopes allow.
+        </p>
+
+        {loading ? null : tokens.length === 0 ? (
+          <p className="text-sm text-gray-500">No tokens yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {tokens.map((token) => (
+              <div
+                key={token.id}
+                className="flex items-start gap-3 p-3 rounded-lg bg-gray-50"
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-800 truncate">
+                      {token.name}
+                    </span>
+                    {(!token.active || isExpired(token)) && (
+                      <Chip color="warning" size="sm" variant="flat">
+                        {token.active ? "Expired" : "Inactive"}
+                      </Chip>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map((scope) => (
+                      <Chip key={scope} size="sm" variant="flat">
+                        {scope}
+                      </Chip>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Created {formatDate(token.created_at)} · Expires{" "}
+                    {formatDate(token.expires_at)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {token.last_used_at
+                      ? `Last used ${new Date(token.last_used_at).toLocaleString()}${
+                          token.last_used_ip
+                            ? ` from ${token.last_used_ip}`
+                            : ""
+                        } · ${token.use_count} requests`
+                      : "Never used"}
+                  </div>
+                </div>
+                <Button
+                  isIconOnly
+                  aria-label="Revoke token"
+                  color="danger"
+                  size="sm"
+                  variant="light"
+                  onPress={() => handleRevoke(token)}
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardBody>
+
+      <Modal isOpen={isOpen} onOpenChange={setIsOpen}>
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader>
+                {createdToken ? "Copy your token" : "New access token"}
+              </ModalHeader>
+              <ModalBody>
+                {createdToken ? (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      This is the only time the token is shown. Store it
+                      somewhere safe.
+                    </p>
+                    <Snippet
+                      hideSymbol
+                      className="w-full"
+                      classNames={{ pre: "truncate" }}
+                    >
+                      {createdToken}
+                    </Snippet>
+                  </>
+                ) : (
+                  <>
+                    <Input
+                      isRequired
+                      label="Name"
+                      placeholder="Reporting script"
+                      value={form.name}
+                      variant="bordered"
+                      onValueChange={(v) => setForm((p) => ({ ...p, name: v }))}
+                    />
+                    <CheckboxGroup
+                      label="Scopes"
+                      value={form.scopes}
+                      onValueChange={(v) =>
+                        setForm((p) => ({ ...p, scopes: v }))
+                      }
+                    >
+                      {SCOPES.filter(
+                        (s) => s.scope !== "admin:*" || isStaff,
+                      ).map((s) => (
+                        <Checkbox key={s.scope} value={s.scope}>
+                          <div className="text-sm">{s.label}</div>
+                          <div className="text-xs text-gray-500">
+                            {s.description}
+                          </div>
+                        </Checkbox>
+                      ))}
+                    </CheckboxGroup>
+                    <Select
+                      disallowEmptySelection
+                      label="Expires"
+                      selectedKeys={[form.expiry]}
+                      variant="bordered"
+                      onSelectionChange={(keys) =>
+                        setForm((p) => ({
+                          ...p,
+                          expiry: String(Array.from(keys)[0] || "90"),
+                        }))
+                      }
+                    >
+                      {EXPIRY_OPTIONS.map((o) => (
+                        <SelectItem key={o.key}>{o.label}</SelectItem>
+                      ))}
+                    </Select>
+                    {error && (
+                      <div className="text-danger-500 text-xs">{error}</div>
+                    )}
+                  </>
+                )}
+              </ModalBody>
+              <ModalFooter>
+                {createdToken ? (
+                  <Button color="primary" onPress={onClose}>
+                    Done
+                  </Button>
+                ) : (
+                  <>
+                    <Button variant="bordered" onPress={onClose}>
+                      Cancel
+                    </Button>
+                    <Button
+                      color="primary"
+                      isDisabled={!form.name.trim() || form.scopes.length === 0}
+                      isLoading={saving}
+                      onPress={handleCreate}
+                    >
+                      Create
+                    </Button>
+                  </>
+                )}
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardBody, CardHeader } from "@heroui/react";
+import { History } from "lucide-react";
+import { useSession } from "next-auth/react";
+
+import {
+  auditActionLabel,
+  AuditEvent,
+  describeAuditChanges,
+} from "@/lib/audit-events";
+
+// Security-relevant changes to this account, by the user or by staff
+export function AccountHistoryCard() {
+  const { data: session } = useSession();
+  const userId = (session?.user as any)?.id as string | undefined;
+
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch("/api/me/audit", { cache: "no-store" });
+        const json = await res.json();
+
+        if (!res.ok) throw new Error(json?.error || "Failed to load history");
+        setEvents(json.events || []);
+      } catch (e) {
+        console.error("Error loading account history:", e);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <History size={20} />
+          Account History
+        </h3>
+      </CardHeader>
+      <CardBody className="space-y-3">
+        <p className="text-sm text-gray-500">
+          Your latest sign-in, security, referral code and account changes,
+          whether you or staff made them.
+        </p>
+
+        {loading ? null : events.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing recorded yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {events.map((event) => (
+              <div
+                key={event.id}
+                className="p-3 rounded-lg bg-gray-50 space-y-1"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-800">
+                    {auditActionLabel(event.action)}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {new Date(event.created_at).toLocaleString()}
+                  </span>
+                </div>
+                {describeAuditChanges(event.changes).map((line) => (
+                  <div key={line} className="text-xs text-gray-600 break-all">
+                    {line}
+                  </div>
+                ))}
+                <div className="text-xs text-gray-500">
+                  {event.actor_id && event.actor_id !== userId
+                    ? `By ${event.actor_email || "staff"}`
+                    : "By you"}
+                  {event.ip ? ` · ${event.ip}` : ""}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -3,7 +3,7 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { addToast, Spinner } from "@heroui/react";
-import { useSession } from "next-auth/react";
+import { signOut, useSession } from "next-auth/react";
 
 interface AuthGuardProps {
   children: React.ReactNode;
@@ -39,7 +39,8 @@ export function AuthGuard({ children }: AuthGuardProps) {
       if (status !== "authenticated") return;
       try {
         const res = await fetch("/api/me/approval", { cache: "no-store" });
-        if (!res.ok) throw new Error("Approval check failed");
+        // 401 here means the session is valid but the account was suspended or removed
+        if (!res.ok && res.status !== 401) throw new Error("Approval check failed");
         const json = await res.json();
         if (!json.approved) {
           addToast({
@@ -47,6 +48,7 @@ export function AuthGuard({ children }: AuthGuardProps) {
             description: "Your account is not approved. Please contact an administrator.",
             color: "danger",
           });
+          await signOut({ redirect: false });
           router.replace("/auth");
           setApproved(false);
         } else {
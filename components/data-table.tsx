@@ -24,8 +24,27 @@ const statusColorMap = {
   approved: "success",
   pending: "warning",
   rejected: "danger",
+  refunded: "default",
 } as const;
 
+// How a referral was credited, e.g. "Last click · 3d before"
+const describeAttribution = (item: ReferralEvent): string => {
+  if (!item.attribution_method) return "—";
+  if (item.attribution_method === "code") return "Referral code";
+
+  const label =
+    item.attribution_method === "first_touch" ? "First click" : "Last click";
+  const convertedAt = item.occurred_at || item.date;
+  if (!item.attributed_clicked_at || !convertedAt) return label;
+
+  const days = Math.floor(
+    (new Date(convertedAt).getTime() -
+      new Date(item.attributed_clicked_at).getTime()) /
+      86400000
+  );
+  return `${label} · ${days < 1 ? "same day" : `${days}d before`}`;
+};
+
 export function DataTable({ data }: DataTableProps) {
   const [page, setPage] = useState(1);
   const [searchTerm, setSearchTerm] = useState("");
@@ -83,6 +102,7 @@ export function DataTable({ data }: DataTableProps) {
               <TableColumn>EMAIL</TableColumn>
               <TableColumn>DATE</TableColumn>
               <TableColumn>STATUS</TableColumn>
+              <TableColumn>CREDITED VIA</TableColumn>
             </TableHeader>
             <TableBody>
               {paginatedData.map((item) => (
@@ -102,6 +122,9 @@ export function DataTable({ data }: DataTableProps) {
                         item.status.slice(1)}
                     </Chip>
                   </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {describeAttribution(item)}
+                  </TableCell>
                 </TableRow>
               ))}
             </TableBody>
@@ -9,6 +9,7 @@ import {
   DropdownTrigger,
   DropdownMenu,
   DropdownItem,
+  DropdownSection,
   Avatar,
   NavbarBrand,
   NavbarContent,
@@ -20,11 +21,10 @@ import {
   NavbarMenuItem,
 } from "@heroui/react";
 import { siteConfig } from "@/config/site";
-import { isUserAdmin } from "@/lib/auth";
+import { hasRole, STAFF_ROLES } from "@/lib/roles";
 import { signOut, useSession } from "next-auth/react";
 import { User } from "@supabase/supabase-js";
 import { Settings } from "lucide-react";
-import { GrUserAdmin } from "react-icons/gr";
 import { addToast } from "@heroui/toast";
 import ConnectionStatus from "./connection-status";
 import { FaUser } from "react-icons/fa";
@@ -39,6 +39,7 @@ export function Navbar() {
   const [loading, setLoading] = useState(status === "loading");
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const connectionStatus = ConnectionStatus();
+  const roles: string[] = (session?.user as any)?.roles || [];
 
   useEffect(() => {
     setLoading(status === "loading");
@@ -263,8 +264,10 @@ export function Navbar() {
             <DropdownItem key="profile" className="h-14 gap-2">
               <p className="font-semibold">Signed in as</p>
               <p className="font-semibold">{session?.user?.email}</p>
-              {false && (
-                <p className="text-xs text-blue-600 font-medium">Admin User</p>
+              {hasRole(roles, ...STAFF_ROLES) && (
+                <p className="text-xs text-blue-600 font-medium">
+                  {roles.filter((role) => role !== "affiliate").join(", ")}
+                </p>
               )}
             </DropdownItem>
             <DropdownItem
@@ -274,17 +277,22 @@ export function Navbar() {
             >
               Settings
             </DropdownItem>
-            {session?.user?.email
-              ?.toLowerCase()
-              .endsWith("@virtualxposure.com") ? (
-              <DropdownItem
-                key="admin"
-                startContent={<GrUserAdmin className="h-4 w-4" />}
-                onPress={() => router.push("/admin")}
-              >
-                Admin
-              </DropdownItem>
-            ) : null}
+            <DropdownSection
+              aria-label="Admin"
+              items={siteConfig.adminNavItems.filter((item) =>
+                hasRole(roles, ...item.roles),
+              )}
+            >
+              {(item) => (
+                <DropdownItem
+                  key={item.href}
+                  startContent={<item.icon className="h-4 w-4" />}
+                  onPress={() => router.push(item.href)}
+                >
+                  {item.name}
+                </DropdownItem>
+              )}
+            </DropdownSection>
             <DropdownItem key="logout" color="danger" onPress={handleSignOut}>
               Sign Out
             </DropdownItem>
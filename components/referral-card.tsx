@@ -2,22 +2,29 @@
 
 import { useEffect, useState } from "react";
 import { Card, CardBody, Button, Link as HeroUILink, Modal, ModalBody, ModalContent, ModalFooter, ModalHeader, Input } from "@heroui/react";
-import { Copy, ExternalLink } from "lucide-react";
+import { Copy, ExternalLink, QrCode } from "lucide-react";
 import { addToast } from "@heroui/toast";
 import { FiLink } from "react-icons/fi";
 import { FaFacebookF, FaTwitter } from "react-icons/fa";
 import { updateReferralCodeForCurrentUser } from "@/lib/auth";
+import { ReferralLinksManager } from "@/components/referral-links-manager";
+import { ReferralQrModal } from "@/components/referral-qr-modal";
 
 interface ReferralCardProps {
   referralCode: string;
 }
 
 export function ReferralCard({ referralCode }: ReferralCardProps) {
-  const referralUrl = `https://try.virtualxposure.com/pages/order?ref=${referralCode}`;
+  // Tracked link: /r/[code] records the click and forwards to the order page
+  const siteUrl =
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    (typeof window !== "undefined" ? window.location.origin : "");
+  const referralUrl = `${siteUrl}/r/${referralCode}`;
   const [isOpen, setIsOpen] = useState(false);
   const [token, setToken] = useState(referralCode || "");
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showQr, setShowQr] = useState(false);
 
   useEffect(() => {
     setToken(referralCode || "");
@@ -107,6 +114,16 @@ export function ReferralCard({ referralCode }: ReferralCardProps) {
             >
               <FaFacebookF size={16} />
             </Button>
+
+            <Button
+              color="default"
+              variant="bordered"
+              isIconOnly
+              onPress={() => setShowQr(true)}
+              aria-label="QR Code"
+            >
+              <QrCode size={16} />
+            </Button>
           </div>
         </div>
 
@@ -116,8 +133,16 @@ export function ReferralCard({ referralCode }: ReferralCardProps) {
             Customize Token
           </Button>
         </div>
+
+        <ReferralLinksManager siteUrl={siteUrl} />
       </CardBody>
 
+      <ReferralQrModal
+        linkId={showQr ? "primary" : null}
+        title={referralUrl.toLowerCase()}
+        onClose={() => setShowQr(false)}
+      />
+
       <Modal isOpen={isOpen} onOpenChange={setIsOpen}>
         <ModalContent>
           {(onClose) => (
@@ -132,7 +157,7 @@ export function ReferralCard({ referralCode }: ReferralCardProps) {
                   placeholder="your-token"
                 />
                 <div className="flex items-start gap-2 text-warning-500 text-xs">
-                  <span>Note that changing the referral token will invalidate any already shared links.</span>
+                  <span>Links already shared with your current token will keep redirecting to you.</span>
                 </div>
                 {error && (<div className="text-danger-500 text-xs">{error}</div>)}
               </ModalBody>
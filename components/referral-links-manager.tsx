@@ -0,0 +1,303 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Chip,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Switch,
+} from "@heroui/react";
+import { Copy, Pencil, Plus, QrCode } from "lucide-react";
+import { addToast } from "@heroui/toast";
+
+import { ReferralQrModal } from "@/components/referral-qr-modal";
+
+interface ReferralLink {
+  id: string;
+  name: string;
+  code: string;
+  destination_url: string | null;
+  active: boolean;
+}
+
+interface ReferralLinksManagerProps {
+  siteUrl: string;
+}
+
+const emptyForm = { name: "", code: "", destination_url: "" };
+
+// Named referral links (e.g. "Instagram bio"), each with its own code and landing page
+export function ReferralLinksManager({ siteUrl }: ReferralLinksManagerProps) {
+  const [links, setLinks] = useState<ReferralLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<ReferralLink | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [qrLink, setQrLink] = useState<ReferralLink | null>(null);
+
+  const loadLinks = async () => {
+    try {
+      const res = await fetch("/api/me/referral-links", { cache: "no-store" });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to load links");
+      setLinks(json.links || []);
+    } catch (e) {
+      console.error("Error loading referral links:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLinks();
+  }, []);
+
+  const openEditor = (link: ReferralLink | null) => {
+    setEditing(link);
+    setForm(
+      link
+        ? {
+            name: link.name,
+            code: link.code,
+            destination_url: link.destination_url || "",
+          }
+        : emptyForm,
+    );
+    setError(null);
+    setIsOpen(true);
+  };
+
+  const saveLink = async (
+    body: Record<string, unknown>,
+    link: ReferralLink | null,
+  ) => {
+    const res = await fetch(
+      link ? `/api/me/referral-links/${link.id}` : "/api/me/referral-links",
+      {
+        method: link ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+    );
+    const json = await res.json();
+
+    if (!res.ok) throw new Error(json?.error || "Failed to save link");
+
+    return json.link as ReferralLink;
+  };
+
+  const handleSave = async (onClose: () => void) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await saveLink(
+        {
+          name: form.name,
+          code: form.code || undefined,
+          destination_url: form.destination_url || null,
+        },
+        editing,
+      );
+
+      setLinks((prev) =>
+        editing
+          ? prev.map((l) => (l.id === saved.id ? saved : l))
+          : [...prev, saved],
+      );
+      addToast({
+        title: editing ? "Link updated" : "Link created",
+        color: "success",
+      });
+      onClose();
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "Failed to save link";
+
+      setError(msg);
+      addToast({ title: msg, color: "danger" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (link: ReferralLink, active: boolean) => {
+    try {
+      const saved = await saveLink({ active }, link);
+
+      setLinks((prev) => prev.map((l) => (l.id === saved.id ? saved : l)));
+    } catch (e) {
+      addToast({
+        title: e instanceof Error ? e.message : "Failed to update link",
+        color: "danger",
+      });
+    }
+  };
+
+  const copyLink = async (link: ReferralLink) => {
+    try {
+      await navigator.clipboard.writeText(`${siteUrl}/r/${link.code}`);
+      addToast({ title: `"${link.name}" link copied!`, color: "success" });
+    } catch {
+      addToast({ title: "Failed to copy link", color: "danger" });
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-default-200 pt-4">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h4 className="font-semibold text-gray-800">Your Links</h4>
+          <p className="text-xs text-gray-500">
+            Separate links for each place you share, tracked in Reports → Links.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          startContent={<Plus size={14} />}
+          variant="bordered"
+          onPress={() => openEditor(null)}
+        >
+          New Link
+        </Button>
+      </div>
+
+      {loading ? null : links.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No named links yet. Create one for a flyer, your Instagram bio or an
+          email campaign.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {links.map((link) => (
+            <div
+              key={link.id}
+              className="flex items-center gap-3 p-2 rounded-lg bg-gray-50"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-800 truncate">
+                    {link.name}
+                  </span>
+                  {!link.active && (
+                    <Chip size="sm" variant="flat">
+                      Paused
+                    </Chip>
+                  )}
+                </div>
+                <div className="text-xs text-primary truncate">
+                  {`${siteUrl}/r/${link.code}`.toLowerCase()}
+                </div>
+              </div>
+              <Switch
+                aria-label={`${link.name} active`}
+                isSelected={link.active}
+                size="sm"
+                onValueChange={(active) => toggleActive(link, active)}
+              />
+              <Button
+                isIconOnly
+                aria-label="Copy link"
+                isDisabled={!link.active}
+                size="sm"
+                variant="light"
+                onPress={() => copyLink(link)}
+              >
+                <Copy size={14} />
+              </Button>
+              <Button
+                isIconOnly
+                aria-label="QR code"
+                isDisabled={!link.active}
+                size="sm"
+                variant="light"
+                onPress={() => setQrLink(link)}
+              >
+                <QrCode size={14} />
+              </Button>
+              <Button
+                isIconOnly
+                aria-label="Edit link"
+                size="sm"
+                variant="light"
+                onPress={() => openEditor(link)}
+              >
+                <Pencil size={14} />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ReferralQrModal
+        linkId={qrLink?.id || null}
+        title={qrLink?.name || ""}
+        onClose={() => setQrLink(null)}
+      />
+
+      <Modal isOpen={isOpen} onOpenChange={setIsOpen}>
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader>{editing ? "Edit link" : "New link"}</ModalHeader>
+              <ModalBody>
+                <Input
+                  isRequired
+                  label="Name"
+                  placeholder="Open house flyer"
+                  value={form.name}
+                  variant="bordered"
+                  onValueChange={(v) => setForm((p) => ({ ...p, name: v }))}
+                />
+                <Input
+                  description={
+                    editing
+                      ? "The old code keeps redirecting to this link"
+                      : "Leave blank to generate one from the name"
+                  }
+                  label="Code"
+                  placeholder="open-house"
+                  value={form.code}
+                  variant="bordered"
+                  onValueChange={(v) => setForm((p) => ({ ...p, code: v }))}
+                />
+                <Input
+                  description="Optional. Defaults to the order page"
+                  label="Destination URL"
+                  placeholder="https://try.virtualxposure.com/pages/order"
+                  value={form.destination_url}
+                  variant="bordered"
+                  onValueChange={(v) =>
+                    setForm((p) => ({ ...p, destination_url: v }))
+                  }
+                />
+                {error && (
+                  <div className="text-danger-500 text-xs">{error}</div>
+                )}
+              </ModalBody>
+              <ModalFooter>
+                <Button variant="bordered" onPress={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  color="primary"
+                  isDisabled={!form.name.trim()}
+                  isLoading={saving}
+                  onPress={() => handleSave(onClose)}
+                >
+                  Save
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Button,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Switch,
+} from "@heroui/react";
+import { DownloadIcon } from "lucide-react";
+
+interface ReferralQrModalProps {
+  // Named link id, or "primary" for the affiliate's primary code
+  linkId: string | null;
+  title: string;
+  onClose: () => void;
+}
+
+// Print-ready sizes: the preview is small, downloads are large enough for flyers
+const PREVIEW_SIZE = 256;
+const DOWNLOAD_SIZE = 1024;
+
+export function ReferralQrModal({
+  linkId,
+  title,
+  onClose,
+}: ReferralQrModalProps) {
+  const [logo, setLogo] = useState(true);
+
+  const qrUrl = (format: "png" | "svg", size: number, download = false) =>
+    `/api/me/referral-links/${linkId}/qr?${new URLSearchParams({
+      format,
+      size: String(size),
+      logo: String(logo),
+      ...(download ? { download: "true" } : {}),
+    }).toString()}`;
+
+  return (
+    <Modal isOpen={!!linkId} onOpenChange={(open) => !open && onClose()}>
+      <ModalContent>
+        {() => (
+          <>
+            <ModalHeader className="flex flex-col gap-1">
+              QR code
+              <span className="text-sm font-normal text-gray-500">{title}</span>
+            </ModalHeader>
+            <ModalBody className="items-center">
+              {linkId && (
+                // Served by our API with auth cookies; next/image would need a loader
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  key={qrUrl("png", PREVIEW_SIZE)}
+                  alt={`QR code for ${title}`}
+                  className="rounded-lg border border-default-200"
+                  height={PREVIEW_SIZE}
+                  src={qrUrl("png", PREVIEW_SIZE)}
+                  width={PREVIEW_SIZE}
+                />
+              )}
+              <Switch isSelected={logo} size="sm" onValueChange={setLogo}>
+                <span className="text-sm text-gray-600">Include VX logo</span>
+              </Switch>
+              <p className="text-xs text-gray-500 text-center">
+                Scans go through your tracked link, so they count as clicks in
+                Reports.
+              </p>
+            </ModalBody>
+            <ModalFooter>
+              <Button
+                as="a"
+                href={qrUrl("svg", DOWNLOAD_SIZE, true)}
+                startContent={<DownloadIcon size={16} />}
+                variant="bordered"
+              >
+                SVG
+              </Button>
+              <Button
+                as="a"
+                color="primary"
+                href={qrUrl("png", DOWNLOAD_SIZE, true)}
+                startContent={<DownloadIcon size={16} />}
+              >
+                PNG
+              </Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
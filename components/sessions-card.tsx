@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button, Card, CardBody, CardHeader, Chip } from "@heroui/react";
+import { LogOut, MonitorSmartphone } from "lucide-react";
+import { addToast } from "@heroui/toast";
+import { signOut } from "next-auth/react";
+
+interface SignedInSession {
+  id: string;
+  device: string | null;
+  browser: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean;
+}
+
+const describe = (s: SignedInSession) =>
+  [s.browser, s.device].filter(Boolean).join(" on ") || "Unknown device";
+
+// Browsers signed in to this account, with per-session and all-session sign-out
+export function SessionsCard() {
+  const [sessions, setSessions] = useState<SignedInSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [signingOutAll, setSigningOutAll] = useState(false);
+
+  const loadSessions = async () => {
+    try {
+      const res = await fetch("/api/me/sessions", { cache: "no-store" });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to load sessions");
+      setSessions(json.sessions || []);
+    } catch (e) {
+      console.error("Error loading sessions:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const handleRevoke = async (session: SignedInSession) => {
+    // Signing out here also ends the session row (NextAuth signOut event)
+    if (session.current) {
+      await signOut();
+
+      return;
+    }
+    if (!confirm(`Sign out ${describe(session)}?`)) return;
+    try {
+      const res = await fetch(`/api/me/sessions/${session.id}`, {
+        method: "DELETE",
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to sign out session");
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+      addToast({ title: "Session signed out", color: "success" });
+    } catch (e) {
+      addToast({
+        title: e instanceof Error ? e.message : "Failed to sign out session",
+        color: "danger",
+      });
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (
+      !confirm(
+        "Sign out of every device, including this one? Access tokens keep working.",
+      )
+    ) {
+      return;
+    }
+    setSigningOutAll(true);
+    try {
+      const res = await fetch("/api/me/sessions", { method: "DELETE" });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to sign out");
+      await signOut();
+    } catch (e) {
+      addToast({
+        title: e instanceof Error ? e.message : "Failed to sign out",
+        color: "danger",
+      });
+      setSigningOutAll(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <MonitorSmartphone size={20} />
+          Where you&apos;re signed in
+        </h3>
+        <Button
+          color="danger"
+          isDisabled={loading}
+          isLoading={signingOutAll}
+          size="sm"
+          startContent={!signingOutAll && <LogOut size={14} />}
+          variant="bordered"
+          onPress={handleSignOutEverywhere}
+        >
+          Sign Out Everywhere
+        </Button>
+      </CardHeader>
+      <CardBody className="space-y-3">
+        <p className="text-sm text-gray-500">
+          Sign out any device you don&apos;t recognise. It loses access on its
+          next request.
+        </p>
+
+        {loading ? null : sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">No sessions recorded yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                className="flex items-start gap-3 p-3 rounded-lg bg-gray-50"
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-800 truncate">
+                      {describe(session)}
+                    </span>
+                    {session.current && (
+                      <Chip color="success" size="sm" variant="flat">
+                        This device
+                      </Chip>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Signed in {new Date(session.created_at).toLocaleString()}
+                    {session.ip ? ` · ${session.ip}` : ""}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Last seen {new Date(session.last_seen_at).toLocaleString()}
+                  </div>
+                </div>
+                <Button
+                  color="danger"
+                  size="sm"
+                  variant="light"
+                  onPress={() => handleRevoke(session)}
+                >
+                  Sign Out
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -1,15 +1,23 @@
 'use client';
 
 import { Card, CardBody } from '@heroui/react';
-import { TrendingUp, Users, CreditCard, DollarSign } from 'lucide-react';
+import { TrendingUp, TrendingDown, Users, CreditCard, DollarSign } from 'lucide-react';
 import { TbClick, TbUsers, TbUserDollar} from "react-icons/tb";
 
+import type { KpiDelta } from '@/lib/auth';
+import { formatKpiDelta } from '@/lib/utils';
+
+
+type StatKey = 'clicks' | 'referrals' | 'customers' | 'earnings';
 
 interface StatsBarProps {
   clicks: number;
   referrals: number;
   customers: number;
   earnings: number;
+  // Trend against the previous period, e.g. from /api/me/reports/totals?compare=true
+  deltas?: Partial<Record<StatKey, KpiDelta>>;
+  deltaLabel?: string;
 }
 
 const statItems = [
@@ -43,7 +51,14 @@ const statItems = [
   },
 ];
 
-export function StatsBar({ clicks, referrals, customers, earnings }: StatsBarProps) {
+export function StatsBar({
+  clicks,
+  referrals,
+  customers,
+  earnings,
+  deltas,
+  deltaLabel = 'vs previous 30 days',
+}: StatsBarProps) {
   const stats = { clicks, referrals, customers, earnings };
 
   return (
@@ -63,6 +78,25 @@ export function StatsBar({ clicks, referrals, customers, earnings }: StatsBarPro
                     : stats[item.key].toLocaleString()
                   }
                 </p>
+                {deltas?.[item.key] && (
+                  <p
+                    className={`flex items-center gap-1 text-xs font-medium ${
+                      deltas[item.key]!.changeType === 'increase'
+                        ? 'text-green-600'
+                        : deltas[item.key]!.changeType === 'decrease'
+                          ? 'text-red-600'
+                          : 'text-gray-500'
+                    }`}
+                  >
+                    {deltas[item.key]!.changeType === 'decrease' ? (
+                      <TrendingDown className="h-3 w-3" />
+                    ) : (
+                      <TrendingUp className="h-3 w-3" />
+                    )}
+                    {formatKpiDelta(deltas[item.key]!, item.key === 'earnings')}
+                    <span className="text-gray-400 font-normal">{deltaLabel}</span>
+                  </p>
+                )}
               </div>
             </div>
           </CardBody>
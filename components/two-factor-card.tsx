@@ -0,0 +1,353 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Chip,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Snippet,
+} from "@heroui/react";
+import { Download, ShieldCheck } from "lucide-react";
+import { addToast } from "@heroui/toast";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  recovery_codes_remaining: number;
+  required: boolean;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+// setup: scan and confirm; codes: show new recovery codes once;
+// regenerate/disable: ask for a current code first
+type Step = "setup" | "codes" | "regenerate" | "disable";
+
+// TOTP two-factor authentication: enrolment, recovery codes and turning it off
+export function TwoFactorCard() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [step, setStep] = useState<Step | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = async () => {
+    try {
+      const res = await fetch("/api/me/two-factor", { cache: "no-store" });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to load status");
+      setStatus(json);
+    } catch (e) {
+      console.error("Error loading two-factor status:", e);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const open = (next: Step) => {
+    setCode("");
+    setError(null);
+    setStep(next);
+  };
+
+  const close = () => {
+    setStep(null);
+    setSetup(null);
+    setRecoveryCodes([]);
+  };
+
+  // Sends `body` to a /api/me/two-factor endpoint; errors are shown in the modal
+  const call = async (path: string, method: string, body?: object) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/me/two-factor${path}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Request failed");
+
+      return json;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed");
+
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    open("setup");
+    const json = await call("/setup", "POST");
+
+    if (json) setSetup(json);
+  };
+
+  const handleEnable = async () => {
+    const json = await call("/enable", "POST", { code });
+
+    if (!json) return;
+    setRecoveryCodes(json.recovery_codes);
+    setStep("codes");
+    addToast({ title: "Two-factor authentication is on", color: "success" });
+    loadStatus();
+  };
+
+  const handleRegenerate = async () => {
+    const json = await call("/recovery-codes", "POST", { code });
+
+    if (!json) return;
+    setRecoveryCodes(json.recovery_codes);
+    setStep("codes");
+    loadStatus();
+  };
+
+  const handleDisable = async () => {
+    const json = await call("", "DELETE", { code });
+
+    if (!json) return;
+    close();
+    addToast({ title: "Two-factor authentication is off", color: "success" });
+    loadStatus();
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([`${recoveryCodes.join("\n")}\n`], {
+      type: "text/plain",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+
+    link.href = url;
+    link.download = "vx-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const titles: Record<Step, string> = {
+    setup: "Set up two-factor authentication",
+    codes: "Save your recovery codes",
+    regenerate: "New recovery codes",
+    disable: "Turn off two-factor authentication",
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ShieldCheck size={20} />
+          Two-factor Authentication
+        </h3>
+        {status && (
+          <Chip
+            color={status.enabled ? "success" : "default"}
+            size="sm"
+            variant="flat"
+          >
+            {status.enabled ? "On" : "Off"}
+          </Chip>
+        )}
+      </CardHeader>
+      <CardBody className="space-y-3">
+        <p className="text-sm text-gray-500">
+          After your password, sign-in asks for a 6-digit code from an
+          authenticator app such as Google Authenticator, 1Password or Authy.
+        </p>
+
+        {status?.required && !status.enabled && (
+          <p className="text-sm text-warning-600">
+            Your role requires two-factor authentication. Admin tools stay
+            locked until you turn it on.
+          </p>
+        )}
+
+        {status?.enabled ? (
+          <>
+            <p className="text-sm text-gray-600">
+              On since{" "}
+              {status.enabled_at
+                ? new Date(status.enabled_at).toLocaleDateString()
+                : "—"}{" "}
+              · {status.recovery_codes_remaining} recovery codes left
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="bordered"
+                onPress={() => open("regenerate")}
+              >
+                New Recovery Codes
+              </Button>
+              <Button
+                color="danger"
+                isDisabled={status.required}
+                size="sm"
+                variant="light"
+                onPress={() => open("disable")}
+              >
+                Turn Off
+              </Button>
+            </div>
+          </>
+        ) : (
+          status && (
+            <Button
+              className="self-start"
+              color="primary"
+              size="sm"
+              onPress={handleStartSetup}
+            >
+              Set Up
+            </Button>
+          )
+        )}
+      </CardBody>
+
+      <Modal isOpen={!!step} onOpenChange={(isOpen) => !isOpen && close()}>
+        <ModalContent>
+          {step && (
+            <>
+              <ModalHeader>{titles[step]}</ModalHeader>
+              <ModalBody>
+                {step === "setup" && (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      Scan the code with your authenticator app, then enter the
+                      6-digit code it shows.
+                    </p>
+                    {setup && (
+                      <>
+                        <img
+                          alt="Two-factor QR code"
+                          className="mx-auto"
+                          height={200}
+                          src={setup.qr_code}
+                          width={200}
+                        />
+                        <p className="text-xs text-gray-500">
+                          Can&apos;t scan it? Enter this key instead:
+                        </p>
+                        <Snippet
+                          hideSymbol
+                          className="w-full"
+                          classNames={{ pre: "truncate" }}
+                        >
+                          {setup.secret}
+                        </Snippet>
+                      </>
+                    )}
+                  </>
+                )}
+
+                {(step === "regenerate" || step === "disable") && (
+                  <p className="text-sm text-gray-600">
+                    {step === "regenerate"
+                      ? "Your current recovery codes stop working. "
+                      : "Sign-in will only ask for your password. "}
+                    Enter a code from your app or a recovery code to continue.
+                  </p>
+                )}
+
+                {step === "codes" ? (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      Each code signs you in once if you lose your device. This
+                      is the only time they are shown.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 p-3 rounded-lg bg-gray-50 font-mono text-sm">
+                      {recoveryCodes.map((c) => (
+                        <span key={c}>{c}</span>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <Snippet
+                        hideSymbol
+                        className="flex-1"
+                        codeString={recoveryCodes.join("\n")}
+                        size="sm"
+                      >
+                        Copy codes
+                      </Snippet>
+                      <Button
+                        size="sm"
+                        startContent={<Download size={14} />}
+                        variant="bordered"
+                        onPress={downloadCodes}
+                      >
+                        Download
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <Input
+                    autoComplete="one-time-code"
+                    label={step === "setup" ? "Code from your app" : "Code"}
+                    value={code}
+                    variant="bordered"
+                    onValueChange={setCode}
+                  />
+                )}
+
+                {error && (
+                  <div className="text-danger-500 text-xs">{error}</div>
+                )}
+              </ModalBody>
+              <ModalFooter>
+                {step === "codes" ? (
+                  <Button color="primary" onPress={close}>
+                    Done
+                  </Button>
+                ) : (
+                  <>
+                    <Button variant="bordered" onPress={close}>
+                      Cancel
+                    </Button>
+                    <Button
+                      color={step === "disable" ? "danger" : "primary"}
+                      isDisabled={!code.trim() || (step === "setup" && !setup)}
+                      isLoading={saving}
+                      onPress={
+                        step === "setup"
+                          ? handleEnable
+                          : step === "regenerate"
+                            ? handleRegenerate
+                            : handleDisable
+                      }
+                    >
+                      {step === "setup"
+                        ? "Turn On"
+                        : step === "regenerate"
+                          ? "Create Codes"
+                          : "Turn Off"}
+                    </Button>
+                  </>
+                )}
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </Card>
+  );
+}
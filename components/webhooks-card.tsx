@@ -0,0 +1,542 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  CardBody,
+  CardHeader,
+  Checkbox,
+  CheckboxGroup,
+  Chip,
+  Input,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  Snippet,
+  Spinner,
+  Switch,
+} from "@heroui/react";
+import { List, Plus, RefreshCw, Trash2, Webhook } from "lucide-react";
+import { addToast } from "@heroui/toast";
+
+import { WEBHOOK_EVENTS, WEBHOOK_SIGNATURE_HEADER } from "@/lib/webhook-events";
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  active: boolean;
+  created_at: string;
+}
+
+type DeliveryStatus = "pending" | "succeeded" | "failed";
+
+interface WebhookDelivery {
+  id: string;
+  event_id: string;
+  event_type: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  redelivery_of: string | null;
+  created_at: string;
+}
+
+const statusColors: Record<DeliveryStatus, "default" | "success" | "danger"> = {
+  pending: "default",
+  succeeded: "success",
+  failed: "danger",
+};
+
+const emptyForm = { url: "", description: "", events: ["referral.created"] };
+
+interface WebhooksCardProps {
+  apiBase: string; // /api/me/webhooks or /api/admin/webhooks
+  title?: string;
+  description?: string;
+}
+
+// Outbound webhook endpoints with their delivery log and redelivery
+export function WebhooksCard({
+  apiBase,
+  title = "Webhooks",
+  description = "We POST signed JSON to these URLs when your referrals, payouts or stats change.",
+}: WebhooksCardProps) {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<WebhookEndpoint | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+
+  const loadEndpoints = async () => {
+    try {
+      const res = await fetch(apiBase, { cache: "no-store" });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to load webhooks");
+      setEndpoints(json.endpoints || []);
+    } catch (e) {
+      console.error("Error loading webhooks:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEndpoints();
+  }, [apiBase]);
+
+  const openCreate = () => {
+    setForm(emptyForm);
+    setError(null);
+    setSecret(null);
+    setIsOpen(true);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(apiBase, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to add endpoint");
+      setEndpoints((prev) => [...prev, json.endpoint as WebhookEndpoint]);
+      setSecret(json.secret);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "Failed to add endpoint";
+
+      setError(msg);
+      addToast({ title: msg, color: "danger" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateEndpoint = async (
+    endpoint: WebhookEndpoint,
+    body: Record<string, unknown>,
+  ) => {
+    try {
+      const res = await fetch(`${apiBase}/${endpoint.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to update endpoint");
+      setEndpoints((prev) =>
+        prev.map((e) => (e.id === endpoint.id ? json.endpoint : e)),
+      );
+
+      return json as { endpoint: WebhookEndpoint; secret?: string };
+    } catch (e) {
+      addToast({
+        title: e instanceof Error ? e.message : "Failed to update endpoint",
+        color: "danger",
+      });
+
+      return null;
+    }
+  };
+
+  const handleRollSecret = async (endpoint: WebhookEndpoint) => {
+    if (
+      !confirm(
+        "Roll the signing secret? Signatures made with the old one stop verifying right away.",
+      )
+    ) {
+      return;
+    }
+    const result = await updateEndpoint(endpoint, { roll_secret: true });
+
+    if (result?.secret) {
+      setForm(emptyForm);
+      setError(null);
+      setSecret(result.secret);
+      setIsOpen(true);
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    if (
+      !confirm(
+        `Delete the endpoint ${endpoint.url}? Its delivery log is deleted too.`,
+      )
+    ) {
+      return;
+    }
+    try {
+      const res = await fetch(`${apiBase}/${endpoint.id}`, {
+        method: "DELETE",
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to delete endpoint");
+      setEndpoints((prev) => prev.filter((e) => e.id !== endpoint.id));
+      addToast({ title: "Endpoint deleted", color: "success" });
+    } catch (e) {
+      addToast({
+        title: e instanceof Error ? e.message : "Failed to delete endpoint",
+        color: "danger",
+      });
+    }
+  };
+
+  const loadDeliveries = async (endpoint: WebhookEndpoint) => {
+    try {
+      const res = await fetch(`${apiBase}/${endpoint.id}/deliveries`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to load deliveries");
+      setDeliveries(json.deliveries || []);
+    } catch (e) {
+      setDeliveries([]);
+      addToast({
+        title: e instanceof Error ? e.message : "Failed to load deliveries",
+        color: "danger",
+      });
+    }
+  };
+
+  const openDeliveries = (endpoint: WebhookEndpoint) => {
+    setViewing(endpoint);
+    setDeliveries(null);
+    loadDeliveries(endpoint);
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    if (!viewing) return;
+    setRedelivering(delivery.id);
+    try {
+      const res = await fetch(
+        `${apiBase}/${viewing.id}/deliveries/${delivery.id}/redeliver`,
+        { method: "POST" },
+      );
+      const json = await res.json();
+
+      if (!res.ok) throw new Error(json?.error || "Failed to redeliver");
+      const sent = json.delivery as WebhookDelivery;
+
+      addToast({
+        title:
+          sent.status === "succeeded"
+            ? "Delivered"
+            : `Redelivery failed${sent.last_error ? `: ${sent.last_error}` : ""}; it will be retried`,
+        color: sent.status === "succeeded" ? "success" : "warning",
+      });
+      setDeliveries((prev) => [sent, ...(prev || [])]);
+    } catch (e) {
+      addToast({
+        title: e instanceof Error ? e.message : "Failed to redeliver",
+        color: "danger",
+      });
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  const labelFor = (type: string) =>
+    WEBHOOK_EVENTS.find((e) => e.type === type)?.label || type;
+
+  return (
+    <Card>
+      <CardHeader className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Webhook size={20} />
+          {title}
+        </h3>
+        <Button
+          size="sm"
+          startContent={<Plus size={14} />}
+          variant="bordered"
+          onPress={openCreate}
+        >
+          Add Endpoint
+        </Button>
+      </CardHeader>
+      <CardBody className="space-y-3">
+        <p className="text-sm text-gray-500">
+          {description} Verify the <code>{WEBHOOK_SIGNATURE_HEADER}</code>{" "}
+          header with the endpoint&apos;s signing secret. Failed deliveries are
+          retried with backoff for about 4 hours.
+        </p>
+
+        {loading ? null : endpoints.length === 0 ? (
+          <p className="text-sm text-gray-500">No endpoints yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {endpoints.map((endpoint) => (
+              <div
+                key={endpoint.id}
+                className="flex items-start gap-3 p-3 rounded-lg bg-gray-50"
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="text-sm font-medium text-gray-800 truncate">
+                    {endpoint.url}
+                  </div>
+                  {endpoint.description && (
+                    <div className="text-xs text-gray-500">
+                      {endpoint.description}
+                    </div>
+                  )}
+                  <div className="flex flex-wrap gap-1">
+                    {endpoint.events.map((type) => (
+                      <Chip key={type} size="sm" variant="flat">
+                        {type}
+                      </Chip>
+                    ))}
+                  </div>
+                </div>
+                <Switch
+                  aria-label="Active"
+                  isSelected={endpoint.active}
+                  size="sm"
+                  onValueChange={(active) =>
+                    updateEndpoint(endpoint, { active })
+                  }
+                />
+                <Button
+                  isIconOnly
+                  aria-label="Deliveries"
+                  size="sm"
+                  variant="light"
+                  onPress={() => openDeliveries(endpoint)}
+                >
+                  <List size={14} />
+                </Button>
+                <Button
+                  isIconOnly
+                  aria-label="Roll signing secret"
+                  size="sm"
+                  variant="light"
+                  onPress={() => handleRollSecret(endpoint)}
+                >
+                  <RefreshCw size={14} />
+                </Button>
+                <Button
+                  isIconOnly
+                  aria-label="Delete endpoint"
+                  color="danger"
+                  size="sm"
+                  variant="light"
+                  onPress={() => handleDelete(endpoint)}
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardBody>
+
+      <Modal isOpen={isOpen} onOpenChange={setIsOpen}>
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader>
+                {secret ? "Copy your signing secret" : "New webhook endpoint"}
+              </ModalHeader>
+              <ModalBody>
+                {secret ? (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      This is the only time the secret is shown. Use it to
+                      verify the {WEBHOOK_SIGNATURE_HEADER} header.
+                    </p>
+                    <Snippet
+                      hideSymbol
+                      className="w-full"
+                      classNames={{ pre: "truncate" }}
+                    >
+                      {secret}
+                    </Snippet>
+                  </>
+                ) : (
+                  <>
+                    <Input
+                      isRequired
+                      label="URL"
+                      placeholder="https://example.com/hooks/vx"
+                      type="url"
+                      value={form.url}
+                      variant="bordered"
+                      onValueChange={(v) => setForm((p) => ({ ...p, url: v }))}
+                    />
+                    <Input
+                      label="Description"
+                      placeholder="CRM sync"
+                      value={form.description}
+                      variant="bordered"
+                      onValueChange={(v) =>
+                        setForm((p) => ({ ...p, description: v }))
+                      }
+                    />
+                    <CheckboxGroup
+                      label="Events"
+                      value={form.events}
+                      onValueChange={(v) =>
+                        setForm((p) => ({ ...p, events: v }))
+                      }
+                    >
+                      {WEBHOOK_EVENTS.map((e) => (
+                        <Checkbox key={e.type} value={e.type}>
+                          <div className="text-sm">{e.label}</div>
+                          <div className="text-xs text-gray-500">
+                            {e.description}
+                          </div>
+                        </Checkbox>
+                      ))}
+                    </CheckboxGroup>
+                    {error && (
+                      <div className="text-danger-500 text-xs">{error}</div>
+                    )}
+                  </>
+                )}
+              </ModalBody>
+              <ModalFooter>
+                {secret ? (
+                  <Button color="primary" onPress={onClose}>
+                    Done
+                  </Button>
+                ) : (
+                  <>
+                    <Button variant="bordered" onPress={onClose}>
+                      Cancel
+                    </Button>
+                    <Button
+                      color="primary"
+                      isDisabled={!form.url.trim() || form.events.length === 0}
+                      isLoading={saving}
+                      onPress={handleCreate}
+                    >
+                      Add
+                    </Button>
+                  </>
+                )}
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+
+      <Modal
+        isOpen={!!viewing}
+        scrollBehavior="inside"
+        size="2xl"
+        onOpenChange={(open) => !open && setViewing(null)}
+      >
+        <ModalContent>
+          {(onClose) => (
+            <>
+              <ModalHeader className="truncate">
+                Deliveries · {viewing?.url}
+              </ModalHeader>
+              <ModalBody>
+                {deliveries === null ? (
+                  <div className="flex justify-center py-6">
+                    <Spinner />
+                  </div>
+                ) : deliveries.length === 0 ? (
+                  <p className="text-sm text-gray-500">No deliveries yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {deliveries.map((delivery) => (
+                      <div
+                        key={delivery.id}
+                        className="flex items-start gap-3 p-2 rounded-lg bg-gray-50 text-xs"
+                      >
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-sm">
+                              {labelFor(delivery.event_type)}
+                            </span>
+                            <Chip
+                              color={statusColors[delivery.status]}
+                              size="sm"
+                              variant="flat"
+                            >
+                              {delivery.status}
+                            </Chip>
+                            {delivery.redelivery_of && (
+                              <Chip size="sm" variant="bordered">
+                                redelivery
+                              </Chip>
+                            )}
+                          </div>
+                          <div className="text-gray-500">
+                            {new Date(delivery.created_at).toLocaleString()} ·{" "}
+                            {delivery.attempts} attempt
+                            {delivery.attempts === 1 ? "" : "s"}
+                            {delivery.last_status_code
+                              ? ` · HTTP ${delivery.last_status_code}`
+                              : ""}
+                            {delivery.status === "pending" &&
+                            delivery.next_attempt_at
+                              ? ` · next try ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`
+                              : ""}
+                          </div>
+                          {delivery.last_error && (
+                            <div className="text-danger-500">
+                              {delivery.last_error}
+                            </div>
+                          )}
+                          <div className="font-mono text-gray-400">
+                            {delivery.event_id}
+                          </div>
+                        </div>
+                        {delivery.status !== "pending" && (
+                          <Button
+                            isDisabled={
+                              redelivering !== null &&
+                              redelivering !== delivery.id
+                            }
+                            isLoading={redelivering === delivery.id}
+                            size="sm"
+                            variant="bordered"
+                            onPress={() => handleRedeliver(delivery)}
+                          >
+                            Redeliver
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </ModalBody>
+              <ModalFooter>
+                <Button
+                  variant="bordered"
+                  onPress={() => viewing && loadDeliveries(viewing)}
+                >
+                  Refresh
+                </Button>
+                <Button color="primary" onPress={onClose}>
+                  Close
+                </Button>
+              </ModalFooter>
+            </>
+          )}
+        </ModalContent>
+      </Modal>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
-import { BarChart3, Home, Users, Settings, FolderOpen } from "lucide-react";
+import { BarChart3, Home, Users, Settings, FolderOpen, Wallet, ShieldCheck, History, Undo2, ClipboardCheck, Timer, Webhook, ScrollText } from "lucide-react";
+import type { Role } from "@/lib/roles";
 
 export type SiteConfig = typeof siteConfig;
 
@@ -11,6 +12,18 @@ export const siteConfig = {
     { name: "Referrals", href: "/referrals", icon: Users },
     { name: "Assets", href: "/assets", icon: FolderOpen },
     { name: "Reports", href: "/reports", icon: BarChart3 },
+    { name: "Payouts", href: "/payouts", icon: Wallet },
+  ],
+  // Profile menu links for staff; shown to users holding one of `roles` (admins see all)
+  adminNavItems: [
+    { name: "Admin", href: "/admin", icon: ShieldCheck, roles: ["manager", "finance"] as Role[] },
+    { name: "Users", href: "/admin/users", icon: Users, roles: ["manager", "finance"] as Role[] },
+    { name: "Applications", href: "/admin/applications", icon: ClipboardCheck, roles: ["manager"] as Role[] },
+    { name: "Referral Codes", href: "/admin/referral-codes", icon: History, roles: ["manager"] as Role[] },
+    { name: "Clawbacks", href: "/admin/clawbacks", icon: Undo2, roles: ["finance"] as Role[] },
+    { name: "Jobs", href: "/admin/jobs", icon: Timer, roles: ["admin"] as Role[] },
+    { name: "Webhooks", href: "/admin/webhooks", icon: Webhook, roles: ["admin"] as Role[] },
+    { name: "Audit Log", href: "/admin/audit", icon: ScrollText, roles: ["admin"] as Role[] },
   ],
   links: {
     github: "https://github.com/heroui-inc/heroui",
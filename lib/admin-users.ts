@@ -0,0 +1,289 @@
+import type { AuditChanges } from "@/lib/audit-events";
+
+import { hasRole, STAFF_ROLES } from "@/lib/roles";
+import { supabaseAdmin, supabaseAdminNextAuth } from "@/lib/supabase-admin";
+import { getUserRoles } from "@/lib/user-roles";
+
+// approved_users.status. Offboarded rows are kept as a record; only
+// active/suspended can be set through updateAdminUser.
+export type AffiliateStatus = "active" | "suspended" | "offboarded";
+
+export const AFFILIATE_STATUSES: AffiliateStatus[] = ["active", "suspended"];
+
+export interface AdminUserUpdate {
+  status?: AffiliateStatus;
+  notes?: string | null;
+  first_name?: string;
+  last_name?: string;
+  user_aryeo_id?: string;
+}
+
+// Thrown for requests the admin can fix (unknown user, acting on themselves or on staff)
+export class AdminUserError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function parseAdminUserUpdate(body: any): {
+  value?: AdminUserUpdate;
+  error?: string;
+} {
+  const value: AdminUserUpdate = {};
+
+  if (body?.status !== undefined) {
+    if (!AFFILIATE_STATUSES.includes(body.status)) {
+      return {
+        error: `status must be one of ${AFFILIATE_STATUSES.join(", ")}`,
+      };
+    }
+    value.status = body.status;
+  }
+  if (body?.notes !== undefined) {
+    const notes = body.notes === null ? "" : String(body.notes).trim();
+
+    if (notes.length > 2000)
+      return { error: "notes must be at most 2000 chars" };
+    value.notes = notes || null;
+  }
+  for (const field of ["first_name", "last_name"] as const) {
+    if (body?.[field] === undefined) continue;
+    const name = String(body[field] || "").trim();
+
+    if (!name || name.length > 80)
+      return { error: `${field} is required (max 80 chars)` };
+    value[field] = name;
+  }
+  if (body?.user_aryeo_id !== undefined) {
+    const aryeoId = String(body.user_aryeo_id || "").trim();
+
+    if (!UUID_RE.test(aryeoId))
+      return { error: "user_aryeo_id must be a UUID" };
+    value.user_aryeo_id = aryeoId;
+  }
+
+  if (Object.keys(value).length === 0) return { error: "Nothing to update" };
+
+  return { value };
+}
+
+async function getApproval(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("approved_users")
+    .select("user_id, user_email, status, notes")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new AdminUserError("User not found", 404);
+
+  return data;
+}
+
+// Every admin route that changes a user calls this: managers can only change
+// affiliates, so a manager can't take over a staff account (or hand its
+// referral code to someone else). Staff accounts need an admin.
+export async function assertCanManageUser(
+  userId: string,
+  actorRoles: readonly string[],
+): Promise<void> {
+  if (hasRole(actorRoles, "admin")) return;
+  if ((await getUserRoles(userId)).some((role) => STAFF_ROLES.includes(role))) {
+    throw new AdminUserError("Only an admin can change a staff account", 403);
+  }
+}
+
+// Status and notes live on approved_users, names on affiliate_profiles.
+// Suspension takes effect on the user's next request (see resolveUser).
+// Managers can only change affiliates (assertCanManageUser).
+// Returns the fields that actually changed, for the audit log.
+export async function updateAdminUser(
+  userId: string,
+  input: AdminUserUpdate,
+  adminEmail: string,
+  adminRoles: readonly string[],
+): Promise<AuditChanges> {
+  const approval = await getApproval(userId);
+
+  if (approval.status === "offboarded")
+    throw new AdminUserError("User has been offboarded", 409);
+  if (
+    input.status === "suspended" &&
+    approval.user_email?.toLowerCase() === adminEmail
+  ) {
+    throw new AdminUserError("You can't suspend your own account");
+  }
+  await assertCanManageUser(userId, adminRoles);
+
+  const changes: AuditChanges = {};
+  const approvalUpdate: Record<string, unknown> = {};
+
+  if (input.notes !== undefined) {
+    approvalUpdate.notes = input.notes;
+    if (input.notes !== (approval.notes ?? null))
+      changes.notes = { from: approval.notes ?? null, to: input.notes };
+  }
+  if (input.status && input.status !== approval.status) {
+    changes.status = { from: approval.status, to: input.status };
+    approvalUpdate.status = input.status;
+    approvalUpdate.suspended_at =
+      input.status === "suspended" ? new Date().toISOString() : null;
+    approvalUpdate.suspended_by =
+      input.status === "suspended" ? adminEmail : null;
+  }
+  if (Object.keys(approvalUpdate).length > 0) {
+    const { error } = await supabaseAdmin
+      .from("approved_users")
+      .update(approvalUpdate)
+      .eq("user_id", userId);
+
+    if (error) throw error;
+  }
+
+  const profileUpdate: Record<string, unknown> = {};
+
+  if (input.first_name !== undefined)
+    profileUpdate.first_name = input.first_name;
+  if (input.last_name !== undefined) profileUpdate.last_name = input.last_name;
+  if (input.user_aryeo_id !== undefined)
+    profileUpdate.user_aryeo_id = input.user_aryeo_id;
+  if (Object.keys(profileUpdate).length > 0) {
+    const { data: before, error: loadErr } = await supabaseAdmin
+      .from("affiliate_profiles")
+      .select("first_name, last_name, user_aryeo_id")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (loadErr) throw loadErr;
+    const { error } = await supabaseAdmin
+      .from("affiliate_profiles")
+      .update(profileUpdate)
+      .eq("user_id", userId);
+
+    if (error) throw error;
+    for (const [field, to] of Object.entries(profileUpdate)) {
+      const from = (before as Record<string, unknown> | null)?.[field] ?? null;
+
+      if (from !== to) changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+// Remove an affiliate's access and account data. Earnings history (referral
+// events, line items, payouts, daily metrics) is kept for the books, and the
+// approved_users row stays behind as status 'offboarded'.
+// The user is locked out first so a partial failure leaves them without
+// access, and every step is safe to re-run.
+export async function offboardUser(
+  userId: string,
+  adminEmail: string,
+): Promise<void> {
+  const approval = await getApproval(userId);
+
+  if (approval.user_email?.toLowerCase() === adminEmail) {
+    throw new AdminUserError("You can't offboard your own account");
+  }
+
+  const step = async (name: string, run: () => PromiseLike<{ error: any }>) => {
+    const { error } = await run();
+
+    if (error)
+      throw new Error(`Offboarding failed at ${name}: ${error.message}`);
+  };
+
+  await step("approved_users", () =>
+    supabaseAdmin
+      .from("approved_users")
+      .update({
+        status: "offboarded",
+        suspended_at: new Date().toISOString(),
+        suspended_by: adminEmail,
+      })
+      .eq("user_id", userId),
+  );
+  await step("api_keys", () =>
+    supabaseAdmin.from("api_keys").delete().eq("user_id", userId),
+  );
+  await step("user_roles", () =>
+    supabaseAdmin.from("user_roles").delete().eq("user_id", userId),
+  );
+  // The user's own endpoints go; platform endpoints they created keep their
+  // config but stop sending until another admin turns them back on
+  await step("webhook_endpoints", () =>
+    supabaseAdmin
+      .from("webhook_endpoints")
+      .delete()
+      .eq("user_id", userId)
+      .eq("all_affiliates", false),
+  );
+  await step("webhook_endpoints", () =>
+    supabaseAdmin
+      .from("webhook_endpoints")
+      .update({ active: false })
+      .eq("user_id", userId)
+      .eq("all_affiliates", true),
+  );
+
+  // Keep the user's codes as dead aliases so nobody else picks them up during
+  // the reuse cooldown; they no longer resolve to anyone.
+  const [{ data: primary }, { data: links }] = await Promise.all([
+    supabaseAdmin
+      .from("affiliate_referrers")
+      .select("code")
+      .eq("user_id", userId)
+      .maybeSingle(),
+    supabaseAdmin.from("referral_links").select("code").eq("user_id", userId),
+  ]);
+  const retired = [primary?.code, ...(links || []).map((l) => l.code)]
+    .filter(Boolean)
+    .map((code) => ({
+      code: code.toLowerCase(),
+      user_id: userId,
+      link_id: null,
+      retired_at: new Date().toISOString(),
+    }));
+
+  if (retired.length > 0) {
+    await step("referral_link_aliases", () =>
+      supabaseAdmin
+        .from("referral_link_aliases")
+        .upsert(retired, { onConflict: "code" }),
+    );
+  }
+  // Older link aliases would otherwise be deleted with their links
+  await step("referral_link_aliases", () =>
+    supabaseAdmin
+      .from("referral_link_aliases")
+      .update({ link_id: null })
+      .eq("user_id", userId),
+  );
+  await step("referral_links", () =>
+    supabaseAdmin.from("referral_links").delete().eq("user_id", userId),
+  );
+  await step("affiliate_referrers", () =>
+    supabaseAdmin.from("affiliate_referrers").delete().eq("user_id", userId),
+  );
+  await step("dashboard_kpis", () =>
+    supabaseAdmin.from("dashboard_kpis").delete().eq("user_id", userId),
+  );
+  await step("affiliate_profiles", () =>
+    supabaseAdmin.from("affiliate_profiles").delete().eq("user_id", userId),
+  );
+  await step("next_auth.users", () =>
+    supabaseAdminNextAuth.from("users").delete().eq("id", userId),
+  );
+
+  const { error: authErr } = await supabaseAdmin.auth.admin.deleteUser(userId);
+
+  if (authErr && authErr.status !== 404) {
+    throw new Error(`Offboarding failed at auth user: ${authErr.message}`);
+  }
+}
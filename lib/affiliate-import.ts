@@ -0,0 +1,349 @@
+import { supabaseAdmin, supabaseAdminNextAuth } from "@/lib/supabase-admin";
+import { provisionAffiliate } from "@/lib/provisioning";
+import {
+  isReferralCodeAvailable,
+  normalizeReferralCode,
+} from "@/lib/referrers";
+import { sendInvite } from "@/lib/invites";
+
+export const IMPORT_COLUMNS = [
+  "email",
+  "first_name",
+  "last_name",
+  "user_aryeo_id",
+  "notes",
+  "referral_code",
+] as const;
+
+// A dry run checks the whole file; rows are then provisioned in requests of at
+// most IMPORT_BATCH_SIZE, PROVISION_CONCURRENCY at a time.
+export const MAX_IMPORT_ROWS = 500;
+export const IMPORT_BATCH_SIZE = 20;
+const PROVISION_CONCURRENCY = 4;
+
+export interface ImportRow {
+  row: number; // line in the file, header = 1
+  email: string;
+  first_name: string;
+  last_name: string;
+  user_aryeo_id: string;
+  notes: string;
+  referral_code: string;
+}
+
+export type ImportRowStatus = "valid" | "invalid" | "created" | "failed";
+
+export interface ImportRowResult extends ImportRow {
+  status: ImportRowStatus;
+  errors: string[];
+  user_id?: string;
+  invite_sent?: boolean;
+  // Only when the invite couldn't be emailed, for the admin to pass on
+  invite_link?: string;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// RFC 4180: quoted fields may contain commas, newlines and "" escapes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Header names are matched loosely ("First Name" → first_name); unknown columns are ignored
+export function parseImportCsv(text: string): {
+  rows?: ImportRow[];
+  error?: string;
+} {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ""));
+
+  if (!header) return { error: "The file is empty" };
+
+  const columns = header.map((name) =>
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[\s-]+/g, "_"),
+  );
+
+  if (!columns.includes("email"))
+    return {
+      error: `Missing an email column (expected ${IMPORT_COLUMNS.join(", ")})`,
+    };
+
+  const rows: ImportRow[] = [];
+
+  lines.forEach((cells, index) => {
+    if (cells.every((cell) => !cell.trim())) return;
+    const value = (name: string) => (cells[columns.indexOf(name)] ?? "").trim();
+
+    rows.push({
+      row: index + 2,
+      email: value("email").toLowerCase(),
+      first_name: value("first_name"),
+      last_name: value("last_name"),
+      user_aryeo_id: value("user_aryeo_id"),
+      notes: value("notes"),
+      referral_code: value("referral_code"),
+    });
+  });
+
+  if (rows.length === 0) return { error: "The file has no rows" };
+  if (rows.length > MAX_IMPORT_ROWS)
+    return { error: `At most ${MAX_IMPORT_ROWS} rows per import` };
+
+  return { rows };
+}
+
+// Rows posted back for provisioning are re-checked, so coerce them to strings
+export function parseImportRows(body: any): {
+  rows?: ImportRow[];
+  error?: string;
+} {
+  if (!Array.isArray(body) || body.length === 0)
+    return { error: "rows must be a non-empty array" };
+  if (body.length > IMPORT_BATCH_SIZE)
+    return { error: `At most ${IMPORT_BATCH_SIZE} rows per batch` };
+  const str = (value: unknown) => String(value ?? "").trim();
+
+  return {
+    rows: body.map((r: any, i: number) => ({
+      row: Number.isInteger(r?.row) ? r.row : i + 2,
+      email: str(r?.email).toLowerCase(),
+      first_name: str(r?.first_name),
+      last_name: str(r?.last_name),
+      user_aryeo_id: str(r?.user_aryeo_id),
+      notes: str(r?.notes),
+      referral_code: str(r?.referral_code),
+    })),
+  };
+}
+
+// Emails that already belong to a user: any approved_users row but offboarded,
+// a next_auth user, or a Supabase Auth user (find_auth_user_id, the lookup
+// provisioning's own duplicate check uses)
+async function findExistingEmails(emails: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+
+  for (let i = 0; i < emails.length; i += 100) {
+    const chunk = emails.slice(i, i + 100);
+    const [approved, users] = await Promise.all([
+      supabaseAdmin
+        .from("approved_users")
+        .select("user_email")
+        .in("user_email", chunk)
+        .neq("status", "offboarded"),
+      supabaseAdminNextAuth.from("users").select("email").in("email", chunk),
+    ]);
+
+    if (approved.error) throw approved.error;
+    if (users.error) throw users.error;
+    approved.data?.forEach((r) =>
+      existing.add(String(r.user_email).toLowerCase()),
+    );
+    users.data?.forEach((r) => existing.add(String(r.email).toLowerCase()));
+  }
+
+  const unmatched = emails.filter((email) => !existing.has(email));
+
+  for (let i = 0; i < unmatched.length; i += 10) {
+    await Promise.all(
+      unmatched.slice(i, i + 10).map(async (email) => {
+        const { data, error } = await supabaseAdmin.rpc("find_auth_user_id", {
+          p_email: email,
+        });
+
+        if (error) throw error;
+        if (data) existing.add(email);
+      }),
+    );
+  }
+
+  return existing;
+}
+
+// Check every row without writing anything: malformed fields, emails and
+// codes repeated within the file, existing accounts and taken codes.
+export async function validateImportRows(
+  rows: ImportRow[],
+): Promise<ImportRowResult[]> {
+  const results: ImportRowResult[] = rows.map((row) => ({
+    ...row,
+    status: "valid",
+    errors: [],
+  }));
+
+  const flagDuplicates = (key: "email" | "referral_code") => {
+    const seen = new Map<string, number>();
+
+    for (const r of results) {
+      const value =
+        key === "email" ? r.email : normalizeReferralCode(r.referral_code);
+
+      if (!value) continue;
+      if (seen.has(value))
+        r.errors.push(
+          `Duplicate ${key === "email" ? "email" : "referral code"} (also on row ${seen.get(value)})`,
+        );
+      else seen.set(value, r.row);
+    }
+  };
+
+  for (const r of results) {
+    if (!EMAIL_RE.test(r.email) || r.email.length > 254)
+      r.errors.push("Invalid email");
+    if (!r.first_name || r.first_name.length > 80)
+      r.errors.push("first_name is required (max 80 chars)");
+    if (!r.last_name || r.last_name.length > 80)
+      r.errors.push("last_name is required (max 80 chars)");
+    if (r.user_aryeo_id && !UUID_RE.test(r.user_aryeo_id))
+      r.errors.push("user_aryeo_id must be a UUID");
+    if (r.notes.length > 2000)
+      r.errors.push("notes must be at most 2000 chars");
+    if (r.referral_code) {
+      const code = normalizeReferralCode(r.referral_code);
+
+      if (
+        code !== r.referral_code.toLowerCase() ||
+        code.length < 3 ||
+        code.length > 32
+      ) {
+        r.errors.push("referral_code must be 3-32 chars (a-z, 0-9, _ or -)");
+      }
+    }
+  }
+  flagDuplicates("email");
+  flagDuplicates("referral_code");
+
+  const existing = await findExistingEmails(
+    results.map((r) => r.email).filter((e) => EMAIL_RE.test(e)),
+  );
+
+  for (const r of results) {
+    if (existing.has(r.email))
+      r.errors.push("An account already exists for this email");
+  }
+
+  const codeChecks = results.filter(
+    (r) => r.referral_code && r.errors.length === 0,
+  );
+
+  for (let i = 0; i < codeChecks.length; i += 10) {
+    await Promise.all(
+      codeChecks.slice(i, i + 10).map(async (r) => {
+        if (
+          !(await isReferralCodeAvailable(
+            normalizeReferralCode(r.referral_code),
+            "",
+          ))
+        ) {
+          r.errors.push("Referral code is already taken");
+        }
+      }),
+    );
+  }
+
+  for (const r of results) if (r.errors.length > 0) r.status = "invalid";
+
+  return results;
+}
+
+async function provisionRow(
+  result: ImportRowResult,
+  adminEmail: string,
+): Promise<void> {
+  try {
+    const { user, referralCode } = await provisionAffiliate({
+      email: result.email,
+      approvedBy: adminEmail,
+      referralCode: normalizeReferralCode(result.referral_code) || undefined,
+      userData: {
+        first_name: result.first_name,
+        last_name: result.last_name,
+        user_aryeo_id: result.user_aryeo_id || undefined,
+        notes: result.notes || "Imported from CSV",
+      },
+    });
+
+    result.status = "created";
+    result.user_id = user.id;
+    result.referral_code = referralCode;
+  } catch (e: any) {
+    result.status = "failed";
+    result.errors.push(
+      e?.details?.details || e?.message || "Failed to create user",
+    );
+
+    return;
+  }
+
+  try {
+    const invite = await sendInvite(result.email, result.first_name);
+
+    result.invite_sent = invite.sent;
+    if (!invite.sent) result.invite_link = invite.link;
+  } catch (e: any) {
+    result.invite_sent = false;
+    result.errors.push(
+      `Created, but the invite failed: ${e?.message || "unknown error"}`,
+    );
+  }
+}
+
+// Re-validate a batch, then provision the rows that pass and invite them.
+// Each row succeeds or fails on its own; invalid rows are returned untouched.
+export async function importAffiliates(
+  rows: ImportRow[],
+  adminEmail: string,
+): Promise<ImportRowResult[]> {
+  const results = await validateImportRows(rows);
+  const valid = results.filter((r) => r.status === "valid");
+
+  for (let i = 0; i < valid.length; i += PROVISION_CONCURRENCY) {
+    await Promise.all(
+      valid
+        .slice(i, i + PROVISION_CONCURRENCY)
+        .map((r) => provisionRow(r, adminEmail)),
+    );
+  }
+
+  return results;
+}
@@ -0,0 +1,320 @@
+import { z } from "zod";
+
+import { API_V1_ERROR_CODES } from "@/lib/api-v1";
+import { Role } from "@/lib/roles";
+import { Scope } from "@/lib/scopes";
+
+// Shared by the /api/v1 route handlers (to validate input) and lib/openapi
+// (to describe it), so the published document can't drift from the code.
+// Schemas registered here become components/schemas/<id> in the document.
+export const apiV1Components = z.registry<{ id: string }>();
+
+function component<T extends z.ZodType>(id: string, schema: T): T {
+  apiV1Components.add(schema as z.ZodType, { id });
+
+  return schema;
+}
+
+// ---------------------------------------------------------------------------
+// Envelopes
+// ---------------------------------------------------------------------------
+
+export const ErrorSchema = component(
+  "Error",
+  z
+    .object({
+      error: z.object({
+        code: z
+          .enum(API_V1_ERROR_CODES)
+          .describe("Stable, machine-readable error code"),
+        message: z.string(),
+        details: z
+          .array(z.object({ path: z.string(), message: z.string() }))
+          .optional()
+          .describe("Per-field problems when code is validation_failed"),
+      }),
+    })
+    .describe("Returned with every 4xx/5xx response"),
+);
+
+export const PageMetaSchema = component(
+  "PageMeta",
+  z.object({
+    next_cursor: z
+      .string()
+      .nullable()
+      .describe("Pass as ?cursor= for the next page; null on the last page"),
+  }),
+);
+
+// ---------------------------------------------------------------------------
+// Query parameters (query strings are strings; limit is coerced)
+// ---------------------------------------------------------------------------
+
+const day = () =>
+  z.iso
+    .date()
+    .describe("YYYY-MM-DD in the reporting timezone (America/Edmonton)");
+
+export const DayRangeQuery = z.object({
+  from: day().optional(),
+  to: day().optional(),
+});
+
+export const PageQuery = z.object({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(50)
+    .describe("Page size (1-100)"),
+  cursor: z
+    .string()
+    .max(500)
+    .optional()
+    .describe("next_cursor from the previous page"),
+});
+
+export const DailyMetricsQuery = DayRangeQuery.extend(PageQuery.shape);
+
+export const AffiliatesQuery = PageQuery.extend({
+  status: z
+    .enum(["active", "suspended", "offboarded", "all"])
+    .optional()
+    .describe("Defaults to active and suspended affiliates"),
+});
+
+export const AffiliatePathParams = z.object({ user_id: z.uuid() });
+
+// ---------------------------------------------------------------------------
+// Resources
+// ---------------------------------------------------------------------------
+
+const money = () => z.number().describe("USD");
+
+export const MeSchema = component(
+  "Me",
+  z.object({
+    user_id: z.uuid(),
+    email: z.string(),
+    first_name: z.string().nullable(),
+    last_name: z.string().nullable(),
+    referral_code: z.string().nullable().describe("Primary referral code"),
+    roles: z.array(z.string()),
+  }),
+);
+
+export const StatsSchema = component(
+  "Stats",
+  z
+    .object({
+      from: z.iso.date().nullable(),
+      to: z.iso.date().nullable(),
+      clicks: z.number().int(),
+      referrals: z.number().int(),
+      customers: z.number().int(),
+      earnings: money(),
+    })
+    .describe("Totals over the range; a missing bound means all time"),
+);
+
+export const AffiliateStatsSchema = component(
+  "AffiliateStats",
+  StatsSchema.extend({ user_id: z.uuid() }),
+);
+
+export const DailyMetricsSchema = component(
+  "DailyMetrics",
+  z.object({
+    day: z.iso.date(),
+    clicks: z.number().int(),
+    signups: z.number().int(),
+    customers: z.number().int(),
+    earnings: money(),
+  }),
+);
+
+export const ReferralSchema = component(
+  "Referral",
+  z.object({
+    id: z.uuid(),
+    agent: z.string(),
+    email: z.string(),
+    date: z.iso.date(),
+    status: z.string(),
+    event_type: z.enum(["signup", "customer"]),
+    revenue: money().nullable(),
+    occurred_at: z.string().nullable(),
+  }),
+);
+
+export const ReferralLinkSchema = component(
+  "ReferralLink",
+  z.object({
+    id: z.uuid(),
+    name: z.string(),
+    code: z.string(),
+    destination_url: z
+      .string()
+      .nullable()
+      .describe("null = the default landing page"),
+    active: z.boolean(),
+    created_at: z.string(),
+  }),
+);
+
+export const ReferralLinkCreateSchema = component(
+  "ReferralLinkCreate",
+  z.object({
+    name: z.string().trim().min(1).max(80),
+    code: z
+      .string()
+      .max(64)
+      .optional()
+      .describe(
+        "3-32 chars of a-z, 0-9, _ or -; generated from name if omitted",
+      ),
+    destination_url: z
+      .url()
+      .nullable()
+      .optional()
+      .describe("Must be on one of our sites"),
+    active: z.boolean().optional(),
+  }),
+);
+
+export const AffiliateSchema = component(
+  "Affiliate",
+  z.object({
+    user_id: z.uuid(),
+    email: z.string(),
+    first_name: z.string().nullable(),
+    last_name: z.string().nullable(),
+    status: z.enum(["active", "suspended", "offboarded"]),
+    referral_code: z.string().nullable(),
+    created_at: z.string(),
+  }),
+);
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+export interface ApiV1Operation<
+  Q extends z.ZodType = z.ZodType,
+  B extends z.ZodType = z.ZodType,
+  P extends z.ZodType = z.ZodType,
+> {
+  method: "get" | "post";
+  path: string; // OpenAPI template, e.g. /api/v1/admin/affiliates/{user_id}/stats
+  operationId: string;
+  summary: string;
+  tag: "Me" | "Admin";
+  scope: Scope; // what a personal access token needs
+  roles?: Role[]; // admin operations: staff roles allowed (admin always passes)
+  params?: P;
+  query?: Q;
+  body?: B;
+  response: z.ZodType; // a component; `list` wraps it in an array with PageMeta
+  list?: boolean;
+  status?: number; // success status; 200 unless set
+}
+
+function operation<
+  Q extends z.ZodType,
+  B extends z.ZodType,
+  P extends z.ZodType,
+>(op: ApiV1Operation<Q, B, P>): ApiV1Operation<Q, B, P> {
+  return op;
+}
+
+export const API_V1 = {
+  getMe: operation({
+    method: "get",
+    path: "/api/v1/me",
+    operationId: "getMe",
+    summary: "The caller's profile, primary referral code and roles",
+    tag: "Me",
+    scope: "profile:read",
+    response: MeSchema,
+  }),
+  getMyStats: operation({
+    method: "get",
+    path: "/api/v1/me/stats",
+    operationId: "getMyStats",
+    summary: "KPI totals for a date range",
+    tag: "Me",
+    scope: "reports:read",
+    query: DayRangeQuery,
+    response: StatsSchema,
+  }),
+  listMyDailyMetrics: operation({
+    method: "get",
+    path: "/api/v1/me/daily-metrics",
+    operationId: "listMyDailyMetrics",
+    summary: "Per-day clicks, signups, customers and earnings, oldest first",
+    tag: "Me",
+    scope: "reports:read",
+    query: DailyMetricsQuery,
+    response: DailyMetricsSchema,
+    list: true,
+  }),
+  listMyReferrals: operation({
+    method: "get",
+    path: "/api/v1/me/referrals",
+    operationId: "listMyReferrals",
+    summary: "Referral events, newest first",
+    tag: "Me",
+    scope: "reports:read",
+    query: PageQuery,
+    response: ReferralSchema,
+    list: true,
+  }),
+  listMyReferralLinks: operation({
+    method: "get",
+    path: "/api/v1/me/referral-links",
+    operationId: "listMyReferralLinks",
+    summary: "Named referral links, oldest first",
+    tag: "Me",
+    scope: "links:read",
+    query: PageQuery,
+    response: ReferralLinkSchema,
+    list: true,
+  }),
+  createMyReferralLink: operation({
+    method: "post",
+    path: "/api/v1/me/referral-links",
+    operationId: "createMyReferralLink",
+    summary: "Create a named referral link",
+    tag: "Me",
+    scope: "links:write",
+    body: ReferralLinkCreateSchema,
+    response: ReferralLinkSchema,
+    status: 201,
+  }),
+  listAffiliates: operation({
+    method: "get",
+    path: "/api/v1/admin/affiliates",
+    operationId: "listAffiliates",
+    summary: "Affiliates, newest first",
+    tag: "Admin",
+    scope: "admin:*",
+    roles: ["manager", "finance"],
+    query: AffiliatesQuery,
+    response: AffiliateSchema,
+    list: true,
+  }),
+  getAffiliateStats: operation({
+    method: "get",
+    path: "/api/v1/admin/affiliates/{user_id}/stats",
+    operationId: "getAffiliateStats",
+    summary: "KPI totals for one affiliate over a date range",
+    tag: "Admin",
+    scope: "admin:*",
+    roles: ["manager", "finance"],
+    params: AffiliatePathParams,
+    query: DayRangeQuery,
+    response: AffiliateStatsSchema,
+  }),
+};
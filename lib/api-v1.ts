@@ -0,0 +1,139 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+// Every /api/v1 response is one of two envelopes:
+//   { data, meta? }                      success; meta.next_cursor on list endpoints
+//   { error: { code, message, details? } }  failure; `code` is stable, `message` is for humans
+export const API_V1_ERROR_CODES = [
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "validation_failed",
+  "conflict",
+  "rate_limited",
+  "internal",
+] as const;
+
+export type ApiV1ErrorCode = (typeof API_V1_ERROR_CODES)[number];
+
+export const API_V1_ERROR_STATUS: Record<ApiV1ErrorCode, number> = {
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  validation_failed: 400,
+  conflict: 409,
+  rate_limited: 429,
+  internal: 500,
+};
+
+export interface ApiV1Issue {
+  path: string; // dotted, e.g. "destination_url"
+  message: string;
+}
+
+// Thrown from v1 handlers; the route wrapper turns it into an error envelope
+export class ApiV1Error extends Error {
+  constructor(
+    public code: ApiV1ErrorCode,
+    message: string,
+    public details?: ApiV1Issue[],
+  ) {
+    super(message);
+  }
+
+  get status(): number {
+    return API_V1_ERROR_STATUS[this.code];
+  }
+}
+
+export function v1Data(
+  data: unknown,
+  init: { status?: number; nextCursor?: string | null } = {},
+): NextResponse {
+  const body =
+    init.nextCursor === undefined
+      ? { data }
+      : { data, meta: { next_cursor: init.nextCursor } };
+
+  return NextResponse.json(body, { status: init.status ?? 200 });
+}
+
+export function v1Error(
+  error: ApiV1Error,
+  headers?: Record<string, string>,
+): NextResponse {
+  const body = {
+    code: error.code,
+    message: error.message,
+    ...(error.details ? { details: error.details } : {}),
+  };
+
+  return NextResponse.json({ error: body }, { status: error.status, headers });
+}
+
+export function zodIssues(error: z.ZodError): ApiV1Issue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+}
+
+export function parseOrThrow<T extends z.ZodType>(
+  schema: T,
+  value: unknown,
+  what: string,
+): z.output<T> {
+  const result = schema.safeParse(value);
+
+  if (!result.success)
+    throw new ApiV1Error(
+      "validation_failed",
+      `Invalid ${what}`,
+      zodIssues(result.error),
+    );
+
+  return result.data;
+}
+
+// Cursors are opaque to clients: base64url JSON of the last row's sort key.
+// Decoded cursors are validated like any other input since they end up in filters.
+export function encodeCursor(position: Record<string, string>): string {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+export function decodeCursor<T extends z.ZodType>(
+  cursor: string,
+  schema: T,
+): z.output<T> {
+  let position: unknown;
+
+  try {
+    position = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new ApiV1Error("validation_failed", "cursor is invalid");
+  }
+  const result = schema.safeParse(position);
+
+  if (!result.success)
+    throw new ApiV1Error("validation_failed", "cursor is invalid");
+
+  return result.data;
+}
+
+/**
+ * Split a page fetched with `limit + 1` rows into the rows to return and the
+ * cursor for the next page (null on the last page).
+ */
+export function toPage<T>(
+  rows: T[],
+  limit: number,
+  positionOf: (row: T) => Record<string, string>,
+): { rows: T[]; nextCursor: string | null } {
+  if (rows.length <= limit) return { rows, nextCursor: null };
+  const page = rows.slice(0, limit);
+
+  return {
+    rows: page,
+    nextCursor: encodeCursor(positionOf(page[page.length - 1])),
+  };
+}
@@ -0,0 +1,241 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { provisionAffiliate } from "@/lib/provisioning";
+import { sendInvite, type InviteResult } from "@/lib/invites";
+
+export type ApplicationStatus = "pending" | "approved" | "rejected";
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+];
+
+export interface ApplicationInput {
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone: string | null;
+  brokerage: string;
+  market: string;
+  promotion_plan: string;
+}
+
+export interface AffiliateApplication extends ApplicationInput {
+  id: string;
+  status: ApplicationStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  rejection_reason: string | null;
+  user_id: string | null;
+  created_at: string;
+}
+
+// Thrown for requests the caller can fix (duplicate, already reviewed)
+export class ApplicationError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const TEXT_LIMITS: Record<
+  Exclude<keyof ApplicationInput, "email" | "phone">,
+  number
+> = {
+  first_name: 80,
+  last_name: 80,
+  brokerage: 120,
+  market: 120,
+  promotion_plan: 2000,
+};
+
+export function parseApplicationInput(body: any): {
+  value?: ApplicationInput;
+  error?: string;
+} {
+  const email = String(body?.email || "")
+    .trim()
+    .toLowerCase();
+
+  if (!EMAIL_RE.test(email) || email.length > 254)
+    return { error: "A valid email is required" };
+
+  const text = {} as Record<keyof typeof TEXT_LIMITS, string>;
+
+  for (const [field, max] of Object.entries(TEXT_LIMITS) as [
+    keyof typeof TEXT_LIMITS,
+    number,
+  ][]) {
+    const value = String(body?.[field] || "").trim();
+
+    if (!value || value.length > max)
+      return { error: `${field} is required (max ${max} chars)` };
+    text[field] = value;
+  }
+
+  const phone = String(body?.phone || "").trim();
+
+  if (phone && !/^[+()\d\s.-]{7,25}$/.test(phone))
+    return { error: "phone is not a valid phone number" };
+
+  return { value: { email, phone: phone || null, ...text } };
+}
+
+export async function submitApplication(
+  input: ApplicationInput,
+): Promise<void> {
+  const { data: existing, error: existingErr } = await supabaseAdmin
+    .from("approved_users")
+    .select("status")
+    .eq("user_email", input.email)
+    .neq("status", "offboarded")
+    .limit(1);
+
+  if (existingErr) throw existingErr;
+  if (existing && existing.length > 0) {
+    throw new ApplicationError(
+      "An affiliate account already exists for this email. Please sign in instead.",
+      409,
+    );
+  }
+
+  const { error } = await supabaseAdmin
+    .from("affiliate_applications")
+    .insert(input);
+
+  if (error?.code === "23505") {
+    throw new ApplicationError(
+      "An application for this email is already being reviewed",
+      409,
+    );
+  }
+  if (error) throw error;
+}
+
+export async function listApplications(
+  status: ApplicationStatus | "all",
+): Promise<AffiliateApplication[]> {
+  let query = supabaseAdmin
+    .from("affiliate_applications")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(500);
+
+  if (status !== "all") query = query.eq("status", status);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []) as AffiliateApplication[];
+}
+
+// Move a pending application to `status`. The status filter makes this the
+// lock: of two admins reviewing at once, only one gets the row back.
+async function claimPending(
+  id: string,
+  update: Record<string, unknown>,
+): Promise<AffiliateApplication> {
+  const { data, error } = await supabaseAdmin
+    .from("affiliate_applications")
+    .update({ ...update, reviewed_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return data as AffiliateApplication;
+
+  const { data: current } = await supabaseAdmin
+    .from("affiliate_applications")
+    .select("status")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!current) throw new ApplicationError("Application not found", 404);
+  throw new ApplicationError(
+    `Application has already been ${current.status}`,
+    409,
+  );
+}
+
+// Create the affiliate account and email them a set-password link. If
+// provisioning fails the application goes back to pending; a failed invite
+// leaves the account in place, and the affiliate can still use "Forgot
+// password" on the sign-in page.
+export async function approveApplication(
+  id: string,
+  adminEmail: string,
+): Promise<{
+  application: AffiliateApplication;
+  invite: InviteResult | null;
+  invite_error?: string;
+}> {
+  const application = await claimPending(id, {
+    status: "approved",
+    reviewed_by: adminEmail,
+  });
+
+  let userId: string;
+
+  try {
+    const { user } = await provisionAffiliate({
+      email: application.email,
+      approvedBy: adminEmail,
+      idempotencyKey: `application:${application.id}`,
+      userData: {
+        first_name: application.first_name,
+        last_name: application.last_name,
+        notes: `Application: ${application.brokerage}, ${application.market}`,
+      },
+    });
+
+    userId = user.id;
+  } catch (e) {
+    await supabaseAdmin
+      .from("affiliate_applications")
+      .update({ status: "pending", reviewed_by: null, reviewed_at: null })
+      .eq("id", id);
+    throw e;
+  }
+
+  const { data: approved, error } = await supabaseAdmin
+    .from("affiliate_applications")
+    .update({ user_id: userId })
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+
+  try {
+    const invite = await sendInvite(application.email, application.first_name);
+
+    return { application: approved as AffiliateApplication, invite };
+  } catch (e: any) {
+    console.error("Failed to send application invite:", e);
+
+    return {
+      application: approved as AffiliateApplication,
+      invite: null,
+      invite_error: e?.message || "Failed to send invite",
+    };
+  }
+}
+
+export async function rejectApplication(
+  id: string,
+  adminEmail: string,
+  reason: string | null,
+): Promise<AffiliateApplication> {
+  return claimPending(id, {
+    status: "rejected",
+    reviewed_by: adminEmail,
+    rejection_reason: reason,
+  });
+}
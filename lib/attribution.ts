@@ -0,0 +1,115 @@
+import crypto from "crypto";
+
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { AttributionSettings } from "@/lib/settings";
+import { findReferrerByCode } from "@/lib/referrers";
+
+// First-party cookie set by /r/[code]; its value is an opaque visitor id that
+// the landing page / booking system hands back on conversion
+export const VISITOR_COOKIE = "vx_vid";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isValidVisitorId(
+  value: string | null | undefined,
+): value is string {
+  return !!value && UUID_RE.test(value);
+}
+
+function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.get("cookie") || "";
+
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+
+  return null;
+}
+
+// Reuse the visitor's id so repeat clicks stay linked; mint one on first visit
+export function getOrCreateVisitorId(req: Request): string {
+  const existing = readCookie(req, VISITOR_COOKIE);
+
+  return isValidVisitorId(existing) ? existing : crypto.randomUUID();
+}
+
+// Lives as long as the attribution window. ATTRIBUTION_COOKIE_DOMAIN (e.g.
+// ".virtualxposure.com") shares it with the landing and booking sites; it is
+// readable by script there because it only holds a random id.
+export function visitorCookieOptions(settings: AttributionSettings) {
+  return {
+    maxAge: settings.window_days * 24 * 60 * 60,
+    path: "/",
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    httpOnly: false,
+    ...(process.env.ATTRIBUTION_COOKIE_DOMAIN
+      ? { domain: process.env.ATTRIBUTION_COOKIE_DOMAIN }
+      : {}),
+  };
+}
+
+export type AttributionMethod = "first_touch" | "last_touch" | "code";
+
+export interface Attribution {
+  referrer: { user_id: string; code: string };
+  method: AttributionMethod;
+  click_id: string | null;
+  clicked_at: string | null;
+  window_days: number | null;
+}
+
+// Credit a conversion: the first or last click by this visitor inside the
+// window, else the referral code sent with the conversion.
+export async function resolveAttribution(
+  input: {
+    visitor_id?: string | null;
+    referral_code?: string | null;
+    occurred_at: string;
+  },
+  settings: AttributionSettings,
+): Promise<Attribution | null> {
+  if (isValidVisitorId(input.visitor_id)) {
+    const occurredAt = new Date(input.occurred_at);
+    const windowStart = new Date(
+      occurredAt.getTime() - settings.window_days * 86400000,
+    );
+
+    const { data: click, error } = await supabaseAdmin
+      .from("referral_clicks")
+      .select("id, referrer_id, code, clicked_at")
+      .eq("visitor_id", input.visitor_id)
+      .gte("clicked_at", windowStart.toISOString())
+      .lte("clicked_at", occurredAt.toISOString())
+      .order("clicked_at", { ascending: settings.mode === "first_touch" })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (click) {
+      return {
+        referrer: { user_id: click.referrer_id, code: click.code },
+        method: settings.mode,
+        click_id: click.id,
+        clicked_at: click.clicked_at,
+        window_days: settings.window_days,
+      };
+    }
+  }
+
+  const referrer = await findReferrerByCode(input.referral_code);
+
+  if (!referrer) return null;
+
+  return {
+    referrer,
+    method: "code",
+    click_id: null,
+    clicked_at: null,
+    window_days: null,
+  };
+}
@@ -0,0 +1,82 @@
+// Actions recorded in audit_events (lib/audit.ts writes them)
+export type AuditAction =
+  | "password.changed"
+  | "token.created"
+  | "token.deleted"
+  | "referral_code.changed"
+  | "avatar.changed"
+  | "referral_link.changed"
+  | "two_factor.enabled"
+  | "two_factor.disabled"
+  | "two_factor.reset"
+  | "session.revoked"
+  | "session.revoked_all"
+  | "user.created"
+  | "user.updated"
+  | "user.suspended"
+  | "user.reactivated"
+  | "user.offboarded"
+  | "roles.changed";
+
+export const AUDIT_ACTIONS: { action: AuditAction; label: string }[] = [
+  { action: "password.changed", label: "Password changed" },
+  { action: "token.created", label: "Access token created" },
+  { action: "token.deleted", label: "Access token deleted" },
+  { action: "referral_code.changed", label: "Referral code changed" },
+  { action: "avatar.changed", label: "Profile photo changed" },
+  { action: "referral_link.changed", label: "Link code changed" },
+  { action: "two_factor.enabled", label: "Two-factor turned on" },
+  { action: "two_factor.disabled", label: "Two-factor turned off" },
+  { action: "two_factor.reset", label: "Two-factor reset" },
+  { action: "session.revoked", label: "Session signed out" },
+  { action: "session.revoked_all", label: "Signed out everywhere" },
+  { action: "user.created", label: "User created" },
+  { action: "user.updated", label: "User updated" },
+  { action: "user.suspended", label: "User suspended" },
+  { action: "user.reactivated", label: "User reactivated" },
+  { action: "user.offboarded", label: "User offboarded" },
+  { action: "roles.changed", label: "Roles changed" },
+];
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return AUDIT_ACTIONS.some((a) => a.action === value);
+}
+
+export function auditActionLabel(action: string): string {
+  return AUDIT_ACTIONS.find((a) => a.action === action)?.label ?? action;
+}
+
+// Field-level diff: only the fields that changed, never secrets
+export type AuditChanges = Record<string, { from?: unknown; to?: unknown }>;
+
+export interface AuditEvent {
+  id: string;
+  action: AuditAction;
+  actor_id: string | null;
+  actor_email: string | null;
+  target_user_id: string | null;
+  target_email: string | null;
+  ip: string | null;
+  changes: AuditChanges | null;
+  created_at: string;
+}
+
+const formatValue = (value: unknown): string =>
+  value === null || value === undefined
+    ? "—"
+    : Array.isArray(value)
+      ? value.join(", ")
+      : String(value);
+
+// One "field: from → to" line per changed field, for the Settings history and /admin/audit
+export function describeAuditChanges(changes: AuditChanges | null): string[] {
+  return Object.entries(changes || {}).map(([field, change]) => {
+    const name = field.replace(/_/g, " ");
+
+    if (!("from" in change)) return `${name}: ${formatValue(change.to)}`;
+    if (!("to" in change))
+      return `${name}: ${formatValue(change.from)} (removed)`;
+
+    return `${name}: ${formatValue(change.from)} → ${formatValue(change.to)}`;
+  });
+}
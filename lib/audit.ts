@@ -0,0 +1,198 @@
+import {
+  AuditAction,
+  AuditChanges,
+  AuditEvent,
+  auditActionLabel,
+  isAuditAction,
+} from "@/lib/audit-events";
+import { isValidDay } from "@/lib/metrics";
+import { getClientIp } from "@/lib/request";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Rows shown on screen; the CSV export goes up to MAX_EXPORT_ROWS
+const DEFAULT_LIMIT = 200;
+
+export const MAX_EXPORT_ROWS = 10000;
+const PAGE_SIZE = 1000;
+
+export interface AuditParty {
+  id: string;
+  email?: string | null;
+}
+
+export interface AuditFilter {
+  q?: string; // email or IP fragment, or a user id
+  action?: AuditAction;
+  from?: string; // YYYY-MM-DD, inclusive (UTC)
+  to?: string;
+}
+
+// Email for a user id, so events made with a PAT (which carries none) stay searchable
+async function emailOf(userId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from("approved_users")
+    .select("user_email")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) console.error("Audit email lookup failed:", error);
+
+  return (data?.user_email as string | undefined)?.toLowerCase() ?? null;
+}
+
+// Append one event to audit_events. The action has already happened, so a
+// failure is logged rather than failing the request. `target` defaults to the actor.
+export async function recordAuditEvent(
+  req: Request,
+  input: {
+    action: AuditAction;
+    actor: AuditParty;
+    target?: AuditParty;
+    changes?: AuditChanges | null;
+  },
+): Promise<void> {
+  try {
+    const target = input.target ?? input.actor;
+    const actorEmail =
+      input.actor.email?.toLowerCase() || (await emailOf(input.actor.id));
+    const targetEmail =
+      target.id === input.actor.id
+        ? actorEmail
+        : target.email?.toLowerCase() || (await emailOf(target.id));
+
+    const { error } = await supabaseAdmin.from("audit_events").insert({
+      action: input.action,
+      actor_id: input.actor.id,
+      actor_email: actorEmail,
+      target_user_id: target.id,
+      target_email: targetEmail,
+      ip: getClientIp(req),
+      changes: input.changes ?? null,
+    });
+
+    if (error) throw error;
+  } catch (e) {
+    console.error(`Failed to record audit event ${input.action}:`, e);
+  }
+}
+
+export function parseAuditFilter(params: URLSearchParams): {
+  value?: AuditFilter;
+  error?: string;
+} {
+  const value: AuditFilter = {};
+  const q = params.get("q")?.trim();
+
+  if (q) {
+    if (q.length > 200) return { error: "q must be at most 200 chars" };
+    value.q = q;
+  }
+  const action = params.get("action");
+
+  if (action) {
+    if (!isAuditAction(action)) return { error: "Unknown action" };
+    value.action = action;
+  }
+  for (const key of ["from", "to"] as const) {
+    const day = params.get(key);
+
+    if (!day) continue;
+    if (!isValidDay(day)) return { error: `${key} must be YYYY-MM-DD` };
+    value[key] = day;
+  }
+  if (value.from && value.to && value.from > value.to)
+    return { error: "from must not be after to" };
+
+  return { value };
+}
+
+// Events matching the filter, newest first. With `userId`, only events the
+// user made or that were made to their account (the Settings history).
+export async function listAuditEvents(
+  filter: AuditFilter & { userId?: string },
+  limit = DEFAULT_LIMIT,
+): Promise<AuditEvent[]> {
+  const events: AuditEvent[] = [];
+  const max = Math.min(limit, MAX_EXPORT_ROWS);
+
+  // Fetched in pages since PostgREST caps a response at 1000 rows
+  while (events.length < max) {
+    const page = Math.min(PAGE_SIZE, max - events.length);
+    const { data, error } = await auditQuery(filter).range(
+      events.length,
+      events.length + page - 1,
+    );
+
+    if (error) throw error;
+    events.push(...((data || []) as AuditEvent[]));
+    if ((data || []).length < page) break;
+  }
+
+  return events;
+}
+
+function auditQuery(filter: AuditFilter & { userId?: string }) {
+  let query = supabaseAdmin
+    .from("audit_events")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false });
+
+  if (filter.userId)
+    query = query.or(
+      `actor_id.eq.${filter.userId},target_user_id.eq.${filter.userId}`,
+    );
+  if (filter.action) query = query.eq("action", filter.action);
+  if (filter.from) query = query.gte("created_at", `${filter.from}T00:00:00Z`);
+  if (filter.to) query = query.lte("created_at", `${filter.to}T23:59:59.999Z`);
+  if (filter.q) {
+    if (UUID_RE.test(filter.q)) {
+      query = query.or(`actor_id.eq.${filter.q},target_user_id.eq.${filter.q}`);
+    } else {
+      // Characters with meaning in a PostgREST or() filter are dropped
+      const term = filter.q.replace(/[,()*%\\"]/g, "");
+
+      if (term)
+        query = query.or(
+          `actor_email.ilike.*${term}*,target_email.ilike.*${term}*,ip.ilike.*${term}*`,
+        );
+    }
+  }
+
+  return query;
+}
+
+// Quote every cell, and stop spreadsheet apps from reading a value as a formula
+const csvCell = (value: unknown): string => {
+  const text = String(value ?? "");
+
+  return `"${(/^[=+\-@]/.test(text) ? `'${text}` : text).replace(/"/g, '""')}"`;
+};
+
+export function buildAuditCsv(events: AuditEvent[]): string {
+  const header = [
+    "Time",
+    "Action",
+    "Actor",
+    "Actor ID",
+    "Target",
+    "Target ID",
+    "IP",
+    "Changes",
+  ];
+  const rows = events.map((e) => [
+    e.created_at,
+    auditActionLabel(e.action),
+    e.actor_email || "",
+    e.actor_id || "",
+    e.target_email || "",
+    e.target_user_id || "",
+    e.ip || "",
+    e.changes ? JSON.stringify(e.changes) : "",
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+}
@@ -1,6 +1,7 @@
 import { supabase, optimizedQuery, withAbort, connectionManager } from './supabase';
 import { User } from '@supabase/supabase-js';
 import { getSession } from 'next-auth/react';
+import { REPORTS_TZ } from './utils';
 // import { signIn, signOut } from "next-auth/react";
 
 // Debug flag for verbose logging
@@ -13,9 +14,6 @@ const debugLog = (message: string, ...args: any[]) => {
   }
 };
 
-// Keep timezone in one place
-const TIMEZONE = 'America/Edmonton';
-
 // Email normalization helper
 const normalizedEmail = (email: string | null | undefined): string => {
   return (email ?? '').toLowerCase();
@@ -42,13 +40,16 @@ const getBaseUrl = (): string => {
 
 // removed: signUpWithEmail (admin flow handled via API)
 
-export const createUserWithPassword = async (email: string, password: string, userData: any) => {
+// Pass the same idempotencyKey when retrying a submission so a request that
+// already went through returns its result instead of a duplicate error
+export const createUserWithPassword = async (email: string, password: string, userData: any, idempotencyKey?: string) => {
   try {
     // Use server-side API endpoint for secure user creation
     const response = await fetch('/api/admin/create-user', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
       },
       body: JSON.stringify({
         email,
@@ -285,15 +286,6 @@ export const approveUser = async (userEmail: string, approvedByUserId: string):
   }
 };
 
-// Admin check function
-export const isUserAdmin = (user: User | null): boolean => {
-  if (!user || !user.email) {
-    return false;
-  }
-  
-  return normalizedEmail(user.email).endsWith('@virtualxposure.com');
-};
-
 // User profile management
 export interface UserProfile {
   id: string;
@@ -608,6 +600,15 @@ export interface DailyData {
   clicksCount: number;
 }
 
+// Change of one KPI against the previous equivalent period
+export interface KpiDelta {
+  current: number;
+  previous: number;
+  change: number; // absolute
+  changePercent: number | null; // null when the previous period was zero
+  changeType: "increase" | "decrease" | "neutral";
+}
+
 export interface UserReports {
   overview: {
     earnings: number;
@@ -616,6 +617,13 @@ export interface UserReports {
     customers: number;
   };
   dailyData: DailyData[];
+  previous?: {
+    from: string;
+    to: string;
+    overview: UserReports["overview"];
+    dailyData: DailyData[];
+  };
+  deltas?: Record<keyof UserReports["overview"], KpiDelta>;
   charts?: {
     lineChart: Array<{
       id: string;
@@ -662,13 +670,16 @@ export const getUserReports = async (
 
     debugLog('🔄 Fetching user reports for:', userId);
     
-    // Get the user_reports from dashboard_kpis with optimized query helper and caching
+    // Only pull the days inside the timeframe from daily_affiliate_metrics
+    const { from, to } = getTimeframeDateRange(timeframe);
     const queryResult = await optimizedQuery(async () => {
-      const { data, error } = await supabase
-        .from('dashboard_kpis')
-        .select('user_reports')
+      let query = supabase
+        .from('daily_affiliate_metrics')
+        .select('day, clicks, signups, customers, earnings')
         .eq('user_id', userId)
-        .single();
+        .lte('day', to);
+      if (from) query = query.gte('day', from);
+      const { data, error } = await query;
       
       // Throw on any Supabase error to trigger retry/timeout logic
       if (error) throw error;
@@ -679,22 +690,101 @@ export const getUserReports = async (
       cacheTTL: 300000 // 5 minutes cache for user reports
     });
     
-    if (queryResult && queryResult.user_reports) {
-      debugLog('✅ User reports loaded:', queryResult.user_reports);
-      
-      // Transform the new structure to the expected format
-      const transformedReports = transformUserReports(queryResult.user_reports, timeframe);
-      return transformedReports;
-    } else {
-      debugLog('⚠️ No user reports found in database');
-      throw new Error('No user reports found in database');
-    }
+    debugLog('✅ Daily metrics loaded:', queryResult);
+    
+    // Rebuild the overview map that transformUserReports expects
+    const overview: Record<string, any> = {};
+    (queryResult || []).forEach((row: any) => {
+      overview[row.day] = {
+        clicks: Number(row.clicks) || 0,
+        signups: Number(row.signups) || 0,
+        customers: Number(row.customers) || 0,
+        earnings: Number(row.earnings) || 0,
+      };
+    });
+    
+    return transformUserReports({ overview }, timeframe);
   } catch (error) {
     console.error('Error fetching user reports:', error);
     throw error; // Don't return fallback data, throw the error
   }
 };
 
+// Resolve a timeframe label to its start/end bounds (MDT-shifted local dates)
+const resolveTimeframeBounds = (selectedTimeframe: string): { start: Date; end: Date } => {
+  const today = new Date();
+  // Convert to MDT timezone
+  let mdtToday = new Date(today.toLocaleString("en-US", {timeZone: REPORTS_TZ}));
+  mdtToday.setHours(23, 59, 59, 999);
+  
+  let startDate = new Date();
+  // Convert to MDT timezone
+  let mdtStartDate = new Date(startDate.toLocaleString("en-US", {timeZone: REPORTS_TZ}));
+  mdtStartDate.setHours(0, 0, 0, 0);
+  
+  // Calculate the date range based on selected timeframe
+  switch (selectedTimeframe) {
+    case "Today":
+      mdtStartDate.setTime(mdtToday.getTime());
+      mdtStartDate.setHours(0, 0, 0, 0);
+      break;
+    case "Yesterday":
+      mdtStartDate.setTime(mdtToday.getTime());
+      mdtStartDate.setDate(mdtToday.getDate() - 1);
+      mdtStartDate.setHours(0, 0, 0, 0);
+      const endDate = new Date(mdtStartDate);
+      endDate.setHours(23, 59, 59, 999);
+      mdtToday.setTime(endDate.getTime());
+      break;
+    case "Last 30 Days":
+      mdtStartDate.setDate(mdtToday.getDate() - 30);
+      mdtStartDate.setHours(0, 0, 0, 0);
+      break;
+    case "This Month":
+      mdtStartDate = new Date(mdtToday.getFullYear(), mdtToday.getMonth(), 1);
+      mdtStartDate.setHours(0, 0, 0, 0);
+      break;
+    case "Last Month":
+      mdtStartDate = new Date(mdtToday.getFullYear(), mdtToday.getMonth() - 1, 1);
+      mdtStartDate.setHours(0, 0, 0, 0);
+      const lastMonthEnd = new Date(mdtToday.getFullYear(), mdtToday.getMonth(), 0);
+      lastMonthEnd.setHours(23, 59, 59, 999);
+      mdtToday.setTime(lastMonthEnd.getTime());
+      break;
+    case "Last 6 Months":
+      mdtStartDate.setMonth(mdtToday.getMonth() - 6);
+      mdtStartDate.setHours(0, 0, 0, 0);
+      break;
+    case "This Year": {
+      const year = new Date().toLocaleString("en-US", { timeZone: REPORTS_TZ, year: "numeric" });
+      const yearNum = Number(year);
+      // Explicitly anchor both bounds to MDT year to avoid cross-TZ drift
+      mdtStartDate = new Date(`${yearNum}-01-01T00:00:00`);
+      mdtToday = new Date(`${yearNum}-12-31T23:59:59`);
+      break;
+    }
+    case "All Time":
+      // For "All Time", we'll use a reasonable default (last 2 years)
+      mdtStartDate.setFullYear(mdtToday.getFullYear() - 2);
+      mdtStartDate.setHours(0, 0, 0, 0);
+      break;
+    default:
+      mdtStartDate.setDate(mdtToday.getDate() - 30);
+      mdtStartDate.setHours(0, 0, 0, 0);
+  }
+  
+  return { start: mdtStartDate, end: mdtToday };
+};
+
+// Inclusive YYYY-MM-DD range for a timeframe; `from` is null for "All Time"
+export const getTimeframeDateRange = (selectedTimeframe: string): { from: string | null; to: string } => {
+  const { start, end } = resolveTimeframeBounds(selectedTimeframe);
+  return {
+    from: selectedTimeframe === "All Time" ? null : start.toLocaleDateString("en-CA", {timeZone: REPORTS_TZ}),
+    to: end.toLocaleDateString("en-CA", {timeZone: REPORTS_TZ}),
+  };
+};
+
 // Transform the new user_reports structure to the expected format
 export const transformUserReports = (userReports: any, selectedTimeframe: string = "Last 30 Days"): UserReports => {
   try {
@@ -710,66 +800,7 @@ export const transformUserReports = (userReports: any, selectedTimeframe: string
     let totalCustomers = 0;
     
     // Get the date range based on timeframe using MDT timezone
-    const today = new Date();
-    // Convert to MDT timezone
-    let mdtToday = new Date(today.toLocaleString("en-US", {timeZone: TIMEZONE}));
-    mdtToday.setHours(23, 59, 59, 999);
-    
-    let startDate = new Date();
-    // Convert to MDT timezone
-    let mdtStartDate = new Date(startDate.toLocaleString("en-US", {timeZone: TIMEZONE}));
-    mdtStartDate.setHours(0, 0, 0, 0);
-    
-    // Calculate the date range based on selected timeframe
-    switch (selectedTimeframe) {
-      case "Today":
-        mdtStartDate.setTime(mdtToday.getTime());
-        mdtStartDate.setHours(0, 0, 0, 0);
-        break;
-      case "Yesterday":
-        mdtStartDate.setTime(mdtToday.getTime());
-        mdtStartDate.setDate(mdtToday.getDate() - 1);
-        mdtStartDate.setHours(0, 0, 0, 0);
-        const endDate = new Date(mdtStartDate);
-        endDate.setHours(23, 59, 59, 999);
-        mdtToday.setTime(endDate.getTime());
-        break;
-      case "Last 30 Days":
-        mdtStartDate.setDate(mdtToday.getDate() - 30);
-        mdtStartDate.setHours(0, 0, 0, 0);
-        break;
-      case "This Month":
-        mdtStartDate = new Date(mdtToday.getFullYear(), mdtToday.getMonth(), 1);
-        mdtStartDate.setHours(0, 0, 0, 0);
-        break;
-      case "Last Month":
-        mdtStartDate = new Date(mdtToday.getFullYear(), mdtToday.getMonth() - 1, 1);
-        mdtStartDate.setHours(0, 0, 0, 0);
-        const lastMonthEnd = new Date(mdtToday.getFullYear(), mdtToday.getMonth(), 0);
-        lastMonthEnd.setHours(23, 59, 59, 999);
-        mdtToday.setTime(lastMonthEnd.getTime());
-        break;
-      case "Last 6 Months":
-        mdtStartDate.setMonth(mdtToday.getMonth() - 6);
-        mdtStartDate.setHours(0, 0, 0, 0);
-        break;
-      case "This Year": {
-        const year = new Date().toLocaleString("en-US", { timeZone: TIMEZONE, year: "numeric" });
-        const yearNum = Number(year);
-        // Explicitly anchor both bounds to MDT year to avoid cross-TZ drift
-        mdtStartDate = new Date(`${yearNum}-01-01T00:00:00`);
-        mdtToday = new Date(`${yearNum}-12-31T23:59:59`);
-        break;
-      }
-      case "All Time":
-        // For "All Time", we'll use a reasonable default (last 2 years)
-        mdtStartDate.setFullYear(mdtToday.getFullYear() - 2);
-        mdtStartDate.setHours(0, 0, 0, 0);
-        break;
-      default:
-        mdtStartDate.setDate(mdtToday.getDate() - 30);
-        mdtStartDate.setHours(0, 0, 0, 0);
-    }
+    let { start: mdtStartDate, end: mdtToday } = resolveTimeframeBounds(selectedTimeframe);
     
     // Generate all dates in the range using MDT timezone
     const allDates: string[] = [];
@@ -777,7 +808,7 @@ export const transformUserReports = (userReports: any, selectedTimeframe: string
     
     while (currentDate <= mdtToday) {
       // Format date in MDT timezone consistently
-      const dateKey = currentDate.toLocaleDateString("en-CA", {timeZone: TIMEZONE}); // YYYY-MM-DD format
+      const dateKey = currentDate.toLocaleDateString("en-CA", {timeZone: REPORTS_TZ}); // YYYY-MM-DD format
       allDates.push(dateKey);
       
       // Create next date in MDT timezone to avoid timezone issues
@@ -806,7 +837,7 @@ export const transformUserReports = (userReports: any, selectedTimeframe: string
         allDates.length = 0; // Clear existing dates
         let currentDateThisYear = new Date(mdtStartDate);
         while (currentDateThisYear <= mdtToday) {
-          const dateKey = currentDateThisYear.toLocaleDateString("en-CA", {timeZone: TIMEZONE});
+          const dateKey = currentDateThisYear.toLocaleDateString("en-CA", {timeZone: REPORTS_TZ});
           allDates.push(dateKey);
           
           // Create next date in MDT timezone to avoid timezone issues
@@ -894,82 +925,6 @@ export const updateUserReports = async (reports: UserReports): Promise<boolean>
   }
 };
 
-// Update specific day data in user_reports
-export const updateUserDayData = async (
-  date: string, // YYYY-MM-DD format in MDT timezone
-  data: { clicks?: number; signups?: number; earnings?: number; customers?: number }
-): Promise<boolean> => {
-  try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      console.error('No authenticated user found');
-      throw new Error('No authenticated user found');
-    }
-
-    debugLog(`🔄 Updating data for ${date} for user:`, user.id);
-    
-    // Get current user_reports
-    const { data: kpiData, error: kpiError } = await supabase
-      .from('dashboard_kpis')
-      .select('user_reports')
-      .eq('user_id', user.id)
-      .single();
-    
-    if (kpiError) {
-      console.error('Error fetching current user reports:', kpiError);
-      throw kpiError; // Throw to trigger retry/timeout logic
-    }
-    
-    let userReports = kpiData?.user_reports || {
-      links: {},
-      sub_ids: {},
-      overview: {},
-      traffic_sources: {}
-    };
-    
-    // Ensure overview exists
-    if (!userReports.overview) {
-      userReports.overview = {};
-    }
-    
-    // Update the specific date's data (date should already be in MDT timezone format)
-    if (!userReports.overview[date]) {
-      userReports.overview[date] = {
-        clicks: 0,
-        signups: 0,
-        earnings: 0,
-        customers: 0
-      };
-    }
-    
-    // Merge the new data
-    userReports.overview[date] = {
-      ...userReports.overview[date],
-      ...data
-    };
-    
-    // Update the database
-    const { error: updateError } = await supabase
-      .from('dashboard_kpis')
-      .update({ 
-        user_reports: userReports,
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', user.id);
-    
-    if (updateError) {
-      console.error('Error updating day data:', updateError);
-      throw updateError; // Throw to trigger retry/timeout logic
-    }
-    
-    debugLog(`✅ Data for ${date} updated successfully`);
-    return true;
-  } catch (error) {
-    console.error('Error updating day data:', error);
-    throw error; // Re-throw to let the caller handle it
-  }
-};
-
 // Trigger daily user reports update (admin function)
 export const triggerDailyReportsUpdate = async (): Promise<boolean> => {
   try {
@@ -1029,7 +984,7 @@ const getDefaultUserReports = (): UserReports => {
 // Utility function to format dates in MDT timezone
 export const formatDateMDT = (date: Date | string): string => {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
-  return dateObj.toLocaleDateString("en-CA", {timeZone: TIMEZONE}); // YYYY-MM-DD format
+  return dateObj.toLocaleDateString("en-CA", {timeZone: REPORTS_TZ}); // YYYY-MM-DD format
 };
 
 // Utility function to format dates for display in MDT timezone
@@ -1049,7 +1004,7 @@ export const formatDateDisplayMDT = (date: Date | string): string => {
   }
   
   return dateObj.toLocaleDateString("en-US", {
-    timeZone: TIMEZONE,
+    timeZone: REPORTS_TZ,
     month: "short",
     day: "numeric",
     year: "numeric",
@@ -1059,7 +1014,7 @@ export const formatDateDisplayMDT = (date: Date | string): string => {
 // Utility function to get current date in MDT timezone
 export const getCurrentDateMDT = (): Date => {
   const now = new Date();
-  return new Date(now.toLocaleString("en-US", {timeZone: TIMEZONE}));
+  return new Date(now.toLocaleString("en-US", {timeZone: REPORTS_TZ}));
 };
 
 // Utility function to check if timeframe should be aggregated by month
@@ -1115,15 +1070,13 @@ export const calculateUserReportsTotals = async (
       throw new Error('No authenticated user found');
     }
 
-    debugLog('🔄 Calculating totals from user_reports for:', userId);
+    debugLog('🔄 Calculating totals from daily metrics for:', userId);
     
-    // Get the user_reports from dashboard_kpis with optimized query helper and caching
+    // Aggregate in SQL (daily_metrics_totals) instead of summing the JSON client-side
     const queryResult = await optimizedQuery(async () => {
       const { data, error } = await supabase
-        .from('dashboard_kpis')
-        .select('user_reports')
-        .eq('user_id', userId)
-        .single();
+        .rpc('daily_metrics_totals', { p_user_id: userId })
+        .maybeSingle();
       
       // Throw on any Supabase error to trigger retry/timeout logic
       if (error) throw error;
@@ -1134,24 +1087,11 @@ export const calculateUserReportsTotals = async (
       cacheTTL: 300000 // 5 minutes cache for user reports totals
     });
     
-    if (!queryResult || !queryResult.user_reports || !queryResult.user_reports.overview) {
-      debugLog('No user_reports data found in database');
-      throw new Error('No user reports data found in database');
-    }
-    
-    const overview = queryResult.user_reports.overview;
-    let totalClicks = 0;
-    let totalReferrals = 0;
-    let totalCustomers = 0;
-    let totalEarnings = 0;
-    
-    // Calculate totals from all dates in user_reports
-    Object.values(overview).forEach((dayData: any) => {
-      totalClicks += dayData.clicks || 0;
-      totalReferrals += dayData.signups || 0; // signups = referrals
-      totalCustomers += dayData.customers || 0;
-      totalEarnings += dayData.earnings || 0;
-    });
+    const totals = (queryResult || {}) as any;
+    const totalClicks = Number(totals.clicks) || 0;
+    const totalReferrals = Number(totals.signups) || 0; // signups = referrals
+    const totalCustomers = Number(totals.customers) || 0;
+    const totalEarnings = Number(totals.earnings) || 0;
     
     debugLog('✅ Calculated totals:', {
       clicks: totalClicks,
@@ -0,0 +1,87 @@
+import type { ResolvedReferrer } from "@/lib/referrers";
+
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getClientIp, hashIp } from "@/lib/request";
+import { incrementDailyMetrics, toReportDay } from "@/lib/metrics";
+import { VISITOR_COOKIE } from "@/lib/attribution";
+
+// Where /r/[code] sends visitors; the code is forwarded as ?ref= for the order page
+export const REFERRAL_LANDING_URL =
+  process.env.REFERRAL_LANDING_URL ||
+  "https://try.virtualxposure.com/pages/order";
+
+const UTM_KEYS = [
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "utm_term",
+  "utm_content",
+] as const;
+
+// Affiliate-chosen tag for splitting their own traffic (e.g. ?sub_id=ig-bio)
+export const SUB_ID_PARAM = "sub_id";
+
+// `destination` is a named link's own landing page (validated when the link was saved)
+export function buildLandingUrl(
+  code: string | null,
+  incoming: URLSearchParams,
+  visitorId: string | null = null,
+  destination: string | null = null,
+): string {
+  const target = new URL(destination || REFERRAL_LANDING_URL);
+
+  if (code) target.searchParams.set("ref", code);
+  // Lets the order page pass the visitor id back on conversion when it can't read our cookie
+  if (visitorId) target.searchParams.set(VISITOR_COOKIE, visitorId);
+  // Pass UTM params and the sub-ID through so the landing page analytics still see them
+  [...UTM_KEYS, SUB_ID_PARAM].forEach((key) => {
+    const value = incoming.get(key);
+
+    if (value) target.searchParams.set(key, value);
+  });
+
+  return target.toString();
+}
+
+export async function recordReferralClick(
+  req: Request,
+  referrer: ResolvedReferrer,
+  visitorId: string | null = null,
+): Promise<void> {
+  const url = new URL(req.url);
+  const utm = Object.fromEntries(
+    UTM_KEYS.map((key) => [
+      key,
+      url.searchParams.get(key)?.slice(0, 255) || null,
+    ]),
+  );
+
+  const clickedAt = new Date();
+  const { error } = await supabaseAdmin.from("referral_clicks").insert({
+    referrer_id: referrer.user_id,
+    code: referrer.code,
+    link_id: referrer.link_id,
+    clicked_at: clickedAt.toISOString(),
+    referer: req.headers.get("referer")?.slice(0, 2048) || null,
+    ...utm,
+    sub_id: url.searchParams.get(SUB_ID_PARAM)?.trim().slice(0, 100) || null,
+    ip_hash: hashIp(getClientIp(req)),
+    user_agent: req.headers.get("user-agent")?.slice(0, 512) || null,
+    visitor_id: visitorId,
+  });
+
+  if (error) {
+    console.error("Referral click insert error:", error);
+
+    return;
+  }
+
+  // Roll the click into the daily counters that reports read from
+  try {
+    await incrementDailyMetrics(referrer.user_id, toReportDay(clickedAt), {
+      clicks: 1,
+    });
+  } catch (e) {
+    console.error("Referral click rollup error:", e);
+  }
+}
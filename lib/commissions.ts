@@ -0,0 +1,464 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { DayRange } from "@/lib/metrics";
+import { emitKpisUpdated } from "@/lib/webhooks";
+import { daysBetween } from "@/lib/reports";
+
+export type CommissionPlanType =
+  | "flat_per_signup"
+  | "percent_of_revenue"
+  | "tiered";
+
+export const COMMISSION_PLAN_TYPES: CommissionPlanType[] = [
+  "flat_per_signup",
+  "percent_of_revenue",
+  "tiered",
+];
+
+export interface CommissionTier {
+  min_customers: number; // customers in the calendar month, including this one
+  percent: number;
+}
+
+export interface CommissionRule {
+  id: string;
+  user_id: string | null; // null = default plan
+  name: string;
+  plan_type: CommissionPlanType;
+  flat_amount: number | null;
+  percent: number | null;
+  tiers: CommissionTier[] | null;
+  effective_from: string;
+  effective_to: string | null;
+  active: boolean;
+}
+
+export type CommissionRuleInput = Omit<CommissionRule, "id">;
+
+// A referral_events row as the calculator sees it
+export interface ConversionEvent {
+  id: string;
+  user_id: string; // the referring affiliate
+  event_type: "signup" | "customer";
+  day: string; // YYYY-MM-DD
+  revenue: number | null;
+}
+
+export interface CommissionLineItem {
+  id: string;
+  user_id: string;
+  referral_event_id: string | null;
+  rule_id: string | null;
+  day: string;
+  event_type: string;
+  revenue: number | null;
+  rate: number | null;
+  amount: number; // negative for reversals and clawbacks
+  description: string | null;
+  reverses_line_item_id?: string | null;
+  reason?: string | null;
+  created_by?: string | null;
+  payout_id?: string | null;
+  created_at: string;
+}
+
+export interface CommissionCalculation {
+  amount: number;
+  rate: number | null;
+  description: string;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const normalizeRule = (row: any): CommissionRule => ({
+  ...row,
+  flat_amount: row.flat_amount === null ? null : Number(row.flat_amount),
+  percent: row.percent === null ? null : Number(row.percent),
+  tiers: Array.isArray(row.tiers) ? row.tiers : null,
+});
+
+// Pure calculation: what `rule` pays for `event`. Returns null when the plan
+// does not pay for this kind of event (e.g. a flat-per-signup plan and a customer).
+export function calculateCommission(
+  rule: CommissionRule,
+  event: ConversionEvent,
+  customersThisMonth = 0,
+): CommissionCalculation | null {
+  switch (rule.plan_type) {
+    case "flat_per_signup": {
+      if (event.event_type !== "signup" || !rule.flat_amount) return null;
+
+      return {
+        amount: roundMoney(rule.flat_amount),
+        rate: rule.flat_amount,
+        description: `${rule.name}: $${rule.flat_amount.toFixed(2)} per signup`,
+      };
+    }
+    case "percent_of_revenue": {
+      if (event.event_type !== "customer" || !event.revenue || !rule.percent)
+        return null;
+
+      return {
+        amount: roundMoney((event.revenue * rule.percent) / 100),
+        rate: rule.percent,
+        description: `${rule.name}: ${rule.percent}% of $${event.revenue.toFixed(2)}`,
+      };
+    }
+    case "tiered": {
+      if (
+        event.event_type !== "customer" ||
+        !event.revenue ||
+        !rule.tiers?.length
+      )
+        return null;
+      const tier = [...rule.tiers]
+        .sort((a, b) => b.min_customers - a.min_customers)
+        .find((t) => customersThisMonth >= t.min_customers);
+
+      if (!tier) return null;
+
+      return {
+        amount: roundMoney((event.revenue * tier.percent) / 100),
+        rate: tier.percent,
+        description: `${rule.name}: ${tier.percent}% of $${event.revenue.toFixed(2)} (customer #${customersThisMonth} this month)`,
+      };
+    }
+  }
+}
+
+// Validate an admin-supplied rule body. Returns the cleaned rule or an error message.
+export function parseCommissionRuleInput(
+  body: any,
+  partial = false,
+): { value?: Partial<CommissionRuleInput>; error?: string } {
+  const value: Partial<CommissionRuleInput> = {};
+
+  if (body?.user_id !== undefined) value.user_id = body.user_id || null;
+  if (body?.name !== undefined || !partial) {
+    const name = String(body?.name || "").trim();
+
+    if (!name) return { error: "name is required" };
+    value.name = name.slice(0, 120);
+  }
+  if (body?.plan_type !== undefined || !partial) {
+    if (!COMMISSION_PLAN_TYPES.includes(body?.plan_type)) {
+      return {
+        error: `plan_type must be one of ${COMMISSION_PLAN_TYPES.join(", ")}`,
+      };
+    }
+    value.plan_type = body.plan_type;
+  }
+  if (body?.flat_amount !== undefined) {
+    const amount = body.flat_amount === null ? null : Number(body.flat_amount);
+
+    if (amount !== null && (!Number.isFinite(amount) || amount < 0)) {
+      return { error: "flat_amount must be a non-negative number" };
+    }
+    value.flat_amount = amount;
+  }
+  if (body?.percent !== undefined) {
+    const percent = body.percent === null ? null : Number(body.percent);
+
+    if (
+      percent !== null &&
+      (!Number.isFinite(percent) || percent < 0 || percent > 100)
+    ) {
+      return { error: "percent must be between 0 and 100" };
+    }
+    value.percent = percent;
+  }
+  if (body?.tiers !== undefined) {
+    if (body.tiers !== null && !Array.isArray(body.tiers))
+      return { error: "tiers must be an array" };
+    const tiers: CommissionTier[] = [];
+
+    for (const t of body.tiers || []) {
+      const min = Number(t?.min_customers);
+      const percent = Number(t?.percent);
+
+      if (
+        !Number.isInteger(min) ||
+        min < 0 ||
+        !Number.isFinite(percent) ||
+        percent < 0 ||
+        percent > 100
+      ) {
+        return {
+          error:
+            "each tier needs an integer min_customers >= 0 and a percent between 0 and 100",
+        };
+      }
+      tiers.push({ min_customers: min, percent });
+    }
+    value.tiers = body.tiers === null ? null : tiers;
+  }
+  const dayRe = /^\d{4}-\d{2}-\d{2}$/;
+
+  if (body?.effective_from !== undefined) {
+    if (!dayRe.test(String(body.effective_from)))
+      return { error: "effective_from must be YYYY-MM-DD" };
+    value.effective_from = body.effective_from;
+  }
+  if (body?.effective_to !== undefined) {
+    if (body.effective_to !== null && !dayRe.test(String(body.effective_to))) {
+      return { error: "effective_to must be YYYY-MM-DD or null" };
+    }
+    value.effective_to = body.effective_to;
+  }
+  if (body?.active !== undefined) value.active = !!body.active;
+
+  // Each plan type needs its own rate field
+  if (!partial) {
+    if (value.plan_type === "flat_per_signup" && !value.flat_amount) {
+      return { error: "flat_per_signup plans need flat_amount" };
+    }
+    if (value.plan_type === "percent_of_revenue" && !value.percent) {
+      return { error: "percent_of_revenue plans need percent" };
+    }
+    if (value.plan_type === "tiered" && !value.tiers?.length) {
+      return { error: "tiered plans need at least one tier" };
+    }
+  }
+
+  return { value };
+}
+
+// The rule in force for a user on a day: their own active plan if any, else the default
+export async function resolveCommissionRule(
+  userId: string,
+  day: string,
+): Promise<CommissionRule | null> {
+  const { data, error } = await supabaseAdmin
+    .from("commission_rules")
+    .select("*")
+    .eq("active", true)
+    .lte("effective_from", day)
+    .or(`user_id.eq.${userId},user_id.is.null`)
+    .order("effective_from", { ascending: false });
+
+  if (error) throw error;
+
+  const candidates = (data || [])
+    .map(normalizeRule)
+    .filter((rule) => !rule.effective_to || rule.effective_to >= day);
+
+  return (
+    candidates.find((rule) => rule.user_id === userId) ||
+    candidates.find((rule) => !rule.user_id) ||
+    null
+  );
+}
+
+async function countCustomersInMonth(
+  userId: string,
+  day: string,
+): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from("referral_events")
+    .select("id", { count: "exact", head: true })
+    .eq("referrer_id", userId)
+    .eq("event_type", "customer")
+    .gte("date", `${day.slice(0, 7)}-01`)
+    .lte("date", day);
+
+  if (error) throw error;
+
+  return count || 0;
+}
+
+// Turn one conversion event into a line item and add it to the day's earnings.
+// Returns null when no rule pays for the event or it was already recorded.
+export async function recordCommission(
+  event: ConversionEvent,
+): Promise<CommissionLineItem | null> {
+  const rule = await resolveCommissionRule(event.user_id, event.day);
+
+  if (!rule) return null;
+
+  const customersThisMonth =
+    rule.plan_type === "tiered"
+      ? await countCustomersInMonth(event.user_id, event.day)
+      : 0;
+  const calc = calculateCommission(rule, event, customersThisMonth);
+
+  if (!calc || calc.amount === 0) return null;
+
+  const item = await insertLineItem({
+    user_id: event.user_id,
+    referral_event_id: event.id,
+    rule_id: rule.id,
+    day: event.day,
+    event_type: event.event_type,
+    revenue: event.revenue,
+    rate: calc.rate,
+    amount: calc.amount,
+    description: calc.description,
+  });
+
+  return item && normalizeLineItem(item);
+}
+
+// Insert a line item and add it to the day's earnings in one transaction
+// (record_commission_line_item). Returns null when the unique indexes say it
+// was already recorded, in which case its earnings were already counted too, or
+// when it reverses a line item that has nothing left to reverse.
+async function insertLineItem(
+  row: Record<string, unknown>,
+): Promise<any | null> {
+  const { data, error } = await supabaseAdmin.rpc(
+    "record_commission_line_item",
+    { p_item: row },
+  );
+
+  if (error) throw error;
+  const item = (data || [])[0];
+
+  if (!item) return null;
+
+  await emitKpisUpdated(item.user_id, item.day);
+
+  return item;
+}
+
+const normalizeLineItem = (row: any): CommissionLineItem => ({
+  ...row,
+  revenue: row.revenue === null ? null : Number(row.revenue),
+  rate: row.rate === null ? null : Number(row.rate),
+  amount: Number(row.amount) || 0,
+});
+
+// Insert a negative line item and take it off that day's earnings. A reversal
+// of a line item is capped at what earlier reversals and clawbacks left of it.
+async function insertAdjustment(row: {
+  user_id: string;
+  day: string;
+  event_type: "reversal" | "clawback";
+  amount: number;
+  description: string;
+  reason?: string | null;
+  referral_event_id?: string | null;
+  reverses_line_item_id?: string | null;
+  created_by?: string | null;
+}): Promise<CommissionLineItem | null> {
+  const amount = -Math.abs(roundMoney(row.amount));
+  const item = await insertLineItem({ ...row, amount });
+
+  return item && normalizeLineItem(item);
+}
+
+// Undo the commission on a refunded event, if the refund falls inside the window.
+// The reversal is dated on the refund day, not the original sale, and takes back
+// whatever a partial clawback left.
+export async function reverseCommissionForRefund(
+  refund: { id: string; refund_of: string; day: string },
+  windowDays: number,
+): Promise<CommissionLineItem | null> {
+  const { data: original, error } = await supabaseAdmin
+    .from("commission_line_items")
+    .select("*")
+    .eq("referral_event_id", refund.refund_of)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!original || Number(original.amount) <= 0) return null;
+  if (daysBetween(original.day, refund.day) > windowDays) return null;
+
+  return insertAdjustment({
+    user_id: original.user_id,
+    day: refund.day,
+    event_type: "reversal",
+    amount: Number(original.amount),
+    description: `Refund reversal of ${original.description || "commission"}`,
+    reason: "Customer refund",
+    referral_event_id: refund.id,
+    reverses_line_item_id: original.id,
+  });
+}
+
+// Thrown when a clawback names a line item that isn't one of the user's commissions
+export class ClawbackTargetError extends Error {}
+
+// Admin clawback: either against one line item (at most what is left of its amount) or a free amount
+export async function createClawback(input: {
+  user_id: string;
+  amount: number;
+  reason: string;
+  day: string;
+  line_item_id?: string | null;
+  created_by?: string | null;
+}): Promise<CommissionLineItem | null> {
+  if (!input.line_item_id) {
+    return insertAdjustment({
+      user_id: input.user_id,
+      day: input.day,
+      event_type: "clawback",
+      amount: input.amount,
+      description: "Manual clawback",
+      reason: input.reason,
+      created_by: input.created_by,
+    });
+  }
+
+  const { data: original, error } = await supabaseAdmin
+    .from("commission_line_items")
+    .select("*")
+    .eq("id", input.line_item_id)
+    .eq("user_id", input.user_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!original || Number(original.amount) <= 0) {
+    throw new ClawbackTargetError("Line item not found or not a commission");
+  }
+
+  return insertAdjustment({
+    user_id: input.user_id,
+    day: input.day,
+    event_type: "clawback",
+    amount: Math.min(Math.abs(input.amount), Number(original.amount)),
+    description: `Clawback of ${original.description || "commission"}`,
+    reason: input.reason,
+    reverses_line_item_id: original.id,
+    created_by: input.created_by,
+  });
+}
+
+// Reversals and clawbacks, newest first
+export async function getAdjustments(
+  filter: { user_id?: string | null; limit?: number } = {},
+): Promise<CommissionLineItem[]> {
+  let query = supabaseAdmin
+    .from("commission_line_items")
+    .select("*")
+    .in("event_type", ["reversal", "clawback"])
+    .order("created_at", { ascending: false })
+    .limit(filter.limit || 200);
+
+  if (filter.user_id) query = query.eq("user_id", filter.user_id);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(normalizeLineItem);
+}
+
+export async function getCommissionLineItems(
+  userId: string,
+  range: DayRange = {},
+): Promise<CommissionLineItem[]> {
+  let query = supabaseAdmin
+    .from("commission_line_items")
+    .select("*")
+    .eq("user_id", userId)
+    .order("day", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (range.from) query = query.gte("day", range.from);
+  if (range.to) query = query.lte("day", range.to);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(normalizeLineItem);
+}
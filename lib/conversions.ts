@@ -0,0 +1,291 @@
+import crypto from "crypto";
+
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { isValidDay, toReportDay } from "@/lib/metrics";
+import {
+  recordCommission,
+  reverseCommissionForRefund,
+} from "@/lib/commissions";
+import {
+  Attribution,
+  isValidVisitorId,
+  resolveAttribution,
+} from "@/lib/attribution";
+import { getAttributionSettings, getClawbackSettings } from "@/lib/settings";
+import { emitKpisUpdated, emitWebhookEvent } from "@/lib/webhooks";
+
+export type ConversionEventType = "signup" | "customer" | "refund";
+
+export const CONVERSION_EVENT_TYPES: ConversionEventType[] = [
+  "signup",
+  "customer",
+  "refund",
+];
+
+// Header carrying "sha256=<hex HMAC of the raw body>"
+export const CONVERSION_SIGNATURE_HEADER = "x-vx-signature";
+
+export interface ConversionPayload {
+  idempotency_key: string;
+  type: ConversionEventType;
+  referral_code: string | null; // fallback when the visitor can't be matched to a click
+  visitor_id: string | null; // vx_vid from the referral redirect
+  email: string;
+  name: string | null;
+  occurred_at: string; // ISO timestamp
+  revenue: number | null;
+  refund_of: string | null; // idempotency_key of the original customer event
+}
+
+export interface IngestResult {
+  event_id: string;
+  duplicate: boolean;
+  commission: number | null; // negative when a refund reversed the original commission
+  attribution: Attribution["method"];
+}
+
+// Constant-time check of the sender's signature over the exact bytes received
+export function verifyConversionSignature(
+  rawBody: string,
+  header: string | null,
+  secret: string,
+): boolean {
+  if (!header || !secret) return false;
+  const received = header.trim().replace(/^sha256=/i, "");
+
+  if (!/^[0-9a-f]{64}$/i.test(received)) return false;
+
+  const expected = crypto
+    .createHmac("sha256", secret)
+    .update(rawBody, "utf8")
+    .digest("hex");
+
+  return crypto.timingSafeEqual(
+    new Uint8Array(Buffer.from(received.toLowerCase(), "hex")),
+    new Uint8Array(Buffer.from(expected, "hex")),
+  );
+}
+
+export function parseConversionPayload(body: any): {
+  value?: ConversionPayload;
+  error?: string;
+} {
+  const idempotencyKey = String(body?.idempotency_key || "").trim();
+
+  if (!idempotencyKey || idempotencyKey.length > 200) {
+    return { error: "idempotency_key is required (max 200 chars)" };
+  }
+  if (!CONVERSION_EVENT_TYPES.includes(body?.type)) {
+    return {
+      error: `type must be one of ${CONVERSION_EVENT_TYPES.join(", ")}`,
+    };
+  }
+  const code = String(body?.referral_code || "").trim();
+  const visitorId = body?.visitor_id ? String(body.visitor_id).trim() : "";
+
+  if (visitorId && !isValidVisitorId(visitorId))
+    return { error: "visitor_id is not a valid id" };
+  if (!code && !visitorId && !(body?.type === "refund" && body?.refund_of)) {
+    return { error: "visitor_id or referral_code is required" };
+  }
+  const email = String(body?.email || "")
+    .trim()
+    .toLowerCase();
+
+  if (!email.includes("@")) return { error: "email is required" };
+
+  let occurredAt = new Date();
+
+  if (body?.occurred_at !== undefined) {
+    occurredAt = isValidDay(body.occurred_at)
+      ? new Date(`${body.occurred_at}T12:00:00Z`)
+      : new Date(body.occurred_at);
+    if (Number.isNaN(occurredAt.getTime())) {
+      return { error: "occurred_at must be an ISO timestamp" };
+    }
+  }
+
+  let revenue: number | null = null;
+
+  if (body?.revenue !== undefined && body.revenue !== null) {
+    revenue = Number(body.revenue);
+    if (!Number.isFinite(revenue) || revenue < 0) {
+      return { error: "revenue must be a non-negative number" };
+    }
+  }
+  if (body.type === "customer" && revenue === null) {
+    return { error: "customer events need revenue" };
+  }
+
+  return {
+    value: {
+      idempotency_key: idempotencyKey,
+      type: body.type,
+      referral_code: code || null,
+      visitor_id: visitorId || null,
+      email,
+      name: body?.name ? String(body.name).trim().slice(0, 200) : null,
+      occurred_at: occurredAt.toISOString(),
+      revenue,
+      refund_of: body?.refund_of ? String(body.refund_of) : null,
+    },
+  };
+}
+
+// Thrown for payloads that are well-formed but can't be attributed
+export class ConversionIngestError extends Error {}
+
+// Persist the event and its metrics rollup (ingest_conversion_event), then its
+// commission (or, for a refund, the reversal of the original commission). All
+// steps are idempotent, so a redelivery after a partial failure completes the
+// work instead of double-counting.
+export async function ingestConversionEvent(
+  payload: ConversionPayload,
+  source: string | null = null,
+): Promise<IngestResult> {
+  const settings = await getAttributionSettings();
+
+  // A refund is credited to whoever got the original event
+  let refundOf: string | null = null;
+  let refundedStatus: string | null = null;
+  let attribution: Attribution | null = null;
+
+  if (payload.refund_of) {
+    const { data: original, error } = await supabaseAdmin
+      .from("referral_events")
+      .select(
+        "id, referrer_id, code, status, attribution_method, attributed_click_id, attributed_clicked_at, attribution_window_days",
+      )
+      .eq("idempotency_key", payload.refund_of)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (original) {
+      refundOf = original.id;
+      refundedStatus = original.status;
+      attribution = {
+        referrer: { user_id: original.referrer_id, code: original.code },
+        method: original.attribution_method || "code",
+        click_id: original.attributed_click_id,
+        clicked_at: original.attributed_clicked_at,
+        window_days: original.attribution_window_days,
+      };
+    }
+  }
+
+  attribution = attribution || (await resolveAttribution(payload, settings));
+  if (!attribution) {
+    throw new ConversionIngestError(
+      payload.referral_code
+        ? `Unknown referral code: ${payload.referral_code}`
+        : `No referral click within ${settings.window_days} days for this visitor`,
+    );
+  }
+  const referrer = attribution.referrer;
+
+  const day = toReportDay(new Date(payload.occurred_at));
+  const { data, error } = await supabaseAdmin
+    .rpc("ingest_conversion_event", {
+      p_idempotency_key: payload.idempotency_key,
+      p_referrer_id: referrer.user_id,
+      p_code: referrer.code,
+      p_event_type: payload.type,
+      p_agent: payload.name || payload.email,
+      p_email: payload.email,
+      p_occurred_at: payload.occurred_at,
+      p_day: day,
+      p_status: payload.type === "signup" ? "pending" : "approved",
+      p_revenue: payload.revenue,
+      p_refund_of: refundOf,
+      p_source: source,
+      p_payload: payload,
+      p_visitor_id: payload.visitor_id,
+      p_attribution_method: attribution.method,
+      p_attributed_click_id: attribution.click_id,
+      p_attributed_clicked_at: attribution.clicked_at,
+      p_attribution_window_days: attribution.window_days,
+    })
+    .single();
+
+  if (error) throw error;
+
+  const { event_id, duplicate } = data as {
+    event_id: string;
+    duplicate: boolean;
+  };
+
+  // A redelivery keeps the credit decided the first time, even if newer clicks exist now
+  let creditedTo = referrer.user_id;
+  let method = attribution.method;
+
+  if (duplicate) {
+    const { data: stored, error: storedErr } = await supabaseAdmin
+      .from("referral_events")
+      .select("referrer_id, attribution_method")
+      .eq("id", event_id)
+      .single();
+
+    if (storedErr) throw storedErr;
+    creditedTo = stored.referrer_id;
+    method = stored.attribution_method || "code";
+  }
+
+  let commission: number | null = null;
+
+  if (payload.type !== "refund") {
+    const item = await recordCommission({
+      id: event_id,
+      user_id: creditedTo,
+      event_type: payload.type,
+      day,
+      revenue: payload.revenue,
+    });
+
+    commission = item ? item.amount : null;
+  } else if (refundOf) {
+    const { refund_window_days } = await getClawbackSettings();
+    const reversal = await reverseCommissionForRefund(
+      { id: event_id, refund_of: refundOf, day },
+      refund_window_days,
+    );
+
+    commission = reversal ? reversal.amount : null;
+
+    const { error: statusErr } = await supabaseAdmin
+      .from("referral_events")
+      .update({ status: "refunded" })
+      .eq("id", refundOf);
+
+    if (statusErr) throw statusErr;
+
+    if (refundedStatus !== "refunded") {
+      await emitWebhookEvent("referral.status_changed", creditedTo, {
+        id: refundOf,
+        user_id: creditedTo,
+        previous_status: refundedStatus,
+        status: "refunded",
+      });
+    }
+  }
+
+  if (!duplicate) {
+    if (payload.type !== "refund") {
+      await emitWebhookEvent("referral.created", creditedTo, {
+        id: event_id,
+        user_id: creditedTo,
+        agent: payload.name || payload.email,
+        email: payload.email,
+        date: day,
+        status: payload.type === "signup" ? "pending" : "approved",
+        event_type: payload.type,
+        revenue: payload.revenue,
+        occurred_at: payload.occurred_at,
+        attribution: method,
+      });
+    }
+    // ingest_conversion_event updated the day's counters in SQL
+    await emitKpisUpdated(creditedTo, day);
+  }
+
+  return { event_id, duplicate, commission, attribution: method };
+}
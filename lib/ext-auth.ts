@@ -4,24 +4,85 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/nextauth";
 import { supabaseAdmin } from "@/lib/supabase-admin";
 import { hashPersonalAccessToken } from "@/lib/token";
+import { Role } from "@/lib/roles";
+import { Scope } from "@/lib/scopes";
+import { getUserRoles } from "@/lib/user-roles";
+import { getClientIp } from "@/lib/request";
+import { touchUserSession } from "@/lib/sessions";
 
 export interface ExtAuthUser {
   id: string;
   email?: string | null;
+  roles: Role[]; // from the JWT for sessions, from user_roles for PATs
+  scopes: Scope[] | null; // a PAT's scopes; null for sessions, which are unscoped
+  sessionId: string | null; // the user_sessions row behind a session JWT; null for PATs
+}
+
+// Suspended or offboarded users lose access on their next request, whatever
+// credential they hold. Not cached so an admin's suspension applies immediately.
+async function isUserActive(userId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("approved_users")
+    .select("status")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    console.error("Approval check failed:", error);
+    return false;
+  }
+  return data?.status === "active";
+}
+
+// A session revoked from Settings ("Where you're signed in") stops working on
+// its next request, whether the JWT arrives as a cookie or a Bearer token.
+// A JWT without a session id (from before sessions were recorded) can't be
+// revoked, so it is refused and the user signs in again. PATs (scoped) are
+// checked against api_keys instead.
+async function isSessionActive(user: { scopes: Scope[] | null; sessionId: string | null }, req: Request): Promise<boolean> {
+  if (user.scopes) return true;
+  if (!user.sessionId) return false;
+  try {
+    return await touchUserSession(user.sessionId, getClientIp(req));
+  } catch (e) {
+    console.error("Session check failed:", e);
+    return false;
+  }
 }
 
 /**
  * Resolve authenticated user for external API routes.
  * - Prefers NextAuth server session (cookies)
  * - Falls back to Authorization: Bearer <next-auth session token>
+ * - Returns null for users whose approved_users row is not active, and for revoked sessions
  */
 export async function resolveUser(req: Request): Promise<ExtAuthUser | null> {
+  const user = await resolveCredential(req);
+  if (!user) return null;
+  const [active, sessionActive] = await Promise.all([isUserActive(user.id), isSessionActive(user, req)]);
+  if (!active || !sessionActive) return null;
+  if (user.roles) return { ...user, roles: user.roles };
+
+  // PATs carry no roles; fall back to the least privileged role if they can't be read
+  const roles = await getUserRoles(user.id).catch((e) => {
+    console.error("Failed to load user roles:", e);
+    return ["affiliate"] as Role[];
+  });
+  return { ...user, roles };
+}
+
+async function resolveCredential(req: Request): Promise<(Omit<ExtAuthUser, "roles"> & { roles?: Role[] }) | null> {
   // Try cookie-based session first
   try {
     const session = await getServerSession(authOptions);
     const sessionUserId = (session?.user as any)?.id as string | undefined;
     if (sessionUserId) {
-      return { id: sessionUserId, email: (session?.user as any)?.email ?? null };
+      return {
+        id: sessionUserId,
+        email: (session?.user as any)?.email ?? null,
+        roles: (session?.user as any)?.roles,
+        scopes: null,
+        sessionId: (session?.user as any)?.sid ?? null,
+      };
     }
   } catch {}
 
@@ -34,11 +95,14 @@ export async function resolveUser(req: Request): Promise<ExtAuthUser | null> {
       const hash = hashPersonalAccessToken(bearer);
       const { data, error } = await supabaseAdmin
         .from("api_keys")
-        .select("user_id, active, expires_at")
+        .select("id, user_id, active, expires_at, scopes")
         .eq("token_hash", hash)
         .maybeSingle();
       if (!error && data && data.active !== false && (!data.expires_at || new Date(data.expires_at) > new Date())) {
-        return { id: data.user_id, email: null };
+        // Usage shown on the Settings page; a failure here shouldn't fail the request
+        const { error: touchErr } = await supabaseAdmin.rpc("touch_api_key", { p_id: data.id, p_ip: getClientIp(req) });
+        if (touchErr) console.error("Failed to record token usage:", touchErr);
+        return { id: data.user_id, email: null, scopes: (data.scopes || []) as Scope[], sessionId: null };
       }
     }
     // 2b) Otherwise treat it as a NextAuth JWT
@@ -46,7 +110,13 @@ export async function resolveUser(req: Request): Promise<ExtAuthUser | null> {
     const token = await getToken({ req: nextReq, secret: process.env.NEXTAUTH_SECRET });
     const userId = token?.sub as string | undefined;
     if (userId) {
-      return { id: userId, email: (token?.email as string | undefined) ?? null };
+      return {
+        id: userId,
+        email: (token?.email as string | undefined) ?? null,
+        roles: token?.roles as Role[] | undefined,
+        scopes: null,
+        sessionId: (token?.sid as string | undefined) ?? null,
+      };
     }
   }
 
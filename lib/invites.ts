@@ -0,0 +1,69 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { sendMail } from "@/lib/mailer";
+
+export interface InviteResult {
+  link: string;
+  sent: boolean;
+}
+
+function getBaseUrl(): string {
+  return (
+    process.env.NEXTAUTH_URL ||
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    "http://localhost:3000"
+  );
+}
+
+// One-time set-password link. It is a Supabase recovery link, so it lands on
+// /auth/reset-password like a regular password reset and expires with the
+// project's OTP expiry.
+export async function createInviteLink(email: string): Promise<string> {
+  const { data, error } = await supabaseAdmin.auth.admin.generateLink({
+    type: "recovery",
+    email: email.toLowerCase(),
+    options: { redirectTo: `${getBaseUrl()}/auth/reset-password` },
+  });
+
+  if (error) throw error;
+
+  return data.properties.action_link;
+}
+
+// Email a new affiliate their set-password link. When SMTP isn't configured
+// the link is returned unsent so an admin can pass it on.
+export async function sendInvite(
+  email: string,
+  firstName: string,
+): Promise<InviteResult> {
+  const link = await createInviteLink(email);
+  const greeting = firstName ? `Hi ${firstName},` : "Hi,";
+
+  const sent = await sendMail({
+    to: email,
+    subject: "Welcome to the VX Affiliate Program",
+    text: [
+      greeting,
+      "",
+      "Your affiliate account is ready. Set your password to sign in to the dashboard:",
+      link,
+      "",
+      'The link can be used once. If it has expired, use "Forgot password" on the sign-in page.',
+    ].join("\n"),
+    html: `
+      <p>${escapeHtml(greeting)}</p>
+      <p>Your affiliate account is ready. Set your password to sign in to the dashboard:</p>
+      <p><a href="${escapeHtml(link)}">Set your password</a></p>
+      <p>The link can be used once. If it has expired, use "Forgot password" on the sign-in page.</p>
+    `,
+  });
+
+  return { link, sent };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,390 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { toReportDay } from "@/lib/metrics";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface Job {
+  id: string;
+  name: string;
+  run_key: string | null;
+  params: Record<string, any>;
+  status: JobStatus;
+  triggered_by: string;
+  retry_of: string | null;
+  total: number | null;
+  processed: number;
+  failed: number;
+  last_item: string | null;
+  error: string | null;
+  heartbeat_at: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+}
+
+export interface JobItemError {
+  item: string;
+  error: string;
+  created_at: string;
+}
+
+// Thrown for requests the caller can fix (unknown job, not re-runnable)
+export class JobError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+// A job works through string items (user ids) in ascending order, so a run
+// can stop anywhere and pick up after its last finished item.
+interface JobDefinition {
+  label: string;
+  // The run due now. Its run key makes the scheduler enqueue it once.
+  scheduled: () => { runKey: string; params: Record<string, any> };
+  countItems: (params: Record<string, any>) => Promise<number>;
+  listItems: (
+    params: Record<string, any>,
+    after: string | null,
+    limit: number,
+  ) => Promise<string[]>;
+  processItem: (item: string, params: Record<string, any>) => Promise<void>;
+}
+
+// Affiliates to process; a re-run narrows this to the ones that failed (params.user_ids)
+function affiliatesQuery(
+  params: Record<string, any>,
+  options?: { count: "exact"; head: true },
+) {
+  let query = supabaseAdmin
+    .from("affiliate_referrers")
+    .select("user_id", options);
+
+  if (Array.isArray(params.user_ids))
+    query = query.in("user_id", params.user_ids);
+
+  return query;
+}
+
+const JOBS: Record<string, JobDefinition> = {
+  // Ensure every affiliate has a daily_affiliate_metrics row for the day, so
+  // reports show zero-activity days. Existing counters are never touched.
+  daily_reports_rollover: {
+    label: "Daily report rows",
+    scheduled: () => {
+      const day = toReportDay();
+
+      return { runKey: `daily_reports_rollover:${day}`, params: { day } };
+    },
+    countItems: async (params) => {
+      const { count, error } = await affiliatesQuery(params, {
+        count: "exact",
+        head: true,
+      });
+
+      if (error) throw error;
+
+      return count || 0;
+    },
+    listItems: async (params, after, limit) => {
+      let query = affiliatesQuery(params).order("user_id").limit(limit);
+
+      if (after) query = query.gt("user_id", after);
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []).map((r) => r.user_id as string);
+    },
+    processItem: async (userId, params) => {
+      const { error } = await supabaseAdmin
+        .from("daily_affiliate_metrics")
+        .upsert(
+          { user_id: userId, day: params.day },
+          { onConflict: "user_id,day", ignoreDuplicates: true },
+        );
+
+      if (error) throw error;
+    },
+  },
+};
+
+export const JOB_NAMES = Object.keys(JOBS);
+
+export function listJobTypes(): { name: string; label: string }[] {
+  return Object.entries(JOBS).map(([name, definition]) => ({
+    name,
+    label: definition.label,
+  }));
+}
+
+const PAGE_SIZE = 100;
+const CONCURRENCY = 10;
+
+// A running job whose heartbeat is older than this lost its process (timeout,
+// deploy) and may be resumed by the next scheduler tick
+const STALE_HEARTBEAT_MS = 2 * 60 * 1000;
+
+function getDefinition(name: string): JobDefinition {
+  const definition = JOBS[name];
+
+  if (!definition) throw new JobError(`Unknown job: ${name}`, 404);
+
+  return definition;
+}
+
+const errorMessage = (e: any) =>
+  String(e?.message || e || "Unknown error").slice(0, 1000);
+
+async function updateJob(id: string, update: Partial<Job>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("jobs")
+    .update(update)
+    .eq("id", id);
+
+  if (error) throw error;
+}
+
+// Take the job for this process. The status filter is the lock: of two
+// schedulers picking up the same job, only one gets the row back.
+async function claimJob(id: string): Promise<Job | null> {
+  const now = new Date();
+  const staleBefore = new Date(
+    now.getTime() - STALE_HEARTBEAT_MS,
+  ).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from("jobs")
+    .update({ status: "running", heartbeat_at: now.toISOString() })
+    .eq("id", id)
+    .or(
+      `status.eq.queued,and(status.eq.running,heartbeat_at.lt.${staleBefore})`,
+    )
+    .select("*")
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return (data as Job) || null;
+}
+
+async function recordItemErrors(
+  jobId: string,
+  failures: { item: string; error: string }[],
+): Promise<void> {
+  if (failures.length === 0) return;
+  const { error } = await supabaseAdmin.from("job_errors").upsert(
+    failures.map((f) => ({ job_id: jobId, ...f })),
+    { onConflict: "job_id,item" },
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Run (or resume) a job until it finishes or `deadline` (epoch ms) passes.
+ * Items are processed CONCURRENCY at a time; progress is saved after each
+ * chunk. A run that is out of time goes back to queued and the scheduler
+ * continues it. Item failures are recorded and fail the run at the end;
+ * anything else fails it immediately.
+ */
+export async function runJob(
+  id: string,
+  deadline: number,
+): Promise<Job | null> {
+  const job = await claimJob(id);
+
+  if (!job) return null;
+  const definition = getDefinition(job.name);
+
+  try {
+    if (!job.started_at) job.started_at = new Date().toISOString();
+    if (job.total == null) job.total = await definition.countItems(job.params);
+    await updateJob(id, { started_at: job.started_at, total: job.total });
+
+    while (Date.now() < deadline) {
+      const items = await definition.listItems(
+        job.params,
+        job.last_item,
+        PAGE_SIZE,
+      );
+
+      if (items.length === 0) {
+        const finished: Partial<Job> = {
+          status: job.failed > 0 ? "failed" : "succeeded",
+          finished_at: new Date().toISOString(),
+          heartbeat_at: null,
+        };
+
+        await updateJob(id, finished);
+
+        return { ...job, ...finished };
+      }
+
+      for (
+        let i = 0;
+        i < items.length && Date.now() < deadline;
+        i += CONCURRENCY
+      ) {
+        const chunk = items.slice(i, i + CONCURRENCY);
+        const settled = await Promise.allSettled(
+          chunk.map((item) => definition.processItem(item, job.params)),
+        );
+        const failures = settled.flatMap((result, index) =>
+          result.status === "rejected"
+            ? [{ item: chunk[index], error: errorMessage(result.reason) }]
+            : [],
+        );
+
+        await recordItemErrors(id, failures);
+
+        job.processed += chunk.length;
+        job.failed += failures.length;
+        job.last_item = chunk[chunk.length - 1];
+        await updateJob(id, {
+          processed: job.processed,
+          failed: job.failed,
+          last_item: job.last_item,
+          heartbeat_at: new Date().toISOString(),
+        });
+      }
+    }
+
+    await updateJob(id, { status: "queued", heartbeat_at: null });
+
+    return { ...job, status: "queued", heartbeat_at: null };
+  } catch (e) {
+    console.error(`Job ${job.name} (${id}) failed:`, e);
+    const failed: Partial<Job> = {
+      status: "failed",
+      error: errorMessage(e),
+      finished_at: new Date().toISOString(),
+      heartbeat_at: null,
+    };
+
+    await updateJob(id, failed).catch((err) =>
+      console.error("Failed to record job failure:", err),
+    );
+
+    return { ...job, ...failed };
+  }
+}
+
+export async function enqueueJob(
+  name: string,
+  triggeredBy: string,
+  options: {
+    params?: Record<string, any>;
+    runKey?: string;
+    retryOf?: string;
+  } = {},
+): Promise<Job> {
+  const definition = getDefinition(name);
+  const { data, error } = await supabaseAdmin
+    .from("jobs")
+    .insert({
+      name,
+      params: options.params ?? definition.scheduled().params,
+      run_key: options.runKey ?? null,
+      retry_of: options.retryOf ?? null,
+      triggered_by: triggeredBy,
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+
+  return data as Job;
+}
+
+/**
+ * Scheduler tick: enqueue each job's run for the current period (once, by run
+ * key), then run queued and abandoned jobs oldest first until `deadline`.
+ */
+export async function runDueJobs(deadline: number): Promise<Job[]> {
+  for (const [name, definition] of Object.entries(JOBS)) {
+    const { runKey, params } = definition.scheduled();
+
+    try {
+      await enqueueJob(name, "cron", { runKey, params });
+    } catch (e: any) {
+      if (e?.code !== "23505") throw e; // already enqueued this period
+    }
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_HEARTBEAT_MS).toISOString();
+  const { data: due, error } = await supabaseAdmin
+    .from("jobs")
+    .select("id")
+    .or(
+      `status.eq.queued,and(status.eq.running,heartbeat_at.lt.${staleBefore})`,
+    )
+    .order("created_at", { ascending: true })
+    .limit(20);
+
+  if (error) throw error;
+
+  const ran: Job[] = [];
+
+  for (const { id } of due || []) {
+    if (Date.now() >= deadline) break;
+    const job = await runJob(id, deadline);
+
+    if (job) ran.push(job);
+  }
+
+  return ran;
+}
+
+/**
+ * Re-run a failed job as a new job. When only some items failed, the new run
+ * covers just those; when the run itself failed, it starts over (items are
+ * safe to process twice).
+ */
+export async function rerunJob(id: string, triggeredBy: string): Promise<Job> {
+  const { job, errors } = await getJob(id);
+
+  if (job.status !== "failed")
+    throw new JobError("Only failed jobs can be re-run", 409);
+
+  const params =
+    !job.error && errors.length > 0
+      ? { ...job.params, user_ids: errors.map((e) => e.item) }
+      : job.params;
+
+  return enqueueJob(job.name, triggeredBy, { params, retryOf: job.id });
+}
+
+export async function listJobs(limit = 50): Promise<Job[]> {
+  const { data, error } = await supabaseAdmin
+    .from("jobs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []) as Job[];
+}
+
+export async function getJob(
+  id: string,
+): Promise<{ job: Job; errors: JobItemError[] }> {
+  const [{ data: job, error }, { data: errors, error: errorsErr }] =
+    await Promise.all([
+      supabaseAdmin.from("jobs").select("*").eq("id", id).maybeSingle(),
+      supabaseAdmin
+        .from("job_errors")
+        .select("item, error, created_at")
+        .eq("job_id", id)
+        .order("item")
+        .limit(1000),
+    ]);
+
+  if (error) throw error;
+  if (errorsErr) throw errorsErr;
+  if (!job) throw new JobError("Job not found", 404);
+
+  return { job: job as Job, errors: (errors || []) as JobItemError[] };
+}
@@ -0,0 +1,45 @@
+import nodemailer, { type Transporter } from "nodemailer";
+
+// Same SMTP settings as the NextAuth Email provider (see lib/nextauth.ts)
+let transporter: Transporter | null = null;
+
+export function isMailConfigured(): boolean {
+  return Boolean(
+    process.env.EMAIL_FROM &&
+      (process.env.EMAIL_SERVER || process.env.EMAIL_SERVER_HOST),
+  );
+}
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    transporter = nodemailer.createTransport(
+      process.env.EMAIL_SERVER || {
+        host: process.env.EMAIL_SERVER_HOST,
+        port: process.env.EMAIL_SERVER_PORT
+          ? Number(process.env.EMAIL_SERVER_PORT)
+          : 587,
+        secure: process.env.EMAIL_SERVER_SECURE === "true",
+        auth: {
+          user: process.env.EMAIL_SERVER_USER,
+          pass: process.env.EMAIL_SERVER_PASSWORD,
+        },
+      },
+    );
+  }
+
+  return transporter;
+}
+
+// Returns false without sending when SMTP isn't configured, so callers can
+// fall back to handing the content to an admin.
+export async function sendMail(message: {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}): Promise<boolean> {
+  if (!isMailConfigured()) return false;
+  await getTransporter().sendMail({ from: process.env.EMAIL_FROM, ...message });
+
+  return true;
+}
@@ -0,0 +1,135 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { REPORTS_TZ } from "@/lib/utils";
+import { emitKpisUpdated } from "@/lib/webhooks";
+
+export interface DailyMetricsRow {
+  day: string; // YYYY-MM-DD
+  clicks: number;
+  signups: number;
+  customers: number;
+  earnings: number;
+}
+
+export interface MetricsDelta {
+  clicks?: number;
+  signups?: number;
+  customers?: number;
+  earnings?: number;
+}
+
+export interface MetricsTotals {
+  clicks: number;
+  referrals: number;
+  customers: number;
+  earnings: number;
+}
+
+export interface DayRange {
+  from?: string | null;
+  to?: string | null;
+}
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidDay(value: string | null | undefined): value is string {
+  return (
+    !!value &&
+    DAY_RE.test(value) &&
+    !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+  );
+}
+
+// YYYY-MM-DD for an instant, in the reporting timezone
+export function toReportDay(date: Date = new Date()): string {
+  return date.toLocaleDateString("en-CA", { timeZone: REPORTS_TZ });
+}
+
+// Add to a day's counters atomically (see increment_daily_metrics in supabase-schema.sql)
+// and queue a kpis.updated webhook
+export async function incrementDailyMetrics(
+  userId: string,
+  day: string,
+  delta: MetricsDelta,
+): Promise<void> {
+  const { error } = await supabaseAdmin.rpc("increment_daily_metrics", {
+    p_user_id: userId,
+    p_day: day,
+    p_clicks: delta.clicks ?? 0,
+    p_signups: delta.signups ?? 0,
+    p_customers: delta.customers ?? 0,
+    p_earnings: delta.earnings ?? 0,
+  });
+
+  if (error) throw error;
+  await emitKpisUpdated(userId, day);
+}
+
+export async function getDailyMetrics(
+  userId: string,
+  range: DayRange = {},
+): Promise<DailyMetricsRow[]> {
+  let query = supabaseAdmin
+    .from("daily_affiliate_metrics")
+    .select("day, clicks, signups, customers, earnings")
+    .eq("user_id", userId)
+    .order("day", { ascending: true });
+
+  if (range.from) query = query.gte("day", range.from);
+  if (range.to) query = query.lte("day", range.to);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map((row: any) => ({
+    day: row.day,
+    clicks: Number(row.clicks) || 0,
+    signups: Number(row.signups) || 0,
+    customers: Number(row.customers) || 0,
+    earnings: Number(row.earnings) || 0,
+  }));
+}
+
+export async function getMetricsTotals(
+  userId: string,
+  range: DayRange = {},
+): Promise<MetricsTotals> {
+  const { data, error } = await supabaseAdmin
+    .rpc("daily_metrics_totals", {
+      p_user_id: userId,
+      p_from: range.from || null,
+      p_to: range.to || null,
+    })
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const row = (data || {}) as any;
+
+  return {
+    clicks: Number(row.clicks) || 0,
+    referrals: Number(row.signups) || 0,
+    customers: Number(row.customers) || 0,
+    earnings: Number(row.earnings) || 0,
+  };
+}
+
+// Legacy user_reports.overview shape, still consumed by transformUserReports
+export function metricsToOverview(
+  rows: DailyMetricsRow[],
+): Record<
+  string,
+  { clicks: number; signups: number; customers: number; earnings: number }
+> {
+  return Object.fromEntries(
+    rows.map((row) => [
+      row.day,
+      {
+        clicks: row.clicks,
+        signups: row.signups,
+        customers: row.customers,
+        earnings: row.earnings,
+      },
+    ]),
+  );
+}
@@ -4,6 +4,33 @@ import CredentialsProvider from "next-auth/providers/credentials";
 import { SupabaseAdapter } from "@auth/supabase-adapter";
 import type { JWT } from "next-auth/jwt";
 import { createClient } from "@supabase/supabase-js";
+import { headers } from "next/headers";
+import { getClientIp } from "@/lib/request";
+import { createUserSession, revokeUserSession, SessionRequestInfo, touchUserSession } from "@/lib/sessions";
+import { getUserRoles } from "@/lib/user-roles";
+import { isTwoFactorEnabled, verifySecondFactor } from "@/lib/two-factor";
+
+// How long roles in the JWT are trusted before being re-read from user_roles
+const ROLE_REFRESH_MS = 5 * 60 * 1000;
+
+// How often the JWT callback re-checks that its user_sessions row wasn't revoked.
+// API routes check on every request (resolveUser); this ends the page session.
+const SESSION_CHECK_MS = 60 * 1000;
+
+// signIn("credentials") errors the /auth page reacts to: ask for the second
+// factor, or say the one given was wrong. Any other error is a failed sign-in.
+const TWO_FACTOR_REQUIRED = "TwoFactorRequired";
+const TWO_FACTOR_INVALID = "TwoFactorInvalid";
+
+// User agent and IP of the request being handled; empty outside a request
+async function requestInfo(): Promise<SessionRequestInfo> {
+  try {
+    const h = await headers();
+    return { userAgent: h.get("user-agent"), ip: getClientIp({ headers: h }) };
+  } catch {
+    return { userAgent: null, ip: null };
+  }
+}
 
 export const authOptions: AuthOptions = {
   adapter: SupabaseAdapter({
@@ -16,6 +43,7 @@ export const authOptions: AuthOptions = {
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        code: { label: "Authentication code", type: "text" },
       },
       async authorize(credentials) {
         const email = credentials?.email?.toLowerCase().trim();
@@ -53,6 +81,15 @@ export const authOptions: AuthOptions = {
           return null;
         }
 
+        // Second step: no JWT until the app or recovery code checks out. The
+        // password is checked again with the code, so step one grants nothing.
+        if (await isTwoFactorEnabled(data.user.id)) {
+          const code = credentials?.code?.trim();
+          if (!code) throw new Error(TWO_FACTOR_REQUIRED);
+          // verifySecondFactor throws with a message once attempts are rate limited
+          if (!(await verifySecondFactor(data.user.id, code))) throw new Error(TWO_FACTOR_INVALID);
+        }
+
         // Return user object for JWT session
         return {
           id: data.user.id,
@@ -85,13 +122,77 @@ export const authOptions: AuthOptions = {
   session: { strategy: "jwt" },
   secret: process.env.NEXTAUTH_SECRET,
   callbacks: {
+    // Email links skip the password and the second step, so accounts with 2FA can't use them
+    async signIn({ user, account }) {
+      if (account?.provider !== "email" || !user?.id) return true;
+      try {
+        return (await isTwoFactorEnabled(user.id)) ? "/auth?error=two-factor" : true;
+      } catch (e) {
+        console.error("Two-factor check failed:", e);
+        return false;
+      }
+    },
+    async jwt({ token, user }) {
+      // New sign-in: list this device. A session that can't be recorded can't be
+      // revoked either, so the sign-in fails instead.
+      if (token.sub && user) {
+        try {
+          token.sid = await createUserSession(token.sub, await requestInfo());
+        } catch (e) {
+          console.error("Failed to record session:", e);
+          throw new Error("Failed to record session");
+        }
+        token.session_checked_at = Date.now();
+      } else if (token.sub && !token.sid) {
+        // A JWT from before sessions were recorded: sign in again
+        throw new Error("Session not recorded");
+      } else if (
+        token.sid &&
+        (!token.session_checked_at || Date.now() - (token.session_checked_at as number) > SESSION_CHECK_MS)
+      ) {
+        // Fails closed like resolveUser: a session that can't be checked isn't extended
+        let active = false;
+        try {
+          active = await touchUserSession(token.sid as string, (await requestInfo()).ip);
+        } catch (e) {
+          console.error("Session check failed:", e);
+        }
+        // NextAuth answers a throw here by clearing the session cookie
+        if (!active) throw new Error("Session revoked");
+        token.session_checked_at = Date.now();
+      }
+
+      const stale = !token.roles_checked_at || Date.now() - (token.roles_checked_at as number) > ROLE_REFRESH_MS;
+      if (token.sub && (user || stale)) {
+        try {
+          token.roles = await getUserRoles(token.sub);
+          token.roles_checked_at = Date.now();
+        } catch (e) {
+          console.error("Failed to load user roles:", e);
+        }
+      }
+      return token;
+    },
     async session({ session, token }: { session: Session; token: JWT }) {
       if (session.user) {
         (session.user as any).id = token.sub ?? undefined;
+        (session.user as any).roles = token.roles ?? ["affiliate"];
+        (session.user as any).sid = token.sid ?? undefined;
       }
       return session;
     },
   },
+  events: {
+    // Signing out ends the listed session too, so the JWT can't be replayed
+    async signOut({ token }) {
+      if (!token?.sub || !token.sid) return;
+      try {
+        await revokeUserSession(token.sub, token.sid as string);
+      } catch (e) {
+        console.error("Failed to revoke session:", e);
+      }
+    },
+  },
   logger: {
     error: (...args: unknown[]) => console.error("[NextAuth Error]", ...args),
     warn: (...args: unknown[]) => console.warn("[NextAuth Warn]", ...args),
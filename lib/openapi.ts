@@ -0,0 +1,180 @@
+import { z } from "zod";
+
+import {
+  API_V1,
+  ApiV1Operation,
+  apiV1Components,
+  ErrorSchema,
+  PageMetaSchema,
+} from "@/lib/api-v1-schemas";
+import { SCOPES } from "@/lib/scopes";
+
+const ref = (schema: z.ZodType) => {
+  const meta = apiV1Components.get(schema);
+
+  if (!meta)
+    throw new Error(
+      "/api/v1 bodies and responses must be registered components",
+    );
+
+  return { $ref: `#/components/schemas/${meta.id}` };
+};
+
+// Standalone JSON Schema for a parameter (no $schema/$id noise)
+function inlineSchema(schema: z.ZodType) {
+  const json = z.toJSONSchema(schema, { io: "input" }) as Record<
+    string,
+    unknown
+  >;
+
+  delete json.$schema;
+  delete json.$id;
+
+  return json;
+}
+
+function parameters(shape: z.ZodType | undefined, location: "path" | "query") {
+  if (!(shape instanceof z.ZodObject)) return [];
+
+  return Object.entries(shape.shape as Record<string, z.ZodType>).map(
+    ([name, schema]) => {
+      const { description, ...json } = inlineSchema(schema);
+
+      return {
+        name,
+        in: location,
+        required: location === "path" || !schema.isOptional(),
+        ...(description ? { description } : {}),
+        schema: json,
+      };
+    },
+  );
+}
+
+function successBody(op: ApiV1Operation) {
+  if (!op.list) {
+    return {
+      type: "object",
+      required: ["data"],
+      properties: { data: ref(op.response) },
+    };
+  }
+
+  return {
+    type: "object",
+    required: ["data", "meta"],
+    properties: {
+      data: { type: "array", items: ref(op.response) },
+      meta: ref(PageMetaSchema),
+    },
+  };
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: ref(ErrorSchema) } },
+});
+
+function buildOperation(op: ApiV1Operation) {
+  const responses: Record<string, unknown> = {
+    [String(op.status ?? 200)]: {
+      description: "OK",
+      content: { "application/json": { schema: successBody(op) } },
+    },
+    "400": errorResponse("validation_failed"),
+    "401": errorResponse("unauthorized"),
+    "403": errorResponse("forbidden: missing role or token scope"),
+    "429": errorResponse("rate_limited; see the Retry-After header"),
+    "500": errorResponse("internal"),
+  };
+
+  if (op.params) responses["404"] = errorResponse("not_found");
+  if (op.method === "post") responses["409"] = errorResponse("conflict");
+
+  return {
+    operationId: op.operationId,
+    summary: op.summary,
+    tags: [op.tag],
+    description: op.roles
+      ? `Roles: ${op.roles.join(", ")} (admin always passes). Token scope: ${op.scope}.`
+      : `Token scope: ${op.scope}.`,
+    security: [{ personalAccessToken: [op.scope] }, { session: [] }],
+    parameters: [
+      ...parameters(op.params, "path"),
+      ...parameters(op.query, "query"),
+    ],
+    ...(op.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: ref(op.body) } },
+          },
+        }
+      : {}),
+    responses,
+  };
+}
+
+/**
+ * The OpenAPI 3.1 document for /api/v1, generated from the same zod schemas
+ * the handlers validate with. Served at /api/v1/openapi.json.
+ */
+export function buildOpenApiDocument(serverUrl?: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const op of Object.values(API_V1) as ApiV1Operation[]) {
+    paths[op.path] = { ...paths[op.path], [op.method]: buildOperation(op) };
+  }
+
+  const { schemas } = z.toJSONSchema(apiV1Components, {
+    uri: (id) => `#/components/schemas/${id}`,
+    io: "output",
+  }) as { schemas: Record<string, Record<string, unknown>> };
+
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "VX Affiliate API",
+      version: "1.0.0",
+      description:
+        "Successful responses are `{ data, meta? }`; errors are `{ error: { code, message, details? } }`. " +
+        "List endpoints are cursor-paginated: pass `meta.next_cursor` back as `?cursor=` until it is null.",
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    tags: [
+      {
+        name: "Me",
+        description: "The signed-in affiliate (or the owner of the token)",
+      },
+      {
+        name: "Admin",
+        description: "Staff endpoints; tokens also need the admin:* scope",
+      },
+    ],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        personalAccessToken: {
+          type: "http",
+          scheme: "bearer",
+          description:
+            "A personal access token (pat_…) from Settings. The listed role is the scope it needs: " +
+            SCOPES.map((s) => s.scope).join(", "),
+        },
+        session: {
+          type: "apiKey",
+          in: "cookie",
+          name: "next-auth.session-token",
+          description:
+            "The dashboard's session cookie (__Secure- prefixed over https)",
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,198 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { CommissionLineItem } from "@/lib/commissions";
+
+export type PayoutStatus = "pending" | "held" | "paid" | "cancelled";
+
+export const PAYOUT_STATUSES: PayoutStatus[] = [
+  "pending",
+  "held",
+  "paid",
+  "cancelled",
+];
+
+export interface Payout {
+  id: string;
+  user_id: string;
+  period_start: string;
+  period_end: string;
+  amount: number;
+  status: PayoutStatus;
+  method: string | null;
+  reference: string | null;
+  notes: string | null;
+  paid_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface PayoutBalance {
+  earned: number; // all line items
+  paid: number;
+  pending: number;
+  held: number;
+  unbatched: number; // line items not in any payout yet
+  owed: number; // earned - paid
+}
+
+// Allowed status changes; paid and cancelled are final
+const TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+  pending: ["held", "paid", "cancelled"],
+  held: ["pending", "paid", "cancelled"],
+  paid: [],
+  cancelled: [],
+};
+
+export function canTransitionPayout(
+  from: PayoutStatus,
+  to: PayoutStatus,
+): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+const normalizePayout = (row: any): Payout => ({
+  ...row,
+  amount: Number(row.amount) || 0,
+});
+
+// Postgres no_data_found, raised by create_payout / cancel_payout
+export const isNoDataError = (error: any): boolean => error?.code === "P0002";
+
+export async function createPayout(input: {
+  user_id: string;
+  period_start: string;
+  period_end: string;
+  status?: "pending" | "held";
+  method?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+}): Promise<Payout> {
+  const { data, error } = await supabaseAdmin
+    .rpc("create_payout", {
+      p_user_id: input.user_id,
+      p_from: input.period_start,
+      p_to: input.period_end,
+      p_status: input.status || "pending",
+      p_method: input.method || null,
+      p_notes: input.notes || null,
+      p_created_by: input.created_by || null,
+    })
+    .single();
+
+  if (error) throw error;
+
+  return normalizePayout(data);
+}
+
+export async function cancelPayout(id: string): Promise<Payout> {
+  const { data, error } = await supabaseAdmin
+    .rpc("cancel_payout", { p_payout_id: id })
+    .single();
+
+  if (error) throw error;
+
+  return normalizePayout(data);
+}
+
+export async function getPayout(id: string): Promise<Payout | null> {
+  const { data, error } = await supabaseAdmin
+    .from("payouts")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? normalizePayout(data) : null;
+}
+
+export async function getPayouts(
+  filter: { user_id?: string | null; status?: string | null } = {},
+): Promise<Payout[]> {
+  let query = supabaseAdmin
+    .from("payouts")
+    .select("*")
+    .order("period_end", { ascending: false })
+    .order("created_at", { ascending: false });
+
+  if (filter.user_id) query = query.eq("user_id", filter.user_id);
+  if (filter.status) query = query.eq("status", filter.status);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(normalizePayout);
+}
+
+export async function getPayoutBalance(userId: string): Promise<PayoutBalance> {
+  const { data, error } = await supabaseAdmin
+    .rpc("payout_balance", { p_user_id: userId })
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const row = (data || {}) as any;
+  const earned = Number(row.earned) || 0;
+  const paid = Number(row.paid) || 0;
+
+  return {
+    earned,
+    paid,
+    pending: Number(row.pending) || 0,
+    held: Number(row.held) || 0,
+    unbatched: Number(row.unbatched) || 0,
+    owed: Math.round((earned - paid) * 100) / 100,
+  };
+}
+
+export async function getPayoutLineItems(
+  payoutId: string,
+): Promise<CommissionLineItem[]> {
+  const { data, error } = await supabaseAdmin
+    .from("commission_line_items")
+    .select("*")
+    .eq("payout_id", payoutId)
+    .order("day", { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map((row: any) => ({
+    ...row,
+    revenue: row.revenue === null ? null : Number(row.revenue),
+    rate: row.rate === null ? null : Number(row.rate),
+    amount: Number(row.amount) || 0,
+  }));
+}
+
+const csvCell = (value: unknown): string =>
+  `"${String(value ?? "").replace(/"/g, '""')}"`;
+
+// Per-payout statement: header block, then one row per line item
+export function buildPayoutStatementCsv(
+  payout: Payout,
+  items: CommissionLineItem[],
+): string {
+  const header = [
+    ["Payout", payout.id],
+    ["Period", `${payout.period_start} to ${payout.period_end}`],
+    ["Status", payout.status],
+    ["Method", payout.method || ""],
+    ["Reference", payout.reference || ""],
+    ["Paid at", payout.paid_at || ""],
+    ["Amount", payout.amount.toFixed(2)],
+  ];
+  const rows = items.map((item) => [
+    item.day,
+    item.event_type,
+    item.description || "",
+    item.revenue === null ? "" : item.revenue.toFixed(2),
+    item.amount.toFixed(2),
+  ]);
+
+  return [
+    ...header.map((row) => row.map(csvCell).join(",")),
+    "",
+    ["Date", "Type", "Description", "Revenue", "Amount"].map(csvCell).join(","),
+    ...rows.map((row) => row.map(csvCell).join(",")),
+  ].join("\n");
+}
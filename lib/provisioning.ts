@@ -0,0 +1,427 @@
+import type { User } from "@supabase/supabase-js";
+
+import { randomBytes } from "crypto";
+
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { isReferralCodeAvailable } from "@/lib/referrers";
+
+export type UserData = {
+  full_name?: string;
+  first_name?: string;
+  last_name?: string;
+  user_aryeo_id?: string;
+  avatar_url?: string;
+  picture?: string;
+  notes?: string;
+  // keep accepting any extra props callers have been sending historically
+  [k: string]: any;
+};
+
+export interface ProvisionInput {
+  email: string;
+  // Omit to create the account with an unguessable password; the affiliate
+  // then sets their own through an invite link.
+  password?: string;
+  userData?: UserData;
+  // Recorded on approved_users.approved_by
+  approvedBy?: string;
+  // Normalized custom primary code; one is generated when omitted
+  referralCode?: string;
+  // Makes the call safe to retry: a key that already succeeded returns its
+  // original result instead of provisioning again
+  idempotencyKey?: string;
+}
+
+export interface ProvisionResult {
+  user: User;
+  referralCode: string;
+  // True when an idempotency key that already succeeded returned its stored
+  // result; nothing was provisioned by this call
+  replayed?: boolean;
+}
+
+// Thrown when provisioning stops; `details` is merged into the JSON error body
+export class ProvisioningError extends Error {
+  constructor(
+    message: string,
+    public status = 500,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+  }
+}
+
+// Transient database failures worth another attempt: serialization failure,
+// deadlock, connection errors and PostgREST/gateway 5xx (no SQLSTATE)
+const RETRYABLE_CODES = new Set([
+  "40001",
+  "40P01",
+  "08000",
+  "08003",
+  "08006",
+  "57P01",
+]);
+const MAX_ATTEMPTS = 3;
+
+// An in-progress key older than this is treated as abandoned (crashed request)
+const STALE_REQUEST_MS = 5 * 60 * 1000;
+
+const IDEMPOTENCY_KEY_RE = /^[A-Za-z0-9:_-]{8,200}$/;
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return IDEMPOTENCY_KEY_RE.test(key);
+}
+
+function parseNames(ud?: UserData): { firstName: string; lastName: string } {
+  const full = (ud?.full_name || "").trim();
+  const first = (ud?.first_name || "").trim();
+  const last = (ud?.last_name || "").trim();
+
+  if (first && last) return { firstName: first, lastName: last };
+  if (first && !last) {
+    // pull a last name from full_name if we can
+    if (full.includes(" ")) {
+      const parts = full.split(/\s+/);
+
+      return { firstName: first, lastName: parts.slice(1).join(" ") || "Name" };
+    }
+
+    return { firstName: first, lastName: "Name" };
+  }
+  if (!first && full) {
+    const parts = full.split(/\s+/);
+
+    return {
+      firstName: parts[0] || "User",
+      lastName: parts.slice(1).join(" ") || "Name",
+    };
+  }
+
+  // ultimate fallback
+  return { firstName: "User", lastName: "Name" };
+}
+
+function generateReferralCode(): string {
+  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  let result = "";
+
+  for (let i = 0; i < 8; i++)
+    result += chars.charAt(Math.floor(Math.random() * chars.length));
+
+  return result;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryable = (error: any) =>
+  !error?.code || RETRYABLE_CODES.has(error.code);
+
+// Exact duplicate check: Supabase Auth users by email (find_auth_user_id reads
+// auth.users), plus approvals that outlived their auth user
+async function assertEmailUnused(email: string): Promise<void> {
+  const [
+    { data: authUserId, error: authErr },
+    { data: approvals, error: approvalErr },
+  ] = await Promise.all([
+    supabaseAdmin.rpc("find_auth_user_id", { p_email: email }),
+    supabaseAdmin
+      .from("approved_users")
+      .select("user_id")
+      .eq("user_email", email)
+      .neq("status", "offboarded")
+      .limit(1),
+  ]);
+
+  if (authErr) throw authErr;
+  if (approvalErr) throw approvalErr;
+  if (authUserId || (approvals && approvals.length > 0))
+    throw new ProvisioningError("User already exists", 409);
+}
+
+// What an earlier request under the same key got done: its stored result if it
+// succeeded, otherwise the auth user it created before it failed or crashed
+interface ClaimedRequest {
+  result?: ProvisionResult;
+  authUserId?: string | null;
+}
+
+// Claim `key` for this request. Returns the stored result when the key already
+// succeeded; throws 409 while another request holds it.
+async function beginRequest(
+  key: string,
+  email: string,
+  requestedBy: string,
+): Promise<ClaimedRequest> {
+  const { error } = await supabaseAdmin
+    .from("provisioning_requests")
+    .insert({ idempotency_key: key, email, requested_by: requestedBy });
+
+  if (!error) return {};
+  if (error.code !== "23505") throw error;
+
+  const { data: existing, error: fetchErr } = await supabaseAdmin
+    .from("provisioning_requests")
+    .select("email, status, result, user_id")
+    .eq("idempotency_key", key)
+    .single();
+
+  if (fetchErr) throw fetchErr;
+  if (existing.email !== email) {
+    throw new ProvisioningError(
+      "This idempotency key was already used for a different email",
+      422,
+    );
+  }
+  if (existing.status === "succeeded")
+    return {
+      result: { ...(existing.result as ProvisionResult), replayed: true },
+    };
+
+  const staleBefore = new Date(Date.now() - STALE_REQUEST_MS).toISOString();
+  const { data: claimed, error: claimErr } = await supabaseAdmin
+    .from("provisioning_requests")
+    .update({
+      status: "in_progress",
+      error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("idempotency_key", key)
+    .or(`status.eq.failed,updated_at.lt.${staleBefore}`)
+    .select("idempotency_key")
+    .maybeSingle();
+
+  if (claimErr) throw claimErr;
+  if (!claimed)
+    throw new ProvisioningError("This request is already being processed", 409);
+
+  return { authUserId: existing.user_id };
+}
+
+// Saga log: the auth user exists, so a retry after a crash can finish it
+// instead of failing on the email it now holds
+async function recordAuthUser(key: string, userId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("provisioning_requests")
+    .update({ user_id: userId, updated_at: new Date().toISOString() })
+    .eq("idempotency_key", key);
+
+  if (error) throw error;
+}
+
+async function finishRequest(
+  key: string,
+  outcome: { result: ProvisionResult } | { error: string },
+) {
+  const update =
+    "result" in outcome
+      ? {
+          status: "succeeded",
+          result: outcome.result,
+          user_id: outcome.result.user.id,
+          error: null,
+        }
+      : { status: "failed", error: outcome.error };
+  const { error } = await supabaseAdmin
+    .from("provisioning_requests")
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq("idempotency_key", key);
+
+  if (error) console.error("Failed to record provisioning outcome:", error);
+}
+
+// Step 1 of the saga: the Supabase Auth user (outside any Postgres transaction)
+async function createAuthUser(
+  email: string,
+  password: string,
+  userData: UserData | undefined,
+  names: ReturnType<typeof parseNames>,
+) {
+  const { data, error } = await supabaseAdmin.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+    user_metadata: {
+      ...userData,
+      // ensure metadata also has the normalized names
+      first_name: names.firstName,
+      last_name: names.lastName,
+    },
+  });
+
+  if (error) {
+    if (
+      (error as any)?.message?.toLowerCase?.().includes("already registered")
+    ) {
+      throw new ProvisioningError("User already exists", 409);
+    }
+    console.error("Error creating user:", error);
+    throw new ProvisioningError(error.message);
+  }
+
+  return data.user;
+}
+
+// Step 2: every table row in one transaction (provision_affiliate). Generated
+// codes that collide are replaced; transient failures are retried with backoff.
+async function writeAffiliateRows(
+  user: User,
+  input: ProvisionInput,
+  names: ReturnType<typeof parseNames>,
+): Promise<string> {
+  let referralCode = input.referralCode || generateReferralCode();
+  let lastErr: any = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const { data, error } = await supabaseAdmin.rpc("provision_affiliate", {
+      p_user_id: user.id,
+      p_email: user.email || input.email,
+      p_first_name: names.firstName,
+      p_last_name: names.lastName,
+      p_referral_code: referralCode,
+      p_user_aryeo_id: input.userData?.user_aryeo_id || null,
+      p_avatar_url:
+        input.userData?.avatar_url || input.userData?.picture || null,
+      p_notes: input.userData?.notes ?? "Created via admin interface",
+      p_approved_by: input.approvedBy || "admin",
+    });
+
+    if (!error) return (data as string) || referralCode;
+
+    lastErr = error;
+    if (error.code === "23505") {
+      if (input.referralCode)
+        throw new ProvisioningError("Referral code is already taken", 409);
+      referralCode = generateReferralCode();
+    } else if (isRetryable(error)) {
+      await sleep(250 * attempt);
+    } else {
+      break;
+    }
+  }
+
+  console.error("Error writing affiliate rows:", lastErr);
+  throw new ProvisioningError("Failed to provision user", 500, {
+    code: lastErr?.code,
+    details: lastErr?.message,
+  });
+}
+
+// Compensation for step 2: the transaction left no rows, so removing the auth user undoes the attempt
+async function deleteAuthUser(userId: string): Promise<void> {
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const { error } = await supabaseAdmin.auth.admin.deleteUser(userId);
+
+    if (!error || error.status === 404) return;
+    if (attempt === MAX_ATTEMPTS) {
+      console.error(
+        `Provisioning rollback failed; auth user ${userId} is orphaned:`,
+        error,
+      );
+
+      return;
+    }
+    await sleep(250 * attempt);
+  }
+}
+
+// The auth user an interrupted attempt under the same key created, and its
+// primary code if step 2 committed before the crash. Null when it was rolled
+// back (or removed since), so the retry starts over.
+async function findInterruptedUser(
+  userId: string,
+): Promise<{ user: User; referralCode: string | null } | null> {
+  const { data, error } = await supabaseAdmin.auth.admin.getUserById(userId);
+
+  if (error) {
+    if (error.status === 404) return null;
+    throw error;
+  }
+  const { data: referrer, error: referrerErr } = await supabaseAdmin
+    .from("affiliate_referrers")
+    .select("code")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (referrerErr) throw referrerErr;
+
+  return { user: data.user, referralCode: referrer?.code ?? null };
+}
+
+async function provision(
+  input: ProvisionInput,
+  email: string,
+  claimed: ClaimedRequest,
+): Promise<ProvisionResult> {
+  const names = parseNames(input.userData);
+  const interrupted = claimed.authUserId
+    ? await findInterruptedUser(claimed.authUserId)
+    : null;
+
+  if (interrupted?.referralCode)
+    return { user: interrupted.user, referralCode: interrupted.referralCode };
+
+  let user: User;
+
+  if (interrupted) {
+    // Resume at step 2; the auth user keeps the password it was created with
+    user = interrupted.user;
+  } else {
+    await assertEmailUnused(email);
+    if (
+      input.referralCode &&
+      !(await isReferralCodeAvailable(input.referralCode, ""))
+    ) {
+      throw new ProvisioningError("Referral code is already taken", 409);
+    }
+    const password = input.password || randomBytes(24).toString("base64url");
+
+    user = await createAuthUser(email, password, input.userData, names);
+  }
+
+  try {
+    if (input.idempotencyKey)
+      await recordAuthUser(input.idempotencyKey, user.id);
+    const referralCode = await writeAffiliateRows(user, input, names);
+
+    console.log("Successfully created user with all required records:", {
+      userId: user.id,
+      email,
+    });
+
+    return { user, referralCode };
+  } catch (e) {
+    await deleteAuthUser(user.id);
+    throw e;
+  }
+}
+
+// Create an affiliate as a two-step saga: the Supabase Auth user, then all of
+// their rows in a single Postgres transaction. If the second step fails the
+// auth user is deleted again, so the call either fully succeeds or leaves
+// nothing behind. With an idempotency key the auth user's id is logged on the
+// request, so a retry after a crash between the steps resumes with that user.
+// Used by admin create-user, application approval and CSV import.
+export async function provisionAffiliate(
+  input: ProvisionInput,
+): Promise<ProvisionResult> {
+  const email = input.email.trim().toLowerCase();
+  const key = input.idempotencyKey;
+
+  const claimed = key
+    ? await beginRequest(key, email, input.approvedBy || "admin")
+    : {};
+
+  if (claimed.result) return claimed.result;
+
+  try {
+    const result = await provision(input, email, claimed);
+
+    if (key) await finishRequest(key, { result });
+
+    return result;
+  } catch (e: any) {
+    if (key)
+      await finishRequest(key, { error: e?.message || "Provisioning failed" });
+    throw e;
+  }
+}
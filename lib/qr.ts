@@ -0,0 +1,100 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import QRCode from "qrcode";
+import sharp from "sharp";
+
+export type QrFormat = "png" | "svg";
+
+export const QR_FORMATS: QrFormat[] = ["png", "svg"];
+
+// Pixel width/height of the rendered code
+export const QR_DEFAULT_SIZE = 512;
+export const QR_MIN_SIZE = 128;
+export const QR_MAX_SIZE = 2048;
+
+// Share of the code's width the centre logo may cover. Error correction H
+// recovers up to ~30% damaged modules, so this leaves a safe margin.
+const LOGO_RATIO = 0.22;
+
+const LOGO_PATH = path.join(process.cwd(), "public", "vx_icon.png");
+
+let logoDataUri: Promise<string> | null = null;
+
+// The brand icon is 2000px; shrink it once per instance before inlining it
+function getLogoDataUri(): Promise<string> {
+  if (!logoDataUri) {
+    logoDataUri = fs
+      .readFile(LOGO_PATH)
+      .then((file) =>
+        sharp(file)
+          .resize(256, 256, { fit: "contain", background: "#ffffff00" })
+          .png()
+          .toBuffer(),
+      )
+      .then((png) => `data:image/png;base64,${png.toString("base64")}`)
+      .catch((e) => {
+        logoDataUri = null;
+        throw e;
+      });
+  }
+
+  return logoDataUri;
+}
+
+// Centre the logo (white on transparent) on a dark tile, in the SVG's module coordinates
+async function embedLogo(svg: string): Promise<string> {
+  const viewBox = /viewBox="0 0 (\d+(?:\.\d+)?) (\d+(?:\.\d+)?)"/.exec(svg);
+
+  if (!viewBox) return svg;
+
+  const width = Number(viewBox[1]);
+  const tile = width * LOGO_RATIO;
+  const offset = (width - tile) / 2;
+  const pad = tile * 0.1;
+  const logo = await getLogoDataUri();
+
+  const overlay =
+    `<rect x="${offset}" y="${offset}" width="${tile}" height="${tile}" rx="${tile * 0.15}" fill="#000000"/>` +
+    `<image href="${logo}" x="${offset + pad}" y="${offset + pad}" width="${tile - 2 * pad}" height="${tile - 2 * pad}"/>`;
+
+  return svg.replace(/<\/svg>\s*$/, `${overlay}</svg>`);
+}
+
+export function parseQrSize(raw: string | null): number | null {
+  if (!raw) return QR_DEFAULT_SIZE;
+  const size = Number(raw);
+
+  if (!Number.isInteger(size) || size < QR_MIN_SIZE || size > QR_MAX_SIZE)
+    return null;
+
+  return size;
+}
+
+// Render `url` as a QR code. PNGs are rasterised from the same SVG so both
+// formats look identical, logo included.
+export async function renderQrCode(
+  url: string,
+  options: { format: QrFormat; size: number; logo: boolean },
+): Promise<{ body: Buffer | string; contentType: string }> {
+  let svg = await QRCode.toString(url, {
+    type: "svg",
+    errorCorrectionLevel: options.logo ? "H" : "M",
+    margin: 2,
+    width: options.size,
+    color: { dark: "#000000", light: "#ffffff" },
+  });
+
+  if (options.logo) svg = await embedLogo(svg);
+
+  if (options.format === "svg") {
+    return { body: svg, contentType: "image/svg+xml" };
+  }
+
+  const png = await sharp(Buffer.from(svg))
+    .resize(options.size, options.size)
+    .png()
+    .toBuffer();
+
+  return { body: png, contentType: "image/png" };
+}
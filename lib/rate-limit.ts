@@ -0,0 +1,173 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+// Route groups with their own budget. `by: "ip"` buckets are for
+// unauthenticated routes; the others are keyed by the caller (PAT, then user,
+// then IP). Override one with RATE_LIMIT_<GROUP>="<limit>/<windowSeconds>",
+// e.g. RATE_LIMIT_ME="300/60".
+export type RateLimitGroup =
+  | "me"
+  | "admin"
+  | "auth"
+  | "auth_email"
+  | "two_factor"
+  | "public";
+
+export interface RateLimitBucket {
+  limit: number;
+  windowSeconds: number;
+  by?: "ip";
+}
+
+const DEFAULT_BUCKETS: Record<RateLimitGroup, RateLimitBucket> = {
+  me: { limit: 120, windowSeconds: 60 },
+  admin: { limit: 60, windowSeconds: 60 },
+  auth: { limit: 10, windowSeconds: 15 * 60, by: "ip" },
+  // Per address, so one inbox can't be flooded from many IPs
+  auth_email: { limit: 3, windowSeconds: 60 * 60 },
+  // Per user, for second-factor codes (lib/two-factor.ts)
+  two_factor: { limit: 5, windowSeconds: 15 * 60 },
+  public: { limit: 10, windowSeconds: 60 * 60, by: "ip" },
+};
+
+export function getRateLimitBucket(group: RateLimitGroup): RateLimitBucket {
+  const bucket = DEFAULT_BUCKETS[group];
+  const override =
+    process.env[`RATE_LIMIT_${group.toUpperCase()}`]?.match(/^(\d+)\/(\d+)$/);
+
+  if (!override) return bucket;
+
+  return {
+    ...bucket,
+    limit: Number(override[1]),
+    windowSeconds: Math.max(1, Number(override[2])),
+  };
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // until the window resets
+  windowSeconds: number;
+}
+
+// Counts hits per key in fixed windows
+export interface RateLimitStore {
+  hit(
+    key: string,
+    windowSeconds: number,
+  ): Promise<{ count: number; resetAt: number }>;
+}
+
+// Per-process counters: for tests and local development. Each serverless
+// instance would count separately, so production uses Postgres.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  async hit(key: string, windowSeconds: number) {
+    const now = Date.now();
+
+    if (this.windows.size > 10_000) {
+      this.windows.forEach((w, k) => {
+        if (w.resetAt <= now) this.windows.delete(k);
+      });
+    }
+    const current = this.windows.get(key);
+    const window =
+      current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowSeconds * 1000 };
+
+    this.windows.set(key, window);
+
+    return window;
+  }
+}
+
+// Shared counters in the rate_limits table; rate_limit_hit counts atomically
+export class PostgresRateLimitStore implements RateLimitStore {
+  async hit(key: string, windowSeconds: number) {
+    const { data, error } = await supabaseAdmin
+      .rpc("rate_limit_hit", { p_key: key, p_window_seconds: windowSeconds })
+      .single();
+
+    if (error) throw error;
+    const row = data as { hit_count: number; reset_at: string };
+
+    return { count: row.hit_count, resetAt: new Date(row.reset_at).getTime() };
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE=memory|postgres; defaults to postgres in production
+function getStore(): RateLimitStore {
+  if (!store) {
+    const kind =
+      process.env.RATE_LIMIT_STORE ||
+      (process.env.NODE_ENV === "production" ? "postgres" : "memory");
+
+    store =
+      kind === "postgres"
+        ? new PostgresRateLimitStore()
+        : new MemoryRateLimitStore();
+  }
+
+  return store;
+}
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+/**
+ * Count one request for `key` in `group`'s bucket. If the store is down the
+ * request is allowed (and logged): throttling shouldn't take the API with it.
+ */
+export async function checkRateLimit(
+  group: RateLimitGroup,
+  key: string,
+): Promise<RateLimitResult> {
+  const { limit, windowSeconds } = getRateLimitBucket(group);
+
+  try {
+    const { count, resetAt } = await getStore().hit(
+      `${group}:${key}`,
+      windowSeconds,
+    );
+
+    return {
+      allowed: count <= limit,
+      limit,
+      remaining: Math.max(0, limit - count),
+      resetSeconds: Math.max(0, Math.ceil((resetAt - Date.now()) / 1000)),
+      windowSeconds,
+    };
+  } catch (e) {
+    console.error("Rate limit check failed:", e);
+
+    return {
+      allowed: true,
+      limit,
+      remaining: limit,
+      resetSeconds: windowSeconds,
+      windowSeconds,
+    };
+  }
+}
+
+// IETF RateLimit header fields, plus Retry-After once the limit is hit
+export function rateLimitHeaders(
+  result: RateLimitResult,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.resetSeconds),
+    "RateLimit-Policy": `${result.limit};w=${result.windowSeconds}`,
+  };
+
+  if (!result.allowed) headers["Retry-After"] = String(result.resetSeconds);
+
+  return headers;
+}
@@ -16,6 +16,16 @@ export const subscribeToUserKpis = (
       },
       () => onChange()
     )
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'daily_affiliate_metrics',
+        filter: `user_id=eq.${userId}`,
+      },
+      () => onChange()
+    )
     .subscribe();
 
   return () => {
@@ -0,0 +1,213 @@
+import crypto from "crypto";
+
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  claimReferralCode,
+  isReferralCodeAvailable,
+  normalizeReferralCode,
+} from "@/lib/referrers";
+
+export interface ReferralLink {
+  id: string;
+  user_id: string;
+  name: string;
+  code: string;
+  destination_url: string | null; // null = REFERRAL_LANDING_URL
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReferralLinkInput {
+  name?: string;
+  code?: string;
+  destination_url?: string | null;
+  active?: boolean;
+}
+
+// Each affiliate can own this many named links besides their primary code
+export const MAX_REFERRAL_LINKS = 25;
+
+// Destinations must stay on our own sites so /r/ can't become an open redirect.
+// REFERRAL_DESTINATION_HOSTS is a comma-separated list; subdomains are allowed.
+const DESTINATION_HOSTS = (
+  process.env.REFERRAL_DESTINATION_HOSTS || "virtualxposure.com"
+)
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+export function isAllowedDestination(raw: string): boolean {
+  let url: URL;
+
+  try {
+    url = new URL(raw);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return false;
+  const host = url.hostname.toLowerCase();
+
+  return DESTINATION_HOSTS.some(
+    (allowed) => host === allowed || host.endsWith(`.${allowed}`),
+  );
+}
+
+// Thrown for input the user can fix (bad code, taken code, too many links)
+export class ReferralLinkError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+export function parseReferralLinkInput(
+  body: any,
+  partial = false,
+): { value?: ReferralLinkInput; error?: string } {
+  const value: ReferralLinkInput = {};
+
+  if (body?.name !== undefined || !partial) {
+    const name = String(body?.name || "").trim();
+
+    if (!name || name.length > 80)
+      return { error: "name is required (max 80 chars)" };
+    value.name = name;
+  }
+  if (body?.code !== undefined && body.code !== null && body.code !== "") {
+    const code = normalizeReferralCode(body.code);
+
+    if (code.length < 3 || code.length > 32) {
+      return { error: "code must be 3-32 chars (a-z, 0-9, _ or -)" };
+    }
+    value.code = code;
+  }
+  if (body?.destination_url !== undefined) {
+    const destination = body.destination_url
+      ? String(body.destination_url).trim()
+      : "";
+
+    if (destination && !isAllowedDestination(destination)) {
+      return {
+        error: `destination_url must be an http(s) URL on ${DESTINATION_HOSTS.join(", ")}`,
+      };
+    }
+    value.destination_url = destination || null;
+  }
+  if (body?.active !== undefined) value.active = !!body.active;
+
+  return { value };
+}
+
+// "Open house flyer" → "open-house-flyer-3fa9"
+function codeFromName(name: string): string {
+  const slug = normalizeReferralCode(name.replace(/\s+/g, "-"))
+    .replace(/-+/g, "-")
+    .slice(0, 24);
+
+  return `${slug || "link"}-${crypto.randomBytes(2).toString("hex")}`;
+}
+
+async function claimCode(code: string, userId: string): Promise<void> {
+  if (!(await claimReferralCode(code, userId))) {
+    throw new ReferralLinkError("That code is already taken", 409);
+  }
+}
+
+export async function getReferralLinks(
+  userId: string,
+): Promise<ReferralLink[]> {
+  const { data, error } = await supabaseAdmin
+    .from("referral_links")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+}
+
+export async function createReferralLink(
+  userId: string,
+  input: ReferralLinkInput,
+): Promise<ReferralLink> {
+  const { count, error: countErr } = await supabaseAdmin
+    .from("referral_links")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if (countErr) throw countErr;
+  if ((count || 0) >= MAX_REFERRAL_LINKS) {
+    throw new ReferralLinkError(
+      `You can have up to ${MAX_REFERRAL_LINKS} links`,
+    );
+  }
+
+  const code = input.code || codeFromName(input.name || "");
+
+  await claimCode(code, userId);
+
+  const { data, error } = await supabaseAdmin
+    .from("referral_links")
+    .insert({
+      user_id: userId,
+      name: input.name,
+      code,
+      destination_url: input.destination_url ?? null,
+      active: input.active ?? true,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    if ((error as any).code === "23505")
+      throw new ReferralLinkError("That code is already taken", 409);
+    throw error;
+  }
+
+  return data;
+}
+
+// Renaming a link's code is recorded in the code history and keeps the old
+// code redirecting to the link for the alias grace period, in one transaction
+// (update_referral_link). Returns the link with the code it had before.
+export async function updateReferralLink(
+  userId: string,
+  id: string,
+  input: ReferralLinkInput,
+): Promise<{ link: ReferralLink; previous: string } | null> {
+  const { data: existing, error: loadErr } = await supabaseAdmin
+    .from("referral_links")
+    .select("code")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (loadErr) throw loadErr;
+  if (!existing) return null;
+
+  if (
+    input.code !== undefined &&
+    input.code !== existing.code &&
+    !(await isReferralCodeAvailable(input.code, userId))
+  ) {
+    throw new ReferralLinkError("That code is already taken", 409);
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("update_referral_link", {
+    p_user_id: userId,
+    p_id: id,
+    p_input: input,
+  });
+
+  if (error) {
+    if ((error as any).code === "23505")
+      throw new ReferralLinkError("That code is already taken", 409);
+    throw error;
+  }
+
+  return (data as { link: ReferralLink; previous: string } | null) ?? null;
+}
@@ -0,0 +1,223 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { getReferralCodeSettings } from "@/lib/settings";
+
+// What a code in a /r/[code] link or a conversion payload resolves to
+export interface ResolvedReferrer {
+  user_id: string;
+  code: string; // the current code (an alias resolves to the code it now points at)
+  link_id: string | null; // null = the primary affiliate_referrers code
+  destination_url: string | null; // null = REFERRAL_LANDING_URL
+}
+
+// Codes in links may arrive in any case; keep only characters codes can contain
+export function normalizeReferralCode(raw: string | null | undefined): string {
+  return (raw || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]/g, "");
+}
+
+// One rename of a primary code (link_id null) or a named link's code
+export interface ReferralCodeChange {
+  id: string;
+  user_id: string;
+  link_id: string | null;
+  old_code: string;
+  new_code: string;
+  changed_by: string | null; // admin email; null = the affiliate
+  changed_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number) =>
+  new Date(Date.now() - days * DAY_MS).toISOString();
+
+// ilike treats "_" as a wildcard
+const escapeLike = (code: string) => code.replace(/_/g, "\\_");
+
+async function findPrimaryCode(column: "code" | "user_id", value: string) {
+  let query = supabaseAdmin.from("affiliate_referrers").select("user_id, code");
+
+  query =
+    column === "code"
+      ? query.ilike("code", escapeLike(value))
+      : query.eq("user_id", value);
+  const { data, error } = await query.maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+async function findLink(column: "code" | "id", value: string) {
+  const { data, error } = await supabaseAdmin
+    .from("referral_links")
+    .select("id, user_id, code, destination_url, active")
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+}
+
+// Primary codes first, then named links, then retired codes (aliases) still in
+// their grace period. Admin-generated primary codes are uppercase and custom
+// tokens lowercase, so primary codes match case-insensitively; link codes and
+// aliases are stored lowercase. Inactive links resolve to null.
+export async function findReferrerByCode(
+  raw: string | null | undefined,
+): Promise<ResolvedReferrer | null> {
+  const code = normalizeReferralCode(raw);
+
+  if (!code) return null;
+
+  const primary = await findPrimaryCode("code", code);
+
+  if (primary) return { ...primary, link_id: null, destination_url: null };
+
+  let link = await findLink("code", code);
+
+  if (!link) {
+    const { data: alias, error } = await supabaseAdmin
+      .from("referral_link_aliases")
+      .select("user_id, link_id, retired_at")
+      .eq("code", code)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!alias) return null;
+
+    const { alias_grace_days } = await getReferralCodeSettings();
+
+    if (new Date(alias.retired_at).toISOString() < daysAgo(alias_grace_days))
+      return null;
+    if (!alias.link_id) {
+      const current = await findPrimaryCode("user_id", alias.user_id);
+
+      return current
+        ? { ...current, link_id: null, destination_url: null }
+        : null;
+    }
+    link = await findLink("id", alias.link_id);
+  }
+
+  if (!link || !link.active) return null;
+
+  return {
+    user_id: link.user_id,
+    code: link.code,
+    link_id: link.id,
+    destination_url: link.destination_url,
+  };
+}
+
+// Whether `userId` may claim `code` for a link or as their primary code.
+// Any primary code or link code is taken (including the user's own). Retired
+// codes stay with their last holder, who can reclaim them at any time; other
+// users have to wait out the reuse cooldown.
+export async function isReferralCodeAvailable(
+  code: string,
+  userId: string,
+): Promise<boolean> {
+  const [primary, link, alias] = await Promise.all([
+    findPrimaryCode("code", code),
+    findLink("code", code),
+    supabaseAdmin
+      .from("referral_link_aliases")
+      .select("user_id, retired_at")
+      .eq("code", code)
+      .maybeSingle(),
+  ]);
+
+  if (alias.error) throw alias.error;
+
+  if (primary || link) return false;
+  if (alias.data && alias.data.user_id !== userId) {
+    const { reuse_cooldown_days } = await getReferralCodeSettings();
+
+    return (
+      new Date(alias.data.retired_at).toISOString() <
+      daysAgo(reuse_cooldown_days)
+    );
+  }
+
+  return true;
+}
+
+// Check `code` is free for `userId` and drop any alias holding it. Returns false if taken.
+export async function claimReferralCode(
+  code: string,
+  userId: string,
+): Promise<boolean> {
+  if (!(await isReferralCodeAvailable(code, userId))) return false;
+  const { error } = await supabaseAdmin
+    .from("referral_link_aliases")
+    .delete()
+    .eq("code", code);
+
+  if (error) throw error;
+
+  return true;
+}
+
+// Change a user's primary code, keeping the old one as an alias. Returns the
+// stored code and the one it replaced (equal when unchanged), or null if `code`
+// is taken. `changedBy` is the admin making the change.
+export async function setPrimaryReferralCode(
+  userId: string,
+  code: string,
+  changedBy: string | null = null,
+): Promise<{ code: string; previous: string | null } | null> {
+  const current = await findPrimaryCode("user_id", userId);
+
+  if (current?.code?.toLowerCase() === code)
+    return { code: current.code, previous: current.code };
+
+  if (!(await isReferralCodeAvailable(code, userId))) return null;
+
+  // The code, its history row and the old code's alias are written in one
+  // transaction; a code claimed by someone else since the check is 23505
+  const { data: previous, error } = await supabaseAdmin.rpc(
+    "set_primary_referral_code",
+    {
+      p_user_id: userId,
+      p_code: code,
+      p_changed_by: changedBy,
+    },
+  );
+
+  if (error) {
+    if ((error as any).code === "23505") return null;
+    throw error;
+  }
+
+  return { code, previous: (previous as string | null) ?? null };
+}
+
+// Renames involving `code` (as the old or new code) and/or of `user_id`'s codes, newest first
+export async function getReferralCodeHistory(filter: {
+  code?: string;
+  user_id?: string;
+  limit?: number;
+}): Promise<ReferralCodeChange[]> {
+  let query = supabaseAdmin
+    .from("referral_code_history")
+    .select("*")
+    .order("changed_at", { ascending: false })
+    .limit(filter.limit || 200);
+
+  if (filter.code) {
+    const code = normalizeReferralCode(filter.code);
+
+    query = query.or(`old_code.eq.${code},new_code.eq.${code}`);
+  }
+  if (filter.user_id) query = query.eq("user_id", filter.user_id);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return data || [];
+}
@@ -0,0 +1,401 @@
+import type { DailyData, KpiDelta, UserReports } from "@/lib/auth";
+
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { DailyMetricsRow, DayRange, getDailyMetrics } from "@/lib/metrics";
+import { REPORTS_TZ } from "@/lib/utils";
+
+export type Granularity = "day" | "week" | "month";
+
+export const GRANULARITIES: Granularity[] = ["day", "week", "month"];
+
+export const REPORT_PRESETS = [
+  "Today",
+  "Yesterday",
+  "Last 30 Days",
+  "This Month",
+  "Last Month",
+  "Last 6 Months",
+  "This Year",
+  "All Time",
+] as const;
+
+export type ReportPreset = (typeof REPORT_PRESETS)[number];
+
+// Longest range a single request may cover
+export const MAX_RANGE_DAYS = 3660;
+
+export interface ReportRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export interface BucketedReport extends UserReports {
+  from: string;
+  to: string;
+  granularity: Granularity;
+  tz: string;
+}
+
+// --- calendar-day arithmetic (YYYY-MM-DD strings, no local-time drift) -------
+
+const parseDay = (day: string): Date => new Date(`${day}T00:00:00Z`);
+const formatDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+export function addDays(day: string, days: number): string {
+  const d = parseDay(day);
+
+  d.setUTCDate(d.getUTCDate() + days);
+
+  return formatDay(d);
+}
+
+export function addMonths(day: string, months: number): string {
+  const d = parseDay(day);
+  const targetDay = d.getUTCDate();
+
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  // Clamp to the last day of the target month (e.g. Mar 31 - 1 month = Feb 28/29)
+  const lastDay = new Date(
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+
+  d.setUTCDate(Math.min(targetDay, lastDay));
+
+  return formatDay(d);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (parseDay(to).getTime() - parseDay(from).getTime()) / 86400000,
+  );
+}
+
+const startOfMonth = (day: string): string => `${day.slice(0, 7)}-01`;
+const endOfMonth = (day: string): string =>
+  addDays(addMonths(startOfMonth(day), 1), -1);
+
+// ISO weeks start on Monday
+const startOfWeek = (day: string): string => {
+  const weekday = parseDay(day).getUTCDay(); // 0 = Sunday
+
+  return addDays(day, -((weekday + 6) % 7));
+};
+
+export function bucketStart(day: string, granularity: Granularity): string {
+  if (granularity === "month") return startOfMonth(day);
+  if (granularity === "week") return startOfWeek(day);
+
+  return day;
+}
+
+// --- timezone helpers --------------------------------------------------------
+
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function todayInTimeZone(tz: string, now: Date = new Date()): string {
+  return now.toLocaleDateString("en-CA", { timeZone: tz });
+}
+
+// --- presets -----------------------------------------------------------------
+
+export function isReportPreset(value: string): value is ReportPreset {
+  return (REPORT_PRESETS as readonly string[]).includes(value);
+}
+
+// Month-level presets chart better as monthly buckets
+export function defaultGranularityForPreset(preset: ReportPreset): Granularity {
+  return ["Last 6 Months", "This Year", "All Time"].includes(preset)
+    ? "month"
+    : "day";
+}
+
+// Resolve a preset label to concrete days, with "today" taken in `tz`.
+// `earliestDay` anchors "All Time" to the first day with recorded metrics.
+export function resolvePresetRange(
+  preset: ReportPreset,
+  tz: string,
+  earliestDay: string | null = null,
+  now: Date = new Date(),
+): ReportRange {
+  const today = todayInTimeZone(tz, now);
+
+  switch (preset) {
+    case "Today":
+      return { from: today, to: today };
+    case "Yesterday": {
+      const yesterday = addDays(today, -1);
+
+      return { from: yesterday, to: yesterday };
+    }
+    case "Last 30 Days":
+      return { from: addDays(today, -30), to: today };
+    case "This Month":
+      return { from: startOfMonth(today), to: today };
+    case "Last Month": {
+      const lastMonth = addMonths(startOfMonth(today), -1);
+
+      return { from: lastMonth, to: endOfMonth(lastMonth) };
+    }
+    case "Last 6 Months":
+      return { from: addMonths(today, -6), to: today };
+    case "This Year":
+      return { from: `${today.slice(0, 4)}-01-01`, to: today };
+    case "All Time":
+      return {
+        from: earliestDay && earliestDay < today ? earliestDay : today,
+        to: today,
+      };
+  }
+}
+
+// The equivalent period immediately before `range`. Calendar presets compare
+// like with like (this month vs the same days of last month, last month vs the
+// month before); anything else shifts back by the range's own length.
+// "All Time" has nothing before it, so there is no comparison.
+export function previousPeriodRange(
+  range: ReportRange,
+  preset: ReportPreset | null = null,
+): ReportRange | null {
+  switch (preset) {
+    case "All Time":
+      return null;
+    case "This Month":
+      return { from: addMonths(range.from, -1), to: addMonths(range.to, -1) };
+    case "Last Month": {
+      const from = addMonths(range.from, -1);
+
+      return { from, to: endOfMonth(from) };
+    }
+    case "This Year":
+      return { from: addMonths(range.from, -12), to: addMonths(range.to, -12) };
+  }
+
+  const length = daysBetween(range.from, range.to) + 1;
+  const to = addDays(range.from, -1);
+
+  return { from: addDays(to, -(length - 1)), to };
+}
+
+export async function getEarliestMetricsDay(
+  userId: string,
+): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from("daily_affiliate_metrics")
+    .select("day")
+    .eq("user_id", userId)
+    .order("day", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return (data?.day as string | undefined) ?? null;
+}
+
+// --- bucketing ---------------------------------------------------------------
+
+// Zero-filled buckets across [from, to]; each bucket is labelled by its first day
+// inside the range (so a partial first week/month starts at `from`).
+export function bucketMetrics(
+  rows: DailyMetricsRow[],
+  range: ReportRange,
+  granularity: Granularity,
+): DailyData[] {
+  const buckets = new Map<string, DailyData>();
+
+  for (let day = range.from; day <= range.to; day = addDays(day, 1)) {
+    const key = bucketStart(day, granularity);
+
+    if (!buckets.has(key)) {
+      buckets.set(key, {
+        date: key < range.from ? range.from : key,
+        earnings: 0,
+        newCustomers: 0,
+        newReferrals: 0,
+        clicksCount: 0,
+      });
+    }
+  }
+
+  rows.forEach((row) => {
+    if (row.day < range.from || row.day > range.to) return;
+    const bucket = buckets.get(bucketStart(row.day, granularity));
+
+    if (!bucket) return;
+    bucket.earnings += row.earnings;
+    bucket.newCustomers += row.customers;
+    bucket.newReferrals += row.signups;
+    bucket.clicksCount += row.clicks;
+  });
+
+  return Array.from(buckets.values()).sort((a, b) =>
+    a.date.localeCompare(b.date),
+  );
+}
+
+export function totalsFromBuckets(
+  dailyData: DailyData[],
+): UserReports["overview"] {
+  return dailyData.reduce(
+    (acc, item) => ({
+      earnings: acc.earnings + item.earnings,
+      clicks: acc.clicks + item.clicksCount,
+      signups: acc.signups + item.newReferrals,
+      customers: acc.customers + item.newCustomers,
+    }),
+    { earnings: 0, clicks: 0, signups: 0, customers: 0 },
+  );
+}
+
+// --- period-over-period ------------------------------------------------------
+
+export function computeDelta(current: number, previous: number): KpiDelta {
+  // Round away float noise from summed NUMERIC earnings
+  const change = Math.round((current - previous) * 100) / 100;
+
+  return {
+    current,
+    previous,
+    change,
+    changePercent:
+      previous === 0 ? null : Math.round((change / previous) * 1000) / 10,
+    changeType: change > 0 ? "increase" : change < 0 ? "decrease" : "neutral",
+  };
+}
+
+export function computeDeltas<K extends string>(
+  current: Record<K, number>,
+  previous: Record<K, number>,
+): Record<K, KpiDelta> {
+  return Object.fromEntries(
+    (Object.keys(current) as K[]).map((key) => [
+      key,
+      computeDelta(current[key], previous[key] ?? 0),
+    ]),
+  ) as Record<K, KpiDelta>;
+}
+
+const KPI_TITLES: Record<keyof UserReports["overview"], string> = {
+  earnings: "Earnings",
+  clicks: "Clicks",
+  signups: "Signups",
+  customers: "Customers",
+};
+
+export async function buildUserReport(
+  userId: string,
+  range: ReportRange,
+  granularity: Granularity,
+  tz: string = REPORTS_TZ,
+  options: { preset?: ReportPreset | null; compare?: boolean } = {},
+): Promise<BucketedReport> {
+  const previousRange =
+    options.compare === false
+      ? null
+      : previousPeriodRange(range, options.preset);
+
+  // One read covers both periods; bucketMetrics drops rows outside each range
+  const rows = await getDailyMetrics(userId, {
+    from: previousRange ? previousRange.from : range.from,
+    to: range.to,
+  });
+  const dailyData = bucketMetrics(rows, range, granularity);
+  const overview = totalsFromBuckets(dailyData);
+
+  const report: BucketedReport = {
+    from: range.from,
+    to: range.to,
+    granularity,
+    tz,
+    overview,
+    dailyData,
+  };
+
+  if (!previousRange) return report;
+
+  const previousData = bucketMetrics(rows, previousRange, granularity);
+  const previousOverview = totalsFromBuckets(previousData);
+  const deltas = computeDeltas(overview, previousOverview);
+
+  report.previous = {
+    ...previousRange,
+    overview: previousOverview,
+    dailyData: previousData,
+  };
+  report.deltas = deltas;
+  report.charts = {
+    lineChart: (Object.keys(KPI_TITLES) as (keyof typeof KPI_TITLES)[]).map(
+      (key) => ({
+        id: key,
+        title: KPI_TITLES[key],
+        value: deltas[key].current,
+        change: deltas[key].changePercent ?? 0,
+        period: `${previousRange.from}/${previousRange.to}`,
+        category: "overview",
+        changeType: deltas[key].changeType,
+      }),
+    ),
+    barChart: [],
+    pieChart: [],
+  };
+
+  return report;
+}
+
+// --- click dimensions ----------------------------------------------------------
+
+// sub_id: ?sub_id= on the link; campaign: utm_campaign; source: utm_source, else the Referer host;
+// link: the named referral link clicked ("Name (code)", null = primary code)
+export type ReportDimension = "sub_id" | "campaign" | "source" | "link";
+
+export const REPORT_DIMENSIONS: ReportDimension[] = [
+  "sub_id",
+  "campaign",
+  "source",
+  "link",
+];
+
+export interface DimensionRow {
+  key: string | null; // null = untagged clicks, or conversions credited by code alone
+  clicks: number;
+  signups: number;
+  customers: number;
+  earnings: number;
+}
+
+// Totals per dimension value over a day range (all time when from/to are omitted).
+// Conversions and earnings follow the click they were attributed to.
+export async function getDimensionBreakdown(
+  userId: string,
+  dimension: ReportDimension,
+  range: DayRange = {},
+): Promise<DimensionRow[]> {
+  const { data, error } = await supabaseAdmin.rpc(
+    "referral_dimension_breakdown",
+    {
+      p_user_id: userId,
+      p_dimension: dimension,
+      p_from: range.from || null,
+      p_to: range.to || null,
+    },
+  );
+
+  if (error) throw error;
+
+  return ((data || []) as any[]).map((row) => ({
+    key: row.key ?? null,
+    clicks: Number(row.clicks) || 0,
+    signups: Number(row.signups) || 0,
+    customers: Number(row.customers) || 0,
+    earnings: Number(row.earnings) || 0,
+  }));
+}
@@ -0,0 +1,27 @@
+import crypto from "crypto";
+
+// Best-effort client IP from proxy headers (Vercel sets x-forwarded-for).
+// The client can send its own x-forwarded-for, so only the last entry, the
+// one appended by our proxy, is trusted.
+// Takes anything with headers, so next/headers' headers() works too.
+export function getClientIp(req: {
+  headers: Pick<Headers, "get">;
+}): string | null {
+  const forwarded = req.headers.get("x-forwarded-for");
+
+  if (forwarded) {
+    const last = forwarded.split(",").pop()?.trim();
+
+    if (last) return last;
+  }
+
+  return req.headers.get("x-real-ip") || null;
+}
+
+// Salted hash so raw IPs are never stored
+export function hashIp(ip: string | null): string | null {
+  if (!ip) return null;
+  const salt = process.env.IP_HASH_SALT || process.env.NEXTAUTH_SECRET || "";
+
+  return crypto.createHash("sha256").update(`${salt}:${ip}`).digest("hex");
+}
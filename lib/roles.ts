@@ -0,0 +1,21 @@
+// Roles are stored in user_roles and carried in the NextAuth JWT. Every signed-in
+// user is an affiliate; the other roles open parts of the admin area.
+export type Role = "affiliate" | "manager" | "admin" | "finance";
+
+export const ROLES: Role[] = ["affiliate", "manager", "admin", "finance"];
+
+// Roles that can be granted (affiliate is implicit)
+export const GRANTABLE_ROLES: Role[] = ["manager", "finance", "admin"];
+
+// Roles that see the admin area
+export const STAFF_ROLES: Role[] = ["manager", "finance", "admin"];
+
+// admin passes every check
+export function hasRole(
+  roles: readonly string[] | null | undefined,
+  ...allowed: Role[]
+): boolean {
+  return !!roles?.some(
+    (role) => role === "admin" || allowed.includes(role as Role),
+  );
+}
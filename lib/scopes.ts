@@ -0,0 +1,59 @@
+// Scopes limit what a personal access token can do. They are chosen when the
+// token is created and checked per route (app/api/utils/require-scope.ts).
+// Browser sessions are not scoped.
+export type Scope =
+  | "reports:read"
+  | "profile:read"
+  | "profile:write"
+  | "links:read"
+  | "links:write"
+  | "admin:*";
+
+export const SCOPES: { scope: Scope; label: string; description: string }[] = [
+  {
+    scope: "reports:read",
+    label: "Read reports",
+    description: "Reports, referrals, earnings and payouts",
+  },
+  { scope: "profile:read", label: "Read profile", description: "Your profile" },
+  {
+    scope: "profile:write",
+    label: "Edit profile",
+    description: "Update your profile and avatar",
+  },
+  {
+    scope: "links:read",
+    label: "Read links",
+    description: "Referral code, links, QR codes and assets",
+  },
+  {
+    scope: "links:write",
+    label: "Manage links",
+    description: "Create and edit referral links",
+  },
+  {
+    scope: "admin:*",
+    label: "Admin",
+    description: "Admin API, limited to your roles",
+  },
+];
+
+export const ALL_SCOPES: Scope[] = SCOPES.map((s) => s.scope);
+
+export function isScope(value: unknown): value is Scope {
+  return ALL_SCOPES.includes(value as Scope);
+}
+
+// `scopes` is null for sessions, which can do anything. A write scope also grants the read.
+export function hasScope(
+  scopes: readonly string[] | null | undefined,
+  needed: Scope,
+): boolean {
+  if (scopes == null) return true;
+  if (scopes.includes(needed)) return true;
+
+  return (
+    needed.endsWith(":read") &&
+    scopes.includes(needed.replace(/:read$/, ":write"))
+  );
+}
@@ -0,0 +1,151 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+// NextAuth's default JWT maxAge: a session not seen for this long can't be used again
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface UserSession {
+  id: string;
+  device: string | null;
+  browser: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+}
+
+export interface SessionRequestInfo {
+  userAgent: string | null;
+  ip: string | null;
+}
+
+// Rough "Chrome" / "macOS" labels for the sessions list; order matters since
+// most user agents also claim to be Safari and Mozilla
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Version\/.*Safari\//, "Safari"],
+];
+
+const DEVICES: [RegExp, string][] = [
+  [/iPhone/, "iPhone"],
+  [/iPad/, "iPad"],
+  [/Android/, "Android"],
+  [/CrOS/, "ChromeOS"],
+  [/Macintosh|Mac OS X/, "macOS"],
+  [/Windows/, "Windows"],
+  [/Linux/, "Linux"],
+];
+
+export function describeUserAgent(userAgent: string | null): {
+  device: string | null;
+  browser: string | null;
+} {
+  const ua = userAgent || "";
+
+  return {
+    device: DEVICES.find(([re]) => re.test(ua))?.[1] ?? null,
+    browser: BROWSERS.find(([re]) => re.test(ua))?.[1] ?? null,
+  };
+}
+
+// Record a sign-in and return its id for the JWT. Revoked and expired rows of
+// the same user are pruned here, so the table doesn't grow without bound.
+export async function createUserSession(
+  userId: string,
+  info: SessionRequestInfo,
+): Promise<string> {
+  const cutoff = new Date(Date.now() - SESSION_MAX_AGE_MS).toISOString();
+  const { error: pruneErr } = await supabaseAdmin
+    .from("user_sessions")
+    .delete()
+    .eq("user_id", userId)
+    .or(`revoked_at.not.is.null,last_seen_at.lt.${cutoff}`);
+
+  if (pruneErr) console.error("Failed to prune sessions:", pruneErr);
+
+  const { data, error } = await supabaseAdmin
+    .from("user_sessions")
+    .insert({
+      user_id: userId,
+      user_agent: info.userAgent?.slice(0, 512) ?? null,
+      ...describeUserAgent(info.userAgent),
+      ip: info.ip,
+    })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+
+  return data.id as string;
+}
+
+// False once the session was revoked (or pruned); also bumps last_seen_at
+export async function touchUserSession(
+  sessionId: string,
+  ip: string | null,
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc("touch_user_session", {
+    p_id: sessionId,
+    p_ip: ip,
+  });
+
+  if (error) throw error;
+
+  return data === true;
+}
+
+// Sessions that can still be used, most recently active first
+export async function listUserSessions(userId: string): Promise<UserSession[]> {
+  const { data, error } = await supabaseAdmin
+    .from("user_sessions")
+    .select("id, device, browser, ip, created_at, last_seen_at")
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .gte(
+      "last_seen_at",
+      new Date(Date.now() - SESSION_MAX_AGE_MS).toISOString(),
+    )
+    .order("last_seen_at", { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []) as UserSession[];
+}
+
+// Returns the ended session, or null when the user has no such active session
+export async function revokeUserSession(
+  userId: string,
+  sessionId: string,
+): Promise<UserSession | null> {
+  if (!UUID_RE.test(sessionId)) return null;
+  const { data, error } = await supabaseAdmin
+    .from("user_sessions")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", sessionId)
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .select("id, device, browser, ip, created_at, last_seen_at");
+
+  if (error) throw error;
+
+  return ((data || [])[0] as UserSession | undefined) ?? null;
+}
+
+// "Sign out everywhere", including the caller's own session. Returns how many were ended.
+export async function revokeAllUserSessions(userId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from("user_sessions")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .select("id");
+
+  if (error) throw error;
+
+  return (data || []).length;
+}
@@ -0,0 +1,192 @@
+import { Role, STAFF_ROLES } from "@/lib/roles";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+export type AttributionMode = "first_touch" | "last_touch";
+
+export const ATTRIBUTION_MODES: AttributionMode[] = [
+  "first_touch",
+  "last_touch",
+];
+
+export interface AttributionSettings {
+  window_days: number; // how long after a click a conversion can still be credited to it
+  mode: AttributionMode; // which click in the window wins
+}
+
+export const DEFAULT_ATTRIBUTION_SETTINGS: AttributionSettings = {
+  window_days: 30,
+  mode: "last_touch",
+};
+
+export interface ClawbackSettings {
+  refund_window_days: number; // refunds later than this after the sale keep their commission
+}
+
+export const DEFAULT_CLAWBACK_SETTINGS: ClawbackSettings = {
+  refund_window_days: 90,
+};
+
+export interface ReferralCodeSettings {
+  alias_grace_days: number; // how long a retired code keeps redirecting to its last holder
+  reuse_cooldown_days: number; // how long before a different user can claim a retired code
+}
+
+export const DEFAULT_REFERRAL_CODE_SETTINGS: ReferralCodeSettings = {
+  alias_grace_days: 365,
+  reuse_cooldown_days: 730,
+};
+
+export interface TwoFactorSettings {
+  required_roles: Role[]; // staff roles that can't be used until the user turns on 2FA
+}
+
+export const DEFAULT_TWO_FACTOR_SETTINGS: TwoFactorSettings = {
+  required_roles: [],
+};
+
+// Settings change rarely and /r reads them on every click
+const CACHE_MS = 60_000;
+const cache = new Map<string, { value: unknown; expires: number }>();
+
+async function getSetting<T>(key: string, fallback: T): Promise<T> {
+  const hit = cache.get(key);
+
+  if (hit && hit.expires > Date.now()) return hit.value as T;
+
+  const { data, error } = await supabaseAdmin
+    .from("program_settings")
+    .select("value")
+    .eq("key", key)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const value = { ...fallback, ...((data?.value as object) || {}) } as T;
+
+  cache.set(key, { value, expires: Date.now() + CACHE_MS });
+
+  return value;
+}
+
+async function setSetting<T>(
+  key: string,
+  value: T,
+  updatedBy: string | null,
+): Promise<T> {
+  const { error } = await supabaseAdmin
+    .from("program_settings")
+    .upsert({ key, value, updated_by: updatedBy }, { onConflict: "key" });
+
+  if (error) throw error;
+  cache.delete(key);
+
+  return value;
+}
+
+export function parseAttributionSettings(body: any): {
+  value?: AttributionSettings;
+  error?: string;
+} {
+  const windowDays = Number(body?.window_days);
+
+  if (!Number.isInteger(windowDays) || windowDays < 1 || windowDays > 365) {
+    return { error: "window_days must be a whole number between 1 and 365" };
+  }
+  if (!ATTRIBUTION_MODES.includes(body?.mode)) {
+    return { error: `mode must be one of ${ATTRIBUTION_MODES.join(", ")}` };
+  }
+
+  return { value: { window_days: windowDays, mode: body.mode } };
+}
+
+export const getAttributionSettings = () =>
+  getSetting<AttributionSettings>("attribution", DEFAULT_ATTRIBUTION_SETTINGS);
+
+export const updateAttributionSettings = (
+  value: AttributionSettings,
+  updatedBy: string | null = null,
+) => setSetting("attribution", value, updatedBy);
+
+export function parseClawbackSettings(body: any): {
+  value?: ClawbackSettings;
+  error?: string;
+} {
+  const days = Number(body?.refund_window_days);
+
+  if (!Number.isInteger(days) || days < 0 || days > 730) {
+    return {
+      error: "refund_window_days must be a whole number between 0 and 730",
+    };
+  }
+
+  return { value: { refund_window_days: days } };
+}
+
+export const getClawbackSettings = () =>
+  getSetting<ClawbackSettings>("clawback", DEFAULT_CLAWBACK_SETTINGS);
+
+export const updateClawbackSettings = (
+  value: ClawbackSettings,
+  updatedBy: string | null = null,
+) => setSetting("clawback", value, updatedBy);
+
+export function parseReferralCodeSettings(body: any): {
+  value?: ReferralCodeSettings;
+  error?: string;
+} {
+  const grace = Number(body?.alias_grace_days);
+  const cooldown = Number(body?.reuse_cooldown_days);
+
+  if (!Number.isInteger(grace) || grace < 0 || grace > 3650) {
+    return {
+      error: "alias_grace_days must be a whole number between 0 and 3650",
+    };
+  }
+  if (!Number.isInteger(cooldown) || cooldown < 0 || cooldown > 3650) {
+    return {
+      error: "reuse_cooldown_days must be a whole number between 0 and 3650",
+    };
+  }
+  // Otherwise another affiliate could claim a code that still redirects to its old holder
+  if (cooldown < grace) {
+    return { error: "reuse_cooldown_days must be at least alias_grace_days" };
+  }
+
+  return { value: { alias_grace_days: grace, reuse_cooldown_days: cooldown } };
+}
+
+export const getReferralCodeSettings = () =>
+  getSetting<ReferralCodeSettings>(
+    "referral_codes",
+    DEFAULT_REFERRAL_CODE_SETTINGS,
+  );
+
+export const updateReferralCodeSettings = (
+  value: ReferralCodeSettings,
+  updatedBy: string | null = null,
+) => setSetting("referral_codes", value, updatedBy);
+
+export function parseTwoFactorSettings(body: any): {
+  value?: TwoFactorSettings;
+  error?: string;
+} {
+  const roles = Array.isArray(body?.required_roles)
+    ? Array.from(new Set<unknown>(body.required_roles))
+    : null;
+
+  if (!roles || !roles.every((role) => STAFF_ROLES.includes(role as Role))) {
+    return {
+      error: `required_roles must be a list of ${STAFF_ROLES.join(", ")}`,
+    };
+  }
+
+  return { value: { required_roles: roles as Role[] } };
+}
+
+export const getTwoFactorSettings = () =>
+  getSetting<TwoFactorSettings>("two_factor", DEFAULT_TWO_FACTOR_SETTINGS);
+
+export const updateTwoFactorSettings = (
+  value: TwoFactorSettings,
+  updatedBy: string | null = null,
+) => setSetting("two_factor", value, updatedBy);
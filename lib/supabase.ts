@@ -593,8 +593,13 @@ export interface ReferralEvent {
   agent: string;
   email: string;
   date: string;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'approved' | 'rejected' | 'refunded';
   referrer_id: string;
+  event_type?: 'signup' | 'customer' | 'refund';
+  revenue?: number | null;
+  occurred_at?: string | null;
+  attribution_method?: 'first_touch' | 'last_touch' | 'code' | null;
+  attributed_clicked_at?: string | null;
 }
 
 export interface AffiliateAsset {
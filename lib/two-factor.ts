@@ -0,0 +1,481 @@
+import crypto from "crypto";
+
+import { renderQrCode } from "@/lib/qr";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { hasRole, Role } from "@/lib/roles";
+import { getTwoFactorSettings } from "@/lib/settings";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+// TOTP (RFC 6238) as authenticator apps expect it: SHA-1, 6 digits, 30 s steps.
+// A code from the step before or after the current one is accepted for clock drift.
+const ISSUER = "VX Affiliates";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const DRIFT_STEPS = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  recovery_codes_remaining: number;
+  required: boolean; // one of the user's roles needs 2FA (program_settings two_factor)
+}
+
+export interface TwoFactorSetup {
+  secret: string; // base32, for typing into an app by hand
+  otpauth_url: string;
+  qr_code: string; // SVG data URI of otpauth_url
+}
+
+// Thrown for requests the caller can fix (wrong code, nothing to enable, too many attempts)
+export class TwoFactorError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// TOTP
+// ---------------------------------------------------------------------------
+
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+
+  return out;
+}
+
+function base32Decode(text: string): Uint8Array {
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+
+  for (const char of text.replace(/[\s=]/g, "").toUpperCase()) {
+    const index = BASE32.indexOf(char);
+
+    if (index < 0) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(out);
+}
+
+function totpAt(secret: Uint8Array, step: number): string {
+  const counter = new Uint8Array(8);
+  const view = new DataView(counter.buffer);
+
+  view.setUint32(0, Math.floor(step / 2 ** 32));
+  view.setUint32(4, step >>> 0);
+  const hmac = crypto.createHmac("sha1", secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+// The time step `code` belongs to, or null if it matches none near now
+function matchTotp(
+  secret: string,
+  code: string,
+  now = Date.now(),
+): number | null {
+  const current = Math.floor(now / 1000 / STEP_SECONDS);
+  const key = base32Decode(secret);
+
+  for (
+    let step = current - DRIFT_STEPS;
+    step <= current + DRIFT_STEPS;
+    step++
+  ) {
+    const expected = new Uint8Array(Buffer.from(totpAt(key, step)));
+    const given = new Uint8Array(Buffer.from(code));
+
+    if (
+      given.length === expected.length &&
+      crypto.timingSafeEqual(given, expected)
+    )
+      return step;
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Secrets at rest
+// ---------------------------------------------------------------------------
+
+// TOTP secrets must be readable to check codes, so they are encrypted rather
+// than hashed. Changing the key makes every stored secret unreadable.
+function encryptionKey(): Uint8Array {
+  const material =
+    process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.NEXTAUTH_SECRET;
+
+  if (!material)
+    throw new Error("TWO_FACTOR_ENCRYPTION_KEY or NEXTAUTH_SECRET must be set");
+
+  return new Uint8Array(crypto.createHash("sha256").update(material).digest());
+}
+
+// Stored as v1.<iv>.<auth tag>.<ciphertext>, base64url parts
+function encryptSecret(secret: string): string {
+  const iv = new Uint8Array(crypto.randomBytes(12));
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted =
+    cipher.update(secret, "utf8", "base64url") + cipher.final("base64url");
+
+  return [
+    "v1",
+    Buffer.from(iv).toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    encrypted,
+  ].join(".");
+}
+
+function decryptSecret(stored: string): string {
+  const [version, iv, tag, encrypted] = stored.split(".");
+
+  if (version !== "v1") throw new Error("Unknown two-factor secret format");
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    encryptionKey(),
+    new Uint8Array(Buffer.from(iv, "base64url")),
+  );
+
+  decipher.setAuthTag(new Uint8Array(Buffer.from(tag, "base64url")));
+
+  return (
+    decipher.update(encrypted, "base64url", "utf8") + decipher.final("utf8")
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Recovery codes
+// ---------------------------------------------------------------------------
+
+// Ten characters from an alphabet without look-alikes, shown as xxxxx-xxxxx
+const RECOVERY_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+function generateRecoveryCode(): string {
+  const chars = Array.from(
+    crypto.randomBytes(10),
+    (b) => RECOVERY_ALPHABET[b % RECOVERY_ALPHABET.length],
+  );
+
+  return `${chars.slice(0, 5).join("")}-${chars.slice(5).join("")}`;
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(code.toLowerCase().replace(/[^a-z0-9]/g, ""))
+    .digest("hex");
+}
+
+// Replaces any earlier codes; the plaintext is only returned here
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from(
+    { length: RECOVERY_CODE_COUNT },
+    generateRecoveryCode,
+  );
+
+  const { error: deleteErr } = await supabaseAdmin
+    .from("user_recovery_codes")
+    .delete()
+    .eq("user_id", userId);
+
+  if (deleteErr) throw deleteErr;
+  const { error } = await supabaseAdmin.from("user_recovery_codes").insert(
+    codes.map((code) => ({
+      user_id: userId,
+      code_hash: hashRecoveryCode(code),
+    })),
+  );
+
+  if (error) throw error;
+
+  return codes;
+}
+
+// ---------------------------------------------------------------------------
+// Enrolment
+// ---------------------------------------------------------------------------
+
+async function getTwoFactorRow(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("user_two_factor")
+    .select("secret, enabled_at, last_used_step")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data as {
+    secret: string;
+    enabled_at: string | null;
+    last_used_step: number | null;
+  } | null;
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  return !!(await getTwoFactorRow(userId))?.enabled_at;
+}
+
+// Admins count as holding every role, as in hasRole
+export async function isTwoFactorRequired(
+  roles: readonly string[],
+): Promise<boolean> {
+  const { required_roles } = await getTwoFactorSettings();
+
+  return required_roles.length > 0 && hasRole(roles, ...required_roles);
+}
+
+/**
+ * Whether the user may use their staff roles: true unless one of them needs
+ * 2FA (see isTwoFactorRequired) and the user hasn't turned it on.
+ */
+export async function hasRequiredTwoFactor(
+  userId: string,
+  roles: readonly string[],
+): Promise<boolean> {
+  if (!(await isTwoFactorRequired(roles))) return true;
+
+  return isTwoFactorEnabled(userId);
+}
+
+export async function getTwoFactorStatus(
+  userId: string,
+  roles: Role[],
+): Promise<TwoFactorStatus> {
+  const [row, required, { count, error }] = await Promise.all([
+    getTwoFactorRow(userId),
+    isTwoFactorRequired(roles),
+    supabaseAdmin
+      .from("user_recovery_codes")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("used_at", null),
+  ]);
+
+  if (error) throw error;
+
+  return {
+    enabled: !!row?.enabled_at,
+    enabled_at: row?.enabled_at || null,
+    recovery_codes_remaining: row?.enabled_at ? count || 0 : 0,
+    required,
+  };
+}
+
+// Step 1: a new secret, stored unconfirmed until enableTwoFactor sees a code from it
+export async function startTwoFactorSetup(
+  userId: string,
+  email: string,
+): Promise<TwoFactorSetup> {
+  if (await isTwoFactorEnabled(userId)) {
+    throw new TwoFactorError("Two-factor authentication is already on", 409);
+  }
+
+  const secret = base32Encode(new Uint8Array(crypto.randomBytes(20)));
+  const { error } = await supabaseAdmin.from("user_two_factor").upsert(
+    {
+      user_id: userId,
+      secret: encryptSecret(secret),
+      enabled_at: null,
+      last_used_step: null,
+    },
+    { onConflict: "user_id" },
+  );
+
+  if (error) throw error;
+
+  const label = encodeURIComponent(`${ISSUER}:${email}`);
+  const otpauthUrl =
+    `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+    `&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  const { body } = await renderQrCode(otpauthUrl, {
+    format: "svg",
+    size: 240,
+    logo: false,
+  });
+
+  return {
+    secret,
+    otpauth_url: otpauthUrl,
+    qr_code: `data:image/svg+xml;base64,${Buffer.from(body).toString("base64")}`,
+  };
+}
+
+// Step 2: confirm the app is set up; returns the recovery codes (shown once)
+export async function enableTwoFactor(
+  userId: string,
+  code: string,
+): Promise<string[]> {
+  const row = await getTwoFactorRow(userId);
+
+  if (!row) throw new TwoFactorError("Start the setup first", 404);
+  if (row.enabled_at)
+    throw new TwoFactorError("Two-factor authentication is already on", 409);
+
+  const step = /^\d{6}$/.test(code)
+    ? matchTotp(decryptSecret(row.secret), code)
+    : null;
+
+  if (step === null)
+    throw new TwoFactorError(
+      "That code didn't match. Check the time on your device and try again.",
+    );
+
+  const { data, error } = await supabaseAdmin
+    .from("user_two_factor")
+    .update({ enabled_at: new Date().toISOString(), last_used_step: step })
+    .eq("user_id", userId)
+    .is("enabled_at", null)
+    .select("user_id");
+
+  if (error) throw error;
+  if (!data?.length)
+    throw new TwoFactorError("Two-factor authentication is already on", 409);
+
+  return replaceRecoveryCodes(userId);
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+/**
+ * Check a second factor for a user with 2FA on: a 6-digit code from their app
+ * or an unused recovery code, which is used up. Each app code works once.
+ * Attempts are rate limited per user (`two_factor` bucket); past the limit
+ * this throws a 429 TwoFactorError whatever the code.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: string,
+): Promise<boolean> {
+  const limit = await checkRateLimit("two_factor", userId);
+
+  if (!limit.allowed) {
+    throw new TwoFactorError(
+      `Too many attempts. Try again in ${Math.ceil(limit.resetSeconds / 60)} minutes.`,
+      429,
+    );
+  }
+
+  const row = await getTwoFactorRow(userId);
+
+  if (!row?.enabled_at) return false;
+
+  const normalized = code.replace(/\s/g, "");
+
+  if (/^\d{6}$/.test(normalized)) {
+    const step = matchTotp(decryptSecret(row.secret), normalized);
+
+    if (
+      step === null ||
+      (row.last_used_step !== null && step <= row.last_used_step)
+    )
+      return false;
+
+    // Conditional on the step so the same code can't be used twice concurrently
+    const { data, error } = await supabaseAdmin
+      .from("user_two_factor")
+      .update({ last_used_step: step })
+      .eq("user_id", userId)
+      .or(`last_used_step.is.null,last_used_step.lt.${step}`)
+      .select("user_id");
+
+    if (error) throw error;
+
+    return !!data?.length;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("user_recovery_codes")
+    .update({ used_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("code_hash", hashRecoveryCode(normalized))
+    .is("used_at", null)
+    .select("id");
+
+  if (error) throw error;
+
+  return !!data?.length;
+}
+
+async function requireSecondFactor(
+  userId: string,
+  code: string,
+): Promise<void> {
+  if (!(await verifySecondFactor(userId, code))) {
+    throw new TwoFactorError(
+      "Enter a current code from your app or an unused recovery code",
+    );
+  }
+}
+
+export async function regenerateRecoveryCodes(
+  userId: string,
+  code: string,
+): Promise<string[]> {
+  if (!(await isTwoFactorEnabled(userId)))
+    throw new TwoFactorError("Two-factor authentication is off", 409);
+  await requireSecondFactor(userId, code);
+
+  return replaceRecoveryCodes(userId);
+}
+
+export async function disableTwoFactor(
+  userId: string,
+  roles: Role[],
+  code: string,
+): Promise<void> {
+  if (!(await isTwoFactorEnabled(userId)))
+    throw new TwoFactorError("Two-factor authentication is off", 409);
+  if (await isTwoFactorRequired(roles)) {
+    throw new TwoFactorError(
+      "Your role requires two-factor authentication",
+      409,
+    );
+  }
+  await requireSecondFactor(userId, code);
+  await resetTwoFactor(userId);
+}
+
+// Turns 2FA off without a code: for admins helping a user who lost their device
+export async function resetTwoFactor(userId: string): Promise<void> {
+  const { error: codesErr } = await supabaseAdmin
+    .from("user_recovery_codes")
+    .delete()
+    .eq("user_id", userId);
+
+  if (codesErr) throw codesErr;
+  const { error } = await supabaseAdmin
+    .from("user_two_factor")
+    .delete()
+    .eq("user_id", userId);
+
+  if (error) throw error;
+}
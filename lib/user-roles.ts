@@ -0,0 +1,44 @@
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import { GRANTABLE_ROLES, Role } from "@/lib/roles";
+
+export async function getUserRoles(userId: string): Promise<Role[]> {
+  const { data, error } = await supabaseAdmin
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+  const granted = (data || [])
+    .map((r) => r.role as Role)
+    .filter((role) => GRANTABLE_ROLES.includes(role));
+
+  return ["affiliate", ...granted];
+}
+
+// Replace a user's granted roles with `roles` (affiliate is implicit and ignored)
+export async function setUserRoles(
+  userId: string,
+  roles: Role[],
+  grantedBy: string,
+): Promise<Role[]> {
+  const granted = GRANTABLE_ROLES.filter((role) => roles.includes(role));
+
+  let removal = supabaseAdmin.from("user_roles").delete().eq("user_id", userId);
+
+  if (granted.length > 0)
+    removal = removal.not("role", "in", `(${granted.join(",")})`);
+  const { error: deleteErr } = await removal;
+
+  if (deleteErr) throw deleteErr;
+
+  if (granted.length > 0) {
+    const { error } = await supabaseAdmin.from("user_roles").upsert(
+      granted.map((role) => ({ user_id: userId, role, granted_by: grantedBy })),
+      { onConflict: "user_id,role", ignoreDuplicates: true },
+    );
+
+    if (error) throw error;
+  }
+
+  return ["affiliate", ...granted];
+}
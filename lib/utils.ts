@@ -1,6 +1,23 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
+// Reporting days are calendar dates in this timezone, on the server and in the UI
+export const REPORTS_TZ = 'America/Edmonton';
+
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// "+$12.50 (+8.3%)", "-4 (-20%)"; the percent is left off when the previous
+// period was zero
+export function formatKpiDelta(
+  delta: { change: number; changePercent: number | null },
+  currency = false
+) {
+  const sign = delta.change > 0 ? '+' : delta.change < 0 ? '-' : '';
+  const magnitude = Math.abs(delta.change);
+  const amount = currency ? `$${magnitude.toFixed(2)}` : magnitude.toLocaleString();
+  if (delta.changePercent === null) return `${sign}${amount}`;
+  const percentSign = delta.changePercent > 0 ? '+' : '';
+  return `${sign}${amount} (${percentSign}${delta.changePercent}%)`;
+}
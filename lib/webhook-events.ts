@@ -0,0 +1,45 @@
+// Events an outbound webhook endpoint can subscribe to (lib/webhooks.ts sends them)
+export type WebhookEventType =
+  | "referral.created"
+  | "referral.status_changed"
+  | "payout.paid"
+  | "kpis.updated";
+
+export const WEBHOOK_EVENTS: {
+  type: WebhookEventType;
+  label: string;
+  description: string;
+}[] = [
+  {
+    type: "referral.created",
+    label: "Referral created",
+    description: "A signup or customer was credited",
+  },
+  {
+    type: "referral.status_changed",
+    label: "Referral status changed",
+    description: "A referral changed status, e.g. refunded",
+  },
+  {
+    type: "payout.paid",
+    label: "Payout paid",
+    description: "A payout was marked paid",
+  },
+  {
+    type: "kpis.updated",
+    label: "KPIs updated",
+    description:
+      "A day's clicks, signups, customers or earnings changed (batched; sent within a few minutes)",
+  },
+];
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = WEBHOOK_EVENTS.map(
+  (e) => e.type,
+);
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return WEBHOOK_EVENT_TYPES.includes(value as WebhookEventType);
+}
+
+// Signature header: "t=<unix seconds>,v1=<hex HMAC-SHA256(secret, `${t}.${body}`)>"
+export const WEBHOOK_SIGNATURE_HEADER = "X-VX-Signature";
@@ -0,0 +1,61 @@
+import crypto from "crypto";
+
+import { describe, expect, it } from "vitest";
+
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+} from "@/lib/webhook-signing";
+
+describe("signWebhookPayload", () => {
+  it("signs `${timestamp}.${body}` with HMAC-SHA256", () => {
+    const expected = crypto
+      .createHmac("sha256", "whsec_test")
+      .update('1760000000.{"id":"evt_1"}')
+      .digest("hex");
+
+    expect(signWebhookPayload("whsec_test", 1760000000, '{"id":"evt_1"}')).toBe(
+      `t=1760000000,v1=${expected}`,
+    );
+  });
+
+  it("verifies the way API.md tells receivers to", () => {
+    const secret = generateWebhookSecret();
+    const rawBody = JSON.stringify({
+      type: "referral.created",
+      data: { note: "café" },
+    });
+    const header = signWebhookPayload(
+      secret,
+      Math.floor(Date.now() / 1000),
+      rawBody,
+    );
+
+    const { t, v1 } = Object.fromEntries(
+      header.split(",").map((part) => part.split("=")),
+    );
+    const expected = crypto
+      .createHmac("sha256", secret)
+      .update(`${t}.${rawBody}`)
+      .digest("hex");
+
+    expect(v1).toBe(expected);
+  });
+
+  it("changes with the secret, the timestamp and the body", () => {
+    const base = signWebhookPayload("a", 1, "{}");
+
+    expect(signWebhookPayload("b", 1, "{}")).not.toBe(base);
+    expect(signWebhookPayload("a", 2, "{}")).not.toBe(base);
+    expect(signWebhookPayload("a", 1, "{ }")).not.toBe(base);
+  });
+});
+
+describe("generateWebhookSecret", () => {
+  it("returns distinct whsec_ secrets", () => {
+    const secret = generateWebhookSecret();
+
+    expect(secret).toMatch(/^whsec_[A-Za-z0-9_-]{32}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+});
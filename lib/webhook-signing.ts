@@ -0,0 +1,25 @@
+import crypto from "crypto";
+
+// Endpoint secrets and the signature on every delivery (lib/webhooks.ts)
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * X-VX-Signature value for a body sent at `timestamp` (unix seconds):
+ * "t=<timestamp>,v1=<hex HMAC-SHA256(secret, `${timestamp}.${body}`)>".
+ * Receivers recompute it over the raw body and reject old timestamps.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`, "utf8")
+    .digest("hex");
+
+  return `t=${timestamp},v1=${digest}`;
+}
@@ -0,0 +1,166 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+
+// Endpoint URL checks and the outbound POST for webhook deliveries (lib/webhooks.ts).
+// Kept apart from the database code so it can be tested on its own.
+
+// WEBHOOK_ALLOW_PRIVATE_URLS=true allows http and private addresses, for local testing
+export const allowPrivateUrls = () =>
+  process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+
+// Loopback, private, link-local (cloud metadata), CGNAT, benchmarking, multicast
+// and reserved ranges. BlockList matches IPv4-mapped IPv6 addresses in either
+// form (::ffff:127.0.0.1 and the ::ffff:7f00:1 the URL parser turns it into)
+// against the IPv4 rules.
+const PRIVATE_RANGES = new net.BlockList();
+
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 96], // unspecified, loopback and IPv4-compatible (::7f00:1)
+  ["64:ff9b::", 96], // NAT64, which reaches the embedded IPv4 address
+  ["100::", 64],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(prefix, bits, "ipv6");
+}
+
+export function isPrivateAddress(ip: string): boolean {
+  const family = net.isIP(ip);
+
+  if (family === 0) return true;
+
+  return PRIVATE_RANGES.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+const hostOf = (url: URL) => url.hostname.replace(/^\[|\]$/g, "");
+
+// Deliveries go to the open internet only, so an endpoint can't be pointed at our own network
+export function checkEndpointUrl(raw: string): string | null {
+  let url: URL;
+
+  try {
+    url = new URL(raw);
+  } catch {
+    return "url must be a valid URL";
+  }
+  if (url.username || url.password) return "url must not contain credentials";
+  if (url.href.length > 2048) return "url must be at most 2048 chars";
+  if (allowPrivateUrls()) {
+    return url.protocol === "https:" || url.protocol === "http:"
+      ? null
+      : "url must be an http(s) URL";
+  }
+  if (url.protocol !== "https:") return "url must use https";
+  const host = hostOf(url);
+
+  if (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    (net.isIP(host) && isPrivateAddress(host))
+  ) {
+    return "url must be a public address";
+  }
+
+  return null;
+}
+
+// dns.lookup for the delivery request. The host is checked again at send
+// time, since DNS can change after the endpoint is saved, and the socket
+// connects to the address checked here: a second resolution could be
+// rebound to a private address.
+const publicLookup = ((
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (
+    err: NodeJS.ErrnoException | null,
+    address: string | dns.LookupAddress[],
+    family?: number,
+  ) => void,
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    if (
+      !allowPrivateUrls() &&
+      addresses.some((a) => isPrivateAddress(a.address))
+    ) {
+      return callback(new Error("Endpoint resolves to a private address"), []);
+    }
+    if (addresses.length === 0)
+      return callback(new Error(`No address for ${hostname}`), []);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as unknown as net.LookupFunction;
+
+export interface EndpointResponse {
+  status: number;
+  body: string; // the first 1 KB
+}
+
+const MAX_RESPONSE_CHARS = 1024;
+
+// POST `body` to a webhook endpoint without following redirects
+export function postToEndpoint(
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number,
+): Promise<EndpointResponse> {
+  const host = hostOf(url);
+
+  // Addresses in the URL skip the lookup
+  if (net.isIP(host) && !allowPrivateUrls() && isPrivateAddress(host)) {
+    return Promise.reject(new Error("Endpoint resolves to a private address"));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "http:" ? http : https).request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          ...headers,
+          "Content-Length": String(Buffer.byteLength(body)),
+        },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (res) => {
+        let text = "";
+
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          if (text.length < MAX_RESPONSE_CHARS) text += chunk;
+        });
+        res.on("end", () =>
+          resolve({
+            status: res.statusCode || 0,
+            body: text.slice(0, MAX_RESPONSE_CHARS),
+          }),
+        );
+        res.on("error", reject);
+      },
+    );
+
+    request.on("error", reject);
+    request.end(body);
+  });
+}
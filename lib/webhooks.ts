@@ -0,0 +1,591 @@
+import crypto from "crypto";
+
+import { after } from "next/server";
+
+import { supabaseAdmin } from "@/lib/supabase-admin";
+import {
+  isWebhookEventType,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookEventType,
+} from "@/lib/webhook-events";
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+} from "@/lib/webhook-signing";
+import { checkEndpointUrl, postToEndpoint } from "@/lib/webhook-urls";
+
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string;
+  all_affiliates: boolean;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  user_id: string;
+  payload: {
+    id: string;
+    type: WebhookEventType;
+    created_at: string;
+    data: Record<string, any>;
+  };
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  response_body: string | null;
+  redelivery_of: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+export interface WebhookEndpointInput {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  active?: boolean;
+}
+
+// An affiliate's own endpoints, or the platform endpoints admins manage
+export interface WebhookOwner {
+  userId: string;
+  platform: boolean;
+}
+
+// Thrown for requests the caller can fix (bad URL, unknown endpoint, too many endpoints)
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+// The secret is only returned when it is created or rolled
+const ENDPOINT_COLUMNS =
+  "id, user_id, all_affiliates, url, description, events, active, created_at, updated_at";
+
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
+// Attempt n waits RETRY_BASE_MS * 2^(n-1): 1, 2, 4 ... 64 minutes, about 4 hours in all
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery whose process dies is retried after this
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+// kpis.updated changes on every click; unsent ones are merged for this long
+const KPIS_BATCH_SECONDS = 60;
+
+const errorMessage = (e: any) =>
+  String(e?.message || e || "Unknown error").slice(0, 1000);
+
+// ---------------------------------------------------------------------------
+// Endpoint URLs
+// ---------------------------------------------------------------------------
+
+export function parseWebhookEndpointInput(
+  body: any,
+  partial = false,
+): { value?: WebhookEndpointInput; error?: string } {
+  const value: WebhookEndpointInput = {};
+
+  if (body?.url !== undefined || !partial) {
+    const url = String(body?.url || "").trim();
+    const invalid = url ? checkEndpointUrl(url) : "url is required";
+
+    if (invalid) return { error: invalid };
+    value.url = new URL(url).href;
+  }
+  if (body?.events !== undefined || !partial) {
+    const events = Array.isArray(body?.events)
+      ? Array.from(new Set<unknown>(body.events))
+      : [];
+
+    if (events.length === 0 || !events.every(isWebhookEventType)) {
+      return { error: "events must be a non-empty list of known events" };
+    }
+    value.events = events as WebhookEventType[];
+  }
+  if (body?.description !== undefined) {
+    const description = body.description ? String(body.description).trim() : "";
+
+    if (description.length > 200)
+      return { error: "description must be at most 200 chars" };
+    value.description = description || null;
+  }
+  if (body?.active !== undefined) value.active = !!body.active;
+
+  return { value };
+}
+
+// ---------------------------------------------------------------------------
+// Endpoints
+// ---------------------------------------------------------------------------
+
+function ownedBy(query: any, owner: WebhookOwner) {
+  return owner.platform
+    ? query.eq("all_affiliates", true)
+    : query.eq("user_id", owner.userId).eq("all_affiliates", false);
+}
+
+async function getOwnedEndpoint(
+  owner: WebhookOwner,
+  id: string,
+): Promise<WebhookEndpoint> {
+  const query = supabaseAdmin
+    .from("webhook_endpoints")
+    .select(ENDPOINT_COLUMNS)
+    .eq("id", id);
+  const { data, error } = await ownedBy(query, owner).maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new WebhookError("Webhook endpoint not found", 404);
+
+  return data as WebhookEndpoint;
+}
+
+export async function listWebhookEndpoints(
+  owner: WebhookOwner,
+): Promise<WebhookEndpoint[]> {
+  const query = supabaseAdmin
+    .from("webhook_endpoints")
+    .select(ENDPOINT_COLUMNS);
+  const { data, error } = await ownedBy(query, owner).order("created_at", {
+    ascending: true,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as WebhookEndpoint[];
+}
+
+// Returns the signing secret once; it can't be read back later, only rolled
+export async function createWebhookEndpoint(
+  owner: WebhookOwner,
+  input: WebhookEndpointInput,
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  const countQuery = supabaseAdmin
+    .from("webhook_endpoints")
+    .select("id", { count: "exact", head: true });
+  const { count, error: countErr } = await ownedBy(countQuery, owner);
+
+  if (countErr) throw countErr;
+  if ((count || 0) >= MAX_WEBHOOK_ENDPOINTS) {
+    throw new WebhookError(
+      `You can have up to ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`,
+      409,
+    );
+  }
+
+  const secret = generateWebhookSecret();
+  const { data, error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .insert({
+      user_id: owner.userId,
+      all_affiliates: owner.platform,
+      url: input.url,
+      description: input.description ?? null,
+      events: input.events,
+      secret,
+      active: input.active ?? true,
+    })
+    .select(ENDPOINT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  return { endpoint: data as WebhookEndpoint, secret };
+}
+
+export async function updateWebhookEndpoint(
+  owner: WebhookOwner,
+  id: string,
+  input: WebhookEndpointInput,
+  rollSecret = false,
+): Promise<{ endpoint: WebhookEndpoint; secret?: string }> {
+  await getOwnedEndpoint(owner, id);
+
+  const secret = rollSecret ? generateWebhookSecret() : undefined;
+  const { data, error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .update({
+      ...input,
+      ...(secret ? { secret } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select(ENDPOINT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  return { endpoint: data as WebhookEndpoint, ...(secret ? { secret } : {}) };
+}
+
+export async function deleteWebhookEndpoint(
+  owner: WebhookOwner,
+  id: string,
+): Promise<void> {
+  await getOwnedEndpoint(owner, id);
+  const { error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .delete()
+    .eq("id", id);
+
+  if (error) throw error;
+}
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+// First attempt right after the response is sent; the scheduler retries the rest
+function sendAfterResponse(deliveryIds: string[]): void {
+  const send = () =>
+    Promise.all(
+      deliveryIds.map((id) =>
+        deliverWebhook(id).catch((e) =>
+          console.error(`Webhook delivery ${id} failed:`, e),
+        ),
+      ),
+    );
+
+  try {
+    after(send);
+  } catch {
+    // Not in a request (scripts, jobs): the scheduler sends them
+  }
+}
+
+/**
+ * Queue `type` for every active endpoint subscribed to it: the affiliate's own
+ * and the platform endpoints. Never throws, so a webhook problem can't fail
+ * the change that raised the event. With `dedupeKey`, an unsent delivery for
+ * the same key is updated instead of adding another.
+ */
+export async function emitWebhookEvent(
+  type: WebhookEventType,
+  userId: string,
+  data: Record<string, any>,
+  options: { dedupeKey?: string; delaySeconds?: number } = {},
+): Promise<void> {
+  try {
+    const eventId = crypto.randomUUID();
+    const { data: rows, error } = await supabaseAdmin.rpc(
+      "enqueue_webhook_event",
+      {
+        p_event_id: eventId,
+        p_event_type: type,
+        p_user_id: userId,
+        p_payload: {
+          id: eventId,
+          type,
+          created_at: new Date().toISOString(),
+          data,
+        },
+        p_dedupe_key: options.dedupeKey ?? null,
+        p_delay_seconds: options.delaySeconds ?? 0,
+      },
+    );
+
+    if (error) throw error;
+
+    const ids = ((rows || []) as { delivery_id: string }[]).map(
+      (r) => r.delivery_id,
+    );
+
+    if (ids.length > 0 && !options.delaySeconds) sendAfterResponse(ids);
+  } catch (e) {
+    console.error(`Webhook enqueue failed (${type}):`, e);
+  }
+}
+
+// kpis.updated carries the day's totals; events for the same affiliate and day
+// are merged until the scheduler sends them
+export async function emitKpisUpdated(
+  userId: string,
+  day: string,
+): Promise<void> {
+  const { data: row, error } = await supabaseAdmin
+    .from("daily_affiliate_metrics")
+    .select("clicks, signups, customers, earnings")
+    .eq("user_id", userId)
+    .eq("day", day)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Webhook enqueue failed (kpis.updated):", error);
+
+    return;
+  }
+
+  await emitWebhookEvent(
+    "kpis.updated",
+    userId,
+    {
+      user_id: userId,
+      day,
+      clicks: Number(row?.clicks) || 0,
+      signups: Number(row?.signups) || 0,
+      customers: Number(row?.customers) || 0,
+      earnings: Number(row?.earnings) || 0,
+    },
+    { dedupeKey: `kpis:${userId}:${day}`, delaySeconds: KPIS_BATCH_SECONDS },
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+// Take a due delivery for this process. Bumping attempts is the lock (and ends
+// kpis.updated merging); the lease makes the scheduler retry it if we die.
+async function claimDelivery(id: string): Promise<WebhookDelivery | null> {
+  const { data: current, error: loadErr } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (loadErr) throw loadErr;
+  if (!current || current.status !== "pending") return null;
+  if (
+    current.next_attempt_at &&
+    new Date(current.next_attempt_at).getTime() > Date.now()
+  )
+    return null;
+
+  const now = Date.now();
+  const { data, error } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .update({
+      attempts: current.attempts + 1,
+      last_attempt_at: new Date(now).toISOString(),
+      next_attempt_at: new Date(now + CLAIM_LEASE_MS).toISOString(),
+    })
+    .eq("id", id)
+    .eq("status", "pending")
+    .eq("attempts", current.attempts)
+    .select("*")
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return (data as WebhookDelivery) || null;
+}
+
+/**
+ * Make one attempt at a due delivery. 2xx marks it succeeded; anything else
+ * schedules the next attempt with exponential backoff, or fails it after
+ * MAX_ATTEMPTS. Returns null if the delivery isn't due or another process
+ * has it.
+ */
+export async function deliverWebhook(
+  id: string,
+): Promise<WebhookDelivery | null> {
+  const delivery = await claimDelivery(id);
+
+  if (!delivery) return null;
+
+  const { data: endpoint, error: endpointErr } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .select("url, secret, active")
+    .eq("id", delivery.endpoint_id)
+    .maybeSingle();
+
+  if (endpointErr) throw endpointErr;
+
+  let statusCode: number | null = null;
+  let responseBody: string | null = null;
+  let failure: string | null = null;
+
+  if (!endpoint?.active) {
+    failure = "Endpoint is disabled";
+  } else {
+    const body = JSON.stringify(delivery.payload);
+
+    try {
+      const res = await postToEndpoint(
+        new URL(endpoint.url),
+        {
+          "Content-Type": "application/json",
+          "User-Agent": "VX-Webhooks/1.0",
+          "X-VX-Event": delivery.event_type,
+          "X-VX-Delivery": delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            endpoint.secret,
+            Math.floor(Date.now() / 1000),
+            body,
+          ),
+        },
+        body,
+        REQUEST_TIMEOUT_MS,
+      );
+
+      statusCode = res.status;
+      responseBody = res.body || null;
+      if (res.status < 200 || res.status >= 300)
+        failure = `Endpoint answered HTTP ${res.status}`;
+    } catch (e) {
+      failure = errorMessage(e);
+    }
+  }
+
+  const now = Date.now();
+  const outcome = !failure
+    ? {
+        status: "succeeded",
+        delivered_at: new Date(now).toISOString(),
+        next_attempt_at: null,
+      }
+    : delivery.attempts >= MAX_ATTEMPTS || !endpoint?.active
+      ? { status: "failed", next_attempt_at: null }
+      : {
+          next_attempt_at: new Date(
+            now + RETRY_BASE_MS * 2 ** (delivery.attempts - 1),
+          ).toISOString(),
+        };
+
+  const { data, error } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .update({
+      ...outcome,
+      last_status_code: statusCode,
+      last_error: failure,
+      response_body: responseBody,
+    })
+    .eq("id", delivery.id)
+    .select("*")
+    .single();
+
+  if (error) throw error;
+
+  return data as WebhookDelivery;
+}
+
+/**
+ * Send due deliveries (first attempts of batched events and retries) until
+ * none are left or `deadline` (epoch ms) is too close to start another
+ * request. Called by the scheduler.
+ */
+export async function deliverDueWebhooks(
+  deadline: number,
+): Promise<{ attempted: number; succeeded: number; failed: number }> {
+  const totals = { attempted: 0, succeeded: 0, failed: 0 };
+
+  while (Date.now() + REQUEST_TIMEOUT_MS < deadline) {
+    const { data: due, error } = await supabaseAdmin
+      .from("webhook_deliveries")
+      .select("id")
+      .eq("status", "pending")
+      .lte("next_attempt_at", new Date().toISOString())
+      .order("next_attempt_at", { ascending: true })
+      .limit(10);
+
+    if (error) throw error;
+    if (!due || due.length === 0) break;
+
+    const results = await Promise.allSettled(
+      due.map((d: any) => deliverWebhook(d.id)),
+    );
+    let claimed = 0;
+
+    results.forEach((result) => {
+      if (result.status === "rejected") {
+        console.error("Webhook delivery failed:", result.reason);
+
+        return;
+      }
+      if (!result.value) return;
+      claimed++;
+      totals.attempted++;
+      if (result.value.status === "succeeded") totals.succeeded++;
+      else totals.failed++;
+    });
+    // Everything due was taken by another process
+    if (claimed === 0) break;
+  }
+
+  return totals;
+}
+
+export async function listWebhookDeliveries(
+  owner: WebhookOwner,
+  endpointId: string,
+  limit = 50,
+): Promise<WebhookDelivery[]> {
+  await getOwnedEndpoint(owner, endpointId);
+  const { data, error } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("endpoint_id", endpointId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []) as WebhookDelivery[];
+}
+
+// Send a delivery's event again as a new delivery (same event id, so
+// receivers can dedupe) and make its first attempt now
+export async function redeliverWebhook(
+  owner: WebhookOwner,
+  endpointId: string,
+  deliveryId: string,
+): Promise<WebhookDelivery> {
+  await getOwnedEndpoint(owner, endpointId);
+  const { data: original, error } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("id", deliveryId)
+    .eq("endpoint_id", endpointId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!original) throw new WebhookError("Delivery not found", 404);
+  if (original.status === "pending")
+    throw new WebhookError("This delivery is still being retried", 409);
+
+  const { data: copy, error: insertErr } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .insert({
+      endpoint_id: endpointId,
+      event_id: original.event_id,
+      event_type: original.event_type,
+      user_id: original.user_id,
+      payload: original.payload,
+      redelivery_of: original.id,
+    })
+    .select("id")
+    .single();
+
+  if (insertErr) throw insertErr;
+
+  const delivered = await deliverWebhook(copy.id);
+
+  if (delivered) return delivered;
+  const { data: current, error: reloadErr } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("id", copy.id)
+    .single();
+
+  if (reloadErr) throw reloadErr;
+
+  return current as WebhookDelivery;
+}
@@ -0,0 +1,28 @@
+-- One-time migration: explode dashboard_kpis.user_reports.overview into daily_affiliate_metrics
+-- Run once in the Supabase SQL Editor after applying supabase-schema.sql.
+-- Safe to re-run: existing rows are left untouched.
+
+BEGIN;
+
+INSERT INTO daily_affiliate_metrics (user_id, day, clicks, signups, customers, earnings)
+SELECT
+    k.user_id,
+    e.key::date,
+    COALESCE(NULLIF(e.value->>'clicks', '')::numeric, 0)::integer,
+    COALESCE(NULLIF(e.value->>'signups', '')::numeric, 0)::integer,
+    COALESCE(NULLIF(e.value->>'customers', '')::numeric, 0)::integer,
+    COALESCE(NULLIF(e.value->>'earnings', '')::numeric, 0)
+FROM dashboard_kpis k
+CROSS JOIN LATERAL jsonb_each(COALESCE(k.user_reports->'overview', '{}'::jsonb)) AS e
+WHERE e.key ~ '^\d{4}-\d{2}-\d{2}$'
+  AND jsonb_typeof(e.value) = 'object'
+ON CONFLICT (user_id, day) DO NOTHING;
+
+-- Days that already have recorded /r/[code] clicks take their click count from the events
+INSERT INTO daily_affiliate_metrics (user_id, day, clicks)
+SELECT referrer_id, (clicked_at AT TIME ZONE 'America/Edmonton')::date, COUNT(*)
+FROM referral_clicks
+GROUP BY 1, 2
+ON CONFLICT (user_id, day) DO UPDATE SET clicks = EXCLUDED.clicks;
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- One-time migration: give pre-existing daily earnings a matching line item
+-- Run once after 001_daily_affiliate_metrics.sql and the commission section of supabase-schema.sql.
+-- Earnings typed into the old JSON have no conversion event behind them, so each
+-- non-zero day becomes a manual adjustment. After this, SUM(commission_line_items.amount)
+-- equals SUM(daily_affiliate_metrics.earnings) per user and day.
+-- Safe to re-run: days that already have line items are skipped.
+
+BEGIN;
+
+INSERT INTO commission_line_items (user_id, day, event_type, amount, description)
+SELECT m.user_id, m.day, 'adjustment', m.earnings, 'Opening balance (migrated from dashboard_kpis)'
+FROM daily_affiliate_metrics m
+WHERE m.earnings <> 0
+  AND NOT EXISTS (
+      SELECT 1 FROM commission_line_items li
+      WHERE li.user_id = m.user_id AND li.day = m.day
+  );
+
+COMMIT;
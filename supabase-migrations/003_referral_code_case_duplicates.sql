@@ -0,0 +1,31 @@
+-- One-time migration: make primary referral codes unique regardless of case
+-- Codes are looked up case-insensitively, but affiliate_referrers.code was only
+-- unique as typed, so "ABC123" and "abc123" could both exist and looking either up failed.
+-- Run in the Supabase SQL Editor. If it lists any codes, give all but one holder
+-- of each a new code (Admin → Users → Change referral code, so the rename is
+-- recorded) and run it again.
+-- Safe to re-run: the index is only created once there are no duplicates.
+
+-- Case-duplicate codes and who holds them, oldest holder first
+SELECT lower(code) AS code,
+       array_agg(code ORDER BY created_at) AS stored_as,
+       array_agg(user_id ORDER BY created_at) AS user_ids
+FROM affiliate_referrers
+GROUP BY lower(code)
+HAVING COUNT(*) > 1
+ORDER BY lower(code);
+
+-- Stops here while any are left, naming them in the error
+DO $$
+DECLARE
+    v_duplicates TEXT;
+BEGIN
+    SELECT string_agg(code, ', ' ORDER BY code) INTO v_duplicates
+    FROM (SELECT lower(code) AS code FROM affiliate_referrers GROUP BY lower(code) HAVING COUNT(*) > 1) d;
+    IF v_duplicates IS NOT NULL THEN
+        RAISE EXCEPTION 'Referral codes held by more than one user (ignoring case): %. Rename them first.', v_duplicates;
+    END IF;
+END;
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_affiliate_referrers_code_lower ON affiliate_referrers(lower(code));
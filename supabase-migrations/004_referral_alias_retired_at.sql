@@ -0,0 +1,12 @@
+-- One-time migration: date aliases that existed before referral_link_aliases.retired_at
+-- Run once, right after the schema first adds retired_at to a database that
+-- already had aliases. The column default stamped them with the time it was
+-- added; their grace and cooldown periods should start when they were created.
+-- NOT safe to re-run: an alias retired again later keeps its created_at, so
+-- this would move its retired_at back and free the code early.
+
+BEGIN;
+
+UPDATE referral_link_aliases SET retired_at = created_at WHERE created_at IS NOT NULL AND retired_at > created_at;
+
+COMMIT;
@@ -86,6 +86,10 @@ CREATE TABLE IF NOT EXISTS referral_events (
 CREATE INDEX IF NOT EXISTS idx_affiliate_profiles_user_id ON affiliate_profiles(user_id);
 CREATE INDEX IF NOT EXISTS idx_affiliate_referrers_user_id ON affiliate_referrers(user_id);
 CREATE INDEX IF NOT EXISTS idx_affiliate_referrers_code ON affiliate_referrers(code);
+-- Codes are looked up case-insensitively, so they must be unique that way too.
+-- On an existing database with case-duplicates this fails; see
+-- supabase-migrations/003_referral_code_case_duplicates.sql.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_affiliate_referrers_code_lower ON affiliate_referrers(lower(code));
 CREATE INDEX IF NOT EXISTS idx_approved_users_user_id ON approved_users(user_id);
 CREATE INDEX IF NOT EXISTS idx_approved_users_email ON approved_users(user_email);
 CREATE INDEX IF NOT EXISTS idx_dashboard_kpis_user_id ON dashboard_kpis(user_id);
@@ -167,4 +171,1430 @@ CREATE TRIGGER update_affiliate_assets_updated_at BEFORE UPDATE ON affiliate_ass
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_referral_events_updated_at BEFORE UPDATE ON referral_events
-    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column(); 
\ No newline at end of file
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column(); 
+
+-- ---------------------------------------------------------------------------
+-- Referral click tracking
+-- ---------------------------------------------------------------------------
+
+-- One row per hit on the public /r/[code] redirect
+CREATE TABLE IF NOT EXISTS referral_clicks (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    referrer_id UUID NOT NULL,
+    code TEXT NOT NULL,
+    clicked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    referer TEXT,
+    utm_source TEXT,
+    utm_medium TEXT,
+    utm_campaign TEXT,
+    utm_term TEXT,
+    utm_content TEXT,
+    ip_hash TEXT,
+    user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_clicks_referrer_clicked_at ON referral_clicks(referrer_id, clicked_at);
+
+ALTER TABLE referral_clicks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own referral clicks" ON referral_clicks
+    FOR SELECT USING (auth.uid() = referrer_id);
+
+
+-- ---------------------------------------------------------------------------
+-- Daily affiliate metrics (replaces dashboard_kpis.user_reports.overview)
+-- ---------------------------------------------------------------------------
+
+-- One row per user per reporting day (America/Edmonton calendar date)
+CREATE TABLE IF NOT EXISTS daily_affiliate_metrics (
+    user_id UUID NOT NULL,
+    day DATE NOT NULL,
+    clicks INTEGER NOT NULL DEFAULT 0,
+    signups INTEGER NOT NULL DEFAULT 0,
+    customers INTEGER NOT NULL DEFAULT 0,
+    earnings NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_affiliate_metrics_day ON daily_affiliate_metrics(day);
+
+ALTER TABLE daily_affiliate_metrics ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users: counters are only written server-side (clicks, conversions,
+-- commissions), so an affiliate can't inflate their own stats
+CREATE POLICY "Users can view their own daily metrics" ON daily_affiliate_metrics
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own daily metrics" ON daily_affiliate_metrics;
+DROP POLICY IF EXISTS "Users can update their own daily metrics" ON daily_affiliate_metrics;
+
+CREATE TRIGGER update_daily_affiliate_metrics_updated_at BEFORE UPDATE ON daily_affiliate_metrics
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Atomically add to a day's counters (creates the row if missing).
+-- Concurrent writers each add their delta instead of overwriting each other.
+CREATE OR REPLACE FUNCTION increment_daily_metrics(
+    p_user_id UUID,
+    p_day DATE,
+    p_clicks INTEGER DEFAULT 0,
+    p_signups INTEGER DEFAULT 0,
+    p_customers INTEGER DEFAULT 0,
+    p_earnings NUMERIC DEFAULT 0
+)
+RETURNS VOID AS $$
+    INSERT INTO daily_affiliate_metrics (user_id, day, clicks, signups, customers, earnings)
+    VALUES (p_user_id, p_day, p_clicks, p_signups, p_customers, p_earnings)
+    ON CONFLICT (user_id, day) DO UPDATE SET
+        clicks = daily_affiliate_metrics.clicks + EXCLUDED.clicks,
+        signups = daily_affiliate_metrics.signups + EXCLUDED.signups,
+        customers = daily_affiliate_metrics.customers + EXCLUDED.customers,
+        earnings = daily_affiliate_metrics.earnings + EXCLUDED.earnings;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION increment_daily_metrics(UUID, DATE, INTEGER, INTEGER, INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Overwrite selected counters for a day; NULL arguments leave the stored value alone
+CREATE OR REPLACE FUNCTION set_daily_metrics(
+    p_user_id UUID,
+    p_day DATE,
+    p_clicks INTEGER DEFAULT NULL,
+    p_signups INTEGER DEFAULT NULL,
+    p_customers INTEGER DEFAULT NULL,
+    p_earnings NUMERIC DEFAULT NULL
+)
+RETURNS VOID AS $$
+    INSERT INTO daily_affiliate_metrics (user_id, day, clicks, signups, customers, earnings)
+    VALUES (p_user_id, p_day, COALESCE(p_clicks, 0), COALESCE(p_signups, 0), COALESCE(p_customers, 0), COALESCE(p_earnings, 0))
+    ON CONFLICT (user_id, day) DO UPDATE SET
+        clicks = COALESCE(p_clicks, daily_affiliate_metrics.clicks),
+        signups = COALESCE(p_signups, daily_affiliate_metrics.signups),
+        customers = COALESCE(p_customers, daily_affiliate_metrics.customers),
+        earnings = COALESCE(p_earnings, daily_affiliate_metrics.earnings);
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION set_daily_metrics(UUID, DATE, INTEGER, INTEGER, INTEGER, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Summed KPIs for a user over an optional inclusive day range
+CREATE OR REPLACE FUNCTION daily_metrics_totals(
+    p_user_id UUID,
+    p_from DATE DEFAULT NULL,
+    p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (clicks BIGINT, signups BIGINT, customers BIGINT, earnings NUMERIC) AS $$
+    SELECT
+        COALESCE(SUM(clicks), 0),
+        COALESCE(SUM(signups), 0),
+        COALESCE(SUM(customers), 0),
+        COALESCE(SUM(earnings), 0)
+    FROM daily_affiliate_metrics
+    WHERE user_id = p_user_id
+      AND (p_from IS NULL OR day >= p_from)
+      AND (p_to IS NULL OR day <= p_to);
+$$ LANGUAGE sql STABLE;
+
+-- Takes any user id, so like the writers above it is for the service role only
+REVOKE EXECUTE ON FUNCTION daily_metrics_totals(UUID, DATE, DATE) FROM PUBLIC, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Commission rules and earnings line items
+-- ---------------------------------------------------------------------------
+
+-- Conversion details the commission calculator needs
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS event_type TEXT NOT NULL DEFAULT 'signup'
+    CHECK (event_type IN ('signup', 'customer'));
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS revenue NUMERIC(12, 2);
+
+-- Commission plans. user_id NULL is the default plan for affiliates without one.
+--   flat_per_signup:    flat_amount per signup event
+--   percent_of_revenue: percent of each customer event's revenue
+--   tiered:             percent of revenue, picked by the affiliate's customer
+--                       count in the event's calendar month; tiers is
+--                       [{ "min_customers": 0, "percent": 10 }, { "min_customers": 5, "percent": 15 }]
+CREATE TABLE IF NOT EXISTS commission_rules (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID,
+    name TEXT NOT NULL,
+    plan_type TEXT NOT NULL CHECK (plan_type IN ('flat_per_signup', 'percent_of_revenue', 'tiered')),
+    flat_amount NUMERIC(12, 2),
+    percent NUMERIC(5, 2),
+    tiers JSONB,
+    effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+    effective_to DATE,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_rules_user_id ON commission_rules(user_id, effective_from);
+
+ALTER TABLE commission_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own or default commission rules" ON commission_rules
+    FOR SELECT USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE TRIGGER update_commission_rules_updated_at BEFORE UPDATE ON commission_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Every dollar in daily_affiliate_metrics.earnings comes from a row here.
+-- referral_event_id is NULL for manual adjustments (e.g. migrated balances).
+CREATE TABLE IF NOT EXISTS commission_line_items (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL,
+    referral_event_id UUID REFERENCES referral_events(id) ON DELETE SET NULL,
+    rule_id UUID REFERENCES commission_rules(id) ON DELETE SET NULL,
+    day DATE NOT NULL,
+    event_type TEXT NOT NULL,
+    revenue NUMERIC(12, 2),
+    rate NUMERIC(12, 2),
+    amount NUMERIC(12, 2) NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One commission per conversion event, so recalculating is a no-op
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commission_line_items_event ON commission_line_items(referral_event_id)
+    WHERE referral_event_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_commission_line_items_user_day ON commission_line_items(user_id, day);
+
+ALTER TABLE commission_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own commission line items" ON commission_line_items
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- ---------------------------------------------------------------------------
+-- Payouts ledger
+-- ---------------------------------------------------------------------------
+
+-- A payout batches a user's unpaid line items for a period. Its amount is the
+-- sum of those line items; cancelling releases them for a later payout.
+CREATE TABLE IF NOT EXISTS payouts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'held', 'paid', 'cancelled')),
+    method TEXT,
+    reference TEXT,
+    notes TEXT,
+    paid_at TIMESTAMP WITH TIME ZONE,
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (period_start <= period_end)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payouts_user_id ON payouts(user_id, period_end);
+
+ALTER TABLE commission_line_items ADD COLUMN IF NOT EXISTS payout_id UUID REFERENCES payouts(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_commission_line_items_payout_id ON commission_line_items(payout_id);
+
+ALTER TABLE payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payouts" ON payouts
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_payouts_updated_at BEFORE UPDATE ON payouts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Create a payout from every unbatched line item in [p_from, p_to].
+-- Raises no_data_found when there is nothing to pay.
+CREATE OR REPLACE FUNCTION create_payout(
+    p_user_id UUID,
+    p_from DATE,
+    p_to DATE,
+    p_status TEXT DEFAULT 'pending',
+    p_method TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_created_by TEXT DEFAULT NULL
+)
+RETURNS payouts AS $$
+DECLARE
+    v_payout payouts;
+    v_amount NUMERIC;
+BEGIN
+    INSERT INTO payouts (user_id, period_start, period_end, status, method, notes, created_by)
+    VALUES (p_user_id, p_from, p_to, p_status, p_method, p_notes, p_created_by)
+    RETURNING * INTO v_payout;
+
+    UPDATE commission_line_items
+    SET payout_id = v_payout.id
+    WHERE user_id = p_user_id
+      AND payout_id IS NULL
+      AND day BETWEEN p_from AND p_to;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No unpaid earnings between % and %', p_from, p_to USING ERRCODE = 'no_data_found';
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_amount FROM commission_line_items WHERE payout_id = v_payout.id;
+
+    UPDATE payouts SET amount = v_amount WHERE id = v_payout.id RETURNING * INTO v_payout;
+    RETURN v_payout;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cancel an unpaid payout and release its line items
+CREATE OR REPLACE FUNCTION cancel_payout(p_payout_id UUID)
+RETURNS payouts AS $$
+DECLARE
+    v_payout payouts;
+BEGIN
+    UPDATE payouts SET status = 'cancelled'
+    WHERE id = p_payout_id AND status IN ('pending', 'held')
+    RETURNING * INTO v_payout;
+
+    IF v_payout.id IS NULL THEN
+        RAISE EXCEPTION 'Payout % is not pending or held', p_payout_id USING ERRCODE = 'no_data_found';
+    END IF;
+
+    UPDATE commission_line_items SET payout_id = NULL WHERE payout_id = p_payout_id;
+    RETURN v_payout;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Where a user's earnings stand: earned = paid + pending + held + unbatched
+CREATE OR REPLACE FUNCTION payout_balance(p_user_id UUID)
+RETURNS TABLE (earned NUMERIC, paid NUMERIC, pending NUMERIC, held NUMERIC, unbatched NUMERIC) AS $$
+    SELECT
+        (SELECT COALESCE(SUM(amount), 0) FROM commission_line_items WHERE user_id = p_user_id),
+        (SELECT COALESCE(SUM(amount), 0) FROM payouts WHERE user_id = p_user_id AND status = 'paid'),
+        (SELECT COALESCE(SUM(amount), 0) FROM payouts WHERE user_id = p_user_id AND status = 'pending'),
+        (SELECT COALESCE(SUM(amount), 0) FROM payouts WHERE user_id = p_user_id AND status = 'held'),
+        (SELECT COALESCE(SUM(amount), 0) FROM commission_line_items WHERE user_id = p_user_id AND payout_id IS NULL);
+$$ LANGUAGE sql STABLE;
+
+-- ---------------------------------------------------------------------------
+-- Conversion webhook ingestion
+-- ---------------------------------------------------------------------------
+
+-- Webhook-delivered events: refunds, the sender's idempotency key and the raw payload
+ALTER TABLE referral_events DROP CONSTRAINT IF EXISTS referral_events_event_type_check;
+ALTER TABLE referral_events ADD CONSTRAINT referral_events_event_type_check
+    CHECK (event_type IN ('signup', 'customer', 'refund'));
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS idempotency_key TEXT UNIQUE;
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS code TEXT;
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS occurred_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS refund_of UUID REFERENCES referral_events(id) ON DELETE SET NULL;
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS source TEXT;
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS payload JSONB;
+
+-- Insert an event and roll it into daily metrics in one transaction.
+-- A repeated idempotency key returns the existing event with duplicate = TRUE
+-- and touches nothing.
+CREATE OR REPLACE FUNCTION ingest_conversion_event(
+    p_idempotency_key TEXT,
+    p_referrer_id UUID,
+    p_code TEXT,
+    p_event_type TEXT,
+    p_agent TEXT,
+    p_email TEXT,
+    p_occurred_at TIMESTAMP WITH TIME ZONE,
+    p_day DATE,
+    p_status TEXT,
+    p_revenue NUMERIC DEFAULT NULL,
+    p_refund_of UUID DEFAULT NULL,
+    p_source TEXT DEFAULT NULL,
+    p_payload JSONB DEFAULT NULL
+)
+RETURNS TABLE (event_id UUID, duplicate BOOLEAN) AS $$
+DECLARE
+    v_id UUID;
+    v_customers INTEGER;
+BEGIN
+    INSERT INTO referral_events (
+        idempotency_key, referrer_id, code, event_type, agent, email,
+        occurred_at, date, status, revenue, refund_of, source, payload
+    )
+    VALUES (
+        p_idempotency_key, p_referrer_id, p_code, p_event_type, p_agent, p_email,
+        p_occurred_at, p_day, p_status, p_revenue, p_refund_of, p_source, p_payload
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+        SELECT id INTO v_id FROM referral_events WHERE idempotency_key = p_idempotency_key;
+        RETURN QUERY SELECT v_id, TRUE;
+        RETURN;
+    END IF;
+
+    -- A refund takes the customer back out on the day it happened, once per
+    -- original customer conversion. Refunds of unknown events or of signups,
+    -- and repeat refunds of the same original, leave the counters alone. The
+    -- original is locked so two concurrent refunds can't both count.
+    v_customers := CASE WHEN p_event_type = 'customer' THEN 1 ELSE 0 END;
+    IF p_event_type = 'refund' AND p_refund_of IS NOT NULL THEN
+        PERFORM 1 FROM referral_events WHERE id = p_refund_of AND event_type = 'customer' FOR UPDATE;
+        IF FOUND AND NOT EXISTS (
+            SELECT 1 FROM referral_events
+            WHERE refund_of = p_refund_of AND event_type = 'refund' AND id <> v_id
+        ) THEN
+            v_customers := -1;
+        END IF;
+    END IF;
+
+    PERFORM increment_daily_metrics(
+        p_referrer_id,
+        p_day,
+        0,
+        CASE WHEN p_event_type = 'signup' THEN 1 ELSE 0 END,
+        v_customers,
+        0
+    );
+
+    RETURN QUERY SELECT v_id, FALSE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ---------------------------------------------------------------------------
+-- Attribution
+-- ---------------------------------------------------------------------------
+
+-- Program-wide settings, one JSON value per key (e.g. 'attribution')
+CREATE TABLE IF NOT EXISTS program_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL DEFAULT '{}',
+    updated_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE program_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_program_settings_updated_at BEFORE UPDATE ON program_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO program_settings (key, value)
+VALUES ('attribution', '{"window_days": 30, "mode": "last_touch"}')
+ON CONFLICT (key) DO NOTHING;
+
+-- First-party visitor id from the /r redirect cookie
+ALTER TABLE referral_clicks ADD COLUMN IF NOT EXISTS visitor_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_referral_clicks_visitor_clicked_at ON referral_clicks(visitor_id, clicked_at)
+    WHERE visitor_id IS NOT NULL;
+
+-- How each conversion was credited
+--   attribution_method: first_touch | last_touch (from a click in the window) | code (fallback)
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS visitor_id TEXT;
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS attribution_method TEXT;
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS attributed_click_id UUID REFERENCES referral_clicks(id) ON DELETE SET NULL;
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS attributed_clicked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE referral_events ADD COLUMN IF NOT EXISTS attribution_window_days INTEGER;
+
+-- ingest_conversion_event gains the attribution arguments
+DROP FUNCTION IF EXISTS ingest_conversion_event(
+    TEXT, UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, DATE, TEXT, NUMERIC, UUID, TEXT, JSONB
+);
+
+CREATE OR REPLACE FUNCTION ingest_conversion_event(
+    p_idempotency_key TEXT,
+    p_referrer_id UUID,
+    p_code TEXT,
+    p_event_type TEXT,
+    p_agent TEXT,
+    p_email TEXT,
+    p_occurred_at TIMESTAMP WITH TIME ZONE,
+    p_day DATE,
+    p_status TEXT,
+    p_revenue NUMERIC DEFAULT NULL,
+    p_refund_of UUID DEFAULT NULL,
+    p_source TEXT DEFAULT NULL,
+    p_payload JSONB DEFAULT NULL,
+    p_visitor_id TEXT DEFAULT NULL,
+    p_attribution_method TEXT DEFAULT NULL,
+    p_attributed_click_id UUID DEFAULT NULL,
+    p_attributed_clicked_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_attribution_window_days INTEGER DEFAULT NULL
+)
+RETURNS TABLE (event_id UUID, duplicate BOOLEAN) AS $$
+DECLARE
+    v_id UUID;
+    v_customers INTEGER;
+BEGIN
+    INSERT INTO referral_events (
+        idempotency_key, referrer_id, code, event_type, agent, email,
+        occurred_at, date, status, revenue, refund_of, source, payload,
+        visitor_id, attribution_method, attributed_click_id, attributed_clicked_at, attribution_window_days
+    )
+    VALUES (
+        p_idempotency_key, p_referrer_id, p_code, p_event_type, p_agent, p_email,
+        p_occurred_at, p_day, p_status, p_revenue, p_refund_of, p_source, p_payload,
+        p_visitor_id, p_attribution_method, p_attributed_click_id, p_attributed_clicked_at, p_attribution_window_days
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+        SELECT id INTO v_id FROM referral_events WHERE idempotency_key = p_idempotency_key;
+        RETURN QUERY SELECT v_id, TRUE;
+        RETURN;
+    END IF;
+
+    -- A refund takes the customer back out on the day it happened, once per
+    -- original customer conversion. Refunds of unknown events or of signups,
+    -- and repeat refunds of the same original, leave the counters alone. The
+    -- original is locked so two concurrent refunds can't both count.
+    v_customers := CASE WHEN p_event_type = 'customer' THEN 1 ELSE 0 END;
+    IF p_event_type = 'refund' AND p_refund_of IS NOT NULL THEN
+        PERFORM 1 FROM referral_events WHERE id = p_refund_of AND event_type = 'customer' FOR UPDATE;
+        IF FOUND AND NOT EXISTS (
+            SELECT 1 FROM referral_events
+            WHERE refund_of = p_refund_of AND event_type = 'refund' AND id <> v_id
+        ) THEN
+            v_customers := -1;
+        END IF;
+    END IF;
+
+    PERFORM increment_daily_metrics(
+        p_referrer_id,
+        p_day,
+        0,
+        CASE WHEN p_event_type = 'signup' THEN 1 ELSE 0 END,
+        v_customers,
+        0
+    );
+
+    RETURN QUERY SELECT v_id, FALSE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ---------------------------------------------------------------------------
+-- Reversals and clawbacks
+-- ---------------------------------------------------------------------------
+
+-- Negative line items: 'reversal' (refund of the linked event) or 'clawback'
+-- (manual, with a reason). A line item can be reversed several times (a partial
+-- clawback, then a refund), but never by more than it paid.
+ALTER TABLE commission_line_items ADD COLUMN IF NOT EXISTS reverses_line_item_id UUID
+    REFERENCES commission_line_items(id) ON DELETE SET NULL;
+ALTER TABLE commission_line_items ADD COLUMN IF NOT EXISTS reason TEXT;
+ALTER TABLE commission_line_items ADD COLUMN IF NOT EXISTS created_by TEXT;
+
+DROP INDEX IF EXISTS idx_commission_line_items_reverses;
+CREATE INDEX IF NOT EXISTS idx_commission_line_items_reversed_by ON commission_line_items(reverses_line_item_id)
+    WHERE reverses_line_item_id IS NOT NULL;
+
+-- Insert a line item and add its amount to the day's earnings in one transaction,
+-- so daily_affiliate_metrics.earnings always equals the sum of the line items.
+-- A reversal is capped at what is left of the line item it reverses; the
+-- original row is locked so concurrent reversals can't both take the rest.
+-- A duplicate (the event already has its commission) or a reversal of an item
+-- with nothing left returns no row and changes nothing.
+CREATE OR REPLACE FUNCTION record_commission_line_item(p_item JSONB)
+RETURNS SETOF commission_line_items AS $$
+DECLARE
+    v_row commission_line_items;
+    v_item commission_line_items;
+    v_remaining NUMERIC;
+BEGIN
+    v_row := jsonb_populate_record(NULL::commission_line_items, p_item);
+
+    IF v_row.reverses_line_item_id IS NOT NULL THEN
+        SELECT amount INTO v_remaining
+        FROM commission_line_items
+        WHERE id = v_row.reverses_line_item_id
+        FOR UPDATE;
+
+        IF v_remaining IS NULL THEN
+            RETURN;
+        END IF;
+
+        SELECT v_remaining + COALESCE(SUM(amount), 0) INTO v_remaining
+        FROM commission_line_items
+        WHERE reverses_line_item_id = v_row.reverses_line_item_id;
+
+        IF v_remaining <= 0 THEN
+            RETURN;
+        END IF;
+        v_row.amount := -LEAST(ABS(v_row.amount), v_remaining);
+    END IF;
+
+    INSERT INTO commission_line_items (
+        user_id, referral_event_id, rule_id, day, event_type, revenue, rate, amount,
+        description, reverses_line_item_id, reason, created_by
+    )
+    VALUES (
+        v_row.user_id, v_row.referral_event_id, v_row.rule_id, v_row.day, v_row.event_type,
+        v_row.revenue, v_row.rate, v_row.amount, v_row.description, v_row.reverses_line_item_id,
+        v_row.reason, v_row.created_by
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING * INTO v_item;
+
+    IF v_item.id IS NULL THEN
+        RETURN;
+    END IF;
+
+    PERFORM increment_daily_metrics(v_item.user_id, v_item.day, 0, 0, 0, v_item.amount);
+    RETURN NEXT v_item;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_commission_line_item(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- referral_events.status gains 'refunded' for events whose commission was reversed
+
+INSERT INTO program_settings (key, value)
+VALUES ('clawback', '{"refund_window_days": 90}')
+ON CONFLICT (key) DO NOTHING;
+
+-- create_payout now refuses batches that net to zero or less (e.g. only clawbacks);
+-- those line items stay unbatched and offset the next payout
+CREATE OR REPLACE FUNCTION create_payout(
+    p_user_id UUID,
+    p_from DATE,
+    p_to DATE,
+    p_status TEXT DEFAULT 'pending',
+    p_method TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_created_by TEXT DEFAULT NULL
+)
+RETURNS payouts AS $$
+DECLARE
+    v_payout payouts;
+    v_amount NUMERIC;
+BEGIN
+    INSERT INTO payouts (user_id, period_start, period_end, status, method, notes, created_by)
+    VALUES (p_user_id, p_from, p_to, p_status, p_method, p_notes, p_created_by)
+    RETURNING * INTO v_payout;
+
+    UPDATE commission_line_items
+    SET payout_id = v_payout.id
+    WHERE user_id = p_user_id
+      AND payout_id IS NULL
+      AND day BETWEEN p_from AND p_to;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_amount FROM commission_line_items WHERE payout_id = v_payout.id;
+
+    IF v_amount <= 0 THEN
+        RAISE EXCEPTION 'No unpaid earnings between % and % (net %)', p_from, p_to, v_amount USING ERRCODE = 'no_data_found';
+    END IF;
+
+    UPDATE payouts SET amount = v_amount WHERE id = v_payout.id RETURNING * INTO v_payout;
+    RETURN v_payout;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ---------------------------------------------------------------------------
+-- Sub-ID and campaign breakdowns
+-- ---------------------------------------------------------------------------
+
+-- ?sub_id= on the referral link, free-form tag chosen by the affiliate
+ALTER TABLE referral_clicks ADD COLUMN IF NOT EXISTS sub_id TEXT;
+
+-- Clicks, signups, customers and earnings grouped by one click dimension:
+--   sub_id | campaign (utm_campaign) | source (utm_source, else the Referer host)
+-- Conversions and their line items inherit the dimension of their attributed
+-- click; conversions credited by code alone (and manual clawbacks) group under NULL.
+-- Days are America/Edmonton dates, like daily_affiliate_metrics.
+CREATE OR REPLACE FUNCTION referral_dimension_breakdown(
+    p_user_id UUID,
+    p_dimension TEXT,
+    p_from DATE DEFAULT NULL,
+    p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (key TEXT, clicks BIGINT, signups BIGINT, customers BIGINT, earnings NUMERIC) AS $$
+    WITH c AS (
+        SELECT
+            id,
+            (clicked_at AT TIME ZONE 'America/Edmonton')::DATE AS day,
+            NULLIF(CASE p_dimension
+                WHEN 'sub_id' THEN sub_id
+                WHEN 'campaign' THEN utm_campaign
+                ELSE COALESCE(utm_source, lower(substring(referer FROM '^[a-zA-Z]+://(?:www\.)?([^/:?#]+)')))
+            END, '') AS key
+        FROM referral_clicks
+        WHERE referrer_id = p_user_id
+    ),
+    ev AS (
+        SELECT e.id, e.event_type, e.date AS day, c.key
+        FROM referral_events e
+        LEFT JOIN c ON c.id = e.attributed_click_id
+        WHERE e.referrer_id = p_user_id
+    ),
+    click_totals AS (
+        SELECT key, COUNT(*) AS clicks
+        FROM c
+        WHERE (p_from IS NULL OR day >= p_from) AND (p_to IS NULL OR day <= p_to)
+        GROUP BY key
+    ),
+    event_totals AS (
+        SELECT
+            key,
+            COUNT(*) FILTER (WHERE event_type = 'signup') AS signups,
+            COUNT(*) FILTER (WHERE event_type = 'customer') - COUNT(*) FILTER (WHERE event_type = 'refund') AS customers
+        FROM ev
+        WHERE (p_from IS NULL OR day >= p_from) AND (p_to IS NULL OR day <= p_to)
+        GROUP BY key
+    ),
+    earning_totals AS (
+        SELECT ev.key, SUM(li.amount) AS earnings
+        FROM commission_line_items li
+        LEFT JOIN commission_line_items orig ON orig.id = li.reverses_line_item_id
+        LEFT JOIN ev ON ev.id = COALESCE(li.referral_event_id, orig.referral_event_id)
+        WHERE li.user_id = p_user_id
+          AND (p_from IS NULL OR li.day >= p_from) AND (p_to IS NULL OR li.day <= p_to)
+        GROUP BY ev.key
+    ),
+    keys AS (
+        SELECT key FROM click_totals
+        UNION SELECT key FROM event_totals
+        UNION SELECT key FROM earning_totals
+    )
+    SELECT
+        k.key,
+        COALESCE(ct.clicks, 0),
+        COALESCE(et.signups, 0),
+        COALESCE(et.customers, 0),
+        COALESCE(er.earnings, 0)
+    FROM keys k
+    LEFT JOIN click_totals ct ON ct.key IS NOT DISTINCT FROM k.key
+    LEFT JOIN event_totals et ON et.key IS NOT DISTINCT FROM k.key
+    LEFT JOIN earning_totals er ON er.key IS NOT DISTINCT FROM k.key
+    ORDER BY COALESCE(ct.clicks, 0) DESC, k.key;
+$$ LANGUAGE sql STABLE;
+
+-- ---------------------------------------------------------------------------
+-- Named referral links
+-- ---------------------------------------------------------------------------
+
+-- Extra links an affiliate owns next to their primary affiliate_referrers.code,
+-- e.g. "Instagram bio" or "Open house flyer". Codes are stored lowercase and are
+-- unique across links; check_referral_code_unclaimed keeps them clear of primary
+-- codes and the API keeps them clear of aliases.
+CREATE TABLE IF NOT EXISTS referral_links (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    code TEXT NOT NULL,
+    destination_url TEXT, -- NULL = REFERRAL_LANDING_URL
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referral_links_code ON referral_links(lower(code));
+CREATE INDEX IF NOT EXISTS idx_referral_links_user_id ON referral_links(user_id);
+
+ALTER TABLE referral_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own referral links" ON referral_links
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_referral_links_updated_at BEFORE UPDATE ON referral_links
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Codes retired by a rename keep redirecting to the link (or, with link_id NULL,
+-- to the user's primary code) so printed links never break
+CREATE TABLE IF NOT EXISTS referral_link_aliases (
+    code TEXT PRIMARY KEY, -- lowercase
+    user_id UUID NOT NULL,
+    link_id UUID REFERENCES referral_links(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_link_aliases_user_id ON referral_link_aliases(user_id);
+
+ALTER TABLE referral_link_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own referral link aliases" ON referral_link_aliases
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Which link a click came through (NULL = the primary code)
+ALTER TABLE referral_clicks ADD COLUMN IF NOT EXISTS link_id UUID REFERENCES referral_links(id) ON DELETE SET NULL;
+
+-- referral_dimension_breakdown gains the 'link' dimension ("Name (code)"; NULL = primary code)
+CREATE OR REPLACE FUNCTION referral_dimension_breakdown(
+    p_user_id UUID,
+    p_dimension TEXT,
+    p_from DATE DEFAULT NULL,
+    p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (key TEXT, clicks BIGINT, signups BIGINT, customers BIGINT, earnings NUMERIC) AS $$
+    WITH c AS (
+        SELECT
+            rc.id,
+            (rc.clicked_at AT TIME ZONE 'America/Edmonton')::DATE AS day,
+            NULLIF(CASE p_dimension
+                WHEN 'sub_id' THEN rc.sub_id
+                WHEN 'campaign' THEN rc.utm_campaign
+                WHEN 'link' THEN rl.name || ' (' || rl.code || ')'
+                ELSE COALESCE(rc.utm_source, lower(substring(rc.referer FROM '^[a-zA-Z]+://(?:www\.)?([^/:?#]+)')))
+            END, '') AS key
+        FROM referral_clicks rc
+        LEFT JOIN referral_links rl ON rl.id = rc.link_id
+        WHERE rc.referrer_id = p_user_id
+    ),
+    ev AS (
+        SELECT e.id, e.event_type, e.date AS day, c.key
+        FROM referral_events e
+        LEFT JOIN c ON c.id = e.attributed_click_id
+        WHERE e.referrer_id = p_user_id
+    ),
+    click_totals AS (
+        SELECT key, COUNT(*) AS clicks
+        FROM c
+        WHERE (p_from IS NULL OR day >= p_from) AND (p_to IS NULL OR day <= p_to)
+        GROUP BY key
+    ),
+    event_totals AS (
+        SELECT
+            key,
+            COUNT(*) FILTER (WHERE event_type = 'signup') AS signups,
+            COUNT(*) FILTER (WHERE event_type = 'customer') - COUNT(*) FILTER (WHERE event_type = 'refund') AS customers
+        FROM ev
+        WHERE (p_from IS NULL OR day >= p_from) AND (p_to IS NULL OR day <= p_to)
+        GROUP BY key
+    ),
+    earning_totals AS (
+        SELECT ev.key, SUM(li.amount) AS earnings
+        FROM commission_line_items li
+        LEFT JOIN commission_line_items orig ON orig.id = li.reverses_line_item_id
+        LEFT JOIN ev ON ev.id = COALESCE(li.referral_event_id, orig.referral_event_id)
+        WHERE li.user_id = p_user_id
+          AND (p_from IS NULL OR li.day >= p_from) AND (p_to IS NULL OR li.day <= p_to)
+        GROUP BY ev.key
+    ),
+    keys AS (
+        SELECT key FROM click_totals
+        UNION SELECT key FROM event_totals
+        UNION SELECT key FROM earning_totals
+    )
+    SELECT
+        k.key,
+        COALESCE(ct.clicks, 0),
+        COALESCE(et.signups, 0),
+        COALESCE(et.customers, 0),
+        COALESCE(er.earnings, 0)
+    FROM keys k
+    LEFT JOIN click_totals ct ON ct.key IS NOT DISTINCT FROM k.key
+    LEFT JOIN event_totals et ON et.key IS NOT DISTINCT FROM k.key
+    LEFT JOIN earning_totals er ON er.key IS NOT DISTINCT FROM k.key
+    ORDER BY COALESCE(ct.clicks, 0) DESC, k.key;
+$$ LANGUAGE sql STABLE;
+
+-- ---------------------------------------------------------------------------
+-- Referral code history
+-- ---------------------------------------------------------------------------
+
+-- Every rename of a primary code (link_id NULL) or a named link's code, so we
+-- can tell who held a code before. Codes are stored lowercase.
+CREATE TABLE IF NOT EXISTS referral_code_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    link_id UUID REFERENCES referral_links(id) ON DELETE SET NULL,
+    old_code TEXT NOT NULL,
+    new_code TEXT NOT NULL,
+    changed_by TEXT, -- admin email; NULL = the affiliate
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_code_history_user_id ON referral_code_history(user_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_referral_code_history_old_code ON referral_code_history(old_code);
+CREATE INDEX IF NOT EXISTS idx_referral_code_history_new_code ON referral_code_history(new_code);
+
+ALTER TABLE referral_code_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own referral code history" ON referral_code_history
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- When the alias was (last) retired. Aliases redirect for alias_grace_days and
+-- block other users from the code for reuse_cooldown_days (program_settings 'referral_codes').
+-- Aliases from before this column: supabase-migrations/004_referral_alias_retired_at.sql.
+ALTER TABLE referral_link_aliases ADD COLUMN IF NOT EXISTS retired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+INSERT INTO program_settings (key, value)
+VALUES ('referral_codes', '{"alias_grace_days": 365, "reuse_cooldown_days": 730}')
+ON CONFLICT (key) DO NOTHING;
+
+-- Primary codes and link codes share one namespace, but each table's unique
+-- index only covers itself. Every write that sets a code takes a transaction
+-- lock on the lowercased code and checks both tables, so the same code can't
+-- be claimed as a primary code and as a link code at once. A taken code
+-- raises unique_violation (23505), like the indexes do.
+CREATE OR REPLACE FUNCTION check_referral_code_unclaimed()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND lower(NEW.code) = lower(OLD.code) THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('referral_code:' || lower(NEW.code)));
+    IF EXISTS (SELECT 1 FROM affiliate_referrers WHERE lower(code) = lower(NEW.code))
+        OR EXISTS (SELECT 1 FROM referral_links WHERE lower(code) = lower(NEW.code)) THEN
+        RAISE EXCEPTION 'Referral code % is already taken', NEW.code USING ERRCODE = 'unique_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION check_referral_code_unclaimed() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS affiliate_referrers_code_unclaimed ON affiliate_referrers;
+CREATE TRIGGER affiliate_referrers_code_unclaimed BEFORE INSERT OR UPDATE OF code ON affiliate_referrers
+    FOR EACH ROW EXECUTE FUNCTION check_referral_code_unclaimed();
+
+DROP TRIGGER IF EXISTS referral_links_code_unclaimed ON referral_links;
+CREATE TRIGGER referral_links_code_unclaimed BEFORE INSERT OR UPDATE OF code ON referral_links
+    FOR EACH ROW EXECUTE FUNCTION check_referral_code_unclaimed();
+
+-- Change a user's primary code in one transaction: release an alias holding
+-- the new code, store it, and record the rename with the old code kept as an
+-- alias for the grace period. Availability (including the alias reuse
+-- cooldown) is checked by the caller; a code taken meanwhile raises
+-- unique_violation. Returns the code it replaced (NULL for a first code).
+CREATE OR REPLACE FUNCTION set_primary_referral_code(p_user_id UUID, p_code TEXT, p_changed_by TEXT DEFAULT NULL)
+RETURNS TEXT AS $$
+DECLARE
+    v_previous TEXT;
+BEGIN
+    SELECT code INTO v_previous FROM affiliate_referrers WHERE user_id = p_user_id FOR UPDATE;
+
+    DELETE FROM referral_link_aliases WHERE code = lower(p_code);
+    INSERT INTO affiliate_referrers (user_id, code) VALUES (p_user_id, p_code)
+    ON CONFLICT (user_id) DO UPDATE SET code = EXCLUDED.code;
+
+    IF v_previous IS NOT NULL AND lower(v_previous) <> lower(p_code) THEN
+        INSERT INTO referral_code_history (user_id, link_id, old_code, new_code, changed_by)
+        VALUES (p_user_id, NULL, lower(v_previous), lower(p_code), p_changed_by);
+
+        INSERT INTO referral_link_aliases (code, user_id, link_id, retired_at)
+        VALUES (lower(v_previous), p_user_id, NULL, NOW())
+        ON CONFLICT (code) DO UPDATE
+        SET user_id = EXCLUDED.user_id, link_id = NULL, retired_at = EXCLUDED.retired_at;
+    END IF;
+
+    RETURN v_previous;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION set_primary_referral_code(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Update a named link in one transaction; only the keys present in p_input
+-- (name, code, destination_url, active) change. A new code releases any alias
+-- holding it, and the old code is recorded in the history and kept as an
+-- alias to the link for the grace period. Availability (including the alias
+-- reuse cooldown) is checked by the caller; a code taken meanwhile raises
+-- unique_violation. Returns { link, previous } with the code the link had
+-- before, or NULL if the user has no such link.
+CREATE OR REPLACE FUNCTION update_referral_link(p_user_id UUID, p_id UUID, p_input JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    v_link referral_links;
+    v_previous TEXT;
+BEGIN
+    SELECT * INTO v_link FROM referral_links WHERE id = p_id AND user_id = p_user_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+    v_previous := v_link.code;
+
+    IF p_input ? 'code' AND lower(p_input->>'code') <> lower(v_previous) THEN
+        -- The same lock check_referral_code_unclaimed takes, held from here so
+        -- nobody claims the code between releasing its alias and storing it
+        PERFORM pg_advisory_xact_lock(hashtext('referral_code:' || lower(p_input->>'code')));
+        DELETE FROM referral_link_aliases WHERE code = lower(p_input->>'code');
+    END IF;
+
+    UPDATE referral_links SET
+        name = CASE WHEN p_input ? 'name' THEN p_input->>'name' ELSE name END,
+        code = CASE WHEN p_input ? 'code' THEN p_input->>'code' ELSE code END,
+        destination_url = CASE WHEN p_input ? 'destination_url' THEN p_input->>'destination_url' ELSE destination_url END,
+        active = CASE WHEN p_input ? 'active' THEN (p_input->>'active')::BOOLEAN ELSE active END
+    WHERE id = p_id
+    RETURNING * INTO v_link;
+
+    IF lower(v_link.code) <> lower(v_previous) THEN
+        INSERT INTO referral_code_history (user_id, link_id, old_code, new_code, changed_by)
+        VALUES (p_user_id, p_id, lower(v_previous), lower(v_link.code), NULL);
+
+        INSERT INTO referral_link_aliases (code, user_id, link_id, retired_at)
+        VALUES (lower(v_previous), p_user_id, p_id, NOW())
+        ON CONFLICT (code) DO UPDATE
+        SET user_id = EXCLUDED.user_id, link_id = EXCLUDED.link_id, retired_at = EXCLUDED.retired_at;
+    END IF;
+
+    RETURN jsonb_build_object('link', to_jsonb(v_link), 'previous', v_previous);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION update_referral_link(UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Admin user management
+-- ---------------------------------------------------------------------------
+
+-- approved_users.status: 'active', 'suspended' (no access until reactivated) or
+-- 'offboarded' (account data removed; the row is kept as a record).
+-- resolveUser checks the status on every request, so changes apply immediately.
+ALTER TABLE approved_users ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE approved_users ADD COLUMN IF NOT EXISTS suspended_by TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_approved_users_status ON approved_users(status);
+
+-- ---------------------------------------------------------------------------
+-- Roles
+-- ---------------------------------------------------------------------------
+
+-- Roles beyond the implicit 'affiliate': 'manager' (users, codes), 'finance'
+-- (commissions, payouts, clawbacks) and 'admin' (everything, including roles
+-- and program settings). Read into the NextAuth JWT and checked by requireRole().
+CREATE TABLE IF NOT EXISTS user_roles (
+    user_id UUID NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('affiliate', 'manager', 'admin', 'finance')),
+    granted_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, role)
+);
+
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own roles" ON user_roles
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Keep existing staff access: everyone who passed the old @virtualxposure.com check becomes admin
+INSERT INTO user_roles (user_id, role, granted_by)
+SELECT user_id, 'admin', 'migration'
+FROM approved_users
+WHERE lower(user_email) LIKE '%@virtualxposure.com'
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- ---------------------------------------------------------------------------
+-- Affiliate applications
+-- ---------------------------------------------------------------------------
+
+-- Submitted from the public /apply form. Approving provisions the affiliate
+-- (same as admin create-user) and emails a set-password link; user_id points
+-- at the account it created.
+CREATE TABLE IF NOT EXISTS affiliate_applications (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    email TEXT NOT NULL,
+    first_name TEXT NOT NULL,
+    last_name TEXT NOT NULL,
+    phone TEXT,
+    brokerage TEXT NOT NULL,
+    market TEXT NOT NULL,
+    promotion_plan TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_by TEXT,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    rejection_reason TEXT,
+    user_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One open application per email
+CREATE UNIQUE INDEX IF NOT EXISTS idx_affiliate_applications_pending_email
+    ON affiliate_applications(lower(email)) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_affiliate_applications_status ON affiliate_applications(status, created_at DESC);
+
+-- Written and read only through the service role
+ALTER TABLE affiliate_applications ENABLE ROW LEVEL SECURITY;
+
+-- ---------------------------------------------------------------------------
+-- Transactional provisioning
+-- ---------------------------------------------------------------------------
+
+-- Written by provisioning since the first admin create-user route
+ALTER TABLE dashboard_kpis ADD COLUMN IF NOT EXISTS user_referrals JSONB DEFAULT '{}';
+
+-- One row per Idempotency-Key sent to provisioning (the admin create-user form,
+-- application approvals). A succeeded key replays its stored result; a failed
+-- or abandoned one can be retried.
+CREATE TABLE IF NOT EXISTS provisioning_requests (
+    idempotency_key TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'succeeded', 'failed')),
+    user_id UUID,
+    result JSONB,
+    error TEXT,
+    requested_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Written and read only through the service role
+ALTER TABLE provisioning_requests ENABLE ROW LEVEL SECURITY;
+
+-- Exact, case-insensitive lookup of a Supabase Auth user by email; the admin
+-- API can only page through users. Service role only.
+CREATE OR REPLACE FUNCTION find_auth_user_id(p_email TEXT)
+RETURNS UUID AS $$
+    SELECT id FROM auth.users WHERE lower(email) = lower(p_email) LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION find_auth_user_id(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Every row an affiliate needs besides the Supabase Auth user, in one
+-- transaction: the next_auth.users mirror (same id), approval, profile,
+-- primary referral code and an empty KPI row. The caller has already created
+-- the auth user and deletes it again if this fails. A taken referral code
+-- raises unique_violation (23505) so the caller can pick another.
+CREATE OR REPLACE FUNCTION provision_affiliate(
+    p_user_id UUID,
+    p_email TEXT,
+    p_first_name TEXT,
+    p_last_name TEXT,
+    p_referral_code TEXT,
+    p_user_aryeo_id UUID DEFAULT NULL,
+    p_avatar_url TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL,
+    p_approved_by TEXT DEFAULT 'admin'
+)
+RETURNS TEXT AS $$
+BEGIN
+    -- A stale directory row can hold the email under an old id
+    DELETE FROM next_auth.users WHERE lower(email) = lower(p_email) AND id <> p_user_id;
+    INSERT INTO next_auth.users (id, email, name, image)
+    VALUES (p_user_id, lower(p_email), trim(p_first_name || ' ' || p_last_name), p_avatar_url)
+    ON CONFLICT (id) DO UPDATE SET email = EXCLUDED.email, name = EXCLUDED.name, image = EXCLUDED.image;
+
+    INSERT INTO approved_users (user_id, user_email, approved_by, status, notes)
+    VALUES (p_user_id, lower(p_email), p_approved_by, 'active', p_notes)
+    ON CONFLICT (user_id) DO UPDATE
+    SET approved_by = EXCLUDED.approved_by, status = 'active', notes = EXCLUDED.notes;
+
+    INSERT INTO affiliate_profiles (user_id, user_aryeo_id, user_email, first_name, last_name, avatar_url, social_links)
+    VALUES (p_user_id, COALESCE(p_user_aryeo_id, p_user_id), lower(p_email), p_first_name, p_last_name, p_avatar_url, '{}')
+    ON CONFLICT (user_id) DO NOTHING;
+
+    -- Availability (including the alias reuse cooldown) is checked by the caller;
+    -- a cooled-down alias holding the code is released here
+    DELETE FROM referral_link_aliases WHERE code = lower(p_referral_code);
+    INSERT INTO affiliate_referrers (user_id, code) VALUES (p_user_id, p_referral_code);
+
+    INSERT INTO dashboard_kpis (user_id, user_referrals, user_reports)
+    VALUES (p_user_id, '{}', '{"overview": {}, "links": {}, "sub_ids": {}, "traffic_sources": {}}')
+    ON CONFLICT (user_id) DO NOTHING;
+
+    RETURN p_referral_code;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION provision_affiliate(UUID, TEXT, TEXT, TEXT, TEXT, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Background jobs
+-- ---------------------------------------------------------------------------
+
+-- One row per job run (lib/jobs.ts). Runs work through their items (user ids)
+-- in order; last_item is the last finished one, so an interrupted run resumes
+-- after it. Scheduled runs carry a run_key (e.g. daily_reports_rollover:2026-10-18)
+-- so the scheduler enqueues each of them once; manual runs and re-runs don't.
+CREATE TABLE IF NOT EXISTS jobs (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name TEXT NOT NULL,
+    run_key TEXT UNIQUE,
+    params JSONB NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    triggered_by TEXT NOT NULL, -- 'cron' or the admin's email
+    retry_of UUID REFERENCES jobs(id),
+    total INTEGER,
+    processed INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    last_item TEXT,
+    error TEXT, -- the run itself failed (as opposed to individual items)
+    heartbeat_at TIMESTAMP WITH TIME ZONE,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_created ON jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status, created_at);
+
+-- Items that failed in a run; a re-run retries just these
+CREATE TABLE IF NOT EXISTS job_errors (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    item TEXT NOT NULL,
+    error TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (job_id, item)
+);
+
+-- Written and read only through the service role
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_errors ENABLE ROW LEVEL SECURITY;
+
+-- ---------------------------------------------------------------------------
+-- Personal access tokens
+-- ---------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES next_auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the full pat_... token
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id);
+
+-- What a token may do (lib/scopes.ts), and where it was last used. The IP is
+-- kept in the clear because only the token's owner sees it, to spot misuse.
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS scopes TEXT[];
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS last_used_ip TEXT;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS use_count BIGINT NOT NULL DEFAULT 0;
+
+-- Tokens created before scopes existed had full access; keep it
+UPDATE api_keys
+SET scopes = ARRAY['reports:read', 'profile:read', 'profile:write', 'links:read', 'links:write', 'admin:*']
+WHERE scopes IS NULL;
+
+ALTER TABLE api_keys ALTER COLUMN scopes SET DEFAULT '{}';
+ALTER TABLE api_keys ALTER COLUMN scopes SET NOT NULL;
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Called by resolveUser on every PAT request
+CREATE OR REPLACE FUNCTION touch_api_key(p_id UUID, p_ip TEXT)
+RETURNS VOID AS $$
+    UPDATE api_keys
+    SET last_used_at = NOW(), last_used_ip = p_ip, use_count = use_count + 1
+    WHERE id = p_id;
+$$ LANGUAGE sql;
+
+-- ---------------------------------------------------------------------------
+-- API rate limiting
+-- ---------------------------------------------------------------------------
+
+-- Fixed-window request counters (lib/rate-limit.ts). key is "<group>:<pat|user|ip>:<id>".
+CREATE TABLE IF NOT EXISTS rate_limits (
+    key TEXT PRIMARY KEY,
+    window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    hit_count INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Count one hit and return the window's total. A single upsert, so concurrent
+-- requests can't both see a stale count. Expired rows are pruned now and then.
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_key TEXT, p_window_seconds INTEGER)
+RETURNS TABLE (hit_count INTEGER, reset_at TIMESTAMP WITH TIME ZONE) AS $$
+#variable_conflict use_column
+BEGIN
+    IF random() < 0.001 THEN
+        DELETE FROM rate_limits WHERE window_start < NOW() - INTERVAL '1 day';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO rate_limits AS r (key, window_start, hit_count)
+    VALUES (p_key, NOW(), 1)
+    ON CONFLICT (key) DO UPDATE SET
+        window_start = CASE
+            WHEN r.window_start + make_interval(secs => p_window_seconds) <= NOW() THEN NOW()
+            ELSE r.window_start
+        END,
+        hit_count = CASE
+            WHEN r.window_start + make_interval(secs => p_window_seconds) <= NOW() THEN 1
+            ELSE r.hit_count + 1
+        END
+    RETURNING r.hit_count, r.window_start + make_interval(secs => p_window_seconds);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Outbound webhooks
+-- ---------------------------------------------------------------------------
+
+-- Endpoints that receive signed event POSTs (lib/webhooks.ts). Affiliates
+-- register endpoints for their own events; admins register platform endpoints
+-- (all_affiliates) that receive every affiliate's events.
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL, -- owner; the admin who created it for platform endpoints
+    all_affiliates BOOLEAN NOT NULL DEFAULT FALSE,
+    url TEXT NOT NULL,
+    description TEXT,
+    events TEXT[] NOT NULL,
+    secret TEXT NOT NULL, -- HMAC key for X-VX-Signature; kept in clear because we sign with it
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON webhook_endpoints(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_all_affiliates ON webhook_endpoints(all_affiliates) WHERE all_affiliates;
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+-- One row per event per endpoint, and one per redelivery. Retries update the
+-- row in place (attempts, next_attempt_at) until it succeeds or runs out.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL, -- shared by the endpoints and redeliveries of one event, for receivers to dedupe
+    event_type TEXT NOT NULL,
+    user_id UUID NOT NULL, -- the affiliate the event is about
+    payload JSONB NOT NULL,
+    dedupe_key TEXT, -- kpis.updated: merges events for the same affiliate and day until sent
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_status_code INTEGER,
+    last_error TEXT,
+    response_body TEXT, -- first 1 KB of the last response
+    redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_dedupe
+    ON webhook_deliveries(endpoint_id, dedupe_key) WHERE status = 'pending' AND attempts = 0;
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Fan an event out to the active endpoints subscribed to it. With a dedupe
+-- key, an unsent delivery for the same key takes the newer payload instead of
+-- queueing another one. Returns the deliveries created or updated.
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(
+    p_event_id UUID,
+    p_event_type TEXT,
+    p_user_id UUID,
+    p_payload JSONB,
+    p_dedupe_key TEXT DEFAULT NULL,
+    p_delay_seconds INTEGER DEFAULT 0
+)
+RETURNS TABLE (delivery_id UUID) AS $$
+    INSERT INTO webhook_deliveries AS d
+        (endpoint_id, event_id, event_type, user_id, payload, dedupe_key, next_attempt_at)
+    SELECT e.id, p_event_id, p_event_type, p_user_id, p_payload, p_dedupe_key,
+           NOW() + make_interval(secs => p_delay_seconds)
+    FROM webhook_endpoints e
+    WHERE e.active
+      AND p_event_type = ANY (e.events)
+      AND (e.user_id = p_user_id OR e.all_affiliates)
+    ON CONFLICT (endpoint_id, dedupe_key) WHERE status = 'pending' AND attempts = 0
+    DO UPDATE SET event_id = EXCLUDED.event_id, payload = EXCLUDED.payload
+    RETURNING d.id;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION enqueue_webhook_event(UUID, TEXT, UUID, JSONB, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Two-factor authentication
+-- ---------------------------------------------------------------------------
+
+-- One row per user who started or finished TOTP enrolment (lib/two-factor.ts).
+-- The secret is AES-GCM encrypted by the app; enabled_at stays NULL until the
+-- first code from the authenticator app is confirmed.
+CREATE TABLE IF NOT EXISTS user_two_factor (
+    user_id UUID PRIMARY KEY REFERENCES next_auth.users(id) ON DELETE CASCADE,
+    secret TEXT NOT NULL,
+    enabled_at TIMESTAMP WITH TIME ZONE,
+    last_used_step BIGINT, -- time step of the last accepted code, so a code can't be replayed
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE user_two_factor ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_user_two_factor_updated_at BEFORE UPDATE ON user_two_factor
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Single-use recovery codes, stored as SHA-256 hashes
+CREATE TABLE IF NOT EXISTS user_recovery_codes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES next_auth.users(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, code_hash)
+);
+
+ALTER TABLE user_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Staff roles that need 2FA before they can be used (admin setting)
+INSERT INTO program_settings (key, value)
+VALUES ('two_factor', '{"required_roles": []}')
+ON CONFLICT (key) DO NOTHING;
+
+-- ---------------------------------------------------------------------------
+-- Signed-in sessions
+-- ---------------------------------------------------------------------------
+
+-- One row per browser sign-in (lib/sessions.ts). The JWT carries the row id as
+-- "sid"; a revoked row ends that session on its next request. device and
+-- browser are parsed from the user agent at sign-in; ip is the latest seen.
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES next_auth.users(id) ON DELETE CASCADE,
+    user_agent TEXT,
+    device TEXT,
+    browser TEXT,
+    ip TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id, last_seen_at DESC);
+
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Record activity and report whether the session may still be used. last_seen_at
+-- is written at most once a minute so busy pages don't update the row per request.
+CREATE OR REPLACE FUNCTION touch_user_session(p_id UUID, p_ip TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE user_sessions
+    SET last_seen_at = NOW(), ip = COALESCE(p_ip, ip)
+    WHERE id = p_id AND revoked_at IS NULL AND last_seen_at < NOW() - INTERVAL '1 minute';
+
+    RETURN EXISTS (SELECT 1 FROM user_sessions WHERE id = p_id AND revoked_at IS NULL);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION touch_user_session(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Audit log
+-- ---------------------------------------------------------------------------
+
+-- Security-relevant account and admin actions (lib/audit.ts). Append-only: the
+-- trigger below rejects updates and deletes, and there are no foreign keys so
+-- events outlive the users they mention. changes holds a field-level diff,
+-- e.g. {"referral_code": {"from": "old", "to": "new"}}; secrets are never stored.
+CREATE TABLE IF NOT EXISTS audit_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    action TEXT NOT NULL,
+    actor_id UUID,
+    actor_email TEXT,
+    target_user_id UUID,
+    target_email TEXT,
+    ip TEXT,
+    changes JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_created ON audit_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_target ON audit_events(target_user_id, created_at DESC);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION prevent_audit_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_events_append_only BEFORE UPDATE OR DELETE ON audit_events
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_changes();
+
+CREATE TRIGGER audit_events_no_truncate BEFORE TRUNCATE ON audit_events
+    FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_event_changes();
@@ -0,0 +1,13 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// Unit tests for server code that doesn't need the database (lib/*.test.ts)
+export default defineConfig({
+  resolve: {
+    alias: { "@/": fileURLToPath(new URL("./", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["lib/**/*.test.ts"],
+  },
+});